@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import {
+  getSharedSceneStore,
+  isSharedSceneId,
+} from "@/lib/scene/sharedScenes";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const doc = isSharedSceneId(id)
+    ? await getSharedSceneStore().load(id)
+    : null;
+  if (!doc) {
+    return NextResponse.json({ error: "Scene not found" }, { status: 404 });
+  }
+  return NextResponse.json(doc);
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { serverLog } from "@/lib/debug/serverLog";
+import {
+  parseSceneDocument,
+  SceneValidationError,
+} from "@/lib/scene/sceneDocument";
+import { sharedScenePath } from "@/lib/scene/sceneShare";
+import {
+  createSharedSceneId,
+  getSharedSceneStore,
+  MAX_SHARED_SCENE_BYTES,
+} from "@/lib/scene/sharedScenes";
+
+// Store a scene document and answer with the id of its share link
+export async function POST(request: Request) {
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_SHARED_SCENE_BYTES) {
+    return NextResponse.json({ error: "Scene is too large" }, { status: 413 });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return NextResponse.json(
+      { error: "Body must be a JSON scene document" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const doc = parseSceneDocument(json);
+    const id = createSharedSceneId();
+    await getSharedSceneStore().save(id, doc);
+    return NextResponse.json(
+      { id, path: sharedScenePath(id) },
+      { status: 201 }
+    );
+  } catch (err) {
+    if (err instanceof SceneValidationError) {
+      return NextResponse.json(
+        { error: err.message, issues: err.issues },
+        { status: 400 }
+      );
+    }
+    serverLog.error("scene", "Could not store shared scene", err);
+    return NextResponse.json(
+      { error: "Could not store the scene" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import Diagnostics from "@/components/Diagnostics";
+import { requestLocale } from "@/lib/i18n/server";
+import { getTranslator } from "@/lib/i18n/translator";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const i18n = getTranslator(await requestLocale());
+  return { title: i18n.t("meta.diagnostics") };
+}
+
+export default function DiagnosticsPage() {
+  return (
+    <main className="min-h-screen bg-white">
+      <Diagnostics />
+    </main>
+  );
+}
@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import I18nProvider from "@/components/i18n/I18nProvider";
+import { requestLocale } from "@/lib/i18n/server";
+import { getTranslator } from "@/lib/i18n/translator";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,22 +15,26 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "AR Sphere Demo",
-  description: "WebXR augmented reality demo with Three.js",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const i18n = getTranslator(await requestLocale());
+  return {
+    title: i18n.t("meta.title"),
+    description: i18n.t("meta.description"),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await requestLocale();
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider initialLocale={locale}>{children}</I18nProvider>
       </body>
     </html>
   );
@@ -0,0 +1,28 @@
+import { notFound } from "next/navigation";
+import ARExperience2 from "@/components/ARExperience2";
+import {
+  getSharedSceneStore,
+  isSharedSceneId,
+} from "@/lib/scene/sharedScenes";
+
+// Opened from a share link: the scene comes with the page so it can be
+// offered as soon as a session starts
+export default async function SharedScenePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const scene = isSharedSceneId(id)
+    ? await getSharedSceneStore().load(id)
+    : null;
+  if (!scene) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen">
+      <ARExperience2 initialScene={scene} />
+    </main>
+  );
+}
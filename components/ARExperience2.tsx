@@ -1,429 +1,173 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
-import * as THREE from "three";
-
-type ARState =
-  | "idle"
-  | "checking-support"
-  | "requesting-session"
-  | "setting-up"
-  | "ready"
-  | "placing";
-
-export default function ARExperience2() {
-  // UI State
-  const [arState, setArState] = useState<ARState>("idle");
-  const [isSupported, setIsSupported] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [statusMessage, setStatusMessage] = useState("Ready to start AR");
-
-  // WebXR refs
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const sessionRef = useRef<XRSession | null>(null);
-  const hitTestSourceRef = useRef<XRHitTestSource | null>(null);
-  const viewerSpaceRef = useRef<XRReferenceSpace | null>(null);
-  const localSpaceRef = useRef<XRReferenceSpace | null>(null);
-
-  // Three.js refs
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const reticleRef = useRef<THREE.Mesh | null>(null);
-  const sphereRef = useRef<THREE.Mesh | null>(null);
-
-  // Placement state
-  const [spherePlaced, setSpherePlaced] = useState(false);
-  const anchorRef = useRef<XRAnchor | null>(null);
-
-  // 1. Feature & permission check
-  useEffect(() => {
-    setArState("checking-support");
-    setStatusMessage("Checking WebXR AR support...");
-
-    if (!("xr" in navigator) || !navigator.xr) {
-      setError("WebXR is not available in this browser");
-      setArState("idle");
-      return;
-    }
-
-    navigator.xr
-      .isSessionSupported("immersive-ar")
-      .then((supported) => {
-        setIsSupported(supported);
-        if (supported) {
-          setStatusMessage('AR is supported! Click "Start AR" to begin');
-          setArState("idle");
-        } else {
-          setError("AR is not supported on this device/browser");
-          setArState("idle");
-        }
-      })
-      .catch((err) => {
-        setError(`Error checking AR support: ${err.message}`);
-        setArState("idle");
-      });
-  }, []);
-
-  // 3. Build the 3D scene
-  const initializeScene = useCallback(() => {
-    if (!canvasRef.current) {
-      throw new Error("Canvas not available");
-    }
-
-    // Create Three.js scene
-    const scene = new THREE.Scene();
-    sceneRef.current = scene;
-
-    // Create camera (will be controlled by WebXR)
-    const camera = new THREE.PerspectiveCamera(
-      70,
-      window.innerWidth / window.innerHeight,
-      0.01,
-      20
-    );
-    cameraRef.current = camera;
-
-    // Create WebGL renderer
-    const renderer = new THREE.WebGLRenderer({
-      canvas: canvasRef.current,
-      alpha: true,
-      antialias: true,
-    });
-    renderer.setPixelRatio(window.devicePixelRatio);
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.xr.enabled = true;
-    rendererRef.current = renderer;
-
-    // Add lights
-    const hemisphereLight = new THREE.HemisphereLight(0xffffff, 0xbbbbff, 1);
-    hemisphereLight.position.set(0.5, 1, 0.25);
-    scene.add(hemisphereLight);
-
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.5);
-    directionalLight.position.set(0, 1, 0);
-    scene.add(directionalLight);
-
-    // Create reticle (hit indicator) - ring shape
-    const reticleGeometry = new THREE.RingGeometry(0.05, 0.1, 32).rotateX(
-      -Math.PI / 2
-    );
-    const reticleMaterial = new THREE.MeshBasicMaterial({
-      color: 0x00ff00,
-      transparent: true,
-      opacity: 0.8,
-      side: THREE.DoubleSide,
-    });
-    const reticle = new THREE.Mesh(reticleGeometry, reticleMaterial);
-    reticle.visible = false;
-    scene.add(reticle);
-    reticleRef.current = reticle;
-
-    // Add center dot to reticle
-    const dotGeometry = new THREE.CircleGeometry(0.02, 16).rotateX(
-      -Math.PI / 2
-    );
-    const dotMaterial = new THREE.MeshBasicMaterial({
-      color: 0x00ff00,
-      transparent: true,
-      opacity: 0.9,
-    });
-    const dot = new THREE.Mesh(dotGeometry, dotMaterial);
-    reticle.add(dot);
-
-    // Create sphere mesh (don&apos;t add to scene yet)
-    const sphereGeometry = new THREE.SphereGeometry(0.1, 32, 32);
-    const sphereMaterial = new THREE.MeshStandardMaterial({
-      color: 0xff4444,
-      metalness: 0.1,
-      roughness: 0.2,
-    });
-    const sphere = new THREE.Mesh(sphereGeometry, sphereMaterial);
-    sphereRef.current = sphere;
-
-    return { scene, camera, renderer };
-  }, []);
-
-  // 4. Reference spaces setup
-  const setupReferenceSpaces = useCallback(async (session: XRSession) => {
-    setStatusMessage("Setting up reference spaces...");
-
-    // Get viewer space (follows the camera/device)
-    const viewerSpace = await session.requestReferenceSpace("viewer");
-    viewerSpaceRef.current = viewerSpace;
-
-    // Get local space (world origin), prefer local-floor for stable tracking
-    let localSpace: XRReferenceSpace;
-    try {
-      localSpace = await session.requestReferenceSpace("local-floor");
-      setStatusMessage("Using local-floor reference space");
-    } catch (err) {
-      console.warn("local-floor not supported, falling back to local");
-      localSpace = await session.requestReferenceSpace("local");
-      setStatusMessage("Using local reference space");
-    }
-    localSpaceRef.current = localSpace;
-  }, []);
-
-  // 5. Hit-test setup
-  const setupHitTesting = useCallback(async (session: XRSession) => {
-    if (!viewerSpaceRef.current) {
-      throw new Error("Viewer space not available");
-    }
-
-    setStatusMessage("Setting up hit testing...");
-
-    if (!session.requestHitTestSource) {
-      throw new Error("Hit testing not supported");
-    }
-
-    const hitTestSource = await session.requestHitTestSource({
-      space: viewerSpaceRef.current,
-    });
-    hitTestSourceRef.current = hitTestSource;
-    setStatusMessage("Hit testing ready");
-  }, []);
-
-  // 6. Per-frame loop
-  const onXRFrame = useCallback(
-    (time: number, frame: XRFrame) => {
-      if (
-        !frame ||
-        !sessionRef.current ||
-        !rendererRef.current ||
-        !sceneRef.current
-      ) {
-        return;
-      }
-
-      const session = sessionRef.current;
-      const renderer = rendererRef.current;
-      const scene = sceneRef.current;
+import { useCallback } from "react";
+import ARCanvas from "@/components/ar/ARCanvas";
+import {
+  useARController,
+  useCapture,
+  useCollab,
+  useDepthView,
+  useEditHistory,
+  useMeasure,
+  usePhysics,
+  usePlacement,
+  useScenes,
+  useSessionRecording,
+  useTool,
+  useXRSession,
+  useXRSupport,
+} from "@/components/ar/hooks";
+import CapturePreview from "@/components/CapturePreview";
+import CollabPanel from "@/components/CollabPanel";
+import DebugPanel from "@/components/DebugPanel";
+import FrameStatsHud from "@/components/FrameStatsHud";
+import { useI18n } from "@/components/i18n/hooks";
+import MeasurePanel from "@/components/MeasurePanel";
+import ModelPicker from "@/components/ModelPicker";
+import PhysicsPanel from "@/components/PhysicsPanel";
+import PlacedObjectList from "@/components/PlacedObjectList";
+import RestorePrompt from "@/components/RestorePrompt";
+import ScenePanel from "@/components/ScenePanel";
+import ShareDialog from "@/components/ShareDialog";
+import StartScreen from "@/components/StartScreen";
+import type {
+  ModeSupport,
+  PlacementTargeting,
+  ViewMode,
+} from "@/lib/ar/ARSessionController";
+import { eventLog } from "@/lib/debug/eventLog";
+import { modelName } from "@/lib/ar/modelCatalog";
+import { DEFAULT_MAX_OBJECTS } from "@/lib/ar/objectRegistry";
+import {
+  ANGLE_SNAP_OPTIONS,
+  GRID_SNAP_OPTIONS,
+  PLACEMENT_FILTERS,
+} from "@/lib/ar/surfaces";
+import type { SceneDocument } from "@/lib/scene/sceneDocument";
+
+interface ARExperience2Props {
+  maxObjects?: number;
+  // Offered instead of the autosave when the first session starts
+  initialScene?: SceneDocument;
+}
 
-      // Get camera pose for local space
-      if (localSpaceRef.current) {
-        const pose = frame.getViewerPose(localSpaceRef.current);
-        if (pose) {
-          // Camera tracking is handled by Three.js WebXR integration
-        }
-      }
+// Assumed until the support check finished
+const UNCHECKED_SUPPORT: ModeSupport = {
+  "immersive-ar": false,
+  "immersive-vr": false,
+  inline: true,
+};
+
+// The full demo: the AR canvas with the catalog models, plus scenes,
+// collaboration, measuring, physics and recording on top
+export default function ARExperience2({
+  maxObjects = DEFAULT_MAX_OBJECTS,
+  initialScene,
+}: ARExperience2Props) {
+  return (
+    <ARCanvas maxObjects={maxObjects}>
+      <ARExperience2Overlay
+        maxObjects={maxObjects}
+        initialScene={initialScene}
+      />
+    </ARCanvas>
+  );
+}
 
-      // Perform hit testing
-      if (hitTestSourceRef.current && !spherePlaced) {
-        const hitTestResults = frame.getHitTestResults(
-          hitTestSourceRef.current
+// Composes the hooks: the session and placement, then scenes, measuring,
+// physics and collaboration on top
+function ARExperience2Overlay({
+  maxObjects,
+  initialScene,
+}: Required<Pick<ARExperience2Props, "maxObjects">> &
+  Pick<ARExperience2Props, "initialScene">) {
+  const controller = useARController();
+  const { i18n } = useI18n();
+  const support = useXRSupport() ?? UNCHECKED_SUPPORT;
+  const {
+    state: arState,
+    mode: viewMode,
+    status: statusMessage,
+    error,
+    setError,
+    isEmulated,
+    start,
+    end: endSession,
+  } = useXRSession();
+  const {
+    objects: placedObjects,
+    selectedId,
+    limitReached,
+    activeModelId,
+    modelStates,
+    setActiveModel,
+    targeting,
+    setTargeting,
+    snapping,
+    setSnapping,
+    filterId,
+    setFilter,
+    place: placeObject,
+    select: selectObject,
+    remove: deleteObject,
+    clear: clearObjects,
+  } = usePlacement();
+  const {
+    undoLabel,
+    redoLabel,
+    undo: undoEdit,
+    redo: redoEdit,
+  } = useEditHistory();
+  const {
+    capture,
+    dismiss: dismissCapture,
+    recordingClip,
+    takePhoto,
+    startClip,
+    stopClip,
+  } = useCapture();
+  const tool = useTool();
+  const measure = useMeasure();
+  const physics = usePhysics();
+  const collab = useCollab();
+  const scenes = useScenes(initialScene ?? null, setError);
+  const { recording, toggle: toggleRecording } = useSessionRecording();
+  const depthView = useDepthView();
+  const activeModel = controller.getModel(activeModelId);
+
+  const startSession = useCallback(
+    (mode: ViewMode) => {
+      if (!support[mode]) {
+        setError(
+          i18n.t("session.unsupported", { mode: i18n.t(`mode.${mode}`) })
         );
-
-        if (
-          hitTestResults.length > 0 &&
-          reticleRef.current &&
-          localSpaceRef.current
-        ) {
-          const hit = hitTestResults[0];
-          const pose = hit.getPose(localSpaceRef.current);
-
-          if (pose) {
-            // Update reticle position
-            reticleRef.current.visible = true;
-            const transform = pose.transform;
-            reticleRef.current.position.set(
-              transform.position.x,
-              transform.position.y,
-              transform.position.z
-            );
-            reticleRef.current.quaternion.set(
-              transform.orientation.x,
-              transform.orientation.y,
-              transform.orientation.z,
-              transform.orientation.w
-            );
-            setStatusMessage(`Surface found - tap to place sphere`);
-          }
-        } else if (reticleRef.current) {
-          reticleRef.current.visible = false;
-          setStatusMessage("Point camera at a flat surface");
-        }
+        return;
       }
-
-      // Render the scene
-      const camera = renderer.xr.getCamera();
-      renderer.render(scene, camera);
-
-      // Request next frame
-      session.requestAnimationFrame(onXRFrame);
+      start(mode);
     },
-    [spherePlaced]
+    [support, setError, start, i18n]
   );
 
-  // 7. Place the sphere
-  const placeSphere = useCallback(async () => {
-    if (
-      !reticleRef.current ||
-      !reticleRef.current.visible ||
-      !sphereRef.current ||
-      !sceneRef.current
-    ) {
-      setError("Cannot place sphere - no valid surface detected");
-      return;
-    }
-
-    if (!sessionRef.current || !localSpaceRef.current) {
-      setError("Cannot place sphere - session not ready");
-      return;
-    }
-
-    setArState("placing");
-    setStatusMessage("Placing sphere...");
-
-    try {
-      // Copy reticle position and rotation to sphere
-      sphereRef.current.position.copy(reticleRef.current.position);
-      sphereRef.current.quaternion.copy(reticleRef.current.quaternion);
-
-      // Add sphere to scene
-      sceneRef.current.add(sphereRef.current);
-
-      // Create anchor for stable tracking (if supported)
-      const session = sessionRef.current;
-      if ("createAnchor" in session && localSpaceRef.current) {
-        try {
-          const anchorPose = new XRRigidTransform(
-            {
-              x: sphereRef.current.position.x,
-              y: sphereRef.current.position.y,
-              z: sphereRef.current.position.z,
-              w: 1,
-            },
-            {
-              x: sphereRef.current.quaternion.x,
-              y: sphereRef.current.quaternion.y,
-              z: sphereRef.current.quaternion.z,
-              w: sphereRef.current.quaternion.w,
-            }
-          );
-
-          const anchor = await (
-            session as XRSession & {
-              createAnchor?: (
-                pose: XRRigidTransform,
-                space: XRReferenceSpace
-              ) => Promise<XRAnchor>;
-            }
-          ).createAnchor!(anchorPose, localSpaceRef.current);
-          anchorRef.current = anchor;
-          setStatusMessage("Sphere placed with anchor for stable tracking");
-        } catch (anchorError) {
-          console.warn("Could not create anchor:", anchorError);
-          setStatusMessage("Sphere placed (anchor not supported)");
-        }
-      } else {
-        setStatusMessage("Sphere placed");
-      }
-
-      // Hide reticle
-      reticleRef.current.visible = false;
-      setSpherePlaced(true);
-      setArState("ready");
-    } catch (err) {
-      setError(
-        `Failed to place sphere: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`
-      );
-      setArState("ready");
-    }
-  }, []);
-
-  // 2. Kick-off AR session
-  const startARSession = useCallback(async () => {
-    if (!isSupported) {
-      setError("AR is not supported on this device");
-      return;
-    }
-
-    setArState("requesting-session");
-    setError(null);
-    setStatusMessage("Requesting AR session...");
-
-    try {
-      // Initialize 3D scene first
-      const { renderer } = initializeScene();
-
-      // Request AR session with required features
-      const session = await navigator.xr!.requestSession("immersive-ar", {
-        requiredFeatures: ["local-floor", "hit-test"],
-        optionalFeatures: ["anchors", "dom-overlay"],
-        domOverlay: { root: document.body },
-      });
-
-      sessionRef.current = session;
-      setArState("setting-up");
-      setStatusMessage("AR session started, setting up...");
-
-      // Connect session to renderer
-      renderer.xr.setSession(session);
-
-      // Setup reference spaces
-      await setupReferenceSpaces(session);
-
-      // Setup hit testing
-      await setupHitTesting(session);
-
-      // Start the render loop
-      session.requestAnimationFrame(onXRFrame);
-
-      // Handle session end
-      session.addEventListener("end", () => {
-        setArState("idle");
-        setStatusMessage("AR session ended");
-        setSpherePlaced(false);
-        sessionRef.current = null;
-        if (anchorRef.current) {
-          anchorRef.current = null;
-        }
-        if (sphereRef.current && sceneRef.current) {
-          sceneRef.current.remove(sphereRef.current);
-        }
+  const pickModel = useCallback(
+    (id: string) => {
+      // The reason shows on the model in the picker
+      setActiveModel(id).catch(() => {
+        const model = controller.getModel(id);
+        setError(
+          i18n.t("placement.modelFailed", {
+            name: model ? modelName(model, i18n) : id,
+          })
+        );
       });
+    },
+    [controller, setActiveModel, setError, i18n]
+  );
 
-      // Listen for select events (tap/click)
-      session.addEventListener("select", placeSphere);
-
-      setArState("ready");
-      setStatusMessage("Point camera at a flat surface");
-    } catch (err) {
-      setError(
-        `Failed to start AR session: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`
-      );
-      setArState("idle");
-    }
-  }, [
-    isSupported,
-    initializeScene,
-    setupReferenceSpaces,
-    setupHitTesting,
-    onXRFrame,
-    placeSphere,
-  ]);
-
-  // 9. End session
-  const endARSession = useCallback(() => {
-    if (sessionRef.current) {
-      sessionRef.current.end();
-    }
-  }, []);
+  // Emulated AR and the inline viewer are driven with a mouse
+  const usesMouse = isEmulated || viewMode === "inline";
 
   return (
-    <div className="relative w-full h-screen bg-black">
-      {/* Canvas for WebXR rendering */}
-      <canvas
-        ref={canvasRef}
-        className={`w-full h-full ${arState === "idle" ? "hidden" : ""}`}
-      />
-
+    <>
       {/* Status overlay */}
       <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-50">
         <div className="px-4 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm">
@@ -431,6 +175,110 @@ export default function ARExperience2() {
         </div>
       </div>
 
+      {/* Emulator controls hint */}
+      {isEmulated && viewMode === "immersive-ar" && (
+        <div className="absolute top-4 left-4 z-50">
+          <div className="px-3 py-2 bg-purple-700 bg-opacity-80 text-white rounded-lg text-xs max-w-[12rem]">
+            {i18n.t("overlay.emulator")}
+          </div>
+        </div>
+      )}
+
+      {/* Session recording, the depth map debug view and the surfaces content
+          may be placed on */}
+      {viewMode === "immersive-ar" && (
+        <div
+          data-xr-ui
+          className="absolute top-4 right-4 z-50 flex flex-wrap justify-end gap-2 max-w-xl"
+        >
+          <button
+            onClick={toggleRecording}
+            aria-pressed={recording}
+            className={`px-3 py-2 rounded-lg text-sm text-white ${
+              recording ? "bg-red-600" : "bg-black bg-opacity-70"
+            }`}
+          >
+            {recording
+              ? i18n.t("overlay.stopRecording")
+              : i18n.t("overlay.record")}
+          </button>
+          {depthView.available && (
+            <button
+              onClick={depthView.toggle}
+              aria-pressed={depthView.enabled}
+              className={`px-3 py-2 rounded-lg text-sm text-white ${
+                depthView.enabled ? "bg-blue-600" : "bg-black bg-opacity-70"
+              }`}
+            >
+              {i18n.t("overlay.depthView")}
+            </button>
+          )}
+          <select
+            value={targeting}
+            onChange={(event) =>
+              setTargeting(event.target.value as PlacementTargeting)
+            }
+            aria-label={i18n.t("overlay.targeting")}
+            className="px-3 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm"
+          >
+            <option value="tap">{i18n.t("overlay.targeting.tap")}</option>
+            <option value="reticle">
+              {i18n.t("overlay.targeting.reticle")}
+            </option>
+          </select>
+          <select
+            value={filterId}
+            onChange={(event) => setFilter(event.target.value)}
+            aria-label={i18n.t("overlay.filter")}
+            className="px-3 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm"
+          >
+            {PLACEMENT_FILTERS.map((filter) => (
+              <option key={filter.id} value={filter.id}>
+                {i18n.t(filter.name)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={snapping.grid ?? ""}
+            onChange={(event) =>
+              setSnapping({
+                ...snapping,
+                grid: Number(event.target.value) || null,
+              })
+            }
+            aria-label={i18n.t("overlay.grid")}
+            className="px-3 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm"
+          >
+            {GRID_SNAP_OPTIONS.map((grid) => (
+              <option key={grid ?? "off"} value={grid ?? ""}>
+                {grid
+                  ? i18n.t("overlay.gridSize", { size: Math.round(grid * 100) })
+                  : i18n.t("overlay.noGrid")}
+              </option>
+            ))}
+          </select>
+          <select
+            value={snapping.angle ?? ""}
+            onChange={(event) =>
+              setSnapping({
+                ...snapping,
+                angle: Number(event.target.value) || null,
+              })
+            }
+            aria-label={i18n.t("overlay.rotation")}
+            className="px-3 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm"
+          >
+            {ANGLE_SNAP_OPTIONS.map((angle) => (
+              <option key={angle ?? "off"} value={angle ?? ""}>
+                {angle
+                  ? i18n.t("overlay.turn", { angle })
+                  : i18n.t("overlay.freeRotation")}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Error overlay */}
       {error && (
         <div className="absolute top-16 left-1/2 transform -translate-x-1/2 z-50">
@@ -440,82 +288,310 @@ export default function ARExperience2() {
         </div>
       )}
 
-      {/* Main UI */}
+      {/* Start screen */}
       {arState === "idle" && (
-        <div className="absolute inset-0 flex flex-col items-center justify-center p-6">
-          <div className="bg-white rounded-lg shadow-lg p-8 max-w-md text-center">
-            <h1 className="text-3xl font-bold mb-4 text-gray-900">
-              WebXR AR Demo
-            </h1>
-            <p className="text-gray-600 mb-6">
-              A sphere-on-table AR experience following WebXR best practices
-            </p>
-
-            {isSupported ? (
-              <button
-                onClick={startARSession}
-                className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
-              >
-                Start AR Experience
-              </button>
-            ) : (
-              <div>
-                <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-4">
-                  <p className="text-red-700 font-medium">AR Not Supported</p>
-                  <p className="text-red-600 text-sm mt-1">
-                    This device/browser doesn&apos;t support WebXR AR
-                  </p>
-                </div>
-
-                <div className="text-left bg-gray-50 p-4 rounded-lg">
-                  <h3 className="font-semibold text-gray-900 mb-2">
-                    Requirements:
-                  </h3>
-                  <ul className="text-sm text-gray-700 space-y-1">
-                    <li>• Chrome 81+ on Android with ARCore</li>
-                    <li>• Safari on iOS 15+ with ARKit</li>
-                    <li>• HTTPS connection (or localhost)</li>
-                    <li>• Device with AR capabilities</li>
-                  </ul>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
+        <StartScreen
+          support={support}
+          initialScene={initialScene}
+          onStart={startSession}
+        />
       )}
 
       {/* AR Controls */}
       {arState !== "idle" && (
-        <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 z-50">
+        <div
+          data-xr-ui
+          className="absolute bottom-6 left-1/2 transform -translate-x-1/2 z-50"
+        >
           <div className="flex gap-3">
-            {arState === "ready" && !spherePlaced && (
+            {arState === "ready" && tool === "measure" && (
+              <button
+                onClick={measure.addPoint}
+                className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-semibold"
+              >
+                {i18n.t("controls.addPoint")}
+              </button>
+            )}
+
+            {arState === "ready" && tool === "align" && (
               <button
-                onClick={placeSphere}
+                onClick={collab.markAlignmentPoint}
                 className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-semibold"
               >
-                Place Sphere
+                {i18n.t("controls.markPoint")}
               </button>
             )}
 
+            {arState === "ready" && tool === "place" && !limitReached && (
+              <button
+                onClick={placeObject}
+                className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-semibold"
+              >
+                {i18n.t("controls.place", {
+                  name: activeModel
+                    ? modelName(activeModel, i18n)
+                    : i18n.t("controls.object"),
+                })}
+              </button>
+            )}
+
+            {selectedId && (
+              <button
+                onClick={() => deleteObject(selectedId)}
+                className="px-6 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-semibold"
+              >
+                {i18n.t("controls.delete")}
+              </button>
+            )}
+
+            {placedObjects.length > 0 && (
+              <button
+                onClick={scenes.share}
+                disabled={scenes.sharing}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:opacity-50"
+              >
+                {scenes.sharing
+                  ? i18n.t("controls.sharing")
+                  : i18n.t("controls.share")}
+              </button>
+            )}
+
+            <button
+              onClick={takePhoto}
+              className="px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-semibold"
+            >
+              {i18n.t("controls.photo")}
+            </button>
+
+            <button
+              onClick={recordingClip ? stopClip : startClip}
+              aria-pressed={recordingClip}
+              className="px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-semibold"
+            >
+              {recordingClip
+                ? i18n.t("controls.stopClip")
+                : i18n.t("controls.clip")}
+            </button>
+
+            <button
+              onClick={measure.toggle}
+              aria-pressed={tool === "measure"}
+              className="px-6 py-3 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-semibold"
+            >
+              {tool === "measure"
+                ? i18n.t("controls.done")
+                : i18n.t("controls.measure")}
+            </button>
+
+            <button
+              onClick={() => void undoEdit()}
+              disabled={!undoLabel}
+              title={
+                undoLabel
+                  ? i18n.t("controls.undoLabel", { label: undoLabel })
+                  : undefined
+              }
+              className="px-4 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-semibold disabled:opacity-50"
+            >
+              {i18n.t("controls.undo")}
+            </button>
+
             <button
-              onClick={endARSession}
+              onClick={() => void redoEdit()}
+              disabled={!redoLabel}
+              title={
+                redoLabel
+                  ? i18n.t("controls.redoLabel", { label: redoLabel })
+                  : undefined
+              }
+              className="px-4 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors font-semibold disabled:opacity-50"
+            >
+              {i18n.t("controls.redo")}
+            </button>
+
+            <button
+              onClick={endSession}
               className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-semibold"
             >
-              End AR
+              {viewMode === "inline"
+                ? i18n.t("controls.closeViewer")
+                : viewMode === "immersive-vr"
+                  ? i18n.t("controls.exitVR")
+                  : i18n.t("controls.endAR")}
             </button>
           </div>
         </div>
       )}
 
-      {/* Instructions overlay */}
-      {arState === "ready" && !spherePlaced && (
-        <div className="absolute bottom-24 left-1/2 transform -translate-x-1/2 z-40">
-          <div className="px-4 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm text-center max-w-xs">
-            Point your camera at a flat surface like a table or floor, then tap
-            to place the sphere
+      {/* Model picker, or the measurements while measuring */}
+      {arState !== "idle" && tool === "measure" && (
+        <div
+          data-xr-ui
+          className="absolute bottom-24 left-1/2 transform -translate-x-1/2 z-50"
+        >
+          <MeasurePanel
+            measurements={measure.measurements}
+            units={measure.units}
+            onUnitsChange={measure.setUnits}
+            onUndo={measure.undo}
+            onClose={measure.close}
+            onFinish={measure.finish}
+            onClear={measure.clear}
+            onExport={measure.download}
+          />
+        </div>
+      )}
+      {arState !== "idle" && tool === "place" && (
+        <div
+          data-xr-ui
+          className="absolute bottom-24 left-1/2 transform -translate-x-1/2 z-50"
+        >
+          <ModelPicker
+            models={controller.models}
+            activeId={activeModelId}
+            loadStates={modelStates}
+            onPick={pickModel}
+          />
+        </div>
+      )}
+
+      {/* Scene save/restore and collaboration */}
+      {arState !== "idle" && (
+        <div
+          data-xr-ui
+          className="absolute top-28 left-4 z-50 flex flex-col items-start gap-2"
+        >
+          <ScenePanel
+            scenes={scenes.saved}
+            canSave={placedObjects.length > 0}
+            onSave={scenes.save}
+            onDownload={scenes.download}
+            onUpload={scenes.upload}
+            onLoad={scenes.load}
+            onDelete={scenes.remove}
+          />
+          <CollabPanel
+            joined={collab.joined}
+            connection={collab.connection}
+            peers={collab.peers}
+            alignment={collab.alignment}
+            objects={placedObjects}
+            notice={collab.notice}
+            onJoin={collab.join}
+            onLeave={collab.leave}
+            onAlign={collab.beginAlignment}
+            onCancelAlign={collab.cancelAlignment}
+          />
+        </div>
+      )}
+
+      {/* Restore prompt: the user confirms where the layout origin goes */}
+      {scenes.pending && arState === "ready" && (
+        <div
+          data-xr-ui
+          className="absolute top-28 left-1/2 transform -translate-x-1/2 z-50"
+        >
+          <RestorePrompt
+            scene={scenes.pending}
+            viewMode={viewMode}
+            onConfirm={scenes.restorePending}
+            onDismiss={scenes.dismissPending}
+          />
+        </div>
+      )}
+
+      {/* Share link and QR code */}
+      {arState !== "idle" && scenes.shareUrl && (
+        <div
+          data-xr-ui
+          className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50"
+        >
+          <ShareDialog url={scenes.shareUrl} onClose={scenes.closeShare} />
+        </div>
+      )}
+
+      {/* Last photo or clip; a clip may arrive after the session ended */}
+      {capture && (
+        <div
+          data-xr-ui
+          className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50"
+        >
+          <CapturePreview capture={capture} onClose={dismissCapture} />
+        </div>
+      )}
+
+      {/* Placed objects panel */}
+      {arState !== "idle" && (
+        <div data-xr-ui className="absolute top-28 right-4 z-50">
+          <PlacedObjectList
+            objects={placedObjects}
+            maxObjects={maxObjects}
+            selectedId={selectedId}
+            onSelect={selectObject}
+            onDelete={deleteObject}
+            onClear={clearObjects}
+          />
+        </div>
+      )}
+
+      {/* Physics mode and the selected object's material */}
+      {arState !== "idle" && (
+        <div data-xr-ui className="absolute bottom-6 right-4 z-50">
+          <PhysicsPanel
+            enabled={physics.enabled}
+            onToggle={physics.toggle}
+            material={physics.material}
+            onChange={physics.changeMaterial}
+          />
+        </div>
+      )}
+
+      {/* Frame rate, and the event log with session state and counters */}
+      <div
+        data-xr-ui
+        className="absolute bottom-6 left-4 z-50 flex flex-col items-start gap-2"
+      >
+        <FrameStatsHud store={controller.frameStats} />
+        <DebugPanel
+          log={eventLog}
+          state={{
+            state: arState,
+            mode: viewMode,
+            tool,
+            emulated: isEmulated,
+            objects: placedObjects.length,
+            selected: selectedId,
+            physics: physics.enabled,
+            recording,
+            collab: collab.joined ? collab.connection : null,
+          }}
+        />
+      </div>
+
+      {/* Manipulation hints for the selected object */}
+      {arState === "ready" && selectedId && (
+        <div className="absolute bottom-48 left-1/2 transform -translate-x-1/2 z-40">
+          <div className="px-4 py-2 bg-black bg-opacity-70 text-white rounded-lg text-xs text-center max-w-xs">
+            {usesMouse
+              ? i18n.t("hint.manipulate.mouse")
+              : i18n.t("hint.manipulate.touch")}
           </div>
         </div>
       )}
-    </div>
+
+      {/* Instructions overlay */}
+      {arState === "ready" &&
+        tool === "place" &&
+        placedObjects.length === 0 && (
+          <div className="absolute bottom-48 left-1/2 transform -translate-x-1/2 z-40">
+            <div className="px-4 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm text-center max-w-xs">
+              {viewMode === "inline"
+                ? i18n.t("hint.start.inline")
+                : i18n.t("hint.start.ar")}
+            </div>
+          </div>
+        )}
+    </>
   );
 }
+
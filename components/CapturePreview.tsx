@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/components/i18n/hooks";
+import {
+  canShareCapture,
+  downloadCapture,
+  shareCapture,
+  type Capture,
+} from "@/lib/ar/frameCapture";
+
+interface CapturePreviewProps {
+  capture: Capture;
+  onClose: () => void;
+}
+
+// Sheet showing the last photo or clip, to save or share it
+export default function CapturePreview({
+  capture,
+  onClose,
+}: CapturePreviewProps) {
+  const { i18n } = useI18n();
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(capture.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [capture]);
+
+  const canShare = canShareCapture(capture);
+
+  return (
+    <div className="w-72 bg-black bg-opacity-80 text-white rounded-lg text-sm p-3 space-y-2 text-center">
+      <p className="font-semibold">
+        {capture.kind === "photo"
+          ? i18n.t("capture.photo")
+          : i18n.t("capture.clip", {
+              seconds: Math.round(capture.duration),
+            })}
+      </p>
+      {url &&
+        (capture.kind === "photo" ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={url}
+            alt={i18n.t("capture.alt")}
+            className="mx-auto max-h-64 rounded"
+          />
+        ) : (
+          <video
+            src={url}
+            controls
+            autoPlay
+            loop
+            muted
+            playsInline
+            className="mx-auto max-h-64 rounded"
+          />
+        ))}
+      {!capture.cameraFeed && (
+        <p className="text-xs text-gray-300">
+          {i18n.t("capture.noCamera")}
+        </p>
+      )}
+      <div className="flex gap-2 justify-center">
+        <button
+          onClick={() => downloadCapture(capture)}
+          className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+        >
+          {i18n.t("common.save")}
+        </button>
+        {canShare && (
+          <button
+            onClick={() => void shareCapture(capture)}
+            className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+          >
+            {i18n.t("common.share")}
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="px-3 py-1 bg-white bg-opacity-20 rounded hover:bg-opacity-30"
+        >
+          {i18n.t("common.close")}
+        </button>
+      </div>
+    </div>
+  );
+}
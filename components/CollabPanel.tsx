@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { useI18n } from "@/components/i18n/hooks";
+import { getModelDefinition, modelName } from "@/lib/ar/modelCatalog";
+import type { PlacedObject } from "@/lib/ar/objectRegistry";
+import type { ConnectionState } from "@/lib/collab/CollabClient";
+import type { AlignmentState } from "@/lib/collab/CollabSession";
+import type { PeerPresence } from "@/lib/collab/protocol";
+import type { Translator } from "@/lib/i18n/translator";
+
+interface CollabPanelProps {
+  joined: boolean;
+  connection: ConnectionState;
+  peers: PeerPresence[];
+  alignment: AlignmentState;
+  objects: PlacedObject[];
+  notice: string | null;
+  onJoin: (room: string, name: string) => void;
+  onLeave: () => void;
+  onAlign: () => void;
+  onCancelAlign: () => void;
+}
+
+export default function CollabPanel({
+  joined,
+  connection,
+  peers,
+  alignment,
+  objects,
+  notice,
+  onJoin,
+  onLeave,
+  onAlign,
+  onCancelAlign,
+}: CollabPanelProps) {
+  const { i18n } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [room, setRoom] = useState("");
+  const [name, setName] = useState("");
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="px-3 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm"
+      >
+        {joined
+          ? i18n.t("collab.open", { count: peers.length + 1 })
+          : i18n.t("collab.title")}
+      </button>
+    );
+  }
+
+  const aligning =
+    alignment === "picking-origin" || alignment === "picking-direction";
+
+  return (
+    <div className="w-64 bg-black bg-opacity-70 text-white rounded-lg text-sm p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{i18n.t("collab.title")}</span>
+        <button
+          onClick={() => setOpen(false)}
+          aria-label={i18n.t("collab.close")}
+          className="px-2 py-1 rounded hover:bg-white hover:bg-opacity-10"
+        >
+          ✕
+        </button>
+      </div>
+
+      {!joined ? (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (room.trim()) {
+              onJoin(room.trim(), name.trim() || i18n.t("collab.guest"));
+            }
+          }}
+          className="space-y-2"
+        >
+          <input
+            value={room}
+            onChange={(event) => setRoom(event.target.value)}
+            placeholder={i18n.t("collab.room")}
+            pattern="[A-Za-z0-9_\-]+"
+            maxLength={64}
+            className="w-full px-2 py-1 rounded bg-white bg-opacity-10"
+          />
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder={i18n.t("collab.name")}
+            maxLength={32}
+            className="w-full px-2 py-1 rounded bg-white bg-opacity-10"
+          />
+          <button
+            type="submit"
+            disabled={!room.trim()}
+            className="w-full px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {i18n.t("collab.join")}
+          </button>
+        </form>
+      ) : (
+        <>
+          <p className="text-xs text-gray-300">
+            {i18n.t(`collab.connection.${connection}`)}
+          </p>
+
+          <ul className="space-y-1">
+            {peers.length === 0 && (
+              <li className="text-gray-300">{i18n.t("collab.alone")}</li>
+            )}
+            {peers.map((peer) => (
+              <li key={peer.id} className="flex items-center gap-2">
+                <span
+                  className="w-3 h-3 rounded-full shrink-0"
+                  style={{ backgroundColor: peer.color }}
+                />
+                <span className="truncate">{peer.name}</span>
+                <span className="ml-auto text-xs text-gray-300">
+                  {describeActivity(peer, objects, i18n)}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <p className="text-xs text-gray-300">
+            {i18n.t(`collab.alignment.${alignment}`)}
+          </p>
+          {notice && <p className="text-xs text-yellow-300">{notice}</p>}
+
+          <div className="flex gap-2">
+            {aligning ? (
+              <button
+                onClick={onCancelAlign}
+                className="flex-1 px-3 py-1 bg-white bg-opacity-20 rounded hover:bg-opacity-30"
+              >
+                {i18n.t("common.cancel")}
+              </button>
+            ) : (
+              <button
+                onClick={onAlign}
+                className="flex-1 px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+              >
+                {alignment === "aligned"
+                  ? i18n.t("collab.realign")
+                  : i18n.t("collab.align")}
+              </button>
+            )}
+            <button
+              onClick={onLeave}
+              className="flex-1 px-3 py-1 bg-red-600 rounded hover:bg-red-700 transition-colors"
+            >
+              {i18n.t("collab.leave")}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function describeActivity(
+  peer: PeerPresence,
+  objects: PlacedObject[],
+  i18n: Translator
+): string {
+  if (!peer.pose) {
+    return i18n.t("collab.notAligned");
+  }
+  const editing = peer.editing
+    ? objects.find((object) => object.id === peer.editing)
+    : undefined;
+  if (editing) {
+    const model = getModelDefinition(editing.type);
+    return i18n.t("collab.editing", {
+      name: model ? modelName(model, i18n) : i18n.t("collab.object"),
+    });
+  }
+  return "";
+}
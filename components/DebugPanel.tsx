@@ -0,0 +1,255 @@
+"use client";
+
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useI18n } from "@/components/i18n/hooks";
+import {
+  downloadEventLog,
+  levelRank,
+  LOG_CATEGORIES,
+  LOG_LEVELS,
+  type EventLog,
+  type LogCategory,
+  type LogLevel,
+} from "@/lib/debug/eventLog";
+
+export type DebugState = Record<string, string | number | boolean | null>;
+
+interface DebugPanelProps {
+  log: EventLog;
+  // What the app is doing right now; shown above the log and exported with it
+  state: DebugState;
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: "text-gray-400",
+  info: "text-white",
+  warn: "text-yellow-300",
+  error: "text-red-400",
+};
+
+// Counters are read this often (ms)
+const COUNTER_INTERVAL_MS = 1000;
+
+// Collapsible overlay with the live event log, for debugging on devices
+// without access to the browser console. Follows the log's throttled
+// summary: collapsed, it only re-renders when the number of problems
+// changes.
+export default function DebugPanel({ log, state }: DebugPanelProps) {
+  const { i18n } = useI18n();
+  const [open, setOpen] = useState(false);
+  // Kept while the panel is closed
+  const [filter, setFilter] = useState<LogFilter>({
+    minLevel: "info",
+    hidden: new Set(),
+  });
+  const problems = useSyncExternalStore(
+    log.summary.subscribe,
+    () => log.summary.getSnapshot().problems,
+    () => log.summary.getSnapshot().problems
+  );
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="px-3 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm"
+      >
+        {problems > 0
+          ? i18n.t("log.openProblems", { count: problems })
+          : i18n.t("log.open")}
+      </button>
+    );
+  }
+  return (
+    <LogView
+      log={log}
+      state={state}
+      filter={filter}
+      onFilterChange={setFilter}
+      onClose={() => setOpen(false)}
+    />
+  );
+}
+
+interface LogFilter {
+  minLevel: LogLevel;
+  hidden: ReadonlySet<LogCategory>;
+}
+
+function LogView({
+  log,
+  state,
+  filter,
+  onFilterChange,
+  onClose,
+}: DebugPanelProps & {
+  filter: LogFilter;
+  onFilterChange: (filter: LogFilter) => void;
+  onClose: () => void;
+}) {
+  const { i18n } = useI18n();
+  // list() keeps its array until the log changes; the summary says when
+  const entries = useSyncExternalStore(
+    log.summary.subscribe,
+    () => log.list(),
+    () => log.list()
+  );
+  const { minLevel, hidden } = filter;
+  const [counters, setCounters] = useState<Record<string, number>>({});
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Counters don't notify, so poll them while the panel is open
+  useEffect(() => {
+    setCounters(log.counters());
+    const timer = setInterval(
+      () => setCounters(log.counters()),
+      COUNTER_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [log]);
+
+  const visible = useMemo(
+    () =>
+      entries.filter(
+        (entry) =>
+          levelRank(entry.level) >= levelRank(minLevel) &&
+          !hidden.has(entry.category)
+      ),
+    [entries, minLevel, hidden]
+  );
+
+  // Follow the newest entry
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [visible]);
+
+  const toggleCategory = (category: LogCategory) => {
+    const next = new Set(hidden);
+    if (!next.delete(category)) {
+      next.add(category);
+    }
+    onFilterChange({ minLevel, hidden: next });
+  };
+
+  return (
+    <div className="w-80 max-w-[calc(100vw-2rem)] bg-black bg-opacity-80 text-white rounded-lg text-sm p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{i18n.t("log.title")}</span>
+        <button
+          onClick={onClose}
+          aria-label={i18n.t("log.close")}
+          className="px-2 py-1 rounded hover:bg-white hover:bg-opacity-10"
+        >
+          ✕
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 text-xs">
+        {Object.entries(state).map(([name, value]) => (
+          <Row key={name} name={name} value={value} />
+        ))}
+        {Object.entries(counters).map(([name, value]) => (
+          <Row key={name} name={name} value={value} />
+        ))}
+      </dl>
+
+      <div className="flex flex-wrap gap-1 text-xs">
+        <select
+          value={minLevel}
+          onChange={(event) =>
+            onFilterChange({
+              minLevel: event.target.value as LogLevel,
+              hidden,
+            })
+          }
+          aria-label={i18n.t("log.level")}
+          className="px-1 rounded bg-white bg-opacity-10"
+        >
+          {LOG_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level}+
+            </option>
+          ))}
+        </select>
+        {LOG_CATEGORIES.map((category) => (
+          <button
+            key={category}
+            onClick={() => toggleCategory(category)}
+            aria-pressed={!hidden.has(category)}
+            className={`px-2 rounded ${
+              hidden.has(category)
+                ? "bg-white bg-opacity-10 text-gray-400 line-through"
+                : "bg-blue-600"
+            }`}
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+
+      <ol
+        ref={listRef}
+        className="h-48 overflow-y-auto font-mono text-xs space-y-0.5"
+      >
+        {visible.length === 0 && (
+          <li className="text-gray-400">{i18n.t("log.empty")}</li>
+        )}
+        {visible.map((entry) => (
+          <li key={entry.seq} className={LEVEL_STYLES[entry.level]}>
+            <span className="text-gray-400">{formatTime(entry.time)}</span>{" "}
+            [{entry.category}] {entry.message}
+            {entry.data !== undefined && (
+              <span className="text-gray-400">
+                {" "}
+                {JSON.stringify(entry.data)}
+              </span>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadEventLog(log, state)}
+          className="flex-1 px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+        >
+          {i18n.t("log.export")}
+        </button>
+        <button
+          onClick={() => log.clear()}
+          className="flex-1 px-3 py-1 bg-white bg-opacity-20 rounded hover:bg-opacity-30"
+        >
+          {i18n.t("log.clear")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function Row({ name, value }: { name: string; value: DebugState[string] }) {
+  return (
+    <>
+      <dt className="text-gray-300">{name}</dt>
+      <dd className="truncate">{value === null ? "–" : String(value)}</dd>
+    </>
+  );
+}
+
+// Local wall-clock time with milliseconds
+function formatTime(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}.${pad(date.getMilliseconds(), 3)}`;
+}
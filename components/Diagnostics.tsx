@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useI18n } from "@/components/i18n/hooks";
+import LocaleSwitcher from "@/components/i18n/LocaleSwitcher";
+import {
+  downloadCapabilityReport,
+  probeModes,
+  probeSession,
+  PROBED_FEATURES,
+  withSessionProbe,
+  type CapabilityReport,
+  type FeatureStatus,
+  type ModeCapabilities,
+} from "@/lib/xr/capabilities";
+import { getXRSystem } from "@/lib/xr/xrSystem";
+
+const STATUS_STYLES: Record<FeatureStatus, string> = {
+  granted: "bg-green-100 text-green-800",
+  denied: "bg-red-100 text-red-800",
+  unknown: "bg-gray-100 text-gray-600",
+};
+
+// Probes what this browser and device support and offers the result as a
+// JSON report, to attach to bug reports
+export default function Diagnostics() {
+  const { i18n } = useI18n();
+  const [report, setReport] = useState<CapabilityReport | null>(null);
+  const [probing, setProbing] = useState<XRSessionMode | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    probeModes(getXRSystem()).then(setReport);
+  }, []);
+
+  const probe = useCallback((mode: XRSessionMode) => {
+    const xr = getXRSystem();
+    if (!xr) {
+      return;
+    }
+    setProbing(mode);
+    probeSession(xr, mode, overlayRef.current ?? undefined)
+      .then((result) =>
+        setReport((current) =>
+          current ? withSessionProbe(current, mode, result) : current
+        )
+      )
+      .finally(() => setProbing(null));
+  }, []);
+
+  if (!report) {
+    return (
+      <p className="p-6 text-gray-600">{i18n.t("diagnostics.checking")}</p>
+    );
+  }
+
+  return (
+    <div ref={overlayRef} className="max-w-3xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold text-gray-900">
+          {i18n.t("diagnostics.title")}
+        </h1>
+        <div className="flex items-center gap-2">
+          <LocaleSwitcher />
+          <button
+            onClick={() => downloadCapabilityReport(report)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+          >
+            {i18n.t("diagnostics.download")}
+          </button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="font-medium text-gray-700">WebXR</dt>
+        <dd>{report.webxr}</dd>
+        <dt className="font-medium text-gray-700">
+          {i18n.t("diagnostics.secureContext")}
+        </dt>
+        <dd>
+          {report.secureContext
+            ? i18n.t("diagnostics.secure")
+            : i18n.t("diagnostics.insecure")}
+        </dd>
+        <dt className="font-medium text-gray-700">APIs</dt>
+        <dd>
+          {Object.entries(report.apis)
+            .map(([name, present]) => `${name} ${present ? "✓" : "✗"}`)
+            .join(", ")}
+        </dd>
+        <dt className="font-medium text-gray-700">
+          {i18n.t("diagnostics.userAgent")}
+        </dt>
+        <dd className="break-all text-gray-600">{report.userAgent}</dd>
+      </dl>
+
+      {report.modes.map((entry) => (
+        <ModeSection
+          key={entry.mode}
+          entry={entry}
+          probing={probing === entry.mode}
+          disabled={probing !== null}
+          onProbe={() => probe(entry.mode)}
+        />
+      ))}
+
+      <p className="text-sm text-gray-600">{i18n.t("diagnostics.help")}</p>
+    </div>
+  );
+}
+
+function ModeSection({
+  entry,
+  probing,
+  disabled,
+  onProbe,
+}: {
+  entry: ModeCapabilities;
+  probing: boolean;
+  disabled: boolean;
+  onProbe: () => void;
+}) {
+  const { i18n } = useI18n();
+  const session = entry.session;
+  return (
+    <section className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="font-semibold text-gray-900">
+          {entry.mode}{" "}
+          <span
+            className={`ml-2 px-2 py-0.5 rounded text-xs ${
+              entry.supported ? STATUS_STYLES.granted : STATUS_STYLES.denied
+            }`}
+          >
+            {entry.supported
+              ? i18n.t("diagnostics.supported")
+              : i18n.t("diagnostics.unsupported")}
+          </span>
+        </h2>
+        {entry.supported && (
+          <button
+            onClick={onProbe}
+            disabled={disabled}
+            className="px-3 py-1 bg-gray-100 text-gray-800 rounded hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {probing
+              ? i18n.t("diagnostics.probing")
+              : session
+                ? i18n.t("diagnostics.probeAgain")
+                : i18n.t("diagnostics.probe")}
+          </button>
+        )}
+      </div>
+
+      {session?.error && (
+        <p className="text-sm text-red-700">
+          {i18n.t("diagnostics.sessionFailed", { error: session.error })}
+        </p>
+      )}
+
+      {session && !session.error && (
+        <>
+          <ul className="flex flex-wrap gap-2">
+            {PROBED_FEATURES.map((feature) => {
+              const status = session.features[feature] ?? "unknown";
+              return (
+                <li
+                  key={feature}
+                  className={`px-2 py-1 rounded text-xs ${STATUS_STYLES[status]}`}
+                >
+                  {feature}: {status}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-xs text-gray-600">
+            {[
+              session.environmentBlendMode &&
+                `blend mode ${session.environmentBlendMode}`,
+              session.interactionMode &&
+                `interaction ${session.interactionMode}`,
+              session.depthUsage &&
+                `depth ${session.depthUsage} / ${session.depthDataFormat}`,
+              session.domOverlayType && `overlay ${session.domOverlayType}`,
+              session.inputProfiles.length > 0 &&
+                `input ${session.inputProfiles.join(", ")}`,
+              !session.enabledFeaturesReported &&
+                i18n.t("diagnostics.notReported"),
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { useI18n } from "@/components/i18n/hooks";
+import type { FrameStatsStore } from "@/lib/ar/frameStore";
+
+// Below these frame rates the numbers turn yellow, then red
+const SMOOTH_FPS = 50;
+const PLAYABLE_FPS = 30;
+
+// Frame rate and frame times of the running render loop. Updates at most a
+// few times per second, whatever the frame rate.
+export default function FrameStatsHud({ store }: { store: FrameStatsStore }) {
+  const { i18n } = useI18n();
+  const stats = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot
+  );
+  if (!stats) {
+    return null;
+  }
+
+  const color =
+    stats.fps >= SMOOTH_FPS
+      ? "text-green-400"
+      : stats.fps >= PLAYABLE_FPS
+        ? "text-yellow-300"
+        : "text-red-400";
+  return (
+    <div
+      aria-label={i18n.t("stats.label")}
+      className="px-2 py-1 bg-black bg-opacity-70 rounded font-mono text-xs text-white"
+    >
+      <span className={color}>{i18n.t("stats.fps", { fps: stats.fps })}</span>{" "}
+      ·{" "}
+      {i18n.t("stats.frameTime", {
+        time: stats.frameTime,
+        worst: stats.worstFrameTime,
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useI18n } from "@/components/i18n/hooks";
+import {
+  formatArea,
+  formatLength,
+  polygonArea,
+  totalLength,
+  type Measurement,
+  type MeasurementExportFormat,
+  type UnitSystem,
+} from "@/lib/ar/measurement";
+
+interface MeasurePanelProps {
+  measurements: Measurement[];
+  units: UnitSystem;
+  onUnitsChange: (units: UnitSystem) => void;
+  onUndo: () => void;
+  onClose: () => void;
+  onFinish: () => void;
+  onClear: () => void;
+  onExport: (format: MeasurementExportFormat) => void;
+}
+
+export default function MeasurePanel({
+  measurements,
+  units,
+  onUnitsChange,
+  onUndo,
+  onClose,
+  onFinish,
+  onClear,
+  onExport,
+}: MeasurePanelProps) {
+  const { i18n } = useI18n();
+  const last = measurements[measurements.length - 1];
+  const active = last && !last.finished ? last : null;
+
+  return (
+    <div className="w-72 bg-black bg-opacity-70 text-white rounded-lg text-sm p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{i18n.t("measure.title")}</span>
+        <div className="flex rounded overflow-hidden text-xs">
+          {(["metric", "imperial"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => onUnitsChange(option)}
+              aria-pressed={units === option}
+              className={`px-2 py-1 ${
+                units === option ? "bg-blue-600" : "bg-white bg-opacity-10"
+              }`}
+            >
+              {option === "metric" ? "m" : "ft"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {measurements.length === 0 ? (
+        <p className="text-gray-300">{i18n.t("measure.help")}</p>
+      ) : (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {measurements.map((measurement) => {
+            const area = polygonArea(measurement);
+            return (
+              <li
+                key={measurement.id}
+                className={`rounded px-2 py-1 ${
+                  measurement === active
+                    ? "bg-blue-600"
+                    : "bg-white bg-opacity-10"
+                }`}
+              >
+                <span className="font-medium">
+                  {formatLength(totalLength(measurement), units, i18n)}
+                </span>
+                <span className="text-xs text-gray-300">
+                  {" "}
+                  ·{" "}
+                  {i18n.t("measure.points", {
+                    count: measurement.points.length,
+                  })}
+                  {area !== null ? ` · ${formatArea(area, units, i18n)}` : ""}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <button
+          onClick={onUndo}
+          disabled={measurements.length === 0}
+          className="px-2 py-1 bg-white bg-opacity-10 rounded disabled:opacity-50"
+        >
+          {i18n.t("controls.undo")}
+        </button>
+        <button
+          onClick={onClose}
+          disabled={!active || active.points.length < 3}
+          className="px-2 py-1 bg-white bg-opacity-10 rounded disabled:opacity-50"
+        >
+          {i18n.t("measure.closeShape")}
+        </button>
+        <button
+          onClick={onFinish}
+          disabled={!active}
+          className="px-2 py-1 bg-white bg-opacity-10 rounded disabled:opacity-50"
+        >
+          {i18n.t("measure.finish")}
+        </button>
+        <button
+          onClick={onClear}
+          disabled={measurements.length === 0}
+          className="px-2 py-1 bg-red-600 rounded hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          {i18n.t("measure.clear")}
+        </button>
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        {(["json", "csv"] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => onExport(format)}
+            disabled={measurements.length === 0}
+            className="flex-1 px-2 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {i18n.t("measure.export", { format: format.toUpperCase() })}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+/* eslint-disable @next/next/no-img-element */
+import { useI18n } from "@/components/i18n/hooks";
+import { modelName, type ModelDefinition } from "@/lib/ar/modelCatalog";
+import type { ModelLoadState } from "@/lib/ar/modelLoader";
+
+interface ModelPickerProps {
+  models: readonly ModelDefinition[];
+  activeId: string;
+  loadStates: Record<string, ModelLoadState>;
+  onPick: (id: string) => void;
+}
+
+export default function ModelPicker({
+  models,
+  activeId,
+  loadStates,
+  onPick,
+}: ModelPickerProps) {
+  const { i18n } = useI18n();
+  return (
+    <div className="flex gap-2 p-2 bg-black bg-opacity-70 rounded-lg overflow-x-auto max-w-[90vw]">
+      {models.map((model) => {
+        const state = loadStates[model.id];
+        const active = model.id === activeId;
+        const name = modelName(model, i18n);
+        return (
+          <button
+            key={model.id}
+            onClick={() => onPick(model.id)}
+            title={state?.error ?? name}
+            className={`relative flex flex-col items-center w-16 shrink-0 rounded-lg p-1 text-xs text-white transition-colors ${
+              active ? "bg-blue-600" : "bg-white bg-opacity-10 hover:bg-opacity-20"
+            }`}
+          >
+            <img
+              src={model.thumbnail}
+              alt=""
+              width={40}
+              height={40}
+              className={state?.status === "error" ? "opacity-40" : ""}
+            />
+            <span className="mt-1 truncate w-full text-center">
+              {name}
+            </span>
+
+            {state?.status === "loading" && (
+              <span className="absolute bottom-0 left-1 right-1 h-1 bg-white bg-opacity-20 rounded overflow-hidden">
+                <span
+                  className={`block h-full bg-green-400 ${
+                    state.progress === null ? "animate-pulse w-full" : ""
+                  }`}
+                  style={
+                    state.progress === null
+                      ? undefined
+                      : { width: `${Math.round(state.progress * 100)}%` }
+                  }
+                />
+              </span>
+            )}
+
+            {state?.status === "error" && (
+              <span className="absolute top-0 right-0 px-1 bg-red-600 rounded text-[10px]">
+                !
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useI18n } from "@/components/i18n/hooks";
+import { PHYSICS_LIMITS, type PhysicsMaterial } from "@/lib/ar/physics";
+import type { MessageKey } from "@/lib/i18n/translator";
+
+interface PhysicsPanelProps {
+  enabled: boolean;
+  onToggle: () => void;
+  // Selected object's material; null hides the sliders
+  material: PhysicsMaterial | null;
+  onChange: (changes: Partial<PhysicsMaterial>) => void;
+}
+
+const SLIDERS: {
+  key: keyof PhysicsMaterial;
+  label: MessageKey;
+  step: number;
+}[] = [
+  { key: "mass", label: "physics.mass", step: 0.1 },
+  { key: "restitution", label: "physics.restitution", step: 0.05 },
+  { key: "friction", label: "physics.friction", step: 0.05 },
+];
+
+export default function PhysicsPanel({
+  enabled,
+  onToggle,
+  material,
+  onChange,
+}: PhysicsPanelProps) {
+  const { i18n } = useI18n();
+  return (
+    <div className="w-56 bg-black bg-opacity-70 text-white rounded-lg text-sm p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{i18n.t("physics.title")}</span>
+        <button
+          onClick={onToggle}
+          aria-pressed={enabled}
+          className={`px-2 py-1 rounded text-xs transition-colors ${
+            enabled ? "bg-blue-600" : "bg-white bg-opacity-10"
+          }`}
+        >
+          {enabled ? i18n.t("physics.on") : i18n.t("physics.off")}
+        </button>
+      </div>
+
+      {enabled &&
+        (material ? (
+          SLIDERS.map(({ key, label, step }) => {
+            const [min, max] = PHYSICS_LIMITS[key];
+            return (
+              <label key={key} className="block text-xs">
+                <span className="flex justify-between text-gray-300">
+                  {i18n.t(label)}
+                  <span>{i18n.number(material[key], 2)}</span>
+                </span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={material[key]}
+                  onChange={(event) =>
+                    onChange({ [key]: Number(event.target.value) })
+                  }
+                  className="w-full"
+                />
+              </label>
+            );
+          })
+        ) : (
+          <p className="text-xs text-gray-300">
+            {i18n.t("physics.help")}
+          </p>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useI18n } from "@/components/i18n/hooks";
+import type { PlacedObject } from "@/lib/ar/objectRegistry";
+
+interface PlacedObjectListProps {
+  objects: PlacedObject[];
+  maxObjects: number;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+export default function PlacedObjectList({
+  objects,
+  maxObjects,
+  selectedId,
+  onSelect,
+  onDelete,
+  onClear,
+}: PlacedObjectListProps) {
+  const { i18n } = useI18n();
+  return (
+    <div className="w-64 bg-black bg-opacity-70 text-white rounded-lg text-sm p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold">
+          {i18n.t("objects.title", {
+            count: objects.length,
+            max: maxObjects,
+          })}
+        </span>
+        {objects.length > 0 && (
+          <button
+            onClick={onClear}
+            className="px-2 py-1 bg-red-600 rounded hover:bg-red-700 transition-colors text-xs"
+          >
+            {i18n.t("objects.clear")}
+          </button>
+        )}
+      </div>
+
+      {objects.length === 0 ? (
+        <p className="text-gray-300">{i18n.t("objects.empty")}</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {objects.map((entry) => {
+            const { x, y, z } = entry.object.position;
+            const selected = entry.id === selectedId;
+            return (
+              <li
+                key={entry.id}
+                className={`flex items-center gap-2 rounded px-2 py-1 ${
+                  selected ? "bg-blue-600" : "bg-white bg-opacity-10"
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(selected ? null : entry.id)}
+                  className="flex-1 text-left"
+                >
+                  <span className="block font-medium">{entry.id}</span>
+                  <span className="block text-xs text-gray-300">
+                    {i18n.t("objects.position", {
+                      x: i18n.number(x, 2),
+                      y: i18n.number(y, 2),
+                      z: i18n.number(z, 2),
+                    })}
+                    {entry.anchor ? ` · ${i18n.t("objects.anchored")}` : ""}
+                    {entry.persistentHandle
+                      ? ` · ${i18n.t("objects.savedSpot")}`
+                      : ""}
+                  </span>
+                  {entry.trackingLost && (
+                    <span className="block text-xs text-yellow-300">
+                      {i18n.t("objects.trackingLost")}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  aria-label={i18n.t("common.delete", { name: entry.id })}
+                  className="px-2 py-1 bg-red-600 rounded hover:bg-red-700 transition-colors text-xs"
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
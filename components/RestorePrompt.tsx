@@ -0,0 +1,53 @@
+"use client";
+
+import { useI18n } from "@/components/i18n/hooks";
+import type { ViewMode } from "@/lib/ar/ARSessionController";
+import type { SceneDocument } from "@/lib/scene/sceneDocument";
+
+interface RestorePromptProps {
+  scene: SceneDocument;
+  viewMode: ViewMode | null;
+  onConfirm: () => void;
+  onDismiss: () => void;
+}
+
+// Offers a saved or shared scene; the user confirms where its origin goes
+export default function RestorePrompt({
+  scene,
+  viewMode,
+  onConfirm,
+  onDismiss,
+}: RestorePromptProps) {
+  const { i18n } = useI18n();
+
+  return (
+    <div className="px-4 py-3 bg-blue-700 bg-opacity-90 text-white rounded-lg text-sm text-center max-w-xs space-y-2">
+      <p>
+        {i18n.t("restore.prompt", {
+          name: scene.metadata.name,
+          count: scene.objects.length,
+        })}{" "}
+        {viewMode === "inline"
+          ? i18n.t("restore.inline")
+          : viewMode === "immersive-ar" &&
+              scene.objects.some((object) => object.anchor)
+            ? i18n.t("restore.anchored")
+            : i18n.t("restore.origin")}
+      </p>
+      <div className="flex gap-2 justify-center">
+        <button
+          onClick={onConfirm}
+          className="px-3 py-1 bg-green-600 rounded hover:bg-green-700 transition-colors font-semibold"
+        >
+          {i18n.t("restore.confirm")}
+        </button>
+        <button
+          onClick={onDismiss}
+          className="px-3 py-1 bg-white bg-opacity-20 rounded hover:bg-opacity-30"
+        >
+          {i18n.t("restore.dismiss")}
+        </button>
+      </div>
+    </div>
+  );
+}
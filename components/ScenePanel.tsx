@@ -0,0 +1,140 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useI18n } from "@/components/i18n/hooks";
+import type { SceneSummary } from "@/lib/scene/sceneStorage";
+import { SCENE_FILE_EXTENSION } from "@/lib/scene/sceneFile";
+
+interface ScenePanelProps {
+  scenes: SceneSummary[];
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onDownload: () => void;
+  onUpload: (file: File) => void;
+  onLoad: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ScenePanel({
+  scenes,
+  canSave,
+  onSave,
+  onDownload,
+  onUpload,
+  onLoad,
+  onDelete,
+}: ScenePanelProps) {
+  const { i18n } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="px-3 py-2 bg-black bg-opacity-70 text-white rounded-lg text-sm"
+      >
+        {i18n.t("scenes.open", { count: scenes.length })}
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-64 bg-black bg-opacity-70 text-white rounded-lg text-sm p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{i18n.t("scenes.title")}</span>
+        <button
+          onClick={() => setOpen(false)}
+          aria-label={i18n.t("scenes.close")}
+          className="px-2 py-1 rounded hover:bg-white hover:bg-opacity-10"
+        >
+          ✕
+        </button>
+      </div>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          onSave(name.trim() || i18n.t("scene.untitled"));
+          setName("");
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={i18n.t("scenes.name")}
+          className="flex-1 min-w-0 px-2 py-1 rounded text-gray-900"
+        />
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-2 py-1 bg-green-600 rounded hover:bg-green-700 transition-colors disabled:opacity-50"
+        >
+          {i18n.t("common.save")}
+        </button>
+      </form>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onDownload}
+          disabled={!canSave}
+          className="flex-1 px-2 py-1 bg-white bg-opacity-10 rounded hover:bg-opacity-20 disabled:opacity-50"
+        >
+          {i18n.t("scenes.download")}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 px-2 py-1 bg-white bg-opacity-10 rounded hover:bg-opacity-20"
+        >
+          {i18n.t("scenes.upload")}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${SCENE_FILE_EXTENSION},application/json`}
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              onUpload(file);
+            }
+            event.target.value = "";
+          }}
+        />
+      </div>
+
+      {scenes.length === 0 ? (
+        <p className="text-gray-300">{i18n.t("scenes.empty")}</p>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {scenes.map((scene) => (
+            <li
+              key={scene.id}
+              className="flex items-center gap-2 rounded px-2 py-1 bg-white bg-opacity-10"
+            >
+              <button
+                onClick={() => onLoad(scene.id)}
+                className="flex-1 text-left"
+              >
+                <span className="block font-medium">{scene.name}</span>
+                <span className="block text-xs text-gray-300">
+                  {i18n.t("scenes.objects", { count: scene.objectCount })} ·{" "}
+                  {i18n.date(scene.updatedAt)}
+                </span>
+              </button>
+              <button
+                onClick={() => onDelete(scene.id)}
+                aria-label={i18n.t("common.delete", { name: scene.name })}
+                className="px-2 py-1 bg-red-600 rounded hover:bg-red-700 transition-colors text-xs"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
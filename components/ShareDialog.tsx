@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { useI18n } from "@/components/i18n/hooks";
+import { eventLog } from "@/lib/debug/eventLog";
+
+interface ShareDialogProps {
+  url: string;
+  onClose: () => void;
+}
+
+// Link to a shared scene, with a QR code so another phone can open it
+export default function ShareDialog({ url, onClose }: ShareDialogProps) {
+  const { i18n } = useI18n();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(url, { margin: 1, width: 200 })
+      .then((data) => {
+        if (!cancelled) {
+          setQrCode(data);
+        }
+      })
+      .catch((err) => eventLog.warn("scene", "Could not render QR code", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const copy = () => {
+    navigator.clipboard
+      .writeText(url)
+      .then(() => setCopied(true))
+      .catch((err) => eventLog.warn("scene", "Could not copy link", err));
+  };
+
+  const canShare = typeof navigator !== "undefined" && "share" in navigator;
+
+  return (
+    <div className="w-64 bg-black bg-opacity-80 text-white rounded-lg text-sm p-3 space-y-2 text-center">
+      <p className="font-semibold">{i18n.t("share.title")}</p>
+      {qrCode ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={qrCode}
+          alt={i18n.t("share.qrCode")}
+          width={200}
+          height={200}
+          className="mx-auto rounded bg-white"
+        />
+      ) : (
+        <div className="w-[200px] h-[200px] mx-auto rounded bg-white bg-opacity-10" />
+      )}
+      <input
+        readOnly
+        value={url}
+        onFocus={(event) => event.target.select()}
+        className="w-full px-2 py-1 rounded bg-white bg-opacity-10 text-xs"
+      />
+      <div className="flex gap-2 justify-center">
+        <button
+          onClick={copy}
+          className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+        >
+          {copied ? i18n.t("share.copied") : i18n.t("share.copy")}
+        </button>
+        {canShare && (
+          <button
+            onClick={() =>
+              navigator.share({ url }).catch(() => {
+                // Dismissing the share sheet rejects too
+              })
+            }
+            className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+          >
+            {i18n.t("common.share")}
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="px-3 py-1 bg-white bg-opacity-20 rounded hover:bg-opacity-30"
+        >
+          {i18n.t("common.close")}
+        </button>
+      </div>
+    </div>
+  );
+}
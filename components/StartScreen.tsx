@@ -0,0 +1,109 @@
+"use client";
+
+import { useI18n } from "@/components/i18n/hooks";
+import LocaleSwitcher from "@/components/i18n/LocaleSwitcher";
+import type { ModeSupport, ViewMode } from "@/lib/ar/ARSessionController";
+import type { SceneDocument } from "@/lib/scene/sceneDocument";
+
+interface StartScreenProps {
+  support: ModeSupport;
+  // A shared scene the first session will offer
+  initialScene?: SceneDocument;
+  onStart: (mode: ViewMode) => void;
+}
+
+// Shown between sessions: the modes this device offers, or what AR needs
+export default function StartScreen({
+  support,
+  initialScene,
+  onStart,
+}: StartScreenProps) {
+  const { i18n } = useI18n();
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center p-6">
+      <div className="bg-white rounded-lg shadow-lg p-8 max-w-md text-center">
+        <div className="flex justify-end mb-2">
+          <LocaleSwitcher />
+        </div>
+        <h1 className="text-3xl font-bold mb-4 text-gray-900">
+          {i18n.t("idle.title")}
+        </h1>
+        <p className="text-gray-600 mb-6">{i18n.t("idle.tagline")}</p>
+
+        {initialScene && (
+          <p className="mb-6 px-4 py-2 bg-blue-50 text-blue-800 rounded-lg text-sm">
+            {i18n.t("idle.sharedScene", {
+              name: initialScene.metadata.name,
+              count: initialScene.objects.length,
+            })}
+          </p>
+        )}
+
+        {support["immersive-ar"] ? (
+          <div className="space-y-3">
+            <button
+              onClick={() => onStart("immersive-ar")}
+              className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+            >
+              {i18n.t("idle.startAR")}
+            </button>
+            <button
+              onClick={() => onStart("inline")}
+              className="w-full px-6 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              {i18n.t("idle.openViewer")}
+            </button>
+          </div>
+        ) : (
+          <div>
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-4">
+              <p className="text-red-700 font-medium">
+                {i18n.t("idle.arUnsupported")}
+              </p>
+              <p className="text-red-600 text-sm mt-1">
+                {i18n.t("idle.arUnsupportedDetail")}
+              </p>
+            </div>
+
+            <div className="space-y-3 mb-4">
+              <button
+                onClick={() => onStart("inline")}
+                className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+              >
+                {i18n.t("idle.openViewer")}
+              </button>
+              {support["immersive-vr"] && (
+                <button
+                  onClick={() => onStart("immersive-vr")}
+                  className="w-full px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-semibold"
+                >
+                  {i18n.t("idle.enterVR")}
+                </button>
+              )}
+            </div>
+
+            <div className="text-left bg-gray-50 p-4 rounded-lg">
+              <h3 className="font-semibold text-gray-900 mb-2">
+                {i18n.t("idle.requirements")}
+              </h3>
+              <ul className="text-sm text-gray-700 space-y-1">
+                <li>• {i18n.t("idle.requirement.android")}</li>
+                <li>• {i18n.t("idle.requirement.ios")}</li>
+                <li>• {i18n.t("idle.requirement.https")}</li>
+                <li>• {i18n.t("idle.requirement.device")}</li>
+              </ul>
+            </div>
+          </div>
+        )}
+
+        <a
+          href="/diagnostics"
+          className="inline-block mt-4 text-sm text-blue-600 hover:underline"
+        >
+          {i18n.t("idle.diagnostics")}
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { ARContext, type ARContextValue } from "@/components/ar/hooks";
+import { useI18n } from "@/components/i18n/hooks";
+import {
+  ARSessionController,
+  createWebGLRenderer,
+  type PlacementTargeting,
+} from "@/lib/ar/ARSessionController";
+import { GestureController } from "@/lib/ar/gestures";
+import type { ModelDefinition } from "@/lib/ar/modelCatalog";
+import { DEFAULT_MAX_OBJECTS } from "@/lib/ar/objectRegistry";
+import type { ReticleStyle } from "@/lib/ar/reticle";
+import { getXRSystem } from "@/lib/xr/xrSystem";
+
+interface ARCanvasProps {
+  // Session features for AR; read once, when the canvas mounts
+  requiredFeatures?: string[];
+  optionalFeatures?: string[];
+  // What can be placed; read once. Defaults to the model catalog.
+  models?: readonly ModelDefinition[];
+  reticle?: Partial<ReticleStyle>;
+  maxObjects?: number;
+  // Whether AR taps place at the touched point or at the reticle
+  targeting?: PlacementTargeting;
+  // Drag, twist and pinch on the overlay move, rotate and scale the
+  // selected object
+  gestures?: boolean;
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes scene edits in
+  // the 3D viewer and the desktop emulator
+  historyShortcuts?: boolean;
+  className?: string;
+  children?: ReactNode;
+}
+
+// Owns the canvas and the ARSessionController behind it, and provides the
+// controller to the hooks in ./hooks. Children render once the controller
+// exists; they are the DOM overlay during AR sessions.
+export default function ARCanvas({
+  requiredFeatures,
+  optionalFeatures,
+  models,
+  reticle,
+  maxObjects = DEFAULT_MAX_OBJECTS,
+  targeting,
+  gestures = true,
+  historyShortcuts = true,
+  className = "relative w-full h-screen bg-black touch-none",
+  children,
+}: ARCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [context, setContext] = useState<ARContextValue | null>(null);
+  const [idle, setIdle] = useState(true);
+  const { locale } = useI18n();
+  const initialOptions = useRef({
+    requiredFeatures,
+    optionalFeatures,
+    models,
+    reticle,
+    maxObjects,
+    targeting,
+    locale,
+  });
+
+  // Create the controller once the canvas exists and check for support
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const controller = new ARSessionController({
+      ...initialOptions.current,
+      xr: getXRSystem(),
+      createRenderer: () => createWebGLRenderer(canvas),
+      domOverlayRoot: document.body,
+    });
+    let disposed = false;
+    const unsubscribe = controller.on("state-changed", ({ state }) =>
+      setIdle(state === "idle")
+    );
+    setContext({ controller, support: null });
+    // Preload the first model; failures show up in the load states
+    controller.setActiveModel(controller.activeModelId).catch(() => {});
+    controller.checkSupport().then((support) => {
+      if (!disposed) {
+        setContext({ controller, support });
+      }
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      controller.dispose();
+      setContext(null);
+    };
+  }, []);
+
+  const controller = context?.controller;
+
+  // Keep the limit in sync if the prop changes mid-session
+  useEffect(() => {
+    if (controller) {
+      controller.registry.maxObjects = maxObjects;
+    }
+  }, [controller, maxObjects]);
+
+  useEffect(() => {
+    if (controller && targeting) {
+      controller.setTargeting(targeting);
+    }
+  }, [controller, targeting]);
+
+  // Status messages follow the language switcher
+  useEffect(() => {
+    controller?.setLocale(locale);
+  }, [controller, locale]);
+
+  // Compared by value, so inline style objects don't rebuild it every render
+  const reticleKey = reticle ? JSON.stringify(reticle) : null;
+  useEffect(() => {
+    if (controller && reticleKey) {
+      controller.setReticleStyle(JSON.parse(reticleKey));
+    }
+  }, [controller, reticleKey]);
+
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay || !controller || !gestures) {
+      return;
+    }
+    const gestureController = new GestureController(overlay, {
+      shouldStartDrag: (x, y) => controller.beginDrag(x, y),
+      onDrag: (x, y) => controller.dragSelected(x, y),
+      onTwist: (delta) => controller.rotateSelected(delta),
+      onPinch: (factor) => controller.scaleSelected(factor),
+      onGestureEnd: () => controller.endManipulation(),
+    });
+    gestureController.attach();
+    return () => gestureController.detach();
+  }, [controller, gestures]);
+
+  useEffect(() => {
+    if (!controller || !historyShortcuts) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { mode } = controller;
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.altKey ||
+        !(mode === "inline" || (mode !== null && controller.isEmulated)) ||
+        isEditable(event.target)
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      const redo = key === "y" || (key === "z" && event.shiftKey);
+      if (!redo && key !== "z") {
+        return;
+      }
+      event.preventDefault();
+      void (redo ? controller.redo() : controller.undo());
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [controller, historyShortcuts]);
+
+  // Taps on overlay controls marked data-xr-ui must not also count as XR
+  // select events
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) {
+      return;
+    }
+    const suppressSelect = (event: Event) => {
+      if ((event.target as Element | null)?.closest("[data-xr-ui]")) {
+        event.preventDefault();
+      }
+    };
+    overlay.addEventListener("beforexrselect", suppressSelect);
+    return () => overlay.removeEventListener("beforexrselect", suppressSelect);
+  }, []);
+
+  return (
+    <div ref={overlayRef} className={className}>
+      <canvas
+        ref={canvasRef}
+        className={`w-full h-full ${idle ? "hidden" : ""}`}
+      />
+      {context && (
+        <ARContext.Provider value={context}>{children}</ARContext.Provider>
+      )}
+    </div>
+  );
+}
+
+// Text fields keep their own undo
+function isEditable(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.closest("input, textarea, select") !== null)
+  );
+}
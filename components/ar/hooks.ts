@@ -0,0 +1,851 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useI18n } from "@/components/i18n/hooks";
+import {
+  InvalidTransitionError,
+  type ARSessionController,
+  type ARSessionEvents,
+  type ARState,
+  type HitTestState,
+  type ModeSupport,
+  type PlacementTargeting,
+  type ToolMode,
+  type ViewMode,
+} from "@/lib/ar/ARSessionController";
+import type { HistoryState } from "@/lib/ar/editHistory";
+import type { Capture } from "@/lib/ar/frameCapture";
+import type { ThrottledStore } from "@/lib/ar/frameStore";
+import {
+  downloadMeasurements,
+  type Measurement,
+  type MeasurementExportFormat,
+  type UnitSystem,
+} from "@/lib/ar/measurement";
+import type { ModelLoadState } from "@/lib/ar/modelLoader";
+import type { PlacedObject } from "@/lib/ar/objectRegistry";
+import type { PhysicsMaterial } from "@/lib/ar/physics";
+import type { ReticleStyle } from "@/lib/ar/reticle";
+import {
+  DEFAULT_PLACEMENT_FILTER_ID,
+  PLACEMENT_FILTERS,
+  type SnapSettings,
+} from "@/lib/ar/surfaces";
+import {
+  CollabClient,
+  defaultRelayUrl,
+  type ConnectionState,
+} from "@/lib/collab/CollabClient";
+import {
+  CollabSession,
+  pickPeerColor,
+  type AlignmentState,
+} from "@/lib/collab/CollabSession";
+import type { PeerPresence } from "@/lib/collab/protocol";
+import { eventLog } from "@/lib/debug/eventLog";
+import type { SceneDocument } from "@/lib/scene/sceneDocument";
+import { downloadScene, readSceneFile } from "@/lib/scene/sceneFile";
+import { shareScene } from "@/lib/scene/sceneShare";
+import {
+  AUTOSAVE_ID,
+  createSceneStore,
+  type SceneSummary,
+} from "@/lib/scene/sceneStorage";
+import { downloadRecording } from "@/lib/xr/replay/recording";
+
+export interface ARContextValue {
+  controller: ARSessionController;
+  // Null until the support check finished
+  support: ModeSupport | null;
+}
+
+// Provided by <ARCanvas> once its controller exists
+export const ARContext = createContext<ARContextValue | null>(null);
+
+function useARContext(): ARContextValue {
+  const context = useContext(ARContext);
+  if (!context) {
+    throw new Error("AR hooks must be used inside <ARCanvas>");
+  }
+  return context;
+}
+
+// Escape hatch for features without a hook of their own
+export function useARController(): ARSessionController {
+  return useARContext().controller;
+}
+
+// Listen to a controller event while the component is mounted. The latest
+// listener is called, so it doesn't need to be memoized.
+export function useARSessionEvent<K extends keyof ARSessionEvents>(
+  type: K,
+  listener: (payload: ARSessionEvents[K]) => void
+) {
+  const controller = useARController();
+  const listenerRef = useRef(listener);
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+  useEffect(
+    () => controller.on(type, (payload) => listenerRef.current(payload)),
+    [controller, type]
+  );
+}
+
+export function useThrottledStore<T>(store: ThrottledStore<T>): T {
+  return useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot
+  );
+}
+
+export function useXRSupport(): ModeSupport | null {
+  return useARContext().support;
+}
+
+export interface XRSessionHandle {
+  state: ARState;
+  mode: ViewMode | null;
+  status: string;
+  // Last error from the controller, cleared when a session is requested or
+  // an object placed
+  error: string | null;
+  setError: (error: string | null) => void;
+  isEmulated: boolean;
+  start: (mode: ViewMode) => void;
+  end: () => void;
+}
+
+export function useXRSession(): XRSessionHandle {
+  const controller = useARController();
+  const [state, setState] = useState(controller.state);
+  const [mode, setMode] = useState(controller.mode);
+  const [error, setError] = useState<string | null>(null);
+  const status = useThrottledStore(controller.statusText);
+
+  useARSessionEvent("state-changed", ({ state }) => {
+    setState(state);
+    setMode(controller.mode);
+    if (state === "requesting-session") {
+      setError(null);
+    }
+  });
+  useARSessionEvent("error", ({ message }) => setError(message));
+  useARSessionEvent("object-placed", () => setError(null));
+
+  const start = useCallback(
+    (mode: ViewMode) => {
+      // The controller reports failed starts itself. It throws when a
+      // session is already starting or running, e.g. after a double tap on
+      // a start button.
+      controller.start(mode).catch((err) => {
+        if (err instanceof InvalidTransitionError) {
+          controller.fail("session", "session.busy", undefined, err);
+          return;
+        }
+        controller.fail(
+          "session",
+          "session.startFailed",
+          {
+            mode: controller.i18n.t(`mode.${mode}`),
+            error: err instanceof Error ? err.message : String(err),
+          },
+          err
+        );
+      });
+    },
+    [controller]
+  );
+  const end = useCallback(() => void controller.end(), [controller]);
+
+  return {
+    state,
+    mode,
+    status,
+    error,
+    setError,
+    isEmulated: controller.isEmulated,
+    start,
+    end,
+  };
+}
+
+// What is under the reticle, a few times per second at most
+export function useHitTest(): HitTestState {
+  return useThrottledStore(useARController().hitTest);
+}
+
+// Restyles the reticle while mounted with a style, and reports whether it
+// shows and whether it shows as blocked
+export function useReticle(style?: Partial<ReticleStyle>): {
+  visible: boolean;
+  blocked: boolean;
+} {
+  const controller = useARController();
+  // Compared by value, so inline style objects don't rebuild it every render
+  const styleKey = style ? JSON.stringify(style) : null;
+  useEffect(() => {
+    if (styleKey) {
+      controller.setReticleStyle(JSON.parse(styleKey));
+    }
+  }, [controller, styleKey]);
+  const { found, blocker } = useHitTest();
+  return { visible: found, blocked: blocker !== null };
+}
+
+export interface EditHistoryHandle extends HistoryState {
+  // Resolve false when there was nothing to replay
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+export function useEditHistory(): EditHistoryHandle {
+  const controller = useARController();
+  const { history } = controller;
+  const state = useSyncExternalStore(
+    useCallback((listener) => history.subscribe(listener), [history]),
+    history.getState,
+    history.getState
+  );
+  const undo = useCallback(() => controller.undo(), [controller]);
+  const redo = useCallback(() => controller.redo(), [controller]);
+  return { ...state, undo, redo };
+}
+
+export interface CaptureHandle {
+  // Last photo or clip, until dismissed
+  capture: Capture | null;
+  dismiss: () => void;
+  recordingClip: boolean;
+  takePhoto: () => void;
+  startClip: () => void;
+  stopClip: () => void;
+}
+
+export function useCapture(): CaptureHandle {
+  const controller = useARController();
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [recordingClip, setRecordingClip] = useState(false);
+
+  // Clips also stop by themselves, at the time limit or the session's end
+  useARSessionEvent("capture-finished", ({ capture }) => {
+    setCapture(capture);
+    if (capture.kind === "clip") {
+      setRecordingClip(false);
+    }
+  });
+
+  const takePhoto = useCallback(
+    () => void controller.takePhoto(),
+    [controller]
+  );
+  const startClip = useCallback(
+    () => setRecordingClip(controller.startClip()),
+    [controller]
+  );
+  const stopClip = useCallback(() => controller.stopClip(), [controller]);
+  const dismiss = useCallback(() => setCapture(null), []);
+
+  return { capture, dismiss, recordingClip, takePhoto, startClip, stopClip };
+}
+
+export interface PlacementHandle {
+  objects: PlacedObject[];
+  selectedId: string | null;
+  limitReached: boolean;
+  activeModelId: string;
+  modelStates: Record<string, ModelLoadState>;
+  // Rejects when the model can't be loaded
+  setActiveModel: (id: string) => Promise<void>;
+  targeting: PlacementTargeting;
+  setTargeting: (targeting: PlacementTargeting) => void;
+  snapping: SnapSettings;
+  setSnapping: (snapping: SnapSettings) => void;
+  // One of PLACEMENT_FILTERS: the surfaces objects may be placed on
+  filterId: string;
+  setFilter: (id: string) => void;
+  place: () => void;
+  select: (id: string | null) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+export function usePlacement(): PlacementHandle {
+  const controller = useARController();
+  const { registry, modelLoader } = controller;
+
+  const objects = useSyncExternalStore(
+    useCallback((listener) => registry.subscribe(listener), [registry]),
+    () => registry.list(),
+    () => registry.list()
+  );
+  const modelStates = useSyncExternalStore(
+    useCallback((listener) => modelLoader.subscribe(listener), [modelLoader]),
+    () => modelLoader.getStates(),
+    () => modelLoader.getStates()
+  );
+  const [selectedId, setSelectedId] = useState(controller.selectedId);
+  const [activeModelId, setActiveModelId] = useState(
+    controller.activeModelId
+  );
+  const [targeting, setTargetingState] = useState(controller.targeting);
+  const [snapping, setSnappingState] = useState(controller.snapping);
+  const [filterId, setFilterId] = useState(DEFAULT_PLACEMENT_FILTER_ID);
+  useARSessionEvent("selection-changed", ({ id }) => setSelectedId(id));
+
+  const setActiveModel = useCallback(
+    async (id: string) => {
+      setActiveModelId(id);
+      await controller.setActiveModel(id);
+    },
+    [controller]
+  );
+  const setTargeting = useCallback(
+    (targeting: PlacementTargeting) => {
+      controller.setTargeting(targeting);
+      setTargetingState(targeting);
+    },
+    [controller]
+  );
+  const setSnapping = useCallback(
+    (snapping: SnapSettings) => {
+      controller.setSnapping(snapping);
+      setSnappingState(snapping);
+    },
+    [controller]
+  );
+  const setFilter = useCallback(
+    (id: string) => {
+      const filter = PLACEMENT_FILTERS.find((entry) => entry.id === id);
+      if (filter) {
+        controller.setPlacementFilter(filter.constraint);
+        setFilterId(id);
+      }
+    },
+    [controller]
+  );
+  const place = useCallback(
+    () => void controller.placeObject(),
+    [controller]
+  );
+  const select = useCallback(
+    (id: string | null) => controller.select(id),
+    [controller]
+  );
+  const remove = useCallback(
+    (id: string) => void controller.deleteObject(id),
+    [controller]
+  );
+  const clear = useCallback(() => controller.clearObjects(), [controller]);
+
+  return {
+    objects,
+    selectedId,
+    limitReached: objects.length >= registry.maxObjects,
+    activeModelId,
+    modelStates,
+    setActiveModel,
+    targeting,
+    setTargeting,
+    snapping,
+    setSnapping,
+    filterId,
+    setFilter,
+    place,
+    select,
+    remove,
+    clear,
+  };
+}
+
+// The active tool: placing, measuring, or aligning with a shared session
+export function useTool(): ToolMode {
+  const controller = useARController();
+  const [tool, setTool] = useState(controller.tool);
+  useARSessionEvent("tool-changed", ({ tool }) => setTool(tool));
+  return tool;
+}
+
+export interface MeasureHandle {
+  measuring: boolean;
+  measurements: Measurement[];
+  units: UnitSystem;
+  // Switch between measuring and placing
+  toggle: () => void;
+  // At the reticle
+  addPoint: () => void;
+  setUnits: (units: UnitSystem) => void;
+  undo: () => void;
+  close: () => void;
+  finish: () => void;
+  clear: () => void;
+  download: (format: MeasurementExportFormat) => void;
+}
+
+export function useMeasure(): MeasureHandle {
+  const controller = useARController();
+  const { measure } = controller;
+  const measuring = useTool() === "measure";
+  const [measurements, setMeasurements] = useState(() => measure.list());
+  const [units, setUnitsState] = useState(measure.units);
+  useEffect(
+    () =>
+      measure.subscribe(() => {
+        setMeasurements(measure.list());
+        setUnitsState(measure.units);
+      }),
+    [measure]
+  );
+
+  const toggle = useCallback(
+    () => controller.setTool(measuring ? "place" : "measure"),
+    [controller, measuring]
+  );
+  const addPoint = useCallback(() => {
+    controller.addMeasurePoint();
+  }, [controller]);
+  const setUnits = useCallback(
+    (units: UnitSystem) => measure.setUnits(units),
+    [measure]
+  );
+  const undo = useCallback(() => measure.undo(), [measure]);
+  const close = useCallback(() => {
+    measure.close();
+  }, [measure]);
+  const finish = useCallback(() => measure.finish(), [measure]);
+  const clear = useCallback(() => measure.clear(), [measure]);
+  const download = useCallback(
+    (format: MeasurementExportFormat) =>
+      downloadMeasurements(measurements, units, format),
+    [measurements, units]
+  );
+
+  return {
+    measuring,
+    measurements,
+    units,
+    toggle,
+    addPoint,
+    setUnits,
+    undo,
+    close,
+    finish,
+    clear,
+    download,
+  };
+}
+
+export interface PhysicsHandle {
+  enabled: boolean;
+  toggle: () => void;
+  // The selected object's material, null without a selection or physics
+  material: PhysicsMaterial | null;
+  changeMaterial: (changes: Partial<PhysicsMaterial>) => void;
+}
+
+export function usePhysics(): PhysicsHandle {
+  const controller = useARController();
+  const [enabled, setEnabled] = useState(controller.physicsEnabled);
+  const [material, setMaterial] = useState(() =>
+    readPhysicsMaterial(controller, controller.selectedId)
+  );
+  const refresh = useCallback(
+    () => setMaterial(readPhysicsMaterial(controller, controller.selectedId)),
+    [controller]
+  );
+  useARSessionEvent("selection-changed", ({ id }) =>
+    setMaterial(readPhysicsMaterial(controller, id))
+  );
+  // Undo and redo may change the selected object's material
+  useEffect(() => controller.history.subscribe(refresh), [controller, refresh]);
+
+  const toggle = useCallback(() => {
+    controller.setPhysicsEnabled(!controller.physicsEnabled);
+    setEnabled(controller.physicsEnabled);
+    refresh();
+  }, [controller, refresh]);
+  const changeMaterial = useCallback(
+    (changes: Partial<PhysicsMaterial>) => {
+      const id = controller.selectedId;
+      if (id) {
+        controller.setPhysicsMaterial(id, changes);
+        refresh();
+      }
+    },
+    [controller, refresh]
+  );
+
+  return { enabled, toggle, material, changeMaterial };
+}
+
+// Copy, so React sees slider changes
+function readPhysicsMaterial(
+  controller: ARSessionController,
+  id: string | null
+): PhysicsMaterial | null {
+  const material = id ? controller.getPhysicsMaterial(id) : undefined;
+  return material ? { ...material } : null;
+}
+
+export interface CollabHandle {
+  joined: boolean;
+  connection: ConnectionState;
+  peers: PeerPresence[];
+  alignment: AlignmentState;
+  // Last conflict or error, until the alignment changes
+  notice: string | null;
+  join: (room: string, name: string) => void;
+  leave: () => void;
+  beginAlignment: () => void;
+  cancelAlignment: () => void;
+  // At the reticle, while aligning
+  markAlignmentPoint: () => void;
+}
+
+// A shared session with the other devices in a room, through the relay at
+// defaultRelayUrl(). Left when the component unmounts.
+export function useCollab(): CollabHandle {
+  const controller = useARController();
+  const sessionRef = useRef<CollabSession | null>(null);
+  const [joined, setJoined] = useState(false);
+  const [connection, setConnection] =
+    useState<ConnectionState>("disconnected");
+  const [peers, setPeers] = useState<PeerPresence[]>([]);
+  const [alignment, setAlignment] = useState<AlignmentState>("unaligned");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(
+    () => () => {
+      sessionRef.current?.dispose();
+      sessionRef.current = null;
+    },
+    [controller]
+  );
+
+  const join = useCallback(
+    (room: string, name: string) => {
+      if (sessionRef.current) {
+        return;
+      }
+      const client = new CollabClient({
+        url: defaultRelayUrl(),
+        room,
+        name,
+        color: pickPeerColor(),
+      });
+      const session = new CollabSession(controller, client);
+      session.on("connection-changed", ({ state }) => setConnection(state));
+      session.on("peers-changed", ({ peers }) => setPeers(peers));
+      session.on("alignment-changed", ({ state }) => {
+        setAlignment(state);
+        setNotice(null);
+      });
+      session.on("conflict", ({ message }) => setNotice(message));
+      session.on("error", ({ message }) => setNotice(message));
+      sessionRef.current = session;
+      setJoined(true);
+      session.start();
+    },
+    [controller]
+  );
+  const leave = useCallback(() => {
+    sessionRef.current?.dispose();
+    sessionRef.current = null;
+    setJoined(false);
+    setConnection("disconnected");
+    setPeers([]);
+    setAlignment("unaligned");
+    setNotice(null);
+  }, []);
+  const beginAlignment = useCallback(
+    () => sessionRef.current?.beginAlignment(),
+    []
+  );
+  const cancelAlignment = useCallback(
+    () => sessionRef.current?.cancelAlignment(),
+    []
+  );
+  const markAlignmentPoint = useCallback(() => {
+    controller.markAlignmentPoint();
+  }, [controller]);
+
+  return {
+    joined,
+    connection,
+    peers,
+    alignment,
+    notice,
+    join,
+    leave,
+    beginAlignment,
+    cancelAlignment,
+    markAlignmentPoint,
+  };
+}
+
+// Debounce for autosaving while in AR
+const AUTOSAVE_DELAY_MS = 1000;
+
+export interface ScenesHandle {
+  // Saved in this browser, the autosave included
+  saved: SceneSummary[];
+  // Waiting for the user to confirm where its origin goes
+  pending: SceneDocument | null;
+  restorePending: () => void;
+  dismissPending: () => void;
+  save: (name: string) => void;
+  download: () => void;
+  upload: (file: File) => void;
+  load: (id: string) => void;
+  remove: (id: string) => void;
+  share: () => void;
+  sharing: boolean;
+  // Link to the last shared scene, until closed or the session ends
+  shareUrl: string | null;
+  closeShare: () => void;
+}
+
+// Saved, shared and autosaved scenes. The layout is autosaved during AR and
+// when a session ends; the next session offers `initialScene` (e.g. a shared
+// scene the page was opened with) or else the autosave. Failures are passed
+// to `onError`.
+export function useScenes(
+  initialScene: SceneDocument | null,
+  onError: (message: string) => void
+): ScenesHandle {
+  const controller = useARController();
+  const { i18n } = useI18n();
+  const [store] = useState(() => createSceneStore());
+  const [saved, setSaved] = useState<SceneSummary[]>([]);
+  const [pending, setPending] = useState<SceneDocument | null>(null);
+  const initialSceneRef = useRef(initialScene);
+  const [sharing, setSharing] = useState(false);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    store
+      .list()
+      .then(setSaved)
+      .catch((err) =>
+        eventLog.warn("scene", "Could not list saved scenes", err)
+      );
+  }, [store]);
+
+  // Offer the last layout once a new session is up, unless objects carried
+  // over from the previous mode. The initial scene goes first.
+  useARSessionEvent("state-changed", ({ state, previous }) => {
+    if (
+      state !== "ready" ||
+      previous !== "setting-up" ||
+      controller.registry.size > 0
+    ) {
+      return;
+    }
+    if (initialSceneRef.current) {
+      setPending(initialSceneRef.current);
+      initialSceneRef.current = null;
+      return;
+    }
+    store
+      .load(AUTOSAVE_ID)
+      .then((scene) => {
+        if (scene && scene.objects.length > 0) {
+          setPending(scene);
+        }
+      })
+      .catch((err) => eventLog.warn("scene", "Could not load autosave", err));
+  });
+  // Autosave the layout so the next session can offer to restore it
+  useARSessionEvent("session-ended", ({ scene }) => {
+    setPending(null);
+    setShareUrl(null);
+    if (scene) {
+      store
+        .save(AUTOSAVE_ID, scene)
+        .then(refresh)
+        .catch((err) =>
+          eventLog.warn("scene", "Could not autosave scene", err)
+        );
+    }
+  });
+  useARSessionEvent("scene-restored", () => setPending(null));
+
+  // Keep the autosave current during AR as well: a reload never ends the
+  // session cleanly, and the saved anchor handles put the layout back in
+  // place afterwards
+  useEffect(() => {
+    const { registry } = controller;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = registry.subscribe(() => {
+      clearTimeout(timer);
+      if (controller.mode !== "immersive-ar") {
+        return;
+      }
+      timer = setTimeout(() => {
+        if (controller.mode !== "immersive-ar" || registry.size === 0) {
+          return;
+        }
+        store
+          .save(
+            AUTOSAVE_ID,
+            controller.exportScene(controller.i18n.t("scene.lastSession"))
+          )
+          .catch((err) =>
+            eventLog.warn("scene", "Could not autosave scene", err)
+          );
+      }, AUTOSAVE_DELAY_MS);
+    });
+    refresh();
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [controller, store, refresh]);
+
+  const restorePending = useCallback(() => {
+    if (pending) {
+      void controller.restoreScene(pending);
+    }
+  }, [controller, pending]);
+  const dismissPending = useCallback(() => setPending(null), []);
+
+  const save = useCallback(
+    (name: string) => {
+      store
+        .save(`scene-${Date.now().toString(36)}`, controller.exportScene(name))
+        .then(() => {
+          controller.status("scene", "scene.saved", { name });
+          refresh();
+        })
+        .catch((err) =>
+          onError(i18n.t("scene.saveFailed", { error: err.message }))
+        );
+    },
+    [controller, store, refresh, onError, i18n]
+  );
+  const download = useCallback(() => {
+    downloadScene(controller.exportScene(i18n.t("scene.download")));
+  }, [controller, i18n]);
+  const upload = useCallback(
+    (file: File) => {
+      readSceneFile(file)
+        .then(setPending)
+        .catch((err) =>
+          onError(
+            i18n.t("scene.readFailed", {
+              error: err instanceof Error ? err.message : String(err),
+            })
+          )
+        );
+    },
+    [onError, i18n]
+  );
+  const load = useCallback(
+    (id: string) => {
+      store
+        .load(id)
+        .then((scene) => {
+          if (scene) {
+            setPending(scene);
+          } else {
+            onError(i18n.t("scene.unreadable"));
+            refresh();
+          }
+        })
+        .catch((err) =>
+          onError(i18n.t("scene.loadFailed", { error: err.message }))
+        );
+    },
+    [store, refresh, onError, i18n]
+  );
+  const remove = useCallback(
+    (id: string) => {
+      const name = saved.find((scene) => scene.id === id)?.name ?? id;
+      store
+        .remove(id)
+        .then(() => {
+          controller.status("scene", "scene.deleted", { name });
+          refresh();
+        })
+        .catch((err) =>
+          onError(i18n.t("scene.deleteFailed", { error: err.message }))
+        );
+    },
+    [controller, store, saved, refresh, onError, i18n]
+  );
+
+  const share = useCallback(() => {
+    setSharing(true);
+    shareScene(controller.exportScene(i18n.t("scene.shared")))
+      .then(setShareUrl)
+      .catch((err) =>
+        onError(i18n.t("scene.shareFailed", { error: err.message }))
+      )
+      .finally(() => setSharing(false));
+  }, [controller, onError, i18n]);
+  const closeShare = useCallback(() => setShareUrl(null), []);
+
+  return {
+    saved,
+    pending,
+    restorePending,
+    dismissPending,
+    save,
+    download,
+    upload,
+    load,
+    remove,
+    share,
+    sharing,
+    shareUrl,
+    closeShare,
+  };
+}
+
+// Records the AR session for replay; the recording is saved as a file once
+// it stops, to replay it in automated tests
+export function useSessionRecording(): {
+  recording: boolean;
+  toggle: () => void;
+} {
+  const controller = useARController();
+  const [recording, setRecording] = useState(controller.isRecording);
+  useARSessionEvent("recording-finished", ({ recording }) => {
+    setRecording(false);
+    downloadRecording(recording);
+  });
+  const toggle = useCallback(() => {
+    if (controller.isRecording) {
+      controller.stopRecording();
+    } else {
+      setRecording(controller.startRecording());
+    }
+  }, [controller]);
+  return { recording, toggle };
+}
+
+// The depth map debug view, when the session senses depth
+export function useDepthView(): {
+  available: boolean;
+  enabled: boolean;
+  toggle: () => void;
+} {
+  const controller = useARController();
+  const [available, setAvailable] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  useARSessionEvent("state-changed", () =>
+    setAvailable(controller.occlusion.activeUsage !== null)
+  );
+  const toggle = useCallback(() => {
+    controller.setDepthDebug(!enabled);
+    setEnabled(!enabled);
+  }, [controller, enabled]);
+  return { available, enabled, toggle };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useMemo, useState, type ReactNode } from "react";
+import { I18nContext, type I18nContextValue } from "@/components/i18n/hooks";
+import {
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  type Locale,
+} from "@/lib/i18n/locales";
+import { getTranslator } from "@/lib/i18n/translator";
+
+interface I18nProviderProps {
+  // Resolved on the server from the cookie or Accept-Language
+  initialLocale: Locale;
+  children: ReactNode;
+}
+
+export default function I18nProvider({
+  initialLocale,
+  children,
+}: I18nProviderProps) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    document.documentElement.lang = next;
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+  }, []);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({ locale, i18n: getTranslator(locale), setLocale }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useI18n } from "@/components/i18n/hooks";
+import { isLocale, LOCALE_NAMES, LOCALES } from "@/lib/i18n/locales";
+
+export default function LocaleSwitcher({
+  className = "px-2 py-1 rounded border border-gray-300 bg-white text-sm text-gray-800",
+}: {
+  className?: string;
+}) {
+  const { locale, i18n, setLocale } = useI18n();
+  return (
+    <select
+      value={locale}
+      onChange={(event) => {
+        if (isLocale(event.target.value)) {
+          setLocale(event.target.value);
+        }
+      }}
+      aria-label={i18n.t("locale.label")}
+      className={className}
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option} lang={option}>
+          {LOCALE_NAMES[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+import type { Locale } from "@/lib/i18n/locales";
+import type { Translator } from "@/lib/i18n/translator";
+
+export interface I18nContextValue {
+  locale: Locale;
+  i18n: Translator;
+  // Switch languages by hand; remembered for the next visit
+  setLocale: (locale: Locale) => void;
+}
+
+// Provided by <I18nProvider> in the root layout
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used inside <I18nProvider>");
+  }
+  return context;
+}
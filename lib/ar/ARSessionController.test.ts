@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidTransitionError,
+  type ARSessionController,
+  type ARState,
+} from "@/lib/ar/ARSessionController";
+import { ReplayXRSystem } from "@/lib/xr/replay/ReplayXRSystem";
+import {
+  createRecording,
+  createTestController,
+  FakeXRSystem,
+  floorAt,
+} from "@/test/fakes";
+
+function recordStates(controller: ARSessionController): ARState[] {
+  const states: ARState[] = [controller.state];
+  controller.on("state-changed", ({ state }) => states.push(state));
+  return states;
+}
+
+function recordStatuses(controller: ARSessionController): string[] {
+  const statuses: string[] = [];
+  controller.on("status", ({ message }) => statuses.push(message));
+  return statuses;
+}
+
+function recordErrors(controller: ARSessionController): string[] {
+  const errors: string[] = [];
+  controller.on("error", ({ message }) => errors.push(message));
+  return errors;
+}
+
+describe("ARSessionController", () => {
+  it("sizes its camera from the viewport", () => {
+    const { controller } = createTestController(null);
+    expect(controller.camera.aspect).toBe(0.5);
+    expect(controller.state).toBe("idle");
+  });
+
+  describe("checkSupport", () => {
+    it("offers only the inline viewer without WebXR", async () => {
+      const { controller } = createTestController(null);
+      const states = recordStates(controller);
+      const statuses = recordStatuses(controller);
+
+      const support = await controller.checkSupport();
+
+      expect(support).toEqual({
+        "immersive-ar": false,
+        "immersive-vr": false,
+        inline: true,
+      });
+      expect(states).toEqual(["idle", "checking-support", "idle"]);
+      expect(statuses.at(-1)).toBe(controller.i18n.t("session.noWebXR"));
+    });
+
+    it("reports the modes the XR system supports", async () => {
+      const replay = new ReplayXRSystem(createRecording([{}]));
+      const { controller } = createTestController(replay);
+      const statuses = recordStatuses(controller);
+
+      const support = await controller.checkSupport();
+
+      expect(support["immersive-ar"]).toBe(true);
+      expect(support["immersive-vr"]).toBe(false);
+      expect(statuses.at(-1)).toBe(
+        controller.i18n.t("session.emulatedReady")
+      );
+    });
+
+    it("reports a failing support check and returns to idle", async () => {
+      const xr = new FakeXRSystem({
+        isSessionSupported: () => Promise.reject(new Error("boom")),
+      });
+      const { controller } = createTestController(xr);
+      const states = recordStates(controller);
+      const errors = recordErrors(controller);
+
+      const support = await controller.checkSupport();
+
+      expect(support["immersive-ar"]).toBe(false);
+      expect(states).toEqual(["idle", "checking-support", "idle"]);
+      expect(errors).toEqual([
+        controller.i18n.t("session.checkFailed", { error: "boom" }),
+      ]);
+    });
+  });
+
+  describe("start", () => {
+    it("runs a session from request to end", async () => {
+      const replay = new ReplayXRSystem(
+        createRecording([{}, { hits: [floorAt(0, -1)] }, {}])
+      );
+      const { controller, renderer } = createTestController(replay);
+      const states = recordStates(controller);
+      const ended: unknown[] = [];
+      controller.on("session-ended", ({ scene }) => ended.push(scene));
+
+      await controller.start("immersive-ar");
+
+      expect(states).toEqual([
+        "idle",
+        "requesting-session",
+        "setting-up",
+        "ready",
+      ]);
+      expect(controller.mode).toBe("immersive-ar");
+      expect(controller.isEmulated).toBe(true);
+
+      replay.step();
+      replay.step();
+      expect(renderer.frames).toBe(2);
+      expect(controller.surface?.orientation).toBe("horizontal");
+      expect(controller.hitTest.getSnapshot().found).toBe(true);
+
+      await controller.end();
+      await Promise.resolve();
+
+      expect(states.at(-1)).toBe("idle");
+      expect(controller.mode).toBeNull();
+      expect(controller.surface).toBeNull();
+      // Nothing was placed, so there is no layout to hand over
+      expect(ended).toEqual([null]);
+      expect(replay.session).toBeNull();
+      // The loop stops with the session
+      expect(replay.step()).toBe(false);
+    });
+
+    it("tears down when the runtime ends the session", async () => {
+      const replay = new ReplayXRSystem(createRecording([{}, {}]));
+      const { controller } = createTestController(replay);
+      await controller.start("immersive-ar");
+      const statuses = recordStatuses(controller);
+
+      await replay.session!.end();
+      await Promise.resolve();
+
+      expect(controller.state).toBe("idle");
+      expect(statuses.at(-1)).toBe(
+        controller.i18n.t("session.ended", {
+          mode: controller.i18n.t("mode.immersive-ar"),
+        })
+      );
+    });
+
+    it("returns to idle when the session request is refused", async () => {
+      const xr = new FakeXRSystem({
+        requestSession: () =>
+          Promise.reject(new DOMException("Denied", "NotAllowedError")),
+      });
+      const { controller } = createTestController(xr);
+      const states = recordStates(controller);
+      const errors = recordErrors(controller);
+
+      await controller.start("immersive-ar");
+
+      expect(states).toEqual(["idle", "requesting-session", "idle"]);
+      expect(errors).toEqual([
+        controller.i18n.t("session.startFailed", {
+          mode: controller.i18n.t("mode.immersive-ar"),
+          error: "Denied",
+        }),
+      ]);
+      expect(controller.mode).toBeNull();
+    });
+
+    it("ends a session that failed to set up", async () => {
+      // The recording lacks the hit-test feature the controller requires
+      // once the session runs
+      const replay = new ReplayXRSystem({
+        ...createRecording([{}]),
+        enabledFeatures: ["viewer", "local-floor"],
+      });
+      const { controller } = createTestController(replay, {
+        requiredFeatures: ["local-floor"],
+      });
+      const states = recordStates(controller);
+      const errors = recordErrors(controller);
+
+      await controller.start("immersive-ar");
+
+      expect(states).toEqual([
+        "idle",
+        "requesting-session",
+        "setting-up",
+        "idle",
+      ]);
+      expect(errors).toHaveLength(1);
+      expect(replay.session).toBeNull();
+    });
+
+    it("fails without an XR system", async () => {
+      const { controller } = createTestController(null);
+      const states = recordStates(controller);
+      const errors = recordErrors(controller);
+
+      await controller.start("immersive-ar");
+
+      expect(states).toEqual(["idle"]);
+      expect(errors).toHaveLength(1);
+    });
+
+    it("rejects a second start while a session runs", async () => {
+      const replay = new ReplayXRSystem(createRecording([{}]));
+      const { controller } = createTestController(replay);
+      await controller.start("immersive-ar");
+
+      await expect(controller.start("immersive-ar")).rejects.toThrow(
+        InvalidTransitionError
+      );
+      expect(controller.state).toBe("ready");
+    });
+  });
+});
@@ -0,0 +1,2102 @@
+import * as THREE from "three";
+import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import { DepthOcclusion } from "@/lib/ar/depthOcclusion";
+import { DEFAULT_HISTORY_LIMIT, EditHistory } from "@/lib/ar/editHistory";
+import { CanvasPointer } from "@/lib/ar/canvasPointer";
+import { TypedEventEmitter } from "@/lib/ar/events";
+import { FrameCapture, type Capture } from "@/lib/ar/frameCapture";
+import { FrameStatsStore, ThrottledStore } from "@/lib/ar/frameStore";
+import { MeasureTool } from "@/lib/ar/measureTool";
+import { ObjectAnchors } from "@/lib/ar/objectAnchors";
+import {
+  ObjectHistory,
+  transformOf,
+  type ObjectTransform,
+} from "@/lib/ar/objectHistory";
+import type { PhysicsMaterial } from "@/lib/ar/physics";
+import { PhysicsMode } from "@/lib/ar/physicsMode";
+import { PlaneTracker } from "@/lib/ar/planeTracker";
+import { Reticle, type ReticleStyle } from "@/lib/ar/reticle";
+import { SceneLighting } from "@/lib/ar/sceneLighting";
+import { SelectionGizmo, setHighlighted } from "@/lib/ar/selectionGizmo";
+import { StatusReporter } from "@/lib/ar/statusReporter";
+import { rayFromTransform, SurfaceFinder } from "@/lib/ar/surfaceFinder";
+import {
+  DEFAULT_MODEL_ID,
+  MODEL_CATALOG,
+  modelName,
+  type ModelDefinition,
+} from "@/lib/ar/modelCatalog";
+import { ModelLoader } from "@/lib/ar/modelLoader";
+import {
+  DEFAULT_MAX_OBJECTS,
+  ObjectLimitError,
+  PlacedObjectRegistry,
+  type PlacedObject,
+} from "@/lib/ar/objectRegistry";
+import {
+  alignToSurface,
+  allowsSurface,
+  classifySurface,
+  DEFAULT_SURFACE_ALIGNMENT,
+  describeConstraint,
+  describeSurface,
+  NO_SNAPPING,
+  snapRotation,
+  snapToGrid,
+  type PlacementConstraint,
+  type SnapSettings,
+  type SurfaceInfo,
+  type SurfacePlacement,
+} from "@/lib/ar/surfaces";
+import {
+  createVirtualGround,
+  GROUND_SURFACE,
+  VIRTUAL_BACKGROUND,
+} from "@/lib/ar/virtualGround";
+import { toNdc, windowViewport, type Viewport } from "@/lib/ar/viewport";
+import {
+  createSceneDocument,
+  type SceneDocument,
+  type SceneObject,
+} from "@/lib/scene/sceneDocument";
+import {
+  applySceneMaterial,
+  applySceneTransform,
+  computeLayoutOrigin,
+  serializeObjects,
+  yawFromQuaternion,
+  type SceneOrigin,
+} from "@/lib/scene/sceneSerializer";
+import { EmulatedXRSystem } from "@/lib/xr/emulator/EmulatedXRSystem";
+import { ReplayXRSystem } from "@/lib/xr/replay/ReplayXRSystem";
+import { SessionRecorder } from "@/lib/xr/replay/SessionRecorder";
+import type { SessionRecording } from "@/lib/xr/replay/recording";
+import { createRoomPreview } from "@/lib/xr/emulator/room";
+import {
+  eventLog,
+  type EventLog,
+  type LogCategory,
+} from "@/lib/debug/eventLog";
+import type { Locale } from "@/lib/i18n/locales";
+import type {
+  MessageKey,
+  MessageParams,
+  PluralKey,
+  Translator,
+} from "@/lib/i18n/translator";
+
+export type ARState =
+  | "idle"
+  | "checking-support"
+  | "requesting-session"
+  | "setting-up"
+  | "ready"
+  | "placing";
+
+// Allowed transitions; anything else is a programming error
+const TRANSITIONS: Record<ARState, readonly ARState[]> = {
+  idle: ["checking-support", "requesting-session"],
+  "checking-support": ["idle"],
+  "requesting-session": ["setting-up", "idle"],
+  "setting-up": ["ready", "idle"],
+  ready: ["placing", "idle"],
+  placing: ["ready", "idle"],
+};
+
+// "inline" renders the scene in the page with orbit controls and a virtual
+// ground, without any XR session
+export type ViewMode = "immersive-ar" | "immersive-vr" | "inline";
+export type ModeSupport = Record<ViewMode, boolean>;
+// What a tap on a surface does: place the active model, drop a measuring
+// point or mark a point that aligns a shared session (see lib/collab)
+export type ToolMode = "place" | "measure" | "align";
+
+// Status and error messages are message keys (lib/i18n), translated into
+// the controller's locale as they are reported
+const MODE_LABELS: Record<ViewMode, MessageKey> = {
+  "immersive-ar": "mode.immersive-ar",
+  "immersive-vr": "mode.immersive-vr",
+  inline: "mode.inline",
+};
+
+// "found" gets the {surface} under the reticle
+const SURFACE_HINTS: Record<ViewMode, { found: MessageKey; lost: MessageKey }> =
+  {
+    "immersive-ar": {
+      found: "hint.immersive-ar.found",
+      lost: "hint.immersive-ar.lost",
+    },
+    "immersive-vr": {
+      found: "hint.immersive-vr.found",
+      lost: "hint.immersive-vr.lost",
+    },
+    inline: { found: "hint.inline.found", lost: "hint.inline.lost" },
+  };
+
+// Features asked for in AR unless the caller passes its own
+export const DEFAULT_AR_REQUIRED_FEATURES = ["local-floor", "hit-test"];
+export const DEFAULT_AR_OPTIONAL_FEATURES = [
+  "anchors",
+  // Puts the camera feed into photos and clips
+  "camera-access",
+  "depth-sensing",
+  "dom-overlay",
+  "light-estimation",
+  "plane-detection",
+];
+
+// Where a tap places in AR: at the touched point, or at the reticle in the
+// middle of the screen
+export type PlacementTargeting = "tap" | "reticle";
+
+export class InvalidTransitionError extends Error {
+  constructor(from: ARState, to: ARState) {
+    super(`Invalid AR state transition: ${from} -> ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export interface SurfacePose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+}
+
+export interface ARSessionEvents {
+  "state-changed": { state: ARState; previous: ARState };
+  "surface-found": SurfacePose;
+  "surface-lost": Record<string, never>;
+  "object-placed": { object: PlacedObject; anchored: boolean };
+  "scene-restored": { placed: number; skipped: number };
+  "selection-changed": { id: string | null };
+  "tool-changed": { tool: ToolMode };
+  // Fired once a move/rotate/scale gesture on an object finishes
+  "object-transformed": { object: PlacedObject };
+  // A point was tapped with the align tool
+  "alignment-point": { position: THREE.Vector3 };
+  // The runtime lost or regained track of an object's anchor
+  "anchor-tracking-changed": { object: PlacedObject; tracked: boolean };
+  // Carries a snapshot of the layout as the session (or inline viewer) ends.
+  // Objects stay in the scene for the next mode, without their anchors.
+  "session-ended": { scene: SceneDocument | null };
+  // A recording stopped, explicitly or because its session ended
+  "recording-finished": { recording: SessionRecording };
+  // A photo was taken, or a clip stopped
+  "capture-finished": { capture: Capture };
+  status: { message: string };
+  error: { message: string; cause?: unknown };
+}
+
+// The subset of THREE.WebGLRenderer the controller relies on, so tests can
+// hand in a fake
+export interface ARRenderer {
+  readonly domElement: HTMLCanvasElement;
+  xr: {
+    enabled: boolean;
+    setSession(session: XRSession): Promise<void>;
+    getCamera(): THREE.Camera;
+  };
+  setPixelRatio(ratio: number): void;
+  setSize(width: number, height: number): void;
+  render(scene: THREE.Object3D, camera: THREE.Camera): void;
+  setAnimationLoop(callback: XRFrameRequestCallback | null): void;
+  dispose(): void;
+}
+
+export interface ARSessionControllerOptions {
+  xr: XRSystem | null;
+  createRenderer: () => ARRenderer;
+  modelLoader?: ModelLoader;
+  maxObjects?: number;
+  domOverlayRoot?: Element;
+  // Defaults to the app-wide log
+  log?: EventLog;
+  // Session features for AR; VR always asks for local-floor only
+  requiredFeatures?: string[];
+  optionalFeatures?: string[];
+  reticle?: Partial<ReticleStyle>;
+  // What can be placed; defaults to the model catalog
+  models?: readonly ModelDefinition[];
+  // Defaults to "tap"
+  targeting?: PlacementTargeting;
+  // Defaults to no snapping
+  snapping?: SnapSettings;
+  // How many edits can be undone
+  historyLimit?: number;
+  // Language of status and error messages; defaults to English
+  locale?: Locale;
+  // What the canvas fills; defaults to the browser window
+  viewport?: Viewport;
+}
+
+// What the frame loop last saw under the reticle, published throttled
+export interface HitTestState {
+  found: boolean;
+  // describeSurface() of the surface in the controller's locale, e.g. "Floor"
+  surface: string | null;
+  // Why the active model can't go there, if it can't
+  blocker: string | null;
+}
+
+const NO_HIT: HitTestState = { found: false, surface: null, blocker: null };
+
+// Pinch scaling is limited relative to the model's default scale
+const MIN_SCALE_FACTOR = 0.25;
+const MAX_SCALE_FACTOR = 4;
+// Physics mode drops new objects from this height (m) above the reticle
+const SPAWN_HEIGHT = 0.3;
+
+export function createWebGLRenderer(canvas: HTMLCanvasElement): ARRenderer {
+  return new THREE.WebGLRenderer({ canvas, alpha: true, antialias: true });
+}
+
+export class ARSessionController extends TypedEventEmitter<ARSessionEvents> {
+  readonly scene = new THREE.Scene();
+  readonly camera: THREE.PerspectiveCamera;
+  readonly registry: PlacedObjectRegistry;
+  readonly modelLoader: ModelLoader;
+  readonly lighting: SceneLighting;
+  readonly planes = new PlaneTracker();
+  readonly anchors: ObjectAnchors;
+  readonly occlusion = new DepthOcclusion();
+  readonly physics: PhysicsMode;
+  readonly measure = new MeasureTool();
+  readonly capture: FrameCapture;
+  readonly log: EventLog;
+  readonly history: EditHistory;
+  readonly models: readonly ModelDefinition[];
+  // Per-frame values for the UI; see frameStore.ts
+  readonly frameStats = new FrameStatsStore();
+  readonly statusText: ThrottledStore<string>;
+  readonly hitTest = new ThrottledStore<HitTestState>(NO_HIT);
+
+  private readonly xr: XRSystem | null;
+  private readonly createRenderer: () => ARRenderer;
+  private readonly viewport: Viewport;
+  private readonly reporter: StatusReporter;
+  private readonly objectHistory: ObjectHistory;
+  private readonly domOverlayRoot: Element | undefined;
+  private readonly requiredFeatures: string[];
+  private readonly optionalFeatures: string[];
+  private readonly reticle: Reticle;
+  private readonly gizmo = new SelectionGizmo();
+  private readonly raycaster = new THREE.Raycaster();
+
+  private readonly ground = createVirtualGround();
+  private readonly surfaceFinder: SurfaceFinder;
+  private readonly pointer: CanvasPointer;
+
+  private _state: ARState = "idle";
+  private _mode: ViewMode | null = null;
+  // Bumped whenever a mode starts or stops, so async work can tell it's stale
+  private generation = 0;
+  private renderer: ARRenderer | null = null;
+  private session: XRSession | null = null;
+  private viewerSpace: XRReferenceSpace | null = null;
+  private localSpace: XRReferenceSpace | null = null;
+  private _targeting: PlacementTargeting;
+  private _snapping: SnapSettings;
+  // Last surface hit, before alignment and snapping
+  private readonly hitPose: SurfacePose = {
+    position: new THREE.Vector3(),
+    quaternion: new THREE.Quaternion(),
+  };
+  // Normal of the surface each placed object rests on, when it isn't the
+  // object's Y axis (wall-mounted objects)
+  private readonly supportNormals = new WeakMap<
+    THREE.Object3D,
+    THREE.Vector3
+  >();
+  // Whether the gesture in progress rotated the selection
+  private twisted = false;
+  // Transform of the manipulated object when the gesture started, for undo
+  private manipulationStart: {
+    id: string;
+    transform: ObjectTransform;
+  } | null = null;
+  private surfaceVisible = false;
+  private _surface: SurfaceInfo | null = null;
+  private surfaceHintStale = false;
+  private placementFilter: PlacementConstraint | null = null;
+  private viewerYaw = 0;
+  private readonly _viewerPose: SurfacePose = {
+    position: new THREE.Vector3(),
+    quaternion: new THREE.Quaternion(),
+  };
+  private viewerTracked = false;
+  private _selectedId: string | null = null;
+  private dragOffset: THREE.Vector3 | null = null;
+  // Object under a gesture; its anchor must not pull it back meanwhile
+  private manipulatingId: string | null = null;
+  private _tool: ToolMode = "place";
+  private recorder: SessionRecorder | null = null;
+  private roomPreview: THREE.Object3D | null = null;
+  private orbit: OrbitControls | null = null;
+  private _activeModelId: string;
+  private disposed = false;
+  // Stops following the viewport's size
+  private unsubscribeViewport: (() => void) | null = null;
+
+  constructor(options: ARSessionControllerOptions) {
+    super();
+    this.log = options.log ?? eventLog;
+    this.reporter = new StatusReporter(this.log, options.locale);
+    this.reporter.on("status", (event) => this.emit("status", event));
+    this.reporter.on("error", (event) => this.emit("error", event));
+    this.statusText = this.reporter.text;
+    this.planes.setTranslator(this.i18n);
+    this.measure.setTranslator(this.i18n);
+    this.xr = options.xr;
+    this.createRenderer = options.createRenderer;
+    this.viewport = options.viewport ?? windowViewport;
+    this.domOverlayRoot = options.domOverlayRoot;
+    this.modelLoader = options.modelLoader ?? new ModelLoader();
+    this.history = new EditHistory(
+      options.historyLimit ?? DEFAULT_HISTORY_LIMIT
+    );
+    this.models = options.models ?? MODEL_CATALOG;
+    this._activeModelId = this.getModel(DEFAULT_MODEL_ID)
+      ? DEFAULT_MODEL_ID
+      : (this.models[0]?.id ?? DEFAULT_MODEL_ID);
+    this.requiredFeatures =
+      options.requiredFeatures ?? DEFAULT_AR_REQUIRED_FEATURES;
+    this.optionalFeatures =
+      options.optionalFeatures ?? DEFAULT_AR_OPTIONAL_FEATURES;
+    this._targeting = options.targeting ?? "tap";
+    this._snapping = options.snapping ?? NO_SNAPPING;
+    this.registry = new PlacedObjectRegistry(
+      this.scene,
+      options.maxObjects ?? DEFAULT_MAX_OBJECTS
+    );
+    this.anchors = new ObjectAnchors(this.registry, this.log, (id) =>
+      this.physics.world.isAwake(id)
+    );
+    this.physics = new PhysicsMode(
+      this.registry,
+      this.anchors,
+      (id) => this.getModel(id),
+      this.log
+    );
+    this.objectHistory = new ObjectHistory({
+      history: this.history,
+      registry: this.registry,
+      modelLoader: this.modelLoader,
+      physics: this.physics,
+      anchors: this.anchors,
+      supportNormals: this.supportNormals,
+      getModel: (id) => this.getModel(id),
+      i18n: () => this.i18n,
+      removeObject: (id) => this.removeObject(id),
+      onTransformed: (entry) =>
+        this.emit("object-transformed", { object: entry }),
+    });
+    this.registry.subscribe(this.handleRegistryChange);
+    this.surfaceFinder = new SurfaceFinder(this.planes, this.log);
+    this.pointer = new CanvasPointer(this.viewport, this.handleCanvasTap);
+
+    // Camera is controlled by WebXR (or by the emulator's viewer pose)
+    this.camera = new THREE.PerspectiveCamera(
+      70,
+      this.viewport.width / this.viewport.height,
+      0.01,
+      20
+    );
+
+    this.lighting = new SceneLighting(this.scene);
+    this.reticle = new Reticle(options.reticle);
+    this.scene.add(this.reticle);
+    this.scene.add(this.gizmo.object);
+    this.scene.add(this.planes.object);
+    this.scene.add(this.occlusion.debugView);
+    this.scene.add(this.measure.object);
+
+    // Guides stay out of photos and clips
+    this.capture = new FrameCapture([
+      this.reticle,
+      this.gizmo.object,
+      this.planes.object,
+      this.occlusion.debugView,
+    ]);
+    this.capture.on("captured", ({ capture }) => {
+      if (capture.kind === "photo") {
+        this.status("render", "capture.photoTaken");
+      } else {
+        this.status("render", "capture.clipRecorded", {
+          seconds: Math.round(capture.duration),
+        });
+      }
+      this.emit("capture-finished", { capture });
+    });
+    this.capture.on("failed", ({ reason, cause }) =>
+      this.fail("render", reason, undefined, cause)
+    );
+  }
+
+  get state(): ARState {
+    return this._state;
+  }
+
+  get selectedId(): string | null {
+    return this._selectedId;
+  }
+
+  // Mode of the running session, or null when idle
+  get mode(): ViewMode | null {
+    return this._mode;
+  }
+
+  // Classification of the surface under the reticle
+  get surface(): SurfaceInfo | null {
+    return this._surface;
+  }
+
+  // Where the device (or inline camera) is, in the session's space
+  get viewerPose(): SurfacePose | null {
+    return this.viewerTracked ? this._viewerPose : null;
+  }
+
+  get activeModelId(): string {
+    return this._activeModelId;
+  }
+
+  get tool(): ToolMode {
+    return this._tool;
+  }
+
+  get targeting(): PlacementTargeting {
+    return this._targeting;
+  }
+
+  get snapping(): SnapSettings {
+    return this._snapping;
+  }
+
+  get physicsEnabled(): boolean {
+    return this.physics.enabled;
+  }
+
+  // True for the desktop emulator and for replays: no real XR layer, the
+  // regular camera follows the viewer pose instead
+  get isEmulated(): boolean {
+    return (
+      this.xr instanceof EmulatedXRSystem || this.xr instanceof ReplayXRSystem
+    );
+  }
+
+  get isRecordingClip(): boolean {
+    return this.capture.isRecordingClip;
+  }
+
+  get isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  getModel(id: string): ModelDefinition | undefined {
+    return this.models.find((model) => model.id === id);
+  }
+
+  // Switch the active model and start loading it right away
+  setActiveModel(id: string): Promise<THREE.Object3D> {
+    const model = this.getModel(id);
+    if (!model) {
+      return Promise.reject(new Error(`Unknown model "${id}"`));
+    }
+    this._activeModelId = id;
+    this.refreshSurfaceStatus();
+    return this.modelLoader.load(model);
+  }
+
+  // Limit placement to matching surfaces (on top of any model restriction);
+  // null allows any surface
+  setPlacementFilter(constraint: PlacementConstraint | null) {
+    this.placementFilter = constraint;
+    this.refreshSurfaceStatus();
+  }
+
+  setReticleStyle(style: Partial<ReticleStyle>) {
+    this.reticle.setStyle(style);
+  }
+
+  get locale(): Locale {
+    return this.i18n.locale;
+  }
+
+  // Translator of the current locale, for messages built around the
+  // controller (e.g. collaboration notices)
+  get i18n(): Translator {
+    return this.reporter.i18n;
+  }
+
+  // Switch the language of status and error messages. The current status
+  // and the labels in the scene follow right away; errors already reported
+  // and edit history labels stay as they were.
+  setLocale(locale: Locale) {
+    if (!this.reporter.setLocale(locale)) {
+      return;
+    }
+    this.planes.setTranslator(this.i18n);
+    this.measure.setTranslator(this.i18n);
+    this.refreshSurfaceStatus();
+  }
+
+  // Show a status message, logged and translated like the controller's own
+  // and re-translated when the locale changes. Also for features built
+  // around the controller, e.g. saved scenes.
+  status(
+    category: LogCategory,
+    key: MessageKey | PluralKey,
+    params?: MessageParams
+  ) {
+    this.reporter.status(category, key, params);
+  }
+
+  // Log an error and report it with an "error" event
+  fail(
+    category: LogCategory,
+    key: MessageKey | PluralKey,
+    params?: MessageParams,
+    cause?: unknown
+  ) {
+    this.reporter.fail(category, key, params, cause);
+  }
+
+  // Only AR taps follow this; the inline viewer always places under the
+  // pointer and VR along the controller ray
+  setTargeting(targeting: PlacementTargeting) {
+    if (targeting !== this._targeting) {
+      this._targeting = targeting;
+      this.log.info("placement", `Taps place at the ${targeting}`);
+    }
+  }
+
+  // Snap new and dragged objects to a grid, and their rotation to fixed
+  // increments
+  setSnapping(snapping: SnapSettings) {
+    this._snapping = snapping;
+    this.log.info("placement", "Snapping changed", snapping);
+  }
+
+  // Overlay the depth map, to check what occludes virtual content
+  setDepthDebug(enabled: boolean) {
+    this.occlusion.setDebug(enabled);
+  }
+
+  setTool(tool: ToolMode) {
+    if (tool === this._tool) {
+      return;
+    }
+    this._tool = tool;
+    if (tool !== "place") {
+      this.select(null);
+    }
+    if (tool !== "measure") {
+      this.measure.finish();
+      this.measure.setCursor(null);
+    }
+    this.refreshSurfaceStatus();
+    this.emit("tool-changed", { tool });
+  }
+
+  // Drop a measuring point where the reticle is
+  addMeasurePoint(): boolean {
+    if (this._state !== "ready" || !this.surfaceVisible) {
+      this.fail("placement", "measure.noSurface");
+      return false;
+    }
+    this.measure.addPoint(this.reticle.position);
+    return true;
+  }
+
+  // Report the reticle position as an alignment point
+  markAlignmentPoint(): boolean {
+    if (this._state !== "ready" || !this.surfaceVisible) {
+      this.fail("placement", "align.noSurface");
+      return false;
+    }
+    this.emit("alignment-point", { position: this.reticle.position.clone() });
+    return true;
+  }
+
+  // See PhysicsMode
+  setPhysicsEnabled(enabled: boolean) {
+    if (this.physics.setEnabled(enabled)) {
+      this.status("session", enabled ? "physics.enabled" : "physics.disabled");
+    }
+  }
+
+  getPhysicsMaterial(id: string): PhysicsMaterial | undefined {
+    return this.physics.world.getMaterial(id);
+  }
+
+  setPhysicsMaterial(id: string, changes: Partial<PhysicsMaterial>) {
+    const { world } = this.physics;
+    const current = world.getMaterial(id);
+    const entry = this.registry.get(id);
+    if (!current || !entry) {
+      return;
+    }
+    const before = { ...current };
+    world.setMaterial(id, changes);
+    this.objectHistory.recordMaterial(entry, before, { ...current });
+  }
+
+  // Undo or redo the last scene edit: placing, moving, rotating, scaling or
+  // deleting objects and material changes. Objects taken away release their
+  // anchors; objects brought back are anchored again. Resolves false when
+  // there was nothing to replay.
+  undo(): Promise<boolean> {
+    return this.replayHistory("undo");
+  }
+
+  redo(): Promise<boolean> {
+    return this.replayHistory("redo");
+  }
+
+  // Photo of the next frame, delivered through "capture-finished"
+  takePhoto(): boolean {
+    if (!this._mode || !this.capture.takePhoto()) {
+      return false;
+    }
+    this.log.info("render", "Taking photo");
+    return true;
+  }
+
+  // Record a clip of the view, up to MAX_CLIP_SECONDS. It is delivered
+  // through "capture-finished" once stopped.
+  startClip(): boolean {
+    if (!this._mode || !this.capture.startClip()) {
+      return false;
+    }
+    this.status("render", "capture.recordingClip");
+    return true;
+  }
+
+  stopClip() {
+    this.capture.stopClip();
+  }
+
+  // Record viewer poses, hit-test results and taps of the running AR
+  // session, for replaying it later through ReplayXRSystem
+  startRecording(): boolean {
+    if (
+      this._mode !== "immersive-ar" ||
+      !this.session ||
+      !this.localSpace ||
+      this.recorder
+    ) {
+      return false;
+    }
+    this.recorder = new SessionRecorder(this.session, this.localSpace);
+    this.status("session", "session.recording");
+    return true;
+  }
+
+  stopRecording() {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return;
+    }
+    this.recorder = null;
+    const recording = recorder.stop();
+    this.status("session", "session.recorded", {
+      count: recording.frames.length,
+    });
+    this.emit("recording-finished", { recording });
+  }
+
+  // 1. Feature & permission check. The inline viewer needs no XR at all.
+  async checkSupport(): Promise<ModeSupport> {
+    this.transition("checking-support");
+    this.status("session", "session.checking");
+
+    const support: ModeSupport = {
+      "immersive-ar": false,
+      "immersive-vr": false,
+      inline: true,
+    };
+
+    if (!this.xr) {
+      this.transition("idle");
+      this.status("session", "session.noWebXR");
+      return support;
+    }
+
+    try {
+      const [ar, vr] = await Promise.all([
+        this.xr.isSessionSupported("immersive-ar"),
+        this.xr.isSessionSupported("immersive-vr"),
+      ]);
+      support["immersive-ar"] = ar;
+      support["immersive-vr"] = vr;
+      this.transition("idle");
+      if (ar) {
+        this.status(
+          "session",
+          this.isEmulated ? "session.emulatedReady" : "session.arReady"
+        );
+      } else if (vr) {
+        this.status("session", "session.vrOnly");
+      } else {
+        this.status("session", "session.noAR");
+      }
+      return support;
+    } catch (err) {
+      this.transition("idle");
+      this.fail(
+        "session",
+        "session.checkFailed",
+        { error: errorMessage(err) },
+        err
+      );
+      return support;
+    }
+  }
+
+  // 2. Kick-off the session for the given mode
+  async start(mode: ViewMode = "immersive-ar"): Promise<void> {
+    if (mode === "inline") {
+      this.startInline();
+      return;
+    }
+
+    const label = this.i18n.t(MODE_LABELS[mode]);
+    if (!this.xr) {
+      this.fail("session", "session.unsupported", { mode: label });
+      return;
+    }
+
+    this.transition("requesting-session");
+    this.status("session", "session.requesting", { mode: label });
+
+    try {
+      const renderer = this.ensureRenderer();
+
+      // Request the session with required features. VR has no hit testing;
+      // placement uses the controller ray against the virtual ground instead.
+      const session =
+        mode === "immersive-ar"
+          ? await this.xr.requestSession("immersive-ar", {
+              requiredFeatures: this.requiredFeatures,
+              optionalFeatures: this.optionalFeatures,
+              depthSensing: {
+                usagePreference: ["cpu-optimized", "gpu-optimized"],
+                dataFormatPreference: ["luminance-alpha", "float32"],
+              },
+              domOverlay: this.domOverlayRoot
+                ? { root: this.domOverlayRoot }
+                : undefined,
+            })
+          : await this.xr.requestSession("immersive-vr", {
+              requiredFeatures: ["local-floor"],
+            });
+
+      this.session = session;
+      this._mode = mode;
+      this.generation++;
+      this.transition("setting-up");
+      this.status("session", "session.started", { mode: label });
+      this.log.info("session", "Session features", {
+        enabled: session.enabledFeatures ?? "not reported",
+        blendMode: session.environmentBlendMode,
+        depthUsage: session.depthUsage,
+        domOverlay: session.domOverlayState?.type,
+      });
+
+      if (this.isEmulated) {
+        // The emulator has no XR layer: render the virtual room in place of
+        // the camera feed and drive the regular camera from the viewer pose
+        renderer.xr.enabled = false;
+        if (this.xr instanceof EmulatedXRSystem) {
+          this.roomPreview = createRoomPreview(this.xr.room);
+          this.scene.add(this.roomPreview);
+        }
+        this.followViewport();
+      } else {
+        renderer.xr.enabled = true;
+        await renderer.xr.setSession(session);
+      }
+
+      if (mode === "immersive-vr") {
+        this.showVirtualStage();
+      }
+
+      await this.setupReferenceSpaces(session);
+      if (mode === "immersive-ar") {
+        await this.setupHitTesting(session);
+        await this.setupLightEstimation(session);
+        this.setupDepthSensing(session);
+        await this.anchors.attach(session);
+      }
+
+      if (renderer instanceof THREE.WebGLRenderer) {
+        // The emulator has no camera image; its room is in the scene
+        this.capture.start(renderer, this.isEmulated ? null : session);
+      }
+
+      session.addEventListener("end", this.handleSessionEnd);
+      session.addEventListener("select", this.handleSelect);
+
+      // Start the render loop. The renderer runs it on the XR session's
+      // frames; the emulator's session isn't attached to the renderer, so it
+      // is asked for frames directly.
+      if (this.isEmulated) {
+        session.requestAnimationFrame(this.onEmulatedFrame);
+      } else {
+        renderer.setAnimationLoop(this.onXRFrame);
+      }
+
+      this.transition("ready");
+      this.status("session", SURFACE_HINTS[mode].lost);
+    } catch (err) {
+      this.fail(
+        "session",
+        "session.startFailed",
+        { mode: label, error: errorMessage(err) },
+        err
+      );
+      const session = this.session;
+      await this.teardownSession();
+      await session?.end().catch(() => {
+        // Already ended
+      });
+    }
+  }
+
+  // 9. End session
+  async end(): Promise<void> {
+    if (this._mode === "inline") {
+      await this.teardownSession();
+      this.status("session", "session.viewerClosed");
+      return;
+    }
+    await this.session?.end();
+  }
+
+  // 7. Place a new instance of the active model
+  async placeObject(modelId: string = this._activeModelId): Promise<void> {
+    const model = this.getModel(modelId);
+    if (!model) {
+      this.fail("placement", "placement.noModel");
+      return;
+    }
+
+    // Ignore taps while the previous object is still being placed
+    if (this._state === "placing") {
+      return;
+    }
+
+    const generation = this.generation;
+    const name = modelName(model, this.i18n);
+    if (!this._mode || this._state !== "ready") {
+      this.fail("placement", "placement.notReady", { name });
+      return;
+    }
+
+    if (!this.surfaceVisible) {
+      this.fail("placement", "placement.noValidSurface", { name });
+      return;
+    }
+
+    const blocker = this.placementBlocker(model, this._surface);
+    if (blocker) {
+      this.fail("placement", "placement.blocked", { name, reason: blocker });
+      return;
+    }
+
+    if (this.registry.isFull) {
+      this.fail("placement", "placement.limit", {
+        name,
+        limit: this.registry.maxObjects,
+      });
+      return;
+    }
+
+    // Capture the pose now: the reticle keeps moving while the model loads
+    const placement = this.placementFor(model);
+    if (!placement) {
+      this.fail("placement", "placement.noSurface", { name });
+      return;
+    }
+    const pose: SurfacePose = {
+      position: placement.position.clone(),
+      quaternion: placement.quaternion.clone(),
+    };
+    const wallNormal = placement.mounted
+      ? new THREE.Vector3(0, 0, 1).applyQuaternion(placement.quaternion)
+      : null;
+
+    this.transition("placing");
+    this.status("placement", "placement.placing", { name });
+
+    try {
+      const object = await this.modelLoader.instantiate(model);
+      if (this.generation !== generation) {
+        return;
+      }
+      if (wallNormal) {
+        // Hang it with its back against the wall, whatever its pivot
+        pose.position.addScaledVector(wallNormal, depthBehindPivot(object));
+        this.supportNormals.set(object, wallNormal);
+      }
+      object.position.copy(pose.position);
+      object.quaternion.copy(pose.quaternion);
+      if (this.physics.enabled) {
+        // Drop it onto the surface; it gets an anchor once it comes to rest
+        object.position.add(
+          new THREE.Vector3(0, SPAWN_HEIGHT, 0).applyQuaternion(
+            pose.quaternion
+          )
+        );
+      }
+
+      // Add object to scene through the registry
+      const entry = this.registry.add(model.id, object);
+      let anchored = false;
+      if (this.physics.world.has(entry.id)) {
+        this.physics.world.wake(entry.id);
+      } else {
+        anchored = await this.anchors.anchor(entry);
+        if (this.generation !== generation) {
+          return;
+        }
+      }
+      this.status(
+        "placement",
+        anchored ? "placement.anchored" : "placement.placed",
+        { name }
+      );
+
+      this.log.debug("placement", `Placed ${entry.id}`, {
+        position: object.position.toArray(),
+        surface: this._surface?.label,
+        anchored,
+        physics: this.physics.world.has(entry.id),
+      });
+      this.finishPlacing();
+      this.select(entry.id);
+      this.objectHistory.recordPlacement(entry);
+      this.emit("object-placed", { object: entry, anchored });
+    } catch (err) {
+      this.finishPlacing();
+      if (err instanceof ObjectLimitError) {
+        this.fail(
+          "placement",
+          "placement.limit",
+          { name, limit: this.registry.maxObjects },
+          err
+        );
+      } else {
+        this.fail(
+          "placement",
+          "placement.failed",
+          { name, error: errorMessage(err) },
+          err
+        );
+      }
+    }
+  }
+
+  // Snapshot the current layout as a scene document
+  exportScene(name: string): SceneDocument {
+    const entries = this.registry.list();
+    const origin = computeLayoutOrigin(entries, this.viewerYaw);
+    return createSceneDocument(name, serializeObjects(entries, origin));
+  }
+
+  // Re-place a saved layout with its origin at the reticle, facing the
+  // viewer's current heading. Objects whose persistent anchor this device
+  // still knows go back to their anchor instead; no origin is needed when
+  // that holds for all of them. Objects beyond the limit or with unknown
+  // models are skipped.
+  async restoreScene(doc: SceneDocument): Promise<void> {
+    const generation = this.generation;
+    if (!this._mode || this._state !== "ready") {
+      this.fail("scene", "scene.restoreNotReady");
+      return;
+    }
+
+    const restorable = this.anchors.restorable;
+    const needsOrigin = doc.objects.some(
+      (sceneObject) =>
+        !sceneObject.anchor || !restorable.has(sceneObject.anchor.handle)
+    );
+    if (needsOrigin && !this.surfaceVisible) {
+      this.fail("scene", "scene.restoreNeedsOrigin");
+      return;
+    }
+
+    const origin = {
+      position: this.reticle.position.clone(),
+      yaw: this.viewerYaw,
+    };
+
+    this.transition("placing");
+    this.status("scene", "scene.restoring", { name: doc.metadata.name });
+
+    let placed = 0;
+    let skipped = 0;
+    try {
+      for (const sceneObject of doc.objects) {
+        const model = this.getModel(sceneObject.type);
+        if (!model || this.registry.isFull) {
+          skipped++;
+          continue;
+        }
+
+        const object = await this.modelLoader.instantiate(model);
+        if (this.generation !== generation) {
+          return;
+        }
+        applySceneTransform(object, sceneObject.transform, origin);
+        if (sceneObject.material) {
+          applySceneMaterial(object, sceneObject.material);
+        }
+
+        const handle = sceneObject.anchor?.handle;
+        if (handle && restorable.has(handle)) {
+          const anchor = await this.anchors.restore(handle);
+          if (this.generation !== generation) {
+            anchor?.delete();
+            return;
+          }
+          if (anchor) {
+            const entry = this.registry.add(model.id, object, anchor);
+            this.registry.setPersistentHandle(entry.id, handle);
+            placed++;
+            continue;
+          }
+          if (!needsOrigin) {
+            skipped++;
+            continue;
+          }
+        }
+
+        const entry = this.registry.add(model.id, object);
+        await this.anchors.anchor(entry);
+        placed++;
+      }
+
+      this.finishPlacing();
+      if (skipped > 0) {
+        this.status("scene", "scene.restoredSkipped", {
+          count: placed,
+          skipped,
+        });
+      } else {
+        this.status("scene", "scene.restored", { count: placed });
+      }
+      this.emit("scene-restored", { placed, skipped });
+    } catch (err) {
+      this.finishPlacing();
+      this.fail(
+        "scene",
+        "scene.restoreFailed",
+        { error: errorMessage(err) },
+        err
+      );
+    }
+  }
+
+  // Create or update an object edited by another participant of a shared
+  // session, keeping its id. Resolves false when it can't be shown here
+  // (unknown model, object limit).
+  async applySharedObject(
+    sceneObject: SceneObject,
+    origin: SceneOrigin
+  ): Promise<boolean> {
+    const existing = this.registry.get(sceneObject.id);
+    if (existing && existing.type !== sceneObject.type) {
+      this.removeObject(existing.id);
+    } else if (existing) {
+      applySceneTransform(existing.object, sceneObject.transform, origin);
+      if (sceneObject.material) {
+        applySceneMaterial(existing.object, sceneObject.material);
+      }
+      void this.anchors.reanchor(existing);
+      this.registry.markChanged(existing.id);
+      return true;
+    }
+
+    const model = this.getModel(sceneObject.type);
+    if (!model || this.registry.isFull) {
+      return false;
+    }
+    const object = await this.modelLoader.instantiate(model);
+    if (this.registry.get(sceneObject.id) || this.registry.isFull) {
+      return false;
+    }
+    applySceneTransform(object, sceneObject.transform, origin);
+    if (sceneObject.material) {
+      applySceneMaterial(object, sceneObject.material);
+    }
+    const entry = this.registry.add(model.id, object, null, sceneObject.id);
+    await this.anchors.anchor(entry);
+    return true;
+  }
+
+  deleteObject(id: string): boolean {
+    const entry = this.registry.get(id);
+    if (!entry) {
+      return false;
+    }
+    const snapshot = this.objectHistory.snapshot(entry);
+    this.removeObject(id);
+    this.log.info("placement", `Deleted ${id}`);
+    this.objectHistory.recordDeletion(entry, snapshot);
+    return true;
+  }
+
+  // Remove an object another participant of a shared session deleted. Not
+  // recorded in the history: it's their edit to undo. Local edits of the
+  // object can't be undone anymore either.
+  removeSharedObject(id: string): boolean {
+    this.objectHistory.forget(id);
+    return this.removeObject(id);
+  }
+
+  clearObjects() {
+    this.select(null);
+    const entries = this.registry.list();
+    const snapshots = entries.map((entry) =>
+      this.objectHistory.snapshot(entry)
+    );
+    this.registry.clear();
+    for (const entry of entries) {
+      if (entry.persistentHandle) {
+        this.anchors.forget(entry.persistentHandle);
+      }
+    }
+    if (entries.length === 0) {
+      return;
+    }
+    this.log.info("placement", `Cleared ${entries.length} objects`);
+    this.objectHistory.recordClear(entries, snapshots);
+  }
+
+  select(id: string | null) {
+    const next = id && this.registry.get(id) ? id : null;
+    if (next === this._selectedId) {
+      return;
+    }
+
+    const previous = this._selectedId && this.registry.get(this._selectedId);
+    if (previous) {
+      setHighlighted(previous.object, false);
+    }
+
+    const entry = next ? this.registry.get(next) : undefined;
+    if (entry) {
+      setHighlighted(entry.object, true);
+    }
+    this.gizmo.attach(entry?.object ?? null);
+    this._selectedId = next;
+    if (this.orbit) {
+      // The wheel and two-finger gestures scale the selection instead
+      this.orbit.enableZoom = next === null;
+      this.orbit.enablePan = next === null;
+    }
+    this.emit("selection-changed", { id: next });
+  }
+
+  // Placed object under a screen point (client pixels), if any
+  objectAtScreenPoint(x: number, y: number): string | null {
+    const camera = this.getViewCamera();
+    if (!camera) {
+      return null;
+    }
+    this.raycaster.setFromCamera(toNdc(this.viewport, x, y), camera);
+    return this.pickObject(this.raycaster.ray);
+  }
+
+  // Gestures on the selected object. Dragging slides it over the surface it
+  // rests on (the plane through its origin, normal to its local Y axis, as
+  // found by the hit test that placed it).
+  beginDrag(x: number, y: number): boolean {
+    if (this._state !== "ready" || this._tool !== "place") {
+      return false;
+    }
+    const id = this.objectAtScreenPoint(x, y);
+    if (!id) {
+      return false;
+    }
+    this.select(id);
+    const object = this.registry.get(id)!.object;
+    const hit = this.projectOntoSupport(object, x, y);
+    this.dragOffset = hit ? object.position.clone().sub(hit) : null;
+    this.manipulatingId = this.dragOffset ? id : null;
+    if (this.dragOffset) {
+      this.beginManipulation(id);
+    }
+    this.physics.startDrag();
+    if (this.dragOffset && this.orbit) {
+      // Dragging an object must not also orbit the inline camera
+      this.orbit.enabled = false;
+    }
+    return this.dragOffset !== null;
+  }
+
+  dragSelected(x: number, y: number) {
+    const entry = this.getSelected();
+    if (!entry || !this.dragOffset) {
+      return;
+    }
+    const hit = this.projectOntoSupport(entry.object, x, y);
+    if (hit) {
+      entry.object.position.copy(hit.add(this.dragOffset));
+      if (this._snapping.grid) {
+        snapToGrid(
+          entry.object.position,
+          this.supportNormal(entry.object),
+          this._snapping.grid
+        );
+      }
+      this.physics.recordDragSample(entry.object.position);
+    }
+  }
+
+  rotateSelected(deltaRadians: number) {
+    const entry = this.getSelected();
+    if (entry) {
+      this.beginManipulation(entry.id);
+      this.manipulatingId = entry.id;
+      this.twisted = true;
+      // Turn around the surface normal (local Y, or local Z on walls)
+      if (this.supportNormals.has(entry.object)) {
+        entry.object.rotateZ(deltaRadians);
+      } else {
+        entry.object.rotateY(deltaRadians);
+      }
+    }
+  }
+
+  scaleSelected(factor: number) {
+    const entry = this.getSelected();
+    const model = entry && this.getModel(entry.type);
+    if (!entry || !model) {
+      return;
+    }
+    const next = THREE.MathUtils.clamp(
+      entry.object.scale.x * factor,
+      model.defaultScale * MIN_SCALE_FACTOR,
+      model.defaultScale * MAX_SCALE_FACTOR
+    );
+    this.beginManipulation(entry.id);
+    this.manipulatingId = entry.id;
+    entry.object.scale.setScalar(next);
+  }
+
+  endManipulation() {
+    this.dragOffset = null;
+    if (this.orbit) {
+      this.orbit.enabled = true;
+    }
+    const moved = this.manipulatingId;
+    this.manipulatingId = null;
+    const twisted = this.twisted;
+    this.twisted = false;
+    const start = this.manipulationStart;
+    this.manipulationStart = null;
+    const entry = this.getSelected();
+    if (
+      entry &&
+      twisted &&
+      this._snapping.angle &&
+      !this.supportNormals.has(entry.object)
+    ) {
+      snapRotation(
+        entry.object.quaternion,
+        this.supportNormal(entry.object),
+        this._snapping.angle
+      );
+    }
+    if (entry) {
+      if (entry.id === moved && this.physics.world.has(entry.id)) {
+        this.physics.release(entry.id);
+      } else if (entry.id === moved) {
+        void this.anchors.reanchor(entry);
+      }
+      this.registry.markChanged(entry.id);
+      this.emit("object-transformed", { object: entry });
+      if (start?.id === entry.id) {
+        this.objectHistory.recordTransform(entry, start.transform);
+      }
+    }
+  }
+
+  dispose() {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.session?.end().catch(() => {
+      // Session may already be ending
+    });
+    this.stopInline();
+    this.registry.clear();
+    this.history.clear();
+    this.capture.dispose();
+    this.renderer?.dispose();
+    this.renderer = null;
+    this.frameStats.dispose();
+    this.reporter.dispose();
+    this.hitTest.dispose();
+    this.removeAllListeners();
+  }
+
+  private ensureRenderer(): ARRenderer {
+    if (!this.renderer) {
+      const renderer = this.createRenderer();
+      renderer.setPixelRatio(this.viewport.pixelRatio);
+      renderer.setSize(this.viewport.width, this.viewport.height);
+      this.renderer = renderer;
+    }
+    return this.renderer;
+  }
+
+  // 2b. Inline viewer: no XR session, the page canvas shows the scene over a
+  // virtual ground and the camera orbits with mouse or touch
+  private startInline() {
+    this.transition("requesting-session");
+    this.status("session", "session.openingViewer");
+
+    let renderer: ARRenderer;
+    try {
+      renderer = this.ensureRenderer();
+    } catch (err) {
+      this.transition("idle");
+      this.fail(
+        "session",
+        "session.viewerFailed",
+        { error: errorMessage(err) },
+        err
+      );
+      return;
+    }
+
+    this._mode = "inline";
+    this.generation++;
+    this.transition("setting-up");
+
+    renderer.xr.enabled = false;
+    this.showVirtualStage();
+    this.camera.position.set(0, 1.6, 2.5);
+    this.followViewport();
+
+    const orbit = new OrbitControls(this.camera, renderer.domElement);
+    orbit.target.set(0, 0.5, 0);
+    orbit.enableDamping = true;
+    orbit.maxDistance = 8;
+    // Stay above the ground
+    orbit.maxPolarAngle = Math.PI / 2 - 0.05;
+    orbit.update();
+    this.orbit = orbit;
+
+    this.pointer.attach(renderer.domElement);
+
+    if (renderer instanceof THREE.WebGLRenderer) {
+      this.capture.start(renderer, null);
+    }
+    renderer.setAnimationLoop(this.onInlineFrame);
+
+    this.transition("ready");
+    this.status("session", SURFACE_HINTS.inline.lost);
+  }
+
+  private stopInline() {
+    const orbit = this.orbit;
+    if (!orbit) {
+      return;
+    }
+    this.orbit = null;
+    orbit.dispose();
+    this.pointer.detach();
+    this.renderer?.setAnimationLoop(null);
+  }
+
+  // Backdrop for the modes without a camera feed
+  private showVirtualStage() {
+    this.scene.background = VIRTUAL_BACKGROUND;
+    this.scene.add(this.ground);
+  }
+
+  // 4. Reference spaces setup
+  private async setupReferenceSpaces(session: XRSession) {
+    this.status("session", "session.referenceSpaces");
+
+    // Get viewer space (follows the camera/device)
+    this.viewerSpace = await session.requestReferenceSpace("viewer");
+
+    // Get local space (world origin), prefer local-floor for stable tracking
+    try {
+      this.localSpace = await session.requestReferenceSpace("local-floor");
+      this.physics.world.setFloorEnabled(true);
+      this.status("session", "session.localFloor");
+    } catch {
+      this.log.warn(
+        "session",
+        "local-floor not supported, falling back to local"
+      );
+      this.localSpace = await session.requestReferenceSpace("local");
+      // The origin is at the viewer's head, not on the floor
+      this.physics.world.setFloorEnabled(false);
+      this.status("session", "session.local");
+    }
+  }
+
+  // 5. Hit-test setup
+  private async setupHitTesting(session: XRSession) {
+    if (!this.viewerSpace) {
+      throw new Error("Viewer space not available");
+    }
+
+    this.status("hit-test", "session.hitTestSetup");
+    await this.surfaceFinder.requestHitTests(session, this.viewerSpace);
+    this.status("hit-test", "session.hitTestReady");
+  }
+
+  // Optional: the depth map hides placed objects behind real geometry.
+  // Without it they are always drawn on top of the camera feed.
+  private setupDepthSensing(session: XRSession) {
+    const renderer = this.renderer;
+    const occluding = this.occlusion.start(
+      session,
+      renderer instanceof THREE.WebGLRenderer ? renderer : undefined
+    );
+    this.status(
+      "session",
+      occluding ? "session.depthReady" : "session.depthUnavailable"
+    );
+  }
+
+  // Optional: real-world lighting. Without it the static lights stay on.
+  private async setupLightEstimation(session: XRSession) {
+    const renderer = this.renderer;
+    const estimating = await this.lighting.start(
+      session,
+      renderer instanceof THREE.WebGLRenderer ? renderer : undefined
+    );
+    this.status(
+      "session",
+      estimating ? "session.lightReady" : "session.lightUnavailable"
+    );
+  }
+
+  // 6. Per-frame loop. Nothing in here may touch React state: per-frame
+  // values go to stores that notify throttled (see frameStore.ts).
+  private onXRFrame = (time: number, frame: XRFrame | undefined) => {
+    const session = this.session;
+    const renderer = this.renderer;
+    // The renderer's loop also runs without XR frames until it is stopped
+    if (!frame || !session || !renderer) {
+      return;
+    }
+
+    this.log.count("frames");
+    this.frameStats.recordFrame(time);
+    this.recorder?.captureFrame(
+      time,
+      frame,
+      this.surfaceFinder.hitTestSource,
+      this.surfaceFinder.tapHitTestSource
+    );
+    const space = this.localSpace;
+    if (space) {
+      this.planes.update(frame, space);
+      this.updateAnchors(frame, space);
+    }
+    this.stepPhysics(time);
+    this.updateSurface(this.surfaceInView(frame, session));
+    if (space) {
+      this.surfaceFinder.updateTapHits(frame, space);
+    }
+    this.updateViewerPose(frame);
+    this.lighting.update(frame);
+    this.updateDepth(frame);
+    this.gizmo.update();
+
+    if (this.isEmulated) {
+      this.updateCameraFromViewer(frame);
+      renderer.render(this.scene, this.camera);
+    } else {
+      renderer.render(this.scene, renderer.xr.getCamera());
+    }
+    if (this.capture.wantsFrame) {
+      this.captureFrame(frame);
+    }
+  };
+
+  private onEmulatedFrame = (time: number, frame: XRFrame) => {
+    this.onXRFrame(time, frame);
+    this.session?.requestAnimationFrame(this.onEmulatedFrame);
+  };
+
+  // Inline counterpart of onXRFrame, driven by the renderer's animation loop
+  private onInlineFrame = (time: number) => {
+    const renderer = this.renderer;
+    if (!renderer || !this.orbit) {
+      return;
+    }
+
+    this.log.count("frames");
+    this.frameStats.recordFrame(time);
+    this.orbit.update();
+    this.stepPhysics(time);
+    this.updateSurface(this.surfaceUnderPointer());
+    this.viewerYaw = yawFromQuaternion(this.camera.quaternion);
+    this._viewerPose.position.copy(this.camera.position);
+    this._viewerPose.quaternion.copy(this.camera.quaternion);
+    this.viewerTracked = true;
+    this.gizmo.update();
+    renderer.render(this.scene, this.camera);
+    if (this.capture.wantsFrame) {
+      this.captureFrame(null);
+    }
+  };
+
+  // Render the frame again for a photo or clip. The camera image belongs to
+  // the first view, the one the view camera renders.
+  private captureFrame(frame: XRFrame | null) {
+    const camera = this.getViewCamera();
+    if (!camera) {
+      return;
+    }
+    const view =
+      frame && this.localSpace && !this.isEmulated
+        ? (frame.getViewerPose(this.localSpace)?.views[0] ?? null)
+        : null;
+    this.capture.captureFrame(this.scene, camera, view);
+  }
+
+  private updateDepth(frame: XRFrame) {
+    if (!this.occlusion.activeUsage || !this.localSpace) {
+      return;
+    }
+    const view = frame.getViewerPose(this.localSpace)?.views[0];
+    if (view) {
+      this.occlusion.update(frame, view);
+    }
+  }
+
+  // Moving objects drop their anchors; resting ones get new anchors in AR
+  private stepPhysics(time: number) {
+    const rested = this.physics.step(
+      time,
+      this._mode === "immersive-ar" ? this.planes.surfaces() : null,
+      this.manipulatingId
+    );
+    for (const entry of rested) {
+      this.emit("object-transformed", { object: entry });
+    }
+  }
+
+  private updateAnchors(frame: XRFrame, space: XRReferenceSpace) {
+    const changed = this.anchors.tracker.update(
+      frame,
+      space,
+      this.manipulatingId
+    );
+    for (const entry of changed) {
+      const tracked = !entry.trackingLost;
+      this.status("anchors", tracked ? "anchors.found" : "anchors.lost", {
+        name: this.objectName(entry),
+      });
+      this.emit("anchor-tracking-changed", { object: entry, tracked });
+    }
+  }
+
+  private updateSurface(pose: SurfacePose | null) {
+    const hints = SURFACE_HINTS[this._mode ?? "immersive-ar"];
+    this.measure.setCursor(
+      this._tool === "measure" && pose ? pose.position : null
+    );
+
+    if (!pose) {
+      this.reticle.visible = false;
+      this._surface = null;
+      if (this.surfaceVisible) {
+        this.surfaceVisible = false;
+        this.hitTest.set(NO_HIT);
+        this.log.debug("hit-test", "Surface lost");
+        this.emit("surface-lost", {});
+        this.status("hit-test", hints.lost);
+      }
+      return;
+    }
+
+    if (this._mode === "immersive-ar") {
+      this.physics.addSurfacePatch(pose.position, pose.quaternion);
+    }
+
+    const surface = this.classify(pose);
+    const previous = this._surface;
+    this._surface = surface;
+    this.hitPose.position.copy(pose.position);
+    this.hitPose.quaternion.copy(pose.quaternion);
+
+    // The reticle shows where the active model would go, facing its way
+    const placement = this.placementFor(this.getModel(this._activeModelId));
+    this.reticle.visible = true;
+    this.reticle.position.copy(placement?.position ?? pose.position);
+    this.reticle.quaternion.copy(
+      placement?.surfaceQuaternion ?? pose.quaternion
+    );
+    if (!this.surfaceVisible) {
+      this.surfaceVisible = true;
+      this.log.debug(
+        "hit-test",
+        `Surface found: ${surface.label ?? surface.orientation}`,
+        { position: pose.position.toArray() }
+      );
+      this.emit("surface-found", {
+        position: this.reticle.position.clone(),
+        quaternion: this.reticle.quaternion.clone(),
+      });
+    }
+
+    if (
+      this.surfaceHintStale ||
+      previous?.orientation !== surface.orientation ||
+      previous.label !== surface.label
+    ) {
+      this.surfaceHintStale = false;
+      const placing = this._tool === "place";
+      const model = this.getModel(this._activeModelId);
+      const blocker =
+        placing && model && this.placementBlocker(model, surface);
+      this.reticle.setBlocked(Boolean(blocker));
+      this.hitTest.set({
+        found: true,
+        surface: describeSurface(surface, this.i18n),
+        blocker: blocker || null,
+      });
+      if (this._tool === "measure") {
+        this.status("hit-test", "hint.measure");
+      } else if (this._tool === "align") {
+        this.status("hit-test", "hint.align");
+      } else if (blocker) {
+        this.status("hit-test", "hint.blocked", { reason: blocker });
+      } else {
+        this.status("hit-test", hints.found, {
+          surface: describeSurface(surface, this.i18n),
+        });
+      }
+    }
+  }
+
+  // Pose of a model on the surface under the reticle. Snapping only applies
+  // while placing.
+  private placementFor(
+    model: ModelDefinition | undefined
+  ): SurfacePlacement | null {
+    if (!this._surface) {
+      return null;
+    }
+    return alignToSurface(
+      this.hitPose,
+      this._surface,
+      { ...DEFAULT_SURFACE_ALIGNMENT, ...model?.alignment },
+      this.viewerPose?.position ?? null,
+      this._tool === "place" ? this._snapping : NO_SNAPPING
+    );
+  }
+
+  // Re-evaluate the reticle and hint on the next frame
+  private refreshSurfaceStatus() {
+    this.surfaceHintStale = true;
+  }
+
+  private classify(pose: SurfacePose): SurfaceInfo {
+    if (this._mode !== "immersive-ar") {
+      // The virtual ground is the only surface
+      return GROUND_SURFACE;
+    }
+    return (
+      this.planes.surfaceAt(pose.position) ??
+      classifySurface(pose.position, pose.quaternion)
+    );
+  }
+
+  // Why the model can't go on the surface, or null if it can
+  private placementBlocker(
+    model: ModelDefinition,
+    surface: SurfaceInfo | null
+  ): string | null {
+    if (model.placement && !allowsSurface(model.placement, surface)) {
+      return this.i18n.t("placement.onlyOn", {
+        name: modelName(model, this.i18n),
+        surfaces: describeConstraint(model.placement, this.i18n),
+      });
+    }
+    if (
+      this.placementFilter &&
+      !allowsSurface(this.placementFilter, surface)
+    ) {
+      return this.i18n.t("placement.limitedTo", {
+        surfaces: describeConstraint(this.placementFilter, this.i18n),
+      });
+    }
+    return null;
+  }
+
+  // AR: under the reticle. VR: where the controller points.
+  private surfaceInView(
+    frame: XRFrame,
+    session: XRSession
+  ): SurfacePose | null {
+    const space = this.localSpace;
+    if (!space) {
+      return null;
+    }
+    return this._mode === "immersive-vr"
+      ? this.surfaceFinder.fromController(frame, space, session.inputSources)
+      : this.surfaceFinder.fromHitTest(frame, space);
+  }
+
+  // Inline: the virtual ground under the pointer
+  private surfaceUnderPointer(): SurfacePose | null {
+    return this.surfaceFinder.fromPointer(
+      this.pointer.position,
+      this.camera,
+      this.orbit?.target ?? null
+    );
+  }
+
+  private updateViewerPose(frame: XRFrame) {
+    if (!this.localSpace) {
+      return;
+    }
+    const pose = frame.getViewerPose(this.localSpace);
+    this.viewerTracked = !!pose;
+    if (pose) {
+      const { position, orientation } = pose.transform;
+      this._viewerPose.position.set(position.x, position.y, position.z);
+      this._viewerPose.quaternion.set(
+        orientation.x,
+        orientation.y,
+        orientation.z,
+        orientation.w
+      );
+      this.viewerYaw = yawFromQuaternion(this._viewerPose.quaternion);
+    }
+  }
+
+  private updateCameraFromViewer(frame: XRFrame) {
+    if (!this.localSpace) {
+      return;
+    }
+    const pose = frame.getViewerPose(this.localSpace);
+    if (!pose) {
+      return;
+    }
+    this.camera.matrix.fromArray(pose.transform.matrix);
+    this.camera.matrix.decompose(
+      this.camera.position,
+      this.camera.quaternion,
+      this.camera.scale
+    );
+    this.camera.updateMatrixWorld(true);
+  }
+
+  private removeObject(id: string): boolean {
+    if (id === this._selectedId) {
+      this.select(null);
+    }
+    const handle = this.registry.get(id)?.persistentHandle;
+    const removed = this.registry.remove(id);
+    if (handle) {
+      this.anchors.forget(handle);
+    }
+    return removed;
+  }
+
+  private async replayHistory(direction: "undo" | "redo"): Promise<boolean> {
+    // Bringing objects back must not race a placement for the last slot
+    if (this._state === "placing") {
+      return false;
+    }
+    try {
+      const label = await this.history[direction]();
+      if (!label) {
+        return false;
+      }
+      this.status(
+        "placement",
+        direction === "undo" ? "history.undone" : "history.redone",
+        { label }
+      );
+      return true;
+    } catch (err) {
+      this.fail(
+        "placement",
+        direction === "undo" ? "history.undoFailed" : "history.redoFailed",
+        { error: errorMessage(err) },
+        err
+      );
+      return false;
+    }
+  }
+
+  private beginManipulation(id: string) {
+    if (this.manipulationStart?.id !== id) {
+      const entry = this.registry.get(id);
+      this.manipulationStart = entry
+        ? { id, transform: transformOf(entry.object) }
+        : null;
+    }
+  }
+
+  private objectName(entry: PlacedObject): string {
+    const model = this.getModel(entry.type);
+    return model ? modelName(model, this.i18n) : entry.type;
+  }
+
+  // The session may have ended while a placement was in flight
+  private finishPlacing() {
+    if (this._state === "placing") {
+      this.transition("ready");
+    }
+  }
+
+  private getSelected(): PlacedObject | undefined {
+    return this._selectedId ? this.registry.get(this._selectedId) : undefined;
+  }
+
+  // Camera the current frame is rendered with
+  private getViewCamera(): THREE.Camera | null {
+    if (!this._mode || !this.renderer) {
+      return null;
+    }
+    if (this._mode === "inline" || this.isEmulated) {
+      return this.camera;
+    }
+    const xrCamera = this.renderer.xr.getCamera();
+    return xrCamera instanceof THREE.ArrayCamera && xrCamera.cameras[0]
+      ? xrCamera.cameras[0]
+      : xrCamera;
+  }
+
+  private pickObject(ray: THREE.Ray): string | null {
+    this.raycaster.ray.copy(ray);
+    const hits = this.raycaster.intersectObjects(
+      this.registry
+        .list()
+        .filter((entry) => !entry.trackingLost)
+        .map((entry) => entry.object),
+      true
+    );
+    for (const hit of hits) {
+      let node: THREE.Object3D | null = hit.object;
+      while (node && node.userData.placedObjectId === undefined) {
+        node = node.parent;
+      }
+      if (node) {
+        return node.userData.placedObjectId as string;
+      }
+    }
+    return null;
+  }
+
+  private projectOntoSupport(
+    object: THREE.Object3D,
+    x: number,
+    y: number
+  ): THREE.Vector3 | null {
+    const camera = this.getViewCamera();
+    if (!camera) {
+      return null;
+    }
+    this.raycaster.setFromCamera(toNdc(this.viewport, x, y), camera);
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      this.supportNormal(object),
+      object.position
+    );
+    return this.raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+  }
+
+  // Normal of the surface an object rests on: its Y axis unless it was
+  // mounted on a wall
+  private supportNormal(object: THREE.Object3D): THREE.Vector3 {
+    return (
+      this.supportNormals.get(object)?.clone() ??
+      new THREE.Vector3(0, 1, 0).applyQuaternion(object.quaternion)
+    );
+  }
+
+  private handleRegistryChange = () => {
+    // Placed objects hide behind real geometry once depth is available
+    for (const entry of this.registry.list()) {
+      this.occlusion.apply(entry.object);
+    }
+    this.physics.syncBodies();
+  };
+
+  // A tap on a placed object selects it; anywhere else places a new one. In
+  // AR with tap targeting, the reticle first jumps to the tapped surface, so
+  // placing and the tools work at the touched point.
+  private handleSelect = (event: Event) => {
+    const { frame, inputSource } = event as XRInputSourceEvent;
+    const pose =
+      frame && inputSource && this.localSpace
+        ? frame.getPose(inputSource.targetRaySpace, this.localSpace)
+        : undefined;
+    const ray = pose ? rayFromTransform(pose.transform) : null;
+
+    if (this._tool === "place" && ray) {
+      const id = this.pickObject(ray);
+      if (id) {
+        this.select(id);
+        return;
+      }
+    }
+
+    if (
+      this._mode === "immersive-ar" &&
+      this._targeting === "tap" &&
+      frame &&
+      inputSource?.targetRayMode === "screen"
+    ) {
+      const surface = this.localSpace
+        ? this.surfaceFinder.fromTap(
+            frame,
+            this.localSpace,
+            inputSource,
+            ray,
+            this.surfaceVisible ? this.reticle : null
+          )
+        : null;
+      if (!surface) {
+        this.fail("hit-test", "placement.noTapSurface");
+        return;
+      }
+      this.updateSurface(surface);
+    }
+
+    if (!this.handleToolTap()) {
+      void this.placeObject();
+    }
+  };
+
+  // Inline clicks follow the same rule as an XR select
+  private handleCanvasTap = (x: number, y: number) => {
+    const id = this._tool === "place" && this.objectAtScreenPoint(x, y);
+    if (id) {
+      this.select(id);
+      return;
+    }
+    this.updateSurface(this.surfaceUnderPointer());
+    if (!this.handleToolTap()) {
+      void this.placeObject();
+    }
+  };
+
+  // Taps outside place mode go to the active tool
+  private handleToolTap(): boolean {
+    switch (this._tool) {
+      case "measure":
+        this.addMeasurePoint();
+        return true;
+      case "align":
+        this.markAlignmentPoint();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // Size the camera and canvas to the viewport, now and as it changes
+  private followViewport() {
+    this.handleResize();
+    this.unsubscribeViewport ??= this.viewport.subscribe(this.handleResize);
+  }
+
+  private handleResize = () => {
+    const { width, height } = this.viewport;
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.renderer?.setSize(width, height);
+  };
+
+  private handleSessionEnd = () => {
+    const label = this.i18n.t(MODE_LABELS[this._mode ?? "immersive-ar"]);
+    void this.teardownSession().then(() =>
+      this.status("session", "session.ended", { mode: label })
+    );
+  };
+
+  private async teardownSession() {
+    const session = this.session;
+    if (session) {
+      session.removeEventListener("end", this.handleSessionEnd);
+      session.removeEventListener("select", this.handleSelect);
+    }
+    this.stopRecording();
+    this.capture.stop();
+    if (session && !this.isEmulated) {
+      this.renderer?.setAnimationLoop(null);
+    }
+    this.frameStats.reset();
+    this.hitTest.set(NO_HIT);
+    if (this._mode) {
+      this.emit("session-ended", {
+        scene:
+          this.registry.size > 0
+            ? this.exportScene(this.i18n.t("scene.lastSession"))
+            : null,
+      });
+    }
+    this.stopInline();
+    this.session = null;
+    this._mode = null;
+    this.generation++;
+    this.surfaceFinder.cancel();
+    this.lighting.stop();
+    this.occlusion.stop();
+    this.planes.clear();
+    this._surface = null;
+    this.viewerSpace = null;
+    this.localSpace = null;
+    this.surfaceVisible = false;
+    this.viewerTracked = false;
+    this.reticle.visible = false;
+    this.dragOffset = null;
+    this.manipulatingId = null;
+    this.physics.reset();
+    // Measurements stay for export, but can't be extended in another space
+    this.measure.finish();
+    this.measure.setCursor(null);
+    this.select(null);
+    this.anchors.detach();
+
+    if (this.roomPreview) {
+      this.scene.remove(this.roomPreview);
+      this.roomPreview = null;
+    }
+    this.scene.remove(this.ground);
+    this.scene.background = null;
+    this.unsubscribeViewport?.();
+    this.unsubscribeViewport = null;
+
+    if (this._state !== "idle") {
+      this.transition("idle");
+    }
+  }
+
+  private transition(next: ARState) {
+    const previous = this._state;
+    if (!TRANSITIONS[previous].includes(next)) {
+      throw new InvalidTransitionError(previous, next);
+    }
+    this._state = next;
+    this.log.debug("session", `State ${previous} -> ${next}`);
+    this.emit("state-changed", { state: next, previous });
+  }
+}
+
+// How far a freshly instantiated model reaches behind its pivot (-Z)
+function depthBehindPivot(object: THREE.Object3D): number {
+  return Math.max(0, -new THREE.Box3().setFromObject(object).min.z);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : "Unknown error";
+}
@@ -0,0 +1,114 @@
+import type * as THREE from "three";
+import type {
+  PlacedObject,
+  PlacedObjectRegistry,
+} from "@/lib/ar/objectRegistry";
+
+interface PendingAnchor {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  resolve: (anchor: XRAnchor) => void;
+  reject: (reason: unknown) => void;
+}
+
+export class AnchorsUnsupportedError extends Error {
+  constructor() {
+    super("Anchors are not supported in this session");
+    this.name = "AnchorsUnsupportedError";
+  }
+}
+
+// Keeps anchored objects glued to their anchors. Anchors can only be created
+// from an active XRFrame, so requests are queued and fulfilled on the next
+// frame; after that each anchored object is re-posed from its anchor space
+// every frame, and hidden while the runtime has lost track of it.
+export class AnchorTracker {
+  private pending: PendingAnchor[] = [];
+
+  constructor(private readonly registry: PlacedObjectRegistry) {}
+
+  create(
+    position: THREE.Vector3,
+    quaternion: THREE.Quaternion
+  ): Promise<XRAnchor> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        position: position.clone(),
+        quaternion: quaternion.clone(),
+        resolve,
+        reject,
+      });
+    });
+  }
+
+  // Call once per XR frame. `frozenId` skips an object the user is moving.
+  // Returns the objects whose tracking state changed.
+  update(
+    frame: XRFrame,
+    space: XRReferenceSpace,
+    frozenId: string | null
+  ): PlacedObject[] {
+    this.fulfillPending(frame, space);
+
+    const tracked = frame.trackedAnchors;
+    const changed: PlacedObject[] = [];
+    for (const entry of this.registry.list()) {
+      const anchor = entry.anchor;
+      if (!anchor || entry.id === frozenId) {
+        continue;
+      }
+
+      // Runtimes without trackedAnchors still answer getPose
+      const pose =
+        !tracked || tracked.has(anchor)
+          ? frame.getPose(anchor.anchorSpace, space)
+          : undefined;
+      if (pose) {
+        const { position, orientation } = pose.transform;
+        entry.object.position.set(position.x, position.y, position.z);
+        entry.object.quaternion.set(
+          orientation.x,
+          orientation.y,
+          orientation.z,
+          orientation.w
+        );
+      }
+
+      const lost = !pose;
+      if (lost !== entry.trackingLost) {
+        this.registry.setTrackingLost(entry.id, lost);
+        changed.push(entry);
+      }
+    }
+    return changed;
+  }
+
+  // Reject requests that will never see another frame
+  cancel() {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((request) =>
+      request.reject(new Error("Session ended before the anchor was created"))
+    );
+  }
+
+  private fulfillPending(frame: XRFrame, space: XRReferenceSpace) {
+    const pending = this.pending;
+    this.pending = [];
+    for (const request of pending) {
+      const { position: p, quaternion: q } = request;
+      const created = frame.createAnchor?.(
+        new XRRigidTransform(
+          { x: p.x, y: p.y, z: p.z, w: 1 },
+          { x: q.x, y: q.y, z: q.z, w: q.w }
+        ),
+        space
+      );
+      if (created) {
+        created.then(request.resolve, request.reject);
+      } else {
+        request.reject(new AnchorsUnsupportedError());
+      }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import type * as THREE from "three";
+import { toNdc, type Viewport } from "@/lib/ar/viewport";
+
+// Pointer travel (px) below which a click counts as a tap
+const TAP_TOLERANCE = 5;
+
+// The pointer over the inline viewer's canvas. Follows where it is, for the
+// reticle, and tells taps from drags (orbiting) and pinches. Taps are
+// reported in client coordinates.
+export class CanvasPointer {
+  private canvas: HTMLCanvasElement | null = null;
+  private _position: THREE.Vector2 | null = null;
+  private tapStart: { id: number; x: number; y: number } | null = null;
+
+  constructor(
+    private readonly viewport: Viewport,
+    private readonly onTap: (x: number, y: number) => void
+  ) {}
+
+  // In NDC; null when the pointer is off the canvas
+  get position(): THREE.Vector2 | null {
+    return this._position;
+  }
+
+  attach(canvas: HTMLCanvasElement) {
+    this.detach();
+    this.canvas = canvas;
+    canvas.addEventListener("pointerdown", this.handlePointerDown);
+    canvas.addEventListener("pointermove", this.handlePointerMove);
+    canvas.addEventListener("pointerup", this.handlePointerUp);
+    canvas.addEventListener("pointercancel", this.handlePointerUp);
+    canvas.addEventListener("pointerleave", this.handlePointerLeave);
+  }
+
+  detach() {
+    this._position = null;
+    this.tapStart = null;
+    const canvas = this.canvas;
+    if (!canvas) {
+      return;
+    }
+    this.canvas = null;
+    canvas.removeEventListener("pointerdown", this.handlePointerDown);
+    canvas.removeEventListener("pointermove", this.handlePointerMove);
+    canvas.removeEventListener("pointerup", this.handlePointerUp);
+    canvas.removeEventListener("pointercancel", this.handlePointerUp);
+    canvas.removeEventListener("pointerleave", this.handlePointerLeave);
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    this._position = toNdc(this.viewport, event.clientX, event.clientY);
+    // A second finger turns the gesture into a pinch, not a tap
+    this.tapStart = this.tapStart
+      ? null
+      : { id: event.pointerId, x: event.clientX, y: event.clientY };
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    this._position = toNdc(this.viewport, event.clientX, event.clientY);
+  };
+
+  private handlePointerLeave = () => {
+    this._position = null;
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    const start = this.tapStart;
+    if (start?.id !== event.pointerId) {
+      return;
+    }
+    this.tapStart = null;
+    if (
+      event.type === "pointercancel" ||
+      Math.hypot(event.clientX - start.x, event.clientY - start.y) >
+        TAP_TOLERANCE
+    ) {
+      return;
+    }
+    this._position = toNdc(this.viewport, event.clientX, event.clientY);
+    this.onTap(event.clientX, event.clientY);
+  };
+}
@@ -0,0 +1,320 @@
+import * as THREE from "three";
+import { eventLog } from "@/lib/debug/eventLog";
+
+// Virtual surfaces within this distance (m) of the real depth fade in and
+// out instead of cutting off sharply
+const OCCLUSION_EDGE = 0.03;
+// Depth shown at the far (blue) end of the debug view's color ramp
+const DEBUG_MAX_DEPTH = 5;
+
+export type DepthUsage = "cpu" | "gpu";
+
+// Shared by the occlusion patch and the debug view. Normalized view
+// coordinates have their origin at the top left.
+const DEPTH_SAMPLING = /* glsl */ `
+uniform sampler2D depthMap;
+uniform mat4 depthUvTransform;
+uniform float depthRawToMeters;
+uniform bool depthPacked;
+
+float realDepthAt(vec2 viewUv) {
+  vec2 uv = (depthUvTransform * vec4(viewUv, 0.0, 1.0)).xy;
+  vec4 texel = texture2D(depthMap, uv);
+  // luminance-alpha holds 16 bits split over two bytes
+  float raw = depthPacked ? dot(texel.ra, vec2(255.0, 65280.0)) : texel.r;
+  return raw * depthRawToMeters;
+}
+`;
+
+const VARYINGS = /* glsl */ `
+varying vec4 vOcclusionClip;
+varying float vOcclusionDepth;
+`;
+
+const OCCLUSION_VERTEX = /* glsl */ `
+#include <project_vertex>
+vOcclusionClip = gl_Position;
+vOcclusionDepth = -mvPosition.z;
+`;
+
+const OCCLUSION_FRAGMENT = /* glsl */ `
+${DEPTH_SAMPLING}
+${VARYINGS}
+uniform bool occlusionEnabled;
+uniform float occlusionEdge;
+
+float occlusionVisibility() {
+  if (!occlusionEnabled) {
+    return 1.0;
+  }
+  vec2 ndc = vOcclusionClip.xy / vOcclusionClip.w;
+  float real = realDepthAt(vec2(ndc.x * 0.5 + 0.5, 0.5 - ndc.y * 0.5));
+  // 0 means the runtime has no depth for this pixel
+  if (real <= 0.0) {
+    return 1.0;
+  }
+  float behind = vOcclusionDepth - real;
+  return 1.0 - smoothstep(-occlusionEdge, occlusionEdge, behind);
+}
+`;
+
+const APPLY_OCCLUSION = /* glsl */ `
+#include <dithering_fragment>
+gl_FragColor.a *= occlusionVisibility();
+`;
+
+const DEBUG_VERTEX = /* glsl */ `
+varying vec2 vViewUv;
+
+void main() {
+  vViewUv = vec2(position.x * 0.5 + 0.5, 0.5 - position.y * 0.5);
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+const DEBUG_FRAGMENT = /* glsl */ `
+${DEPTH_SAMPLING}
+uniform float debugMaxDepth;
+varying vec2 vViewUv;
+
+void main() {
+  float depth = realDepthAt(vViewUv);
+  if (depth <= 0.0) {
+    discard;
+  }
+  float t = clamp(depth / debugMaxDepth, 0.0, 1.0);
+  gl_FragColor = vec4(mix(vec3(1.0, 0.25, 0.1), vec3(0.1, 0.3, 1.0), t), 0.6);
+}
+`;
+
+// Hides virtual content behind real-world geometry using the WebXR
+// depth-sensing feature. CPU depth is copied into a float texture every
+// frame; GPU depth is sampled straight from the runtime's texture. Placed
+// objects' materials are patched to fade out fragments that lie behind the
+// real depth, with a soft edge.
+export class DepthOcclusion {
+  // Full-screen overlay visualizing the depth map (near red, far blue)
+  readonly debugView: THREE.Mesh;
+
+  private readonly uniforms = {
+    depthMap: { value: null as THREE.Texture | null },
+    depthUvTransform: { value: new THREE.Matrix4() },
+    depthRawToMeters: { value: 1 },
+    depthPacked: { value: false },
+    occlusionEnabled: { value: false },
+    occlusionEdge: { value: OCCLUSION_EDGE },
+    debugMaxDepth: { value: DEBUG_MAX_DEPTH },
+  };
+  private readonly patched = new WeakSet<THREE.Material>();
+  private readonly gpuTexture = new THREE.Texture();
+  private cpuTexture: THREE.DataTexture | null = null;
+
+  private usage: DepthUsage | null = null;
+  private binding: XRWebGLBinding | null = null;
+  private renderer: THREE.WebGLRenderer | null = null;
+  private _debug = false;
+
+  constructor() {
+    this.debugView = new THREE.Mesh(
+      new THREE.PlaneGeometry(2, 2),
+      new THREE.ShaderMaterial({
+        uniforms: this.uniforms,
+        vertexShader: DEBUG_VERTEX,
+        fragmentShader: DEBUG_FRAGMENT,
+        transparent: true,
+        depthTest: false,
+        depthWrite: false,
+      })
+    );
+    this.debugView.name = "depth-debug-view";
+    this.debugView.frustumCulled = false;
+    this.debugView.renderOrder = 1000;
+    this.debugView.visible = false;
+  }
+
+  // Depth path in use, or null without depth sensing
+  get activeUsage(): DepthUsage | null {
+    return this.usage;
+  }
+
+  get debug(): boolean {
+    return this._debug;
+  }
+
+  // Use the session's depth, if the runtime granted depth-sensing. GPU depth
+  // needs direct access to the WebGL context, so it only works with a real
+  // WebGLRenderer. Returns whether occlusion is available.
+  start(session: XRSession, renderer?: THREE.WebGLRenderer): boolean {
+    // depthUsage throws when the feature is not enabled
+    if (!session.enabledFeatures?.includes("depth-sensing")) {
+      return false;
+    }
+
+    if (session.depthUsage === "cpu-optimized") {
+      this.usage = "cpu";
+      return true;
+    }
+
+    if (
+      session.depthUsage === "gpu-optimized" &&
+      renderer &&
+      typeof XRWebGLBinding !== "undefined"
+    ) {
+      try {
+        this.binding = new XRWebGLBinding(session, renderer.getContext());
+        this.renderer = renderer;
+        this.uniforms.depthPacked.value =
+          session.depthDataFormat === "luminance-alpha";
+        this.usage = "gpu";
+        return true;
+      } catch (err) {
+        eventLog.warn("render", "GPU depth sensing unavailable", err);
+      }
+    }
+    return false;
+  }
+
+  // Call once per XR frame, before rendering. Only the first view's depth is
+  // used, which covers handheld AR.
+  update(frame: XRFrame, view: XRView) {
+    const info =
+      this.usage === "cpu"
+        ? this.updateFromCpu(frame, view)
+        : this.usage === "gpu"
+          ? this.updateFromGpu(view)
+          : null;
+
+    const available = info !== null;
+    if (info) {
+      this.uniforms.depthUvTransform.value.fromArray(
+        info.normDepthBufferFromNormView.matrix
+      );
+    }
+    this.uniforms.occlusionEnabled.value = available;
+    this.debugView.visible = this._debug && available;
+  }
+
+  setDebug(enabled: boolean) {
+    this._debug = enabled;
+    this.debugView.visible = enabled && this.uniforms.occlusionEnabled.value;
+  }
+
+  // Patch an object's materials so they are occluded by real depth. Patched
+  // materials render as transparent to blend the soft edge; without depth
+  // they look the same as before.
+  apply(object: THREE.Object3D) {
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) {
+        return;
+      }
+      const materials = Array.isArray(child.material)
+        ? child.material
+        : [child.material];
+      materials.forEach((material) => this.patchMaterial(material));
+    });
+  }
+
+  stop() {
+    this.usage = null;
+    this.binding = null;
+    this.renderer = null;
+    this.uniforms.depthMap.value = null;
+    this.uniforms.occlusionEnabled.value = false;
+    this.debugView.visible = false;
+    this.cpuTexture?.dispose();
+    this.cpuTexture = null;
+  }
+
+  private updateFromCpu(
+    frame: XRFrame,
+    view: XRView
+  ): XRCPUDepthInformation | null {
+    const info = frame.getDepthInformation(view);
+    if (!info) {
+      return null;
+    }
+
+    const { width, height } = info;
+    let texture = this.cpuTexture;
+    if (
+      !texture ||
+      texture.image.width !== width ||
+      texture.image.height !== height
+    ) {
+      texture?.dispose();
+      texture = new THREE.DataTexture(
+        new Float32Array(width * height),
+        width,
+        height,
+        THREE.RedFormat,
+        THREE.FloatType
+      );
+      // Float textures are not filterable everywhere
+      texture.minFilter = THREE.NearestFilter;
+      texture.magFilter = THREE.NearestFilter;
+      this.cpuTexture = texture;
+    }
+
+    // Store meters, whatever the runtime's data format
+    const meters = texture.image.data as Float32Array;
+    const raw =
+      info.data.byteLength === width * height * 4
+        ? new Float32Array(info.data)
+        : new Uint16Array(info.data);
+    for (let i = 0; i < meters.length; i++) {
+      meters[i] = raw[i] * info.rawValueToMeters;
+    }
+    texture.needsUpdate = true;
+
+    this.uniforms.depthMap.value = texture;
+    this.uniforms.depthRawToMeters.value = 1;
+    this.uniforms.depthPacked.value = false;
+    return info;
+  }
+
+  private updateFromGpu(view: XRView): XRWebGLDepthInformation | null {
+    const { binding, renderer } = this;
+    if (!binding || !renderer) {
+      return null;
+    }
+    const info = binding.getDepthInformation(view);
+    // Texture arrays (one layer per eye) are not supported
+    if (!info || info.textureType !== "texture") {
+      return null;
+    }
+
+    // Let three bind the runtime's texture as if it owned it
+    const properties = renderer.properties.get(this.gpuTexture) as {
+      __webglTexture?: WebGLTexture;
+    };
+    properties.__webglTexture = info.texture;
+    this.uniforms.depthMap.value = this.gpuTexture;
+    this.uniforms.depthRawToMeters.value = info.rawValueToMeters;
+    return info;
+  }
+
+  private patchMaterial(material: THREE.Material) {
+    if (this.patched.has(material)) {
+      return;
+    }
+    this.patched.add(material);
+    material.transparent = true;
+
+    const onBeforeCompile = material.onBeforeCompile.bind(material);
+    material.onBeforeCompile = (shader, renderer) => {
+      onBeforeCompile(shader, renderer);
+      Object.assign(shader.uniforms, this.uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace("#include <common>", `#include <common>\n${VARYINGS}`)
+        .replace("#include <project_vertex>", OCCLUSION_VERTEX);
+      shader.fragmentShader = shader.fragmentShader
+        .replace(
+          "#include <common>",
+          `#include <common>\n${OCCLUSION_FRAGMENT}`
+        )
+        .replace("#include <dithering_fragment>", APPLY_OCCLUSION);
+    };
+    material.customProgramCacheKey = () => "depth-occlusion";
+    material.needsUpdate = true;
+  }
+}
@@ -0,0 +1,153 @@
+// Undo/redo for scene edits. Each edit is recorded as a command once it has
+// been applied; undo and redo replay it in either direction. Both stacks are
+// bounded, dropping the oldest edits first.
+
+export interface EditCommand {
+  // What the edit did, e.g. "Move Crate"
+  label: string;
+  // May be async, e.g. when bringing back a deleted object loads its model
+  undo(): void | Promise<void>;
+  redo(): void | Promise<void>;
+  // Consecutive commands with the same key merge into one, so dragging a
+  // slider is undone in one step
+  mergeKey?: string;
+  // What the edit applies to, e.g. the placed objects it changes; see
+  // discard()
+  targets?: readonly unknown[];
+}
+
+export interface HistoryState {
+  // Labels of the edits undo and redo would replay, if any
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export class EditHistory {
+  private readonly undoStack: EditCommand[] = [];
+  private readonly redoStack: EditCommand[] = [];
+  private readonly listeners = new Set<() => void>();
+  private snapshot: HistoryState = { undoLabel: null, redoLabel: null };
+  private replaying = false;
+
+  constructor(public limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  // Stable reference, so it can be handed to useSyncExternalStore as is
+  getState = (): HistoryState => this.snapshot;
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0 && !this.replaying;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0 && !this.replaying;
+  }
+
+  // Record an edit that was just applied. A new edit drops whatever could be
+  // redone. Edits made while undoing or redoing are part of that step and
+  // are not recorded.
+  push(command: EditCommand) {
+    if (this.replaying) {
+      return;
+    }
+    const top = this.undoStack[this.undoStack.length - 1];
+    if (
+      top &&
+      command.mergeKey !== undefined &&
+      top.mergeKey === command.mergeKey &&
+      this.redoStack.length === 0
+    ) {
+      this.undoStack[this.undoStack.length - 1] = {
+        ...command,
+        undo: top.undo,
+      };
+    } else {
+      this.undoStack.push(command);
+      if (this.undoStack.length > this.limit) {
+        this.undoStack.splice(0, this.undoStack.length - this.limit);
+      }
+    }
+    this.redoStack.length = 0;
+    this.emit();
+  }
+
+  // Resolve with the label of the edit undone, or null when there was
+  // nothing to undo. An edit that fails to undo is dropped.
+  undo(): Promise<string | null> {
+    return this.replay(this.undoStack, this.redoStack, "undo");
+  }
+
+  redo(): Promise<string | null> {
+    return this.replay(this.redoStack, this.undoStack, "redo");
+  }
+
+  // Drop the edits that apply to a target, e.g. an object someone else
+  // deleted, from both stacks. Other edits keep their order.
+  discard(target: unknown) {
+    let dropped = false;
+    for (const stack of [this.undoStack, this.redoStack]) {
+      for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].targets?.includes(target)) {
+          stack.splice(i, 1);
+          dropped = true;
+        }
+      }
+    }
+    if (dropped) {
+      this.emit();
+    }
+  }
+
+  clear() {
+    if (this.undoStack.length === 0 && this.redoStack.length === 0) {
+      return;
+    }
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.emit();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async replay(
+    from: EditCommand[],
+    to: EditCommand[],
+    direction: "undo" | "redo"
+  ): Promise<string | null> {
+    if (this.replaying) {
+      return null;
+    }
+    const command = from.pop();
+    if (!command) {
+      return null;
+    }
+    this.replaying = true;
+    this.emit();
+    try {
+      await command[direction]();
+      to.push(command);
+      return command.label;
+    } finally {
+      this.replaying = false;
+      this.emit();
+    }
+  }
+
+  private emit() {
+    const undo = this.undoStack[this.undoStack.length - 1];
+    const redo = this.redoStack[this.redoStack.length - 1];
+    this.snapshot = {
+      undoLabel: undo && !this.replaying ? undo.label : null,
+      redoLabel: redo && !this.replaying ? redo.label : null,
+    };
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,37 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal strongly typed event emitter. `Events` maps event names to payloads.
+export class TypedEventEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  on<K extends keyof Events>(
+    type: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener as Listener<never>);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    this.listeners.get(type)?.delete(listener as Listener<never>);
+  }
+
+  protected emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    const set = this.listeners.get(type);
+    if (!set) {
+      return;
+    }
+    for (const listener of Array.from(set)) {
+      (listener as Listener<Events[K]>)(payload);
+    }
+  }
+
+  protected removeAllListeners() {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,411 @@
+import * as THREE from "three";
+import { TypedEventEmitter } from "@/lib/ar/events";
+import { eventLog } from "@/lib/debug/eventLog";
+import type { MessageKey } from "@/lib/i18n/translator";
+import { downloadBlob } from "@/lib/util/download";
+
+// Photos and short clips of the AR view. A captured frame is rendered a
+// second time into an offscreen target, right after the frame itself, with
+// the overlays passed in (reticle, plane outlines, ...) hidden. The pixels
+// are read back asynchronously, so the frame loop never waits for the GPU;
+// clip frames that aren't back in time are dropped. Where the session
+// grants "camera-access" the camera image is drawn behind the scene,
+// otherwise only the virtual layer is captured.
+
+export type CaptureKind = "photo" | "clip";
+
+export interface Capture {
+  kind: CaptureKind;
+  blob: Blob;
+  // e.g. "ar-photo-2026-10-19T17-37-02.png"
+  fileName: string;
+  // Seconds; 0 for photos
+  duration: number;
+  // Whether the camera feed is in it, or only the virtual layer
+  cameraFeed: boolean;
+}
+
+export interface FrameCaptureEvents {
+  captured: { capture: Capture };
+  // What went wrong, as a message key
+  failed: { reason: MessageKey; cause?: unknown };
+}
+
+// Clips stop by themselves after this long (s)
+export const MAX_CLIP_SECONDS = 15;
+
+// Long side of captured frames (px)
+const MAX_PHOTO_SIZE = 1920;
+const MAX_CLIP_SIZE = 1280;
+const CLIP_FPS = 30;
+// In order of preference; Safari only records MP4
+const CLIP_MIME_TYPES = [
+  "video/mp4;codecs=avc1",
+  "video/webm;codecs=vp9",
+  "video/webm",
+];
+
+const FEED_VERTEX = /* glsl */ `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+// The camera image is already sRGB; written as is, without three's output
+// conversion
+const FEED_FRAGMENT = /* glsl */ `
+uniform sampler2D cameraImage;
+varying vec2 vUv;
+void main() {
+  gl_FragColor = vec4(texture2D(cameraImage, vUv).rgb, 1.0);
+}
+`;
+
+interface ClipRecording {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+  lastFrameAt: number;
+  timer: ReturnType<typeof setTimeout>;
+  cameraFeed: boolean;
+}
+
+export class FrameCapture extends TypedEventEmitter<FrameCaptureEvents> {
+  private renderer: THREE.WebGLRenderer | null = null;
+  private binding: XRWebGLBinding | null = null;
+  private target: THREE.WebGLRenderTarget | null = null;
+  private readonly cameraTexture = new THREE.Texture();
+  private readonly feedScene = new THREE.Scene();
+  private readonly feedCamera = new THREE.OrthographicCamera();
+  private photoRequested = false;
+  private clip: ClipRecording | null = null;
+  // Output of clips, fed to the MediaRecorder through captureStream()
+  private clipCanvas: HTMLCanvasElement | null = null;
+  private readingBack = false;
+
+  constructor(private readonly overlays: THREE.Object3D[]) {
+    super();
+    const feed = new THREE.Mesh(
+      new THREE.PlaneGeometry(2, 2),
+      new THREE.ShaderMaterial({
+        uniforms: { cameraImage: { value: this.cameraTexture } },
+        vertexShader: FEED_VERTEX,
+        fragmentShader: FEED_FRAGMENT,
+        depthTest: false,
+        depthWrite: false,
+      })
+    );
+    feed.frustumCulled = false;
+    this.feedScene.add(feed);
+  }
+
+  get available(): boolean {
+    return this.renderer !== null;
+  }
+
+  get isRecordingClip(): boolean {
+    return this.clip !== null;
+  }
+
+  // Whether the next frame should be handed to captureFrame()
+  get wantsFrame(): boolean {
+    return (
+      this.renderer !== null &&
+      !this.readingBack &&
+      (this.photoRequested ||
+        (this.clip !== null &&
+          performance.now() - this.clip.lastFrameAt >= 1000 / CLIP_FPS))
+    );
+  }
+
+  // Capture from this renderer. The session, if any, provides the camera
+  // image when "camera-access" was granted.
+  start(renderer: THREE.WebGLRenderer, session: XRSession | null) {
+    this.renderer = renderer;
+    this.binding = null;
+    if (
+      session?.enabledFeatures?.includes("camera-access") &&
+      typeof XRWebGLBinding !== "undefined"
+    ) {
+      try {
+        this.binding = new XRWebGLBinding(session, renderer.getContext());
+      } catch (err) {
+        eventLog.warn("render", "Camera image unavailable for captures", err);
+      }
+    }
+  }
+
+  // A clip still recording is finished and delivered
+  stop() {
+    this.stopClip();
+    if (this.photoRequested) {
+      this.photoRequested = false;
+      this.emit("failed", { reason: "capture.viewClosed" });
+    }
+    this.renderer = null;
+    this.binding = null;
+    this.target?.dispose();
+    this.target = null;
+  }
+
+  // Take a photo of the next frame. Returns false when there is no view to
+  // capture or a photo is already on its way.
+  takePhoto(): boolean {
+    if (!this.renderer || this.photoRequested) {
+      return false;
+    }
+    this.photoRequested = true;
+    return true;
+  }
+
+  startClip(): boolean {
+    if (!this.renderer || this.clip || typeof MediaRecorder === "undefined") {
+      return false;
+    }
+    const canvas = (this.clipCanvas ??= document.createElement("canvas"));
+    const mimeType = CLIP_MIME_TYPES.find((type) =>
+      MediaRecorder.isTypeSupported(type)
+    );
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(
+        canvas.captureStream(CLIP_FPS),
+        mimeType ? { mimeType } : undefined
+      );
+    } catch (err) {
+      this.emit("failed", { reason: "capture.noVideo", cause: err });
+      return false;
+    }
+
+    const clip: ClipRecording = {
+      recorder,
+      chunks: [],
+      startedAt: performance.now(),
+      lastFrameAt: -Infinity,
+      timer: setTimeout(() => this.stopClip(), MAX_CLIP_SECONDS * 1000),
+      cameraFeed: this.binding !== null,
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        clip.chunks.push(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      const type = recorder.mimeType || mimeType || "video/webm";
+      const extension = type.startsWith("video/mp4") ? "mp4" : "webm";
+      this.emit("captured", {
+        capture: {
+          kind: "clip",
+          blob: new Blob(clip.chunks, { type }),
+          fileName: captureFileName("clip", extension),
+          duration: (performance.now() - clip.startedAt) / 1000,
+          cameraFeed: clip.cameraFeed,
+        },
+      });
+    };
+    recorder.start();
+    this.clip = clip;
+    return true;
+  }
+
+  // The clip is delivered through "captured" once the recorder has flushed
+  stopClip() {
+    const clip = this.clip;
+    if (!clip) {
+      return;
+    }
+    this.clip = null;
+    clearTimeout(clip.timer);
+    if (clip.recorder.state !== "inactive") {
+      clip.recorder.stop();
+    }
+  }
+
+  // Call after the frame was rendered, when wantsFrame is set. `view` is
+  // the XR view the camera renders, for the camera image.
+  captureFrame(scene: THREE.Scene, camera: THREE.Camera, view: XRView | null) {
+    const renderer = this.renderer;
+    if (!renderer || !this.wantsFrame) {
+      return;
+    }
+    const photo = this.photoRequested;
+    this.photoRequested = false;
+    if (this.clip) {
+      this.clip.lastFrameAt = performance.now();
+    }
+
+    const size = renderer.getDrawingBufferSize(new THREE.Vector2());
+    const scale = Math.min(
+      1,
+      (photo ? MAX_PHOTO_SIZE : MAX_CLIP_SIZE) / Math.max(size.x, size.y)
+    );
+    const width = Math.max(1, Math.round(size.x * scale));
+    const height = Math.max(1, Math.round(size.y * scale));
+    const target = this.ensureTarget(width, height);
+    const cameraFeed = this.renderInto(target, scene, camera, view);
+
+    this.readingBack = true;
+    const pixels = new Uint8Array(width * height * 4);
+    renderer
+      .readRenderTargetPixelsAsync(target, 0, 0, width, height, pixels)
+      .then(() => {
+        const canvas = photo
+          ? document.createElement("canvas")
+          : this.clipCanvas;
+        if (!canvas) {
+          return;
+        }
+        drawPixels(canvas, pixels, width, height);
+        if (photo) {
+          this.deliverPhoto(canvas, cameraFeed);
+        }
+      })
+      .catch((err) => {
+        if (photo) {
+          this.emit("failed", { reason: "capture.photoFailed", cause: err });
+        }
+      })
+      .finally(() => {
+        this.readingBack = false;
+      });
+  }
+
+  dispose() {
+    this.stop();
+    this.removeAllListeners();
+  }
+
+  private ensureTarget(
+    width: number,
+    height: number
+  ): THREE.WebGLRenderTarget {
+    if (!this.target) {
+      this.target = new THREE.WebGLRenderTarget(width, height, {
+        colorSpace: THREE.SRGBColorSpace,
+      });
+      // Rendered like the XR layer: tone mapped and sRGB encoded by the
+      // shaders, so the bytes read back are ready to show
+      (this.target as { isXRRenderTarget?: boolean }).isXRRenderTarget = true;
+    } else if (this.target.width !== width || this.target.height !== height) {
+      this.target.setSize(width, height);
+    }
+    return this.target;
+  }
+
+  // Returns whether the camera image made it into the capture
+  private renderInto(
+    target: THREE.WebGLRenderTarget,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    view: XRView | null
+  ): boolean {
+    const renderer = this.renderer!;
+    const cameraImage =
+      view?.camera && this.binding?.getCameraImage?.(view.camera);
+
+    const visible = this.overlays.map((overlay) => overlay.visible);
+    this.overlays.forEach((overlay) => (overlay.visible = false));
+    const previousTarget = renderer.getRenderTarget();
+    const xrEnabled = renderer.xr.enabled;
+    const autoClear = renderer.autoClear;
+    const clearColor = renderer.getClearColor(new THREE.Color());
+    const clearAlpha = renderer.getClearAlpha();
+    // With XR enabled the renderer would swap in the XR camera and layer
+    renderer.xr.enabled = false;
+    renderer.setRenderTarget(target);
+    renderer.setClearColor(0x000000, 0);
+    renderer.clear();
+    renderer.autoClear = false;
+    try {
+      if (cameraImage) {
+        // Let three bind the runtime's texture as if it owned it
+        const properties = renderer.properties.get(this.cameraTexture) as {
+          __webglTexture?: WebGLTexture;
+        };
+        properties.__webglTexture = cameraImage;
+        renderer.render(this.feedScene, this.feedCamera);
+      }
+      renderer.render(scene, camera);
+    } finally {
+      renderer.autoClear = autoClear;
+      renderer.setClearColor(clearColor, clearAlpha);
+      renderer.setRenderTarget(previousTarget);
+      renderer.xr.enabled = xrEnabled;
+      this.overlays.forEach((overlay, i) => (overlay.visible = visible[i]));
+    }
+    return Boolean(cameraImage);
+  }
+
+  private deliverPhoto(canvas: HTMLCanvasElement, cameraFeed: boolean) {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        this.emit("failed", { reason: "capture.encodeFailed" });
+        return;
+      }
+      this.emit("captured", {
+        capture: {
+          kind: "photo",
+          blob,
+          fileName: captureFileName("photo", "png"),
+          duration: 0,
+          cameraFeed,
+        },
+      });
+    }, "image/png");
+  }
+}
+
+export function downloadCapture(capture: Capture) {
+  downloadBlob(capture.blob, capture.fileName);
+}
+
+// Whether the browser's share sheet takes the capture as a file
+export function canShareCapture(capture: Capture): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    navigator.canShare?.({ files: [captureFile(capture)] }) === true
+  );
+}
+
+export async function shareCapture(capture: Capture): Promise<void> {
+  try {
+    await navigator.share({ files: [captureFile(capture)] });
+  } catch {
+    // Dismissing the share sheet rejects too
+  }
+}
+
+function captureFile(capture: Capture): File {
+  return new File([capture.blob], capture.fileName, {
+    type: capture.blob.type,
+  });
+}
+
+function captureFileName(kind: CaptureKind, extension: string): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+  return `ar-${kind}-${stamp}.${extension}`;
+}
+
+// Read-back rows run bottom to top
+function drawPixels(
+  canvas: HTMLCanvasElement,
+  pixels: Uint8Array,
+  width: number,
+  height: number
+) {
+  // Resizing clears the canvas, and would restart a clip's video track
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const context = canvas.getContext("2d")!;
+  const image = context.createImageData(width, height);
+  const rowBytes = width * 4;
+  for (let y = 0; y < height; y++) {
+    const from = (height - 1 - y) * rowBytes;
+    image.data.set(pixels.subarray(from, from + rowBytes), y * rowBytes);
+  }
+  context.putImageData(image, 0, 0);
+}
@@ -0,0 +1,147 @@
+// External stores for values that change every frame. The frame loop writes
+// as often as it likes; subscribers (React through useSyncExternalStore) are
+// only notified when the value actually changed, at most every `interval`
+// ms, so the UI never re-renders at the display's frame rate.
+
+export type Equality<T> = (a: T, b: T) => boolean;
+
+export class ThrottledStore<T> {
+  private snapshot: T;
+  private pending: { value: T } | null = null;
+  private lastPublish = -Infinity;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    initial: T,
+    private readonly interval = 250,
+    private readonly equals: Equality<T> = shallowEqual
+  ) {
+    this.snapshot = initial;
+  }
+
+  // Stable references, so they can be handed to useSyncExternalStore as is
+  getSnapshot = (): T => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  set(value: T) {
+    if (this.equals(value, this.snapshot)) {
+      // Changed back before it was published
+      this.pending = null;
+      return;
+    }
+    this.pending = { value };
+    if (this.timer !== undefined) {
+      return;
+    }
+    const wait = this.lastPublish + this.interval - performance.now();
+    if (wait <= 0) {
+      this.publish();
+    } else {
+      this.timer = setTimeout(this.publish, wait);
+    }
+  }
+
+  dispose() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending = null;
+    this.listeners.clear();
+  }
+
+  private publish = () => {
+    this.timer = undefined;
+    if (!this.pending) {
+      return;
+    }
+    this.snapshot = this.pending.value;
+    this.pending = null;
+    this.lastPublish = performance.now();
+    for (const listener of this.listeners) {
+      listener();
+    }
+  };
+}
+
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+  const keys = Object.keys(a) as (keyof T)[];
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.is(a[key], b[key]))
+  );
+}
+
+export interface FrameStats {
+  fps: number;
+  // Average and longest time between frames in the last window (ms)
+  frameTime: number;
+  worstFrameTime: number;
+}
+
+// Stats cover this much time (ms), and are published once per window
+const STATS_WINDOW_MS = 500;
+
+// Frame rate and frame times from the timestamps the frame loop is called
+// with. Null while no loop runs.
+export class FrameStatsStore extends ThrottledStore<FrameStats | null> {
+  private windowStart = 0;
+  private lastTime: number | null = null;
+  private frames = 0;
+  private worst = 0;
+
+  constructor() {
+    super(null);
+  }
+
+  recordFrame(time: number) {
+    const last = this.lastTime;
+    this.lastTime = time;
+    if (last === null) {
+      this.windowStart = time;
+      return;
+    }
+    this.frames++;
+    this.worst = Math.max(this.worst, time - last);
+
+    const elapsed = time - this.windowStart;
+    if (elapsed < STATS_WINDOW_MS) {
+      return;
+    }
+    this.set({
+      fps: Math.round((this.frames * 1000) / elapsed),
+      frameTime: round1(elapsed / this.frames),
+      worstFrameTime: round1(this.worst),
+    });
+    this.windowStart = time;
+    this.frames = 0;
+    this.worst = 0;
+  }
+
+  reset() {
+    this.lastTime = null;
+    this.frames = 0;
+    this.worst = 0;
+    this.set(null);
+  }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,151 @@
+export interface GestureHandlers {
+  // Return true to claim a one-finger drag starting at this screen point
+  shouldStartDrag(x: number, y: number): boolean;
+  onDrag(x: number, y: number): void;
+  // Twist angle in radians since the last event (counter-clockwise positive)
+  onTwist(deltaRadians: number): void;
+  // Ratio of the current finger spread to the previous one
+  onPinch(scaleFactor: number): void;
+  onGestureEnd(): void;
+}
+
+interface TrackedPointer {
+  x: number;
+  y: number;
+}
+
+// Elements matching this selector (overlay buttons, panels) never start gestures
+const IGNORE_SELECTOR = "[data-xr-ui]";
+const WHEEL_SCALE_STEP = 0.0015;
+const WHEEL_ROTATE_STEP = 0.005;
+
+// Turns pointer events on the AR overlay into drag, twist and pinch gestures.
+// On desktop (emulator), the mouse wheel scales and Shift+wheel rotates.
+export class GestureController {
+  private readonly pointers = new Map<number, TrackedPointer>();
+  private dragging = false;
+  private twoFinger: { angle: number; distance: number } | null = null;
+
+  constructor(
+    private readonly element: HTMLElement,
+    private readonly handlers: GestureHandlers
+  ) {}
+
+  attach() {
+    this.element.addEventListener("pointerdown", this.handlePointerDown);
+    this.element.addEventListener("pointermove", this.handlePointerMove);
+    this.element.addEventListener("pointerup", this.handlePointerUp);
+    this.element.addEventListener("pointercancel", this.handlePointerUp);
+    this.element.addEventListener("wheel", this.handleWheel, {
+      passive: false,
+    });
+  }
+
+  detach() {
+    this.element.removeEventListener("pointerdown", this.handlePointerDown);
+    this.element.removeEventListener("pointermove", this.handlePointerMove);
+    this.element.removeEventListener("pointerup", this.handlePointerUp);
+    this.element.removeEventListener("pointercancel", this.handlePointerUp);
+    this.element.removeEventListener("wheel", this.handleWheel);
+    this.reset();
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if ((event.target as Element | null)?.closest(IGNORE_SELECTOR)) {
+      return;
+    }
+
+    this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (this.pointers.size === 1) {
+      this.dragging = this.handlers.shouldStartDrag(
+        event.clientX,
+        event.clientY
+      );
+      if (this.dragging) {
+        // Claim the pointer so other listeners (e.g. emulator look) skip it
+        event.preventDefault();
+      }
+    } else if (this.pointers.size === 2) {
+      this.dragging = false;
+      this.twoFinger = this.measureTwoFinger();
+      event.preventDefault();
+    }
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    const pointer = this.pointers.get(event.pointerId);
+    if (!pointer) {
+      return;
+    }
+    pointer.x = event.clientX;
+    pointer.y = event.clientY;
+
+    if (this.dragging && this.pointers.size === 1) {
+      event.preventDefault();
+      this.handlers.onDrag(event.clientX, event.clientY);
+      return;
+    }
+
+    if (this.twoFinger && this.pointers.size === 2) {
+      event.preventDefault();
+      const next = this.measureTwoFinger();
+      if (!next) {
+        return;
+      }
+      let deltaAngle = next.angle - this.twoFinger.angle;
+      // Keep the delta in (-PI, PI] across the atan2 wrap-around
+      if (deltaAngle > Math.PI) deltaAngle -= 2 * Math.PI;
+      if (deltaAngle < -Math.PI) deltaAngle += 2 * Math.PI;
+      if (deltaAngle !== 0) {
+        // Screen Y grows downwards, so flip to counter-clockwise positive
+        this.handlers.onTwist(-deltaAngle);
+      }
+      if (this.twoFinger.distance > 0 && next.distance > 0) {
+        this.handlers.onPinch(next.distance / this.twoFinger.distance);
+      }
+      this.twoFinger = next;
+    }
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    if (!this.pointers.delete(event.pointerId)) {
+      return;
+    }
+    if (this.dragging || this.twoFinger) {
+      this.handlers.onGestureEnd();
+    }
+    this.dragging = false;
+    this.twoFinger = this.pointers.size === 2 ? this.measureTwoFinger() : null;
+  };
+
+  private handleWheel = (event: WheelEvent) => {
+    if ((event.target as Element | null)?.closest(IGNORE_SELECTOR)) {
+      return;
+    }
+    event.preventDefault();
+    if (event.shiftKey) {
+      this.handlers.onTwist(-event.deltaY * WHEEL_ROTATE_STEP);
+    } else {
+      this.handlers.onPinch(Math.exp(-event.deltaY * WHEEL_SCALE_STEP));
+    }
+    this.handlers.onGestureEnd();
+  };
+
+  private measureTwoFinger() {
+    const [a, b] = Array.from(this.pointers.values());
+    if (!a || !b) {
+      return null;
+    }
+    return {
+      angle: Math.atan2(b.y - a.y, b.x - a.x),
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+    };
+  }
+
+  private reset() {
+    this.pointers.clear();
+    this.dragging = false;
+    this.twoFinger = null;
+  }
+}
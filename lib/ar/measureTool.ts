@@ -0,0 +1,337 @@
+import * as THREE from "three";
+import {
+  formatArea,
+  formatLength,
+  polygonArea,
+  type Measurement,
+  type UnitSystem,
+} from "@/lib/ar/measurement";
+import { getTranslator, type Translator } from "@/lib/i18n/translator";
+
+const LINE_COLOR = 0xffcc00;
+const MARKER_COLOR = 0xffffff;
+const MARKER_RADIUS = 0.008;
+// A point dropped this close (m) to the first one closes the polygon
+const CLOSE_DISTANCE = 0.05;
+// Labels are drawn on a canvas and shown as sprites of this height (m)
+const LABEL_HEIGHT = 0.035;
+const LABEL_CANVAS_WIDTH = 256;
+const LABEL_CANVAS_HEIGHT = 64;
+// Measure overlays draw on top of placed objects and the gizmo
+const RENDER_ORDER = 3;
+
+// Measure mode's scene content: point markers, segments with distance
+// labels, the area of closed polygons, and a live segment from the last
+// point to the reticle. Keeps every measurement of the session until
+// cleared.
+export class MeasureTool {
+  readonly object = new THREE.Group();
+
+  private measurements: Measurement[] = [];
+  private snapshot: Measurement[] = [];
+  private readonly listeners = new Set<() => void>();
+  private _units: UnitSystem = "metric";
+  private i18n: Translator = getTranslator();
+  private nextId = 1;
+
+  // Rebuilt whenever a measurement changes
+  private readonly drawn = new THREE.Group();
+  private readonly markerGeometry = new THREE.SphereGeometry(
+    MARKER_RADIUS,
+    12,
+    8
+  );
+  private readonly markerMaterial = new THREE.MeshBasicMaterial({
+    color: MARKER_COLOR,
+    depthTest: false,
+  });
+  private readonly lineMaterial = new THREE.LineBasicMaterial({
+    color: LINE_COLOR,
+    depthTest: false,
+  });
+  private readonly preview: THREE.Line;
+  private previewLabel: THREE.Sprite | null = null;
+
+  constructor() {
+    this.preview = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([
+        new THREE.Vector3(),
+        new THREE.Vector3(),
+      ]),
+      new THREE.LineDashedMaterial({
+        color: LINE_COLOR,
+        dashSize: 0.02,
+        gapSize: 0.01,
+        depthTest: false,
+      })
+    );
+    this.preview.renderOrder = RENDER_ORDER;
+    this.preview.frustumCulled = false;
+    this.preview.visible = false;
+    this.object.add(this.drawn, this.preview);
+  }
+
+  get units(): UnitSystem {
+    return this._units;
+  }
+
+  // The measurement new points go to, if one is in progress
+  get active(): Measurement | null {
+    const last = this.measurements[this.measurements.length - 1];
+    return last && !last.finished ? last : null;
+  }
+
+  list(): Measurement[] {
+    return this.snapshot;
+  }
+
+  setUnits(units: UnitSystem) {
+    if (units !== this._units) {
+      this._units = units;
+      this.emit();
+    }
+  }
+
+  // Labels use the locale's decimal separator
+  setTranslator(i18n: Translator) {
+    if (i18n !== this.i18n) {
+      this.i18n = i18n;
+      this.emit();
+    }
+  }
+
+  // Add a point to the active measurement, or start a new one. Dropping it
+  // on the first point of three or more closes the polygon instead.
+  addPoint(position: THREE.Vector3) {
+    const active = this.active;
+    if (
+      active &&
+      active.points.length >= 3 &&
+      active.points[0].distanceTo(position) < CLOSE_DISTANCE
+    ) {
+      this.close();
+      return;
+    }
+    if (active) {
+      active.points.push(position.clone());
+    } else {
+      this.measurements.push({
+        id: `m${this.nextId++}`,
+        points: [position.clone()],
+        closed: false,
+        finished: false,
+      });
+    }
+    this.emit();
+  }
+
+  // Connect the active measurement back to its first point
+  close(): boolean {
+    const active = this.active;
+    if (!active || active.points.length < 3) {
+      return false;
+    }
+    active.closed = true;
+    active.finished = true;
+    this.emit();
+    return true;
+  }
+
+  // Stop adding to the active measurement; a lone point is dropped
+  finish() {
+    const active = this.active;
+    if (!active) {
+      return;
+    }
+    if (active.points.length < 2) {
+      this.measurements.pop();
+    } else {
+      active.finished = true;
+    }
+    this.emit();
+  }
+
+  // Remove the last point of the active measurement, or reopen the last
+  // finished one
+  undo() {
+    const last = this.measurements[this.measurements.length - 1];
+    if (!last) {
+      return;
+    }
+    if (last.closed) {
+      last.closed = false;
+    } else {
+      last.points.pop();
+    }
+    last.finished = false;
+    if (last.points.length === 0) {
+      this.measurements.pop();
+    }
+    this.emit();
+  }
+
+  clear() {
+    if (this.measurements.length > 0) {
+      this.measurements = [];
+      this.emit();
+    }
+  }
+
+  // Follow the reticle with the live segment; null hides it
+  setCursor(position: THREE.Vector3 | null) {
+    const last = this.active?.points.at(-1);
+    if (!position || !last) {
+      this.preview.visible = false;
+      if (this.previewLabel) {
+        this.previewLabel.visible = false;
+      }
+      return;
+    }
+
+    const positions = this.preview.geometry.getAttribute("position");
+    positions.setXYZ(0, last.x, last.y, last.z);
+    positions.setXYZ(1, position.x, position.y, position.z);
+    positions.needsUpdate = true;
+    this.preview.computeLineDistances();
+    this.preview.visible = true;
+
+    if (!this.previewLabel) {
+      this.previewLabel = createLabel();
+      this.object.add(this.previewLabel);
+    }
+    setLabelText(
+      this.previewLabel,
+      formatLength(last.distanceTo(position), this._units, this.i18n)
+    );
+    this.previewLabel.position.lerpVectors(last, position, 0.5);
+    this.previewLabel.visible = true;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private rebuild() {
+    for (const child of this.drawn.children) {
+      if (child instanceof THREE.Line) {
+        child.geometry.dispose();
+      } else if (child instanceof THREE.Sprite) {
+        disposeLabel(child);
+      }
+    }
+    this.drawn.clear();
+
+    for (const measurement of this.measurements) {
+      const { points, closed } = measurement;
+      for (const point of points) {
+        const marker = new THREE.Mesh(this.markerGeometry, this.markerMaterial);
+        marker.position.copy(point);
+        marker.renderOrder = RENDER_ORDER;
+        this.drawn.add(marker);
+      }
+      if (points.length < 2) {
+        continue;
+      }
+
+      const line = new (closed ? THREE.LineLoop : THREE.Line)(
+        new THREE.BufferGeometry().setFromPoints(points),
+        this.lineMaterial
+      );
+      line.renderOrder = RENDER_ORDER;
+      this.drawn.add(line);
+
+      const segments = closed ? points.length : points.length - 1;
+      for (let i = 0; i < segments; i++) {
+        const start = points[i];
+        const end = points[(i + 1) % points.length];
+        const label = createLabel();
+        setLabelText(
+          label,
+          formatLength(start.distanceTo(end), this._units, this.i18n)
+        );
+        label.position.lerpVectors(start, end, 0.5);
+        this.drawn.add(label);
+      }
+
+      const area = polygonArea(measurement);
+      if (area !== null) {
+        const label = createLabel();
+        setLabelText(label, formatArea(area, this._units, this.i18n));
+        label.position.copy(centroid(points));
+        this.drawn.add(label);
+      }
+    }
+  }
+
+  private emit() {
+    this.rebuild();
+    this.snapshot = this.measurements.map((measurement) => ({
+      ...measurement,
+      points: [...measurement.points],
+    }));
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+function createLabel(): THREE.Sprite {
+  // Fixed size: the texture's storage can't be resized once uploaded
+  const canvas = document.createElement("canvas");
+  canvas.width = LABEL_CANVAS_WIDTH;
+  canvas.height = LABEL_CANVAS_HEIGHT;
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const label = new THREE.Sprite(
+    new THREE.SpriteMaterial({ map: texture, depthTest: false })
+  );
+  label.scale.set(
+    (LABEL_HEIGHT * LABEL_CANVAS_WIDTH) / LABEL_CANVAS_HEIGHT,
+    LABEL_HEIGHT,
+    1
+  );
+  label.renderOrder = RENDER_ORDER + 1;
+  return label;
+}
+
+// Redraw the label's canvas, only when the text changed
+function setLabelText(label: THREE.Sprite, text: string) {
+  if (label.userData.text === text) {
+    return;
+  }
+  label.userData.text = text;
+
+  const texture = label.material.map as THREE.CanvasTexture;
+  const canvas = texture.image as HTMLCanvasElement;
+  const context = canvas.getContext("2d")!;
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.font = `bold ${LABEL_CANVAS_HEIGHT * 0.55}px sans-serif`;
+  const width = Math.min(
+    Math.ceil(context.measureText(text).width) + 32,
+    canvas.width
+  );
+  context.fillStyle = "rgba(0, 0, 0, 0.75)";
+  context.beginPath();
+  context.roundRect((canvas.width - width) / 2, 0, width, canvas.height, 16);
+  context.fill();
+  context.fillStyle = "#ffffff";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  texture.needsUpdate = true;
+}
+
+function disposeLabel(label: THREE.Sprite) {
+  label.material.map?.dispose();
+  label.material.dispose();
+}
+
+function centroid(points: THREE.Vector3[]): THREE.Vector3 {
+  return points
+    .reduce((sum, point) => sum.add(point), new THREE.Vector3())
+    .divideScalar(points.length);
+}
@@ -0,0 +1,180 @@
+import * as THREE from "three";
+import { getTranslator, type Translator } from "@/lib/i18n/translator";
+import { downloadBlob } from "@/lib/util/download";
+
+export type UnitSystem = "metric" | "imperial";
+
+export interface Measurement {
+  id: string;
+  // In the session's local space, in meters
+  points: THREE.Vector3[];
+  // The last point connects back to the first
+  closed: boolean;
+  // No more points are added; the next tap starts a new measurement
+  finished: boolean;
+}
+
+export type MeasurementExportFormat = "json" | "csv";
+
+const METERS_PER_FOOT = 0.3048;
+
+// Unit used for exported numbers, whatever the display scale
+const EXPORT_UNITS: Record<UnitSystem, { length: string; area: string }> = {
+  metric: { length: "m", area: "m²" },
+  imperial: { length: "ft", area: "ft²" },
+};
+
+export function segmentLengths(measurement: Measurement): number[] {
+  const { points, closed } = measurement;
+  const lengths = points
+    .slice(1)
+    .map((point, i) => point.distanceTo(points[i]));
+  if (closed && points.length > 2) {
+    lengths.push(points[points.length - 1].distanceTo(points[0]));
+  }
+  return lengths;
+}
+
+export function totalLength(measurement: Measurement): number {
+  return segmentLengths(measurement).reduce((sum, length) => sum + length, 0);
+}
+
+// Area enclosed by a closed measurement, or null while it's open. Points
+// are rarely exactly coplanar, so this is the area projected onto the
+// polygon's best-fit plane (Newell's method).
+export function polygonArea(measurement: Measurement): number | null {
+  const { points, closed } = measurement;
+  if (!closed || points.length < 3) {
+    return null;
+  }
+  const normal = new THREE.Vector3();
+  points.forEach((current, i) => {
+    const next = points[(i + 1) % points.length];
+    normal.x += (current.y - next.y) * (current.z + next.z);
+    normal.y += (current.z - next.z) * (current.x + next.x);
+    normal.z += (current.x - next.x) * (current.y + next.y);
+  });
+  return normal.length() / 2;
+}
+
+// Short human-readable length: cm/m or in/ft depending on size
+export function formatLength(
+  meters: number,
+  units: UnitSystem,
+  i18n: Translator = getTranslator()
+): string {
+  if (units === "imperial") {
+    const feet = meters / METERS_PER_FOOT;
+    return feet < 1
+      ? `${i18n.number(feet * 12, 1)} in`
+      : `${i18n.number(feet, 2)} ft`;
+  }
+  return meters < 1
+    ? `${i18n.number(meters * 100, 1)} cm`
+    : `${i18n.number(meters, 2)} m`;
+}
+
+export function formatArea(
+  squareMeters: number,
+  units: UnitSystem,
+  i18n: Translator = getTranslator()
+): string {
+  if (units === "imperial") {
+    return `${i18n.number(squareMeters / METERS_PER_FOOT ** 2, 2)} ft²`;
+  }
+  return squareMeters < 0.1
+    ? `${i18n.number(squareMeters * 10000, 0)} cm²`
+    : `${i18n.number(squareMeters, 2)} m²`;
+}
+
+export function measurementsToJSON(
+  measurements: Measurement[],
+  units: UnitSystem
+): string {
+  const scale = exportScale(units);
+  const convert = (meters: number) => round(meters * scale);
+  return JSON.stringify(
+    {
+      units: EXPORT_UNITS[units],
+      exportedAt: new Date().toISOString(),
+      measurements: measurements.map((measurement) => {
+        const area = polygonArea(measurement);
+        return {
+          id: measurement.id,
+          closed: measurement.closed,
+          points: measurement.points.map((point) =>
+            point.toArray().map(convert)
+          ),
+          segments: segmentLengths(measurement).map(convert),
+          totalLength: convert(totalLength(measurement)),
+          area: area === null ? null : round(area * scale * scale),
+        };
+      }),
+    },
+    null,
+    2
+  );
+}
+
+// One row per segment, the closing segment of a polygon included
+export function measurementsToCSV(
+  measurements: Measurement[],
+  units: UnitSystem
+): string {
+  const scale = exportScale(units);
+  const convert = (meters: number) => round(meters * scale);
+  const unit = EXPORT_UNITS[units].length;
+  const rows = [
+    [
+      "measurement",
+      "segment",
+      ...["start_x", "start_y", "start_z", "end_x", "end_y", "end_z"].map(
+        (column) => `${column}_${unit}`
+      ),
+      `length_${unit}`,
+    ].join(","),
+  ];
+  for (const measurement of measurements) {
+    const { points } = measurement;
+    segmentLengths(measurement).forEach((length, i) => {
+      const start = points[i];
+      const end = points[(i + 1) % points.length];
+      rows.push(
+        [
+          measurement.id,
+          i + 1,
+          ...start.toArray().map(convert),
+          ...end.toArray().map(convert),
+          convert(length),
+        ].join(",")
+      );
+    });
+  }
+  return rows.join("\n") + "\n";
+}
+
+export function downloadMeasurements(
+  measurements: Measurement[],
+  units: UnitSystem,
+  format: MeasurementExportFormat
+) {
+  const [content, type] =
+    format === "json"
+      ? [measurementsToJSON(measurements, units), "application/json"]
+      : [measurementsToCSV(measurements, units), "text/csv"];
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(
+    new Blob([content], { type }),
+    `measurements-${date}.${format}`
+  );
+}
+
+// Export units per meter
+function exportScale(units: UnitSystem): number {
+  return units === "imperial" ? 1 / METERS_PER_FOOT : 1;
+}
+
+// Sub-millimeter precision is more than any runtime's hit test delivers
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
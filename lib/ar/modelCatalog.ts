@@ -0,0 +1,94 @@
+import type * as THREE from "three";
+import type { PhysicsDefaults } from "@/lib/ar/physics";
+import type {
+  PlacementConstraint,
+  SurfaceAlignment,
+} from "@/lib/ar/surfaces";
+import type { Translator } from "@/lib/i18n/translator";
+
+export type ModelPivot = "center" | "bottom-center" | [number, number, number];
+
+export type ModelSource =
+  | { kind: "primitive"; primitive: "sphere" }
+  | { kind: "gltf"; url: string }
+  // Builds the object in code. Called once; placed instances are clones.
+  | { kind: "factory"; create: () => THREE.Object3D };
+
+export interface ModelDefinition {
+  id: string;
+  // Shown as is unless the message catalogs have a "model.<id>" entry
+  name: string;
+  thumbnail: string;
+  source: ModelSource;
+  // Uniform scale applied to each placed instance
+  defaultScale: number;
+  // Point of the model that sits on the placement surface. Named pivots are
+  // resolved from the model's bounding box, a tuple is an offset in model units.
+  pivot: ModelPivot;
+  // Surfaces the model may be placed on; anywhere when omitted
+  placement?: PlacementConstraint;
+  // How it sits on them; upright on floors and hung flat on walls unless
+  // overridden
+  alignment?: Partial<SurfaceAlignment>;
+  // Body used in physics mode; collides as a box with default material when
+  // omitted
+  physics?: PhysicsDefaults;
+}
+
+export const MODEL_CATALOG: readonly ModelDefinition[] = [
+  {
+    id: "sphere",
+    name: "Sphere",
+    thumbnail: "/models/thumbnails/sphere.svg",
+    source: { kind: "primitive", primitive: "sphere" },
+    defaultScale: 1,
+    pivot: "center",
+    physics: { shape: "sphere", mass: 0.5, restitution: 0.6, friction: 0.3 },
+  },
+  {
+    id: "crate",
+    name: "Crate",
+    thumbnail: "/models/thumbnails/crate.svg",
+    source: { kind: "gltf", url: "/models/crate.glb" },
+    defaultScale: 0.2,
+    pivot: "bottom-center",
+    placement: { orientation: "horizontal" },
+    // Rests flush on sloped surfaces
+    alignment: { horizontal: "normal" },
+    physics: { mass: 2, restitution: 0.2, friction: 0.6 },
+  },
+  {
+    id: "cone",
+    name: "Cone",
+    thumbnail: "/models/thumbnails/cone.svg",
+    source: { kind: "gltf", url: "/models/cone.glb" },
+    defaultScale: 0.15,
+    pivot: "bottom-center",
+    placement: { orientation: "horizontal" },
+    physics: { mass: 1, restitution: 0.3, friction: 0.5 },
+  },
+  {
+    id: "torus",
+    name: "Ring",
+    thumbnail: "/models/thumbnails/torus.svg",
+    source: { kind: "gltf", url: "/models/torus.glb" },
+    defaultScale: 0.15,
+    pivot: "bottom-center",
+    physics: { mass: 0.4, restitution: 0.5, friction: 0.4 },
+  },
+];
+
+export const DEFAULT_MODEL_ID = "sphere";
+
+export function getModelDefinition(id: string): ModelDefinition | undefined {
+  return MODEL_CATALOG.find((model) => model.id === id);
+}
+
+// The model's name in the UI language
+export function modelName(
+  model: Pick<ModelDefinition, "id" | "name">,
+  i18n: Translator
+): string {
+  const key = `model.${model.id}`;
+  return i18n.has(key) ? i18n.t(key) : model.name;
+}
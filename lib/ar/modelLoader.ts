@@ -0,0 +1,150 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import type { ModelDefinition, ModelPivot } from "@/lib/ar/modelCatalog";
+
+export type ModelLoadStatus = "idle" | "loading" | "loaded" | "error";
+
+export interface ModelLoadState {
+  status: ModelLoadStatus;
+  // 0..1, or null while the total size is unknown
+  progress: number | null;
+  error: string | null;
+}
+
+const IDLE_STATE: ModelLoadState = { status: "idle", progress: 0, error: null };
+
+// Loads catalog models once and hands out independent instances. Templates
+// (and their geometry) are cached for the lifetime of the loader; every
+// instance gets its own materials so per-object tweaks such as selection
+// highlights don't leak between copies.
+export class ModelLoader {
+  private readonly templates = new Map<string, Promise<THREE.Object3D>>();
+  private readonly listeners = new Set<() => void>();
+  private readonly gltfLoader = new GLTFLoader();
+  private states: Record<string, ModelLoadState> = {};
+
+  getState(id: string): ModelLoadState {
+    return this.states[id] ?? IDLE_STATE;
+  }
+
+  getStates(): Record<string, ModelLoadState> {
+    return this.states;
+  }
+
+  load(model: ModelDefinition): Promise<THREE.Object3D> {
+    const cached = this.templates.get(model.id);
+    if (cached) {
+      return cached;
+    }
+
+    this.setState(model.id, { status: "loading", progress: 0, error: null });
+    const template = this.loadSource(model)
+      .then((content) => {
+        const pivoted = applyPivot(content, model.pivot);
+        this.setState(model.id, { status: "loaded", progress: 1, error: null });
+        return pivoted;
+      })
+      .catch((err) => {
+        // Drop the failed promise so the next attempt retries the download
+        this.templates.delete(model.id);
+        const message = err instanceof Error ? err.message : String(err);
+        this.setState(model.id, {
+          status: "error",
+          progress: null,
+          error: message,
+        });
+        throw new Error(`Failed to load model "${model.name}": ${message}`);
+      });
+
+    this.templates.set(model.id, template);
+    return template;
+  }
+
+  async instantiate(model: ModelDefinition): Promise<THREE.Object3D> {
+    const template = await this.load(model);
+    const instance = template.clone(true);
+    instance.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.material = Array.isArray(child.material)
+          ? child.material.map((material) => material.clone())
+          : child.material.clone();
+      }
+    });
+    instance.scale.setScalar(model.defaultScale);
+    instance.userData.modelId = model.id;
+    return instance;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private loadSource(model: ModelDefinition): Promise<THREE.Object3D> {
+    const { source } = model;
+    if (source.kind === "primitive") {
+      return Promise.resolve(createPrimitive(source.primitive));
+    }
+    if (source.kind === "factory") {
+      return Promise.resolve().then(source.create);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.gltfLoader.load(
+        source.url,
+        (gltf) => resolve(gltf.scene),
+        (event) => {
+          this.setState(model.id, {
+            status: "loading",
+            progress: event.lengthComputable ? event.loaded / event.total : null,
+            error: null,
+          });
+        },
+        (err) => reject(err)
+      );
+    });
+  }
+
+  private setState(id: string, state: ModelLoadState) {
+    this.states = { ...this.states, [id]: state };
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+function createPrimitive(primitive: "sphere"): THREE.Object3D {
+  switch (primitive) {
+    case "sphere": {
+      const geometry = new THREE.SphereGeometry(0.1, 32, 32);
+      const material = new THREE.MeshStandardMaterial({
+        color: 0xff4444,
+        metalness: 0.1,
+        roughness: 0.2,
+      });
+      return new THREE.Mesh(geometry, material);
+    }
+  }
+}
+
+// Wrap the content in a group so the pivot point ends up at the origin
+function applyPivot(content: THREE.Object3D, pivot: ModelPivot) {
+  const group = new THREE.Group();
+  group.add(content);
+
+  if (Array.isArray(pivot)) {
+    content.position.set(-pivot[0], -pivot[1], -pivot[2]);
+    return group;
+  }
+
+  const box = new THREE.Box3().setFromObject(content);
+  if (box.isEmpty()) {
+    return group;
+  }
+  const center = box.getCenter(new THREE.Vector3());
+  const anchorY = pivot === "bottom-center" ? box.min.y : center.y;
+  content.position.set(-center.x, -anchorY, -center.z);
+  return group;
+}
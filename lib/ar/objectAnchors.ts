@@ -0,0 +1,175 @@
+import { AnchorTracker } from "@/lib/ar/anchorTracker";
+import type {
+  PlacedObject,
+  PlacedObjectRegistry,
+} from "@/lib/ar/objectRegistry";
+import type { EventLog } from "@/lib/debug/eventLog";
+
+// Anchors of placed objects: creating them where the objects are, making
+// them persistent, and deleting the persistent anchors of objects that
+// moved or went away. Only an AR session has anchors; handles to delete
+// outside one are kept until the next AR session is attached.
+export class ObjectAnchors {
+  readonly tracker: AnchorTracker;
+
+  private session: XRSession | null = null;
+  // Bumped whenever a session attaches or detaches, so an anchor created
+  // for an earlier session is dropped
+  private generation = 0;
+  private readonly staleHandles = new Set<string>();
+
+  constructor(
+    private readonly registry: PlacedObjectRegistry,
+    private readonly log: EventLog,
+    // Moving objects (e.g. falling with physics) must not be anchored
+    private readonly isMoving: (id: string) => boolean
+  ) {
+    this.tracker = new AnchorTracker(registry);
+  }
+
+  // Handles the attached session can restore
+  get restorable(): Set<string> {
+    return new Set(this.session?.persistentAnchors ?? []);
+  }
+
+  // Start anchoring in an AR session. Objects kept from an earlier session
+  // get their persistent anchors back, and anchors of objects removed since
+  // are deleted.
+  async attach(session: XRSession) {
+    this.session = session;
+    this.generation++;
+
+    const known = this.restorable;
+    for (const handle of this.staleHandles) {
+      if (known.has(handle)) {
+        this.forget(handle);
+      }
+    }
+    this.staleHandles.clear();
+
+    for (const entry of this.registry.list()) {
+      const handle = entry.persistentHandle;
+      if (!handle || entry.anchor) {
+        continue;
+      }
+      const anchor = known.has(handle) ? await this.restore(handle) : null;
+      if (anchor) {
+        this.registry.setAnchor(entry.id, anchor);
+      } else {
+        this.registry.setPersistentHandle(entry.id, null);
+      }
+    }
+  }
+
+  // Objects carry over to the next mode; anchors belong to this session.
+  // Persistent handles stay so a later AR session can restore them.
+  detach() {
+    this.session = null;
+    this.generation++;
+    this.tracker.cancel();
+    this.registry.releaseAnchors();
+  }
+
+  // Anchor an object where it is, for stable tracking, when the AR session
+  // supports it. Resolves once the anchor exists; making it persistent
+  // continues in the background.
+  async anchor(entry: PlacedObject): Promise<boolean> {
+    if (!this.session) {
+      return false;
+    }
+
+    const generation = this.generation;
+    let anchor: XRAnchor;
+    try {
+      anchor = await this.tracker.create(
+        entry.object.position,
+        entry.object.quaternion
+      );
+    } catch (err) {
+      this.log.warn("anchors", "Could not create anchor", err);
+      return false;
+    }
+    // Physics may have set it moving in the meantime
+    if (
+      this.generation !== generation ||
+      !this.registry.get(entry.id) ||
+      this.isMoving(entry.id)
+    ) {
+      anchor.delete();
+      return false;
+    }
+
+    this.registry.setAnchor(entry.id, anchor);
+    void this.persist(entry.id, anchor);
+    return true;
+  }
+
+  // A moved object needs a new anchor at its new pose. Outside AR the stale
+  // handle is dropped and the object stays unanchored until placed again.
+  async reanchor(entry: PlacedObject) {
+    const anchored = entry.anchor !== null;
+    this.release(entry);
+    if (anchored) {
+      await this.anchor(entry);
+    }
+  }
+
+  // Detach an object from its anchor and saved spot, e.g. once it moves
+  release(entryOrId: PlacedObject | string) {
+    const entry =
+      typeof entryOrId === "string" ? this.registry.get(entryOrId) : entryOrId;
+    if (!entry) {
+      return;
+    }
+    const handle = entry.persistentHandle;
+    if (handle) {
+      this.registry.setPersistentHandle(entry.id, null);
+      this.forget(handle);
+    }
+    if (entry.anchor) {
+      this.registry.setAnchor(entry.id, null);
+    }
+  }
+
+  // Delete a persistent anchor nothing refers to anymore
+  forget(handle: string) {
+    const session = this.session;
+    if (!session?.deletePersistentAnchor) {
+      this.staleHandles.add(handle);
+      return;
+    }
+    session.deletePersistentAnchor(handle).catch((err) => {
+      this.log.warn("anchors", "Could not delete persistent anchor", err);
+    });
+  }
+
+  async restore(handle: string): Promise<XRAnchor | null> {
+    try {
+      return (await this.session?.restorePersistentAnchor?.(handle)) ?? null;
+    } catch (err) {
+      this.log.warn(
+        "anchors",
+        `Could not restore persistent anchor ${handle}`,
+        err
+      );
+      return null;
+    }
+  }
+
+  private async persist(id: string, anchor: XRAnchor) {
+    if (!anchor.requestPersistentHandle) {
+      return;
+    }
+    try {
+      const handle = await anchor.requestPersistentHandle();
+      if (this.registry.get(id)?.anchor === anchor) {
+        this.registry.setPersistentHandle(id, handle);
+      } else {
+        // Moved or deleted while the handle was being created
+        this.forget(handle);
+      }
+    } catch (err) {
+      this.log.warn("anchors", "Could not persist anchor", err);
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import * as THREE from "three";
+import type { EditHistory } from "@/lib/ar/editHistory";
+import {
+  modelName,
+  type ModelDefinition,
+} from "@/lib/ar/modelCatalog";
+import type { ModelLoader } from "@/lib/ar/modelLoader";
+import type { ObjectAnchors } from "@/lib/ar/objectAnchors";
+import type {
+  PlacedObject,
+  PlacedObjectRegistry,
+} from "@/lib/ar/objectRegistry";
+import type { PhysicsMaterial } from "@/lib/ar/physics";
+import type { PhysicsMode } from "@/lib/ar/physicsMode";
+import type { SceneObject } from "@/lib/scene/sceneDocument";
+import {
+  applySceneMaterial,
+  applySceneTransform,
+  serializeObjects,
+  type SceneOrigin,
+} from "@/lib/scene/sceneSerializer";
+import type { Translator } from "@/lib/i18n/translator";
+
+export interface ObjectTransform {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+}
+
+// What's needed to bring back a removed object as it was
+export interface ObjectSnapshot {
+  // Transform relative to the world origin
+  sceneObject: SceneObject;
+  physics: PhysicsMaterial | undefined;
+  wallNormal: THREE.Vector3 | null;
+}
+
+export interface ObjectHistoryOptions {
+  history: EditHistory;
+  registry: PlacedObjectRegistry;
+  modelLoader: ModelLoader;
+  physics: PhysicsMode;
+  anchors: ObjectAnchors;
+  // Normals of wall-mounted objects, kept across delete and undo
+  supportNormals: WeakMap<THREE.Object3D, THREE.Vector3>;
+  getModel(id: string): ModelDefinition | undefined;
+  // Labels are translated as edits are recorded
+  i18n(): Translator;
+  // Takes an object out of the scene, with its persistent anchor
+  removeObject(id: string): boolean;
+  // An undo or redo moved, rotated or scaled an object
+  onTransformed(entry: PlacedObject): void;
+}
+
+// An object as the history knows it, across being removed and brought back
+interface ObjectRef {
+  id: string;
+}
+
+const WORLD_ORIGIN: SceneOrigin = { position: new THREE.Vector3(), yaw: 0 };
+
+// Records edits of placed objects in the edit history, with the undo and
+// redo steps that replay them.
+//
+// An object brought back by undo or redo gets a new id: in a shared session
+// the old one may already be deleted for good (see lib/collab). Edits refer
+// to objects through refs that follow the object to its new id.
+export class ObjectHistory {
+  // Ref of each object id the history refers to
+  private readonly refs = new Map<string, ObjectRef>();
+
+  constructor(private readonly options: ObjectHistoryOptions) {}
+
+  // Undoing a placement takes the object away again; redoing it brings the
+  // object back as it was when it was taken away
+  recordPlacement(entry: PlacedObject) {
+    const ref = this.ref(entry.id);
+    let snapshot: ObjectSnapshot | null = null;
+    this.options.history.push({
+      label: this.label("history.place", entry),
+      undo: () => {
+        const current = this.options.registry.get(ref.id);
+        snapshot = current ? this.snapshot(current) : null;
+        this.options.removeObject(ref.id);
+      },
+      redo: async () => {
+        if (snapshot) {
+          await this.recreate(snapshot, ref);
+        }
+      },
+      targets: [ref],
+    });
+  }
+
+  recordTransform(entry: PlacedObject, before: ObjectTransform) {
+    const after = transformOf(entry.object);
+    const key = !after.position.equals(before.position)
+      ? "history.move"
+      : !after.quaternion.equals(before.quaternion)
+        ? "history.rotate"
+        : !after.scale.equals(before.scale)
+          ? "history.scale"
+          : null;
+    if (!key) {
+      return;
+    }
+    const ref = this.ref(entry.id);
+    this.options.history.push({
+      label: this.label(key, entry),
+      undo: () => this.applyTransform(ref.id, before),
+      redo: () => this.applyTransform(ref.id, after),
+      targets: [ref],
+    });
+  }
+
+  // Call with a snapshot taken before the object was removed
+  recordDeletion(entry: PlacedObject, snapshot: ObjectSnapshot) {
+    const ref = this.ref(entry.id);
+    this.options.history.push({
+      label: this.label("history.delete", entry),
+      undo: () => this.recreate(snapshot, ref),
+      redo: () => void this.options.removeObject(ref.id),
+      targets: [ref],
+    });
+  }
+
+  // Undone and redone as a whole, so it goes once any of the objects is
+  // deleted elsewhere
+  recordClear(entries: PlacedObject[], snapshots: ObjectSnapshot[]) {
+    const refs = entries.map((entry) => this.ref(entry.id));
+    this.options.history.push({
+      label: this.options.i18n().t("history.clear", { count: entries.length }),
+      undo: async () => {
+        for (const [i, snapshot] of snapshots.entries()) {
+          await this.recreate(snapshot, refs[i]);
+        }
+      },
+      redo: () => {
+        for (const ref of refs) {
+          this.options.removeObject(ref.id);
+        }
+      },
+      targets: refs,
+    });
+  }
+
+  recordMaterial(
+    entry: PlacedObject,
+    before: PhysicsMaterial,
+    after: PhysicsMaterial
+  ) {
+    const ref = this.ref(entry.id);
+    const { world } = this.options.physics;
+    this.options.history.push({
+      label: this.label("history.material", entry),
+      undo: () => world.setMaterial(ref.id, before),
+      redo: () => world.setMaterial(ref.id, after),
+      // A slider drag is undone in one step
+      mergeKey: `physics-material:${entry.id}`,
+      targets: [ref],
+    });
+  }
+
+  // Drop the edits of an object that is gone for good, e.g. deleted by
+  // another participant: undoing them would bring it back under their feet
+  forget(id: string) {
+    const ref = this.refs.get(id);
+    if (ref) {
+      this.refs.delete(id);
+      this.options.history.discard(ref);
+    }
+  }
+
+  snapshot(entry: PlacedObject): ObjectSnapshot {
+    const [sceneObject] = serializeObjects([entry], WORLD_ORIGIN);
+    const physics = this.options.physics.world.getMaterial(entry.id);
+    return {
+      sceneObject,
+      physics: physics && { ...physics },
+      wallNormal:
+        this.options.supportNormals.get(entry.object)?.clone() ?? null,
+    };
+  }
+
+  private ref(id: string): ObjectRef {
+    let ref = this.refs.get(id);
+    if (!ref) {
+      ref = { id };
+      this.refs.set(id, ref);
+    }
+    return ref;
+  }
+
+  // Bring back a removed object with its transform and materials under a
+  // new id, and anchor it again
+  private async recreate(
+    snapshot: ObjectSnapshot,
+    ref: ObjectRef
+  ): Promise<void> {
+    const { registry, modelLoader, physics, anchors } = this.options;
+    const { sceneObject } = snapshot;
+    const model = this.options.getModel(sceneObject.type);
+    if (!model) {
+      throw new Error(`Unknown model ${sceneObject.type}`);
+    }
+    const object = await modelLoader.instantiate(model);
+    applySceneTransform(object, sceneObject.transform, WORLD_ORIGIN);
+    if (sceneObject.material) {
+      applySceneMaterial(object, sceneObject.material);
+    }
+    if (snapshot.wallNormal) {
+      this.options.supportNormals.set(object, snapshot.wallNormal.clone());
+    }
+    const entry = registry.add(model.id, object);
+    this.refs.delete(ref.id);
+    ref.id = entry.id;
+    this.refs.set(entry.id, ref);
+    if (snapshot.physics) {
+      physics.world.setMaterial(entry.id, snapshot.physics);
+    }
+    await anchors.anchor(entry);
+  }
+
+  private applyTransform(id: string, transform: ObjectTransform) {
+    const { registry, physics, anchors } = this.options;
+    const entry = registry.get(id);
+    if (!entry) {
+      return;
+    }
+    entry.object.position.copy(transform.position);
+    entry.object.quaternion.copy(transform.quaternion);
+    entry.object.scale.copy(transform.scale);
+    if (physics.world.has(id)) {
+      // Start over at rest where it was put back
+      physics.world.remove(id);
+      physics.syncBodies();
+    } else {
+      void anchors.reanchor(entry);
+    }
+    registry.markChanged(id);
+    this.options.onTransformed(entry);
+  }
+
+  private label(
+    key:
+      | "history.place"
+      | "history.move"
+      | "history.rotate"
+      | "history.scale"
+      | "history.delete"
+      | "history.material",
+    entry: PlacedObject
+  ): string {
+    const i18n = this.options.i18n();
+    const model = this.options.getModel(entry.type);
+    const name = model ? modelName(model, i18n) : entry.type;
+    return i18n.t(key, { name });
+  }
+}
+
+export function transformOf(object: THREE.Object3D): ObjectTransform {
+  return {
+    position: object.position.clone(),
+    quaternion: object.quaternion.clone(),
+    scale: object.scale.clone(),
+  };
+}
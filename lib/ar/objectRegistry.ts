@@ -0,0 +1,206 @@
+import * as THREE from "three";
+
+// Catalog model id (see modelCatalog.ts)
+export type PlacedObjectType = string;
+
+export interface PlacedObject {
+  id: string;
+  type: PlacedObjectType;
+  object: THREE.Object3D;
+  anchor: XRAnchor | null;
+  // The anchor exists but the runtime currently can't locate it; the object
+  // is hidden meanwhile
+  trackingLost: boolean;
+  // Handle of a persistent anchor at the object's pose, restorable in later
+  // sessions where the runtime supports it
+  persistentHandle: string | null;
+  createdAt: number;
+}
+
+export class ObjectLimitError extends Error {
+  constructor(limit: number) {
+    super(`Object limit reached (${limit})`);
+    this.name = "ObjectLimitError";
+  }
+}
+
+export const DEFAULT_MAX_OBJECTS = 20;
+
+export function createObjectId(type: string): string {
+  const random =
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID().slice(0, 8)
+      : Math.random().toString(36).slice(2, 10);
+  return `${type}-${random}`;
+}
+
+// Keeps track of every object placed in the scene. The registry owns adding
+// objects to and removing them from the scene graph, and releases anchors
+// when an object goes away.
+export class PlacedObjectRegistry {
+  private readonly objects = new Map<string, PlacedObject>();
+  private readonly listeners = new Set<() => void>();
+  private snapshot: PlacedObject[] = [];
+
+  constructor(
+    private readonly scene: THREE.Scene,
+    public maxObjects: number = DEFAULT_MAX_OBJECTS
+  ) {}
+
+  get size(): number {
+    return this.objects.size;
+  }
+
+  get isFull(): boolean {
+    return this.objects.size >= this.maxObjects;
+  }
+
+  // `id` is only passed for objects that already have one elsewhere, e.g.
+  // on another participant's device
+  add(
+    type: PlacedObjectType,
+    object: THREE.Object3D,
+    anchor: XRAnchor | null = null,
+    id: string = createObjectId(type)
+  ): PlacedObject {
+    if (this.isFull) {
+      throw new ObjectLimitError(this.maxObjects);
+    }
+
+    const entry: PlacedObject = {
+      id,
+      type,
+      object,
+      anchor,
+      trackingLost: false,
+      persistentHandle: null,
+      createdAt: Date.now(),
+    };
+    object.name = entry.id;
+    object.userData.placedObjectId = entry.id;
+
+    this.objects.set(entry.id, entry);
+    this.scene.add(object);
+    this.emit();
+    return entry;
+  }
+
+  setAnchor(id: string, anchor: XRAnchor | null) {
+    const entry = this.objects.get(id);
+    if (!entry) {
+      anchor?.delete();
+      return;
+    }
+    entry.anchor?.delete();
+    entry.anchor = anchor;
+    this.applyTrackingLost(entry, false);
+    this.emit();
+  }
+
+  setPersistentHandle(id: string, handle: string | null) {
+    const entry = this.objects.get(id);
+    if (entry && entry.persistentHandle !== handle) {
+      entry.persistentHandle = handle;
+      this.emit();
+    }
+  }
+
+  setTrackingLost(id: string, lost: boolean) {
+    const entry = this.objects.get(id);
+    if (entry && entry.trackingLost !== lost) {
+      this.applyTrackingLost(entry, lost);
+      this.emit();
+    }
+  }
+
+  // Drop every anchor but keep the objects, e.g. when the session that
+  // tracked them ends
+  releaseAnchors() {
+    let released = false;
+    for (const entry of this.objects.values()) {
+      if (entry.anchor) {
+        entry.anchor.delete();
+        entry.anchor = null;
+        this.applyTrackingLost(entry, false);
+        released = true;
+      }
+    }
+    if (released) {
+      this.emit();
+    }
+  }
+
+  // Notify subscribers after an object's transform or material was edited
+  markChanged(id: string) {
+    if (this.objects.has(id)) {
+      this.emit();
+    }
+  }
+
+  get(id: string): PlacedObject | undefined {
+    return this.objects.get(id);
+  }
+
+  list(): PlacedObject[] {
+    return this.snapshot;
+  }
+
+  remove(id: string): boolean {
+    const entry = this.objects.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.objects.delete(id);
+    this.scene.remove(entry.object);
+    entry.anchor?.delete();
+    disposeObject(entry.object);
+    this.emit();
+    return true;
+  }
+
+  clear() {
+    if (this.objects.size === 0) {
+      return;
+    }
+    for (const entry of this.objects.values()) {
+      this.scene.remove(entry.object);
+      entry.anchor?.delete();
+      disposeObject(entry.object);
+    }
+    this.objects.clear();
+    this.emit();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private applyTrackingLost(entry: PlacedObject, lost: boolean) {
+    entry.trackingLost = lost;
+    entry.object.visible = !lost;
+  }
+
+  private emit() {
+    this.snapshot = Array.from(this.objects.values());
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+// Geometry is shared with the model loader's cached templates, so only the
+// per-instance materials are released here
+function disposeObject(object: THREE.Object3D) {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const materials = Array.isArray(child.material)
+        ? child.material
+        : [child.material];
+      materials.forEach((material) => material.dispose());
+    }
+  });
+}
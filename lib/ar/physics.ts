@@ -0,0 +1,510 @@
+import * as THREE from "three";
+import { containsPoint } from "@/lib/ar/planeTracker";
+
+export interface PhysicsMaterial {
+  // kg; only matters relative to other bodies and to flick impulses
+  mass: number;
+  // Share of the normal speed kept after a bounce, 0..1
+  restitution: number;
+  // Coulomb friction coefficient against surfaces
+  friction: number;
+}
+
+// Spheres roll; everything else is treated as an upright box that slides
+export type ColliderShape = "sphere" | "box";
+
+export interface PhysicsDefaults extends Partial<PhysicsMaterial> {
+  shape?: ColliderShape;
+}
+
+export const DEFAULT_PHYSICS_MATERIAL: PhysicsMaterial = {
+  mass: 1,
+  restitution: 0.4,
+  friction: 0.5,
+};
+
+export const PHYSICS_LIMITS: Record<keyof PhysicsMaterial, [number, number]> =
+  {
+    mass: [0.1, 10],
+    restitution: [0, 1],
+    friction: [0, 1],
+  };
+
+// A surface to collide with: the plane's local Y axis is its normal and the
+// polygon (in local X/Z) bounds it. A null polygon is unbounded.
+export interface PhysicsSurface {
+  matrix: THREE.Matrix4;
+  polygon: THREE.Vector2[] | null;
+}
+
+// Bodies that changed state since the last advance()
+export interface PhysicsEvents {
+  // Started moving: anchors must let go of these
+  woken: string[];
+  // Came to rest
+  settled: string[];
+}
+
+// Fixed step, independent of the display's frame rate
+export const FIXED_STEP = 1 / 120;
+// Frames longer than this (tab in background, breakpoints) are cut short
+const MAX_STEPS_PER_ADVANCE = 12;
+const GRAVITY = new THREE.Vector3(0, -9.81, 0);
+// Normal speed (m/s) below which contacts stop bouncing
+const RESTING_SPEED = 0.2;
+const SLEEP_SPEED = 0.05;
+const SLEEP_TIME = 0.5;
+// Hit-test results become square patches of this half size (m)
+const PATCH_HALF_SIZE = 0.4;
+// A new hit closer than this (m) to a patch replaces it
+const PATCH_MERGE_DISTANCE = 0.3;
+const MAX_PATCHES = 8;
+
+interface Body {
+  object: THREE.Object3D;
+  material: PhysicsMaterial;
+  shape: ColliderShape;
+  velocity: THREE.Vector3;
+  center: THREE.Vector3;
+  // From the object's origin to its centre, in the object's unrotated frame
+  centerOffset: THREE.Vector3;
+  halfExtents: THREE.Vector3;
+  radius: number;
+  asleep: boolean;
+  restingTime: number;
+  contactNormal: THREE.Vector3 | null;
+}
+
+interface Surface {
+  inverse: THREE.Matrix4;
+  normal: THREE.Vector3;
+  polygon: THREE.Vector2[] | null;
+}
+
+const local = new THREE.Vector3();
+const tangent = new THREE.Vector3();
+const axis = new THREE.Vector3();
+const delta = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const inverseRotation = new THREE.Quaternion();
+
+// Minimal rigid-body simulation for placed objects: gravity, bounces and
+// friction against detected planes, hit-test patches and the floor, and
+// sphere-sphere contacts between objects. There is no angular dynamics;
+// spheres roll visually. Objects' transforms are the source of truth, so
+// gestures and anchors can move them between steps.
+export class PhysicsWorld {
+  private readonly bodies = new Map<string, Body>();
+  private readonly materials = new Map<string, PhysicsMaterial>();
+  private surfaces: Surface[] = [];
+  private patches: Surface[] = [];
+  // The local-floor origin lies on the floor
+  private readonly floor = toSurface({
+    matrix: new THREE.Matrix4(),
+    polygon: null,
+  });
+  private floorEnabled = true;
+  private accumulator = 0;
+  private woken = new Set<string>();
+  private settled = new Set<string>();
+
+  get size(): number {
+    return this.bodies.size;
+  }
+
+  has(id: string): boolean {
+    return this.bodies.has(id);
+  }
+
+  isAwake(id: string): boolean {
+    return this.bodies.get(id)?.asleep === false;
+  }
+
+  // Start simulating an object, at rest until woken
+  add(id: string, object: THREE.Object3D, defaults: PhysicsDefaults = {}) {
+    if (this.bodies.has(id)) {
+      return;
+    }
+    if (!this.materials.has(id)) {
+      const fallback = DEFAULT_PHYSICS_MATERIAL;
+      this.materials.set(id, {
+        mass: defaults.mass ?? fallback.mass,
+        restitution: defaults.restitution ?? fallback.restitution,
+        friction: defaults.friction ?? fallback.friction,
+      });
+    }
+    const body: Body = {
+      object,
+      material: this.materials.get(id)!,
+      shape: defaults.shape ?? "box",
+      velocity: new THREE.Vector3(),
+      center: new THREE.Vector3(),
+      centerOffset: new THREE.Vector3(),
+      halfExtents: new THREE.Vector3(),
+      radius: 0,
+      asleep: true,
+      restingTime: 0,
+      contactNormal: null,
+    };
+    measure(body);
+    this.bodies.set(id, body);
+  }
+
+  remove(id: string) {
+    this.bodies.delete(id);
+    this.woken.delete(id);
+    this.settled.delete(id);
+  }
+
+  // Drop bodies whose objects are gone, keeping their materials
+  retain(ids: Set<string>) {
+    for (const id of this.bodies.keys()) {
+      if (!ids.has(id)) {
+        this.remove(id);
+      }
+    }
+    for (const id of this.materials.keys()) {
+      if (!ids.has(id)) {
+        this.materials.delete(id);
+      }
+    }
+  }
+
+  clear() {
+    this.bodies.clear();
+    this.patches = [];
+    this.accumulator = 0;
+    this.woken.clear();
+    this.settled.clear();
+  }
+
+  getMaterial(id: string): PhysicsMaterial | undefined {
+    return this.materials.get(id);
+  }
+
+  setMaterial(id: string, changes: Partial<PhysicsMaterial>) {
+    const material = this.materials.get(id);
+    if (!material) {
+      return;
+    }
+    for (const key of Object.keys(changes) as (keyof PhysicsMaterial)[]) {
+      const value = changes[key];
+      if (value !== undefined) {
+        const [min, max] = PHYSICS_LIMITS[key];
+        material[key] = THREE.MathUtils.clamp(value, min, max);
+      }
+    }
+  }
+
+  // Wake a body, e.g. after it was moved, scaled or flicked. The impulse
+  // (kg·m/s) is divided by the body's mass.
+  wake(id: string, impulse?: THREE.Vector3) {
+    const body = this.bodies.get(id);
+    if (!body) {
+      return;
+    }
+    // Gestures may have scaled it
+    measure(body);
+    if (impulse) {
+      body.velocity.addScaledVector(impulse, 1 / body.material.mass);
+    }
+    this.setAwake(id, body);
+  }
+
+  // Replace the detected planes to collide with
+  setSurfaces(surfaces: PhysicsSurface[]) {
+    this.surfaces = surfaces.map(toSurface);
+  }
+
+  // Whether y = 0 is the floor; not so in a plain "local" space
+  setFloorEnabled(enabled: boolean) {
+    this.floorEnabled = enabled;
+  }
+
+  // Remember the surface under a hit-test result as a small square patch
+  addSurfacePatch(position: THREE.Vector3, quaternion: THREE.Quaternion) {
+    const matrix = new THREE.Matrix4().compose(
+      position,
+      quaternion,
+      new THREE.Vector3(1, 1, 1)
+    );
+    const patch = toSurface({ matrix, polygon: PATCH_POLYGON });
+    const index = this.patches.findIndex((existing) => {
+      local.copy(position).applyMatrix4(existing.inverse);
+      return local.length() < PATCH_MERGE_DISTANCE;
+    });
+    if (index >= 0) {
+      this.patches[index] = patch;
+    } else {
+      this.patches.push(patch);
+      if (this.patches.length > MAX_PATCHES) {
+        this.patches.shift();
+      }
+    }
+  }
+
+  // Run as many fixed steps as fit in `dt` seconds. `frozenId` is a body
+  // held by a gesture: it pushes others but doesn't move itself.
+  advance(dt: number, frozenId: string | null = null): PhysicsEvents {
+    this.accumulator = Math.min(
+      this.accumulator + dt,
+      FIXED_STEP * MAX_STEPS_PER_ADVANCE
+    );
+    while (this.accumulator >= FIXED_STEP) {
+      this.step(FIXED_STEP, frozenId);
+      this.accumulator -= FIXED_STEP;
+    }
+
+    const events = {
+      woken: Array.from(this.woken),
+      settled: Array.from(this.settled),
+    };
+    this.woken.clear();
+    this.settled.clear();
+    return events;
+  }
+
+  private step(dt: number, frozenId: string | null) {
+    const surfaces = [...this.surfaces, ...this.patches];
+    if (this.floorEnabled) {
+      surfaces.push(this.floor);
+    }
+    const bodies = Array.from(this.bodies.entries());
+
+    for (const [, body] of bodies) {
+      readCenter(body);
+    }
+
+    for (const [id, body] of bodies) {
+      if (body.asleep || id === frozenId) {
+        continue;
+      }
+      body.velocity.addScaledVector(GRAVITY, dt);
+      body.center.addScaledVector(body.velocity, dt);
+      body.contactNormal = null;
+      for (const surface of surfaces) {
+        collideWithSurface(body, surface);
+      }
+    }
+
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        this.collideBodies(bodies[i], bodies[j], frozenId);
+      }
+    }
+
+    for (const [id, body] of bodies) {
+      if (body.asleep || id === frozenId) {
+        continue;
+      }
+      if (body.shape === "sphere") {
+        roll(body, dt);
+      }
+      writeCenter(body);
+      this.updateSleep(id, body, dt);
+    }
+  }
+
+  private collideBodies(
+    [idA, a]: [string, Body],
+    [idB, b]: [string, Body],
+    frozenId: string | null
+  ) {
+    if (a.asleep && b.asleep) {
+      return;
+    }
+    delta.subVectors(b.center, a.center);
+    const distance = delta.length();
+    const overlap = a.radius + b.radius - distance;
+    if (overlap <= 0 || distance === 0) {
+      return;
+    }
+    const normal = delta.divideScalar(distance);
+
+    // Frozen and sleeping bodies act as immovable
+    const inverseA = idA === frozenId || a.asleep ? 0 : 1 / a.material.mass;
+    const inverseB = idB === frozenId || b.asleep ? 0 : 1 / b.material.mass;
+    const inverseSum = inverseA + inverseB;
+    if (inverseSum === 0) {
+      return;
+    }
+    a.center.addScaledVector(normal, (-overlap * inverseA) / inverseSum);
+    b.center.addScaledVector(normal, (overlap * inverseB) / inverseSum);
+
+    const approach = tangent.subVectors(b.velocity, a.velocity).dot(normal);
+    if (approach >= 0) {
+      return;
+    }
+    const restitution = Math.min(
+      a.material.restitution,
+      b.material.restitution
+    );
+    const impulse = (-(1 + restitution) * approach) / inverseSum;
+    a.velocity.addScaledVector(normal, -impulse * inverseA);
+    b.velocity.addScaledVector(normal, impulse * inverseB);
+
+    // A hard enough hit wakes a sleeping body
+    for (const [id, body] of [
+      [idA, a],
+      [idB, b],
+    ] as const) {
+      if (body.asleep && id !== frozenId && impulse > SLEEP_SPEED) {
+        body.velocity.addScaledVector(
+          normal,
+          (body === a ? -impulse : impulse) / body.material.mass
+        );
+        this.setAwake(id, body);
+      }
+    }
+  }
+
+  private updateSleep(id: string, body: Body, dt: number) {
+    if (body.contactNormal && body.velocity.length() < SLEEP_SPEED) {
+      body.restingTime += dt;
+      if (body.restingTime >= SLEEP_TIME) {
+        body.asleep = true;
+        body.velocity.set(0, 0, 0);
+        this.woken.delete(id);
+        this.settled.add(id);
+      }
+    } else {
+      body.restingTime = 0;
+    }
+  }
+
+  private setAwake(id: string, body: Body) {
+    body.restingTime = 0;
+    if (body.asleep) {
+      body.asleep = false;
+      this.settled.delete(id);
+      this.woken.add(id);
+    }
+  }
+}
+
+const PATCH_POLYGON = [
+  new THREE.Vector2(-PATCH_HALF_SIZE, -PATCH_HALF_SIZE),
+  new THREE.Vector2(PATCH_HALF_SIZE, -PATCH_HALF_SIZE),
+  new THREE.Vector2(PATCH_HALF_SIZE, PATCH_HALF_SIZE),
+  new THREE.Vector2(-PATCH_HALF_SIZE, PATCH_HALF_SIZE),
+];
+
+function toSurface(surface: PhysicsSurface): Surface {
+  return {
+    inverse: surface.matrix.clone().invert(),
+    normal: new THREE.Vector3(0, 1, 0)
+      .transformDirection(surface.matrix)
+      .normalize(),
+    polygon: surface.polygon,
+  };
+}
+
+// Size the collider from the object's bounds in its unrotated frame
+function measure(body: Body) {
+  const { object } = body;
+  const quaternion = object.quaternion.clone();
+  const position = object.position.clone();
+  object.quaternion.identity();
+  object.position.set(0, 0, 0);
+  object.updateMatrixWorld(true);
+  const box = new THREE.Box3().setFromObject(object, true);
+  object.quaternion.copy(quaternion);
+  object.position.copy(position);
+  object.updateMatrixWorld(true);
+
+  if (box.isEmpty()) {
+    box.setFromCenterAndSize(
+      new THREE.Vector3(),
+      new THREE.Vector3(0.1, 0.1, 0.1)
+    );
+  }
+  box.getCenter(body.centerOffset);
+  box.getSize(body.halfExtents).multiplyScalar(0.5);
+  body.radius = Math.max(
+    body.halfExtents.x,
+    body.halfExtents.y,
+    body.halfExtents.z
+  );
+}
+
+function readCenter(body: Body) {
+  body.center
+    .copy(body.centerOffset)
+    .applyQuaternion(body.object.quaternion)
+    .add(body.object.position);
+}
+
+function writeCenter(body: Body) {
+  body.object.position
+    .copy(body.centerOffset)
+    .applyQuaternion(body.object.quaternion)
+    .negate()
+    .add(body.center);
+}
+
+// Distance from the centre to the collider's surface along a direction
+function supportDistance(body: Body, direction: THREE.Vector3): number {
+  if (body.shape === "sphere") {
+    return body.radius;
+  }
+  inverseRotation.copy(body.object.quaternion).invert();
+  axis.copy(direction).applyQuaternion(inverseRotation);
+  return (
+    Math.abs(axis.x) * body.halfExtents.x +
+    Math.abs(axis.y) * body.halfExtents.y +
+    Math.abs(axis.z) * body.halfExtents.z
+  );
+}
+
+function collideWithSurface(body: Body, surface: Surface) {
+  local.copy(body.center).applyMatrix4(surface.inverse);
+  const support = supportDistance(body, surface.normal);
+  const penetration = support - local.y;
+  // Not touching, or already through (e.g. approached from behind)
+  if (penetration <= 0 || local.y < -support / 2) {
+    return;
+  }
+  if (surface.polygon && !containsPoint(surface.polygon, local.x, local.z)) {
+    return;
+  }
+
+  body.center.addScaledVector(surface.normal, penetration);
+  body.contactNormal = surface.normal;
+
+  const normalSpeed = body.velocity.dot(surface.normal);
+  if (normalSpeed >= 0) {
+    return;
+  }
+  const restitution =
+    -normalSpeed < RESTING_SPEED ? 0 : body.material.restitution;
+  const bounce = -(1 + restitution) * normalSpeed;
+  body.velocity.addScaledVector(surface.normal, bounce);
+
+  // Friction takes at most the tangential speed away
+  tangent
+    .copy(body.velocity)
+    .addScaledVector(surface.normal, -body.velocity.dot(surface.normal));
+  const slide = tangent.length();
+  if (slide > 0) {
+    const drop = Math.min(slide, body.material.friction * bounce);
+    body.velocity.addScaledVector(tangent, -drop / slide);
+  }
+}
+
+// Spin a sphere to match its speed over the surface it touches
+function roll(body: Body, dt: number) {
+  const normal = body.contactNormal;
+  if (!normal || body.radius === 0) {
+    return;
+  }
+  tangent
+    .copy(body.velocity)
+    .addScaledVector(normal, -body.velocity.dot(normal));
+  const speed = tangent.length();
+  if (speed < 1e-4) {
+    return;
+  }
+  axis.crossVectors(normal, tangent).normalize();
+  rotation.setFromAxisAngle(axis, (speed * dt) / body.radius);
+  body.object.quaternion.premultiply(rotation);
+}
@@ -0,0 +1,177 @@
+import * as THREE from "three";
+import type { ModelDefinition } from "@/lib/ar/modelCatalog";
+import type { ObjectAnchors } from "@/lib/ar/objectAnchors";
+import type {
+  PlacedObject,
+  PlacedObjectRegistry,
+} from "@/lib/ar/objectRegistry";
+import { PhysicsWorld, type PhysicsSurface } from "@/lib/ar/physics";
+import type { EventLog } from "@/lib/debug/eventLog";
+
+// Drag movement within this window (ms) before release sets the flick speed
+const FLICK_WINDOW_MS = 100;
+// Mass (kg) that leaves a flick with exactly the swipe's speed; heavier
+// objects fly slower
+const FLICK_REFERENCE_MASS = 1;
+// Upward share of the flick speed, so flicked objects hop
+const FLICK_LIFT = 0.3;
+// Longer frame gaps (s) are not simulated
+const MAX_FRAME_TIME = 0.1;
+
+// Physics mode: new objects fall onto surfaces and bounce, released objects
+// drop and swipes flick them. Keeps one body per placed object while it is
+// on, runs the simulation on the frame clock and hands objects between
+// physics and anchors: moving objects let go of their anchors, resting ones
+// get new ones.
+export class PhysicsMode {
+  readonly world = new PhysicsWorld();
+
+  private _enabled = false;
+  // Timestamp of the previous frame, for the physics clock
+  private lastFrameTime: number | null = null;
+  // Recent drag positions, turned into a flick on release
+  private dragSamples: { time: number; position: THREE.Vector3 }[] = [];
+
+  constructor(
+    private readonly registry: PlacedObjectRegistry,
+    private readonly anchors: ObjectAnchors,
+    private readonly getModel: (id: string) => ModelDefinition | undefined,
+    private readonly log: EventLog
+  ) {}
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  // Objects already placed stay put until touched. Switching off stops
+  // whatever is still moving where it is. Returns false when nothing
+  // changed.
+  setEnabled(enabled: boolean): boolean {
+    if (enabled === this._enabled) {
+      return false;
+    }
+    this._enabled = enabled;
+    if (enabled) {
+      this.syncBodies();
+      return true;
+    }
+    this.world.clear();
+    for (const entry of this.registry.list()) {
+      if (!entry.anchor) {
+        void this.anchors.anchor(entry);
+      }
+    }
+    return true;
+  }
+
+  // Keep one body per placed object while physics is on
+  syncBodies() {
+    const entries = this.registry.list();
+    this.world.retain(new Set(entries.map((entry) => entry.id)));
+    if (!this._enabled) {
+      return;
+    }
+    for (const entry of entries) {
+      const material = this.getModel(entry.type)?.physics;
+      this.world.add(entry.id, entry.object, material);
+    }
+  }
+
+  // Advance the simulation by the time since the last frame. `surfaces`
+  // replaces the detected surfaces when given; `heldId` is an object under a
+  // gesture. Returns the objects that came to rest, anchored again.
+  step(
+    time: number,
+    surfaces: PhysicsSurface[] | null,
+    heldId: string | null
+  ): PlacedObject[] {
+    const elapsed =
+      this.lastFrameTime === null ? 0 : (time - this.lastFrameTime) / 1000;
+    this.lastFrameTime = time;
+    if (elapsed > MAX_FRAME_TIME) {
+      this.log.count("long frames");
+    }
+    if (!this._enabled || this.world.size === 0) {
+      return [];
+    }
+
+    if (surfaces) {
+      this.world.setSurfaces(surfaces);
+    }
+    const { woken, settled } = this.world.advance(
+      Math.min(elapsed, MAX_FRAME_TIME),
+      heldId
+    );
+    for (const id of woken) {
+      this.anchors.release(id);
+    }
+    const rested: PlacedObject[] = [];
+    for (const id of settled) {
+      const entry = this.registry.get(id);
+      if (entry) {
+        void this.anchors.anchor(entry);
+        this.registry.markChanged(id);
+        rested.push(entry);
+      }
+    }
+    return rested;
+  }
+
+  // Hit tests find surfaces before (or without) plane detection
+  addSurfacePatch(position: THREE.Vector3, quaternion: THREE.Quaternion) {
+    if (this._enabled) {
+      this.world.addSurfacePatch(position, quaternion);
+    }
+  }
+
+  startDrag() {
+    this.dragSamples = [];
+  }
+
+  recordDragSample(position: THREE.Vector3) {
+    const time = performance.now();
+    this.dragSamples.push({ time, position: position.clone() });
+    while (time - this.dragSamples[0].time > FLICK_WINDOW_MS) {
+      this.dragSamples.shift();
+    }
+  }
+
+  // Let go of a dragged object: it falls from where it was dropped, or flies
+  // off if swiped
+  release(id: string) {
+    this.world.wake(id, this.flickImpulse());
+  }
+
+  // The session ended: its clock and surfaces are gone
+  reset() {
+    this.lastFrameTime = null;
+    this.dragSamples = [];
+    this.world.setSurfaces([]);
+  }
+
+  // Impulse of the swipe that ended a drag, or undefined for a plain drop
+  private flickImpulse(): THREE.Vector3 | undefined {
+    const samples = this.dragSamples;
+    this.dragSamples = [];
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    // A finger that stopped before lifting doesn't flick
+    if (
+      !first ||
+      first === last ||
+      performance.now() - last.time > FLICK_WINDOW_MS
+    ) {
+      return undefined;
+    }
+    const seconds = (last.time - first.time) / 1000;
+    if (seconds <= 0) {
+      return undefined;
+    }
+    const velocity = last.position
+      .clone()
+      .sub(first.position)
+      .divideScalar(seconds);
+    velocity.y += velocity.length() * FLICK_LIFT;
+    return velocity.multiplyScalar(FLICK_REFERENCE_MASS);
+  }
+}
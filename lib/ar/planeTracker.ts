@@ -0,0 +1,328 @@
+import * as THREE from "three";
+import type { PhysicsSurface } from "@/lib/ar/physics";
+import {
+  classifySurface,
+  describeSurface,
+  type SurfaceInfo,
+} from "@/lib/ar/surfaces";
+import { getTranslator, type Translator } from "@/lib/i18n/translator";
+
+const HORIZONTAL_COLOR = 0x22c55e;
+const VERTICAL_COLOR = 0xf59e0b;
+// How far (m) a point may sit off a plane and still count as on it
+const ON_PLANE_TOLERANCE = 0.05;
+
+// Where a ray meets a detected plane, oriented like the plane
+export interface PlaneHit {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  distance: number;
+}
+
+interface TrackedPlane {
+  mesh: THREE.Mesh;
+  outline: THREE.LineLoop;
+  label: THREE.Sprite | null;
+  polygon: THREE.Vector2[];
+  lastChangedTime: number;
+  surface: SurfaceInfo;
+}
+
+// Renders the planes found by the WebXR plane-detection feature as
+// translucent polygons, labeled with their orientation and semantic label.
+// Polygons are rebuilt whenever the runtime reports a change (planes grow,
+// and merged planes disappear from the detected set).
+export class PlaneTracker {
+  readonly object = new THREE.Group();
+  private readonly planes = new Map<XRPlane, TrackedPlane>();
+  private readonly inverse = new THREE.Matrix4();
+  private readonly local = new THREE.Vector3();
+  private i18n: Translator = getTranslator();
+
+  get size(): number {
+    return this.planes.size;
+  }
+
+  // Relabels the planes in the given language
+  setTranslator(i18n: Translator) {
+    this.i18n = i18n;
+    for (const tracked of this.planes.values()) {
+      this.updateLabel(tracked);
+    }
+  }
+
+  // Call once per XR frame; does nothing when plane detection is off
+  update(frame: XRFrame, space: XRReferenceSpace) {
+    const detected = frame.detectedPlanes;
+    if (!detected) {
+      return;
+    }
+
+    for (const [plane, tracked] of this.planes) {
+      if (!detected.has(plane)) {
+        this.removePlane(plane, tracked);
+      }
+    }
+
+    for (const plane of detected) {
+      const pose = frame.getPose(plane.planeSpace, space);
+      let tracked = this.planes.get(plane);
+      if (!pose) {
+        if (tracked) {
+          tracked.mesh.visible = false;
+        }
+        continue;
+      }
+
+      if (!tracked) {
+        tracked = this.addPlane(plane);
+      }
+      const { mesh } = tracked;
+      mesh.matrix.fromArray(pose.transform.matrix);
+      mesh.matrix.decompose(mesh.position, mesh.quaternion, mesh.scale);
+      mesh.visible = true;
+
+      if (tracked.lastChangedTime !== plane.lastChangedTime) {
+        this.rebuild(plane, tracked);
+      }
+    }
+  }
+
+  // The detected plane a point lies on, if any
+  surfaceAt(position: THREE.Vector3): SurfaceInfo | null {
+    let best: TrackedPlane | null = null;
+    let bestDistance = ON_PLANE_TOLERANCE;
+    for (const tracked of this.planes.values()) {
+      if (!tracked.mesh.visible) {
+        continue;
+      }
+      this.inverse.copy(tracked.mesh.matrix).invert();
+      this.local.copy(position).applyMatrix4(this.inverse);
+      const distance = Math.abs(this.local.y);
+      if (
+        distance <= bestDistance &&
+        containsPoint(tracked.polygon, this.local.x, this.local.z)
+      ) {
+        best = tracked;
+        bestDistance = distance;
+      }
+    }
+    return best?.surface ?? null;
+  }
+
+  // Nearest detected plane a ray passes through, within its polygon
+  raycast(ray: THREE.Ray): PlaneHit | null {
+    let best: PlaneHit | null = null;
+    for (const tracked of this.planes.values()) {
+      const { mesh, polygon } = tracked;
+      if (!mesh.visible || polygon.length < 3) {
+        continue;
+      }
+      const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+        new THREE.Vector3(0, 1, 0).applyQuaternion(mesh.quaternion),
+        mesh.position
+      );
+      const point = ray.intersectPlane(plane, new THREE.Vector3());
+      if (!point) {
+        continue;
+      }
+      const distance = point.distanceTo(ray.origin);
+      if (best && distance >= best.distance) {
+        continue;
+      }
+      this.inverse.copy(mesh.matrix).invert();
+      this.local.copy(point).applyMatrix4(this.inverse);
+      if (containsPoint(polygon, this.local.x, this.local.z)) {
+        best = {
+          position: point,
+          quaternion: mesh.quaternion.clone(),
+          distance,
+        };
+      }
+    }
+    return best;
+  }
+
+  // Currently tracked planes, for objects to collide with
+  surfaces(): PhysicsSurface[] {
+    const surfaces: PhysicsSurface[] = [];
+    for (const tracked of this.planes.values()) {
+      if (tracked.mesh.visible && tracked.polygon.length >= 3) {
+        surfaces.push({
+          matrix: tracked.mesh.matrix,
+          polygon: tracked.polygon,
+        });
+      }
+    }
+    return surfaces;
+  }
+
+  clear() {
+    for (const [plane, tracked] of this.planes) {
+      this.removePlane(plane, tracked);
+    }
+  }
+
+  private addPlane(plane: XRPlane): TrackedPlane {
+    const mesh = new THREE.Mesh(
+      new THREE.BufferGeometry(),
+      new THREE.MeshBasicMaterial({
+        transparent: true,
+        opacity: 0.25,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      })
+    );
+    mesh.matrixAutoUpdate = false;
+    const outline = new THREE.LineLoop(
+      new THREE.BufferGeometry(),
+      new THREE.LineBasicMaterial({ transparent: true, opacity: 0.8 })
+    );
+    mesh.add(outline);
+    this.object.add(mesh);
+
+    const tracked: TrackedPlane = {
+      mesh,
+      outline,
+      label: null,
+      polygon: [],
+      lastChangedTime: Number.NaN,
+      surface: { orientation: plane.orientation, label: null },
+    };
+    this.planes.set(plane, tracked);
+    return tracked;
+  }
+
+  private rebuild(plane: XRPlane, tracked: TrackedPlane) {
+    tracked.lastChangedTime = plane.lastChangedTime;
+    tracked.polygon = plane.polygon.map(
+      (point) => new THREE.Vector2(point.x, point.z)
+    );
+
+    // The runtime's orientation wins; the pose fills in a missing label
+    const classified = classifySurface(
+      tracked.mesh.position,
+      tracked.mesh.quaternion,
+      plane.semanticLabel
+    );
+    tracked.surface = {
+      orientation: plane.orientation,
+      label: classified.label,
+    };
+
+    // Polygon points lie in the plane's X/Z; shapes are built in X/Y
+    const shape = new THREE.Shape(
+      tracked.polygon.map((point) => new THREE.Vector2(point.x, -point.y))
+    );
+    tracked.mesh.geometry.dispose();
+    tracked.mesh.geometry = new THREE.ShapeGeometry(shape).rotateX(
+      -Math.PI / 2
+    );
+    tracked.outline.geometry.dispose();
+    tracked.outline.geometry = new THREE.BufferGeometry().setFromPoints(
+      tracked.polygon.map((point) => new THREE.Vector3(point.x, 0, point.y))
+    );
+
+    const color =
+      plane.orientation === "horizontal" ? HORIZONTAL_COLOR : VERTICAL_COLOR;
+    (tracked.mesh.material as THREE.MeshBasicMaterial).color.setHex(color);
+    (tracked.outline.material as THREE.LineBasicMaterial).color.setHex(color);
+
+    this.updateLabel(tracked);
+  }
+
+  private updateLabel(tracked: TrackedPlane) {
+    const surface = describeSurface(tracked.surface, this.i18n);
+    const text = tracked.surface.label
+      ? `${surface} · ${this.i18n.t(
+          `orientation.${tracked.surface.orientation}`
+        )}`
+      : surface;
+    if (tracked.label?.userData.text !== text) {
+      disposeLabel(tracked.label);
+      tracked.label = createLabel(text);
+      if (tracked.label) {
+        tracked.mesh.add(tracked.label);
+      }
+    }
+
+    if (tracked.label) {
+      const center = centroid(tracked.polygon);
+      tracked.label.position.set(center.x, 0.02, center.y);
+    }
+  }
+
+  private removePlane(plane: XRPlane, tracked: TrackedPlane) {
+    this.object.remove(tracked.mesh);
+    tracked.mesh.geometry.dispose();
+    (tracked.mesh.material as THREE.Material).dispose();
+    tracked.outline.geometry.dispose();
+    (tracked.outline.material as THREE.Material).dispose();
+    disposeLabel(tracked.label);
+    this.planes.delete(plane);
+  }
+}
+
+// Text sprite that always faces the viewer. Returns null outside the browser.
+function createLabel(text: string): THREE.Sprite | null {
+  if (typeof document === "undefined") {
+    return null;
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = 256;
+  canvas.height = 64;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return null;
+  }
+  context.fillStyle = "rgba(0, 0, 0, 0.6)";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = "#ffffff";
+  context.font = "bold 28px sans-serif";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+  const sprite = new THREE.Sprite(
+    new THREE.SpriteMaterial({
+      map: new THREE.CanvasTexture(canvas),
+      depthTest: false,
+      transparent: true,
+    })
+  );
+  sprite.scale.set(0.32, 0.08, 1);
+  sprite.renderOrder = 3;
+  sprite.userData.text = text;
+  return sprite;
+}
+
+function disposeLabel(label: THREE.Sprite | null) {
+  if (!label) {
+    return;
+  }
+  label.removeFromParent();
+  label.material.map?.dispose();
+  label.material.dispose();
+}
+
+function centroid(polygon: THREE.Vector2[]): THREE.Vector2 {
+  const sum = new THREE.Vector2();
+  polygon.forEach((point) => sum.add(point));
+  return polygon.length > 0 ? sum.divideScalar(polygon.length) : sum;
+}
+
+// Even-odd rule in the plane's X/Z coordinates
+export function containsPoint(polygon: THREE.Vector2[], x: number, z: number) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > z !== b.y > z &&
+      x < ((b.x - a.x) * (z - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,153 @@
+import * as THREE from "three";
+
+export interface ReticleStyle {
+  color: number;
+  // Shown while the active model can't be placed on the surface
+  blockedColor: number;
+  // Ring radii (m)
+  innerRadius: number;
+  outerRadius: number;
+  // Center dot radius (m); 0 for none
+  dotRadius: number;
+  // Height (m) of an upright line marking the hit point; 0 for none
+  stemHeight: number;
+  // Arrow on the ring toward where the model will face
+  showFacing: boolean;
+  opacity: number;
+}
+
+export const DEFAULT_RETICLE_STYLE: ReticleStyle = {
+  color: 0x00ff00,
+  blockedColor: 0xff3b30,
+  innerRadius: 0.05,
+  outerRadius: 0.1,
+  dotRadius: 0.02,
+  stemHeight: 0,
+  showFacing: true,
+  opacity: 0.8,
+};
+
+// Hit indicator lying flat on the surface: a ring, optionally with a center
+// dot, a facing arrow and an upright stem. Where the active model can't go it
+// turns the blocked color and the dot and arrow give way to a slash through
+// the ring. The controller moves it; the style can change at any time.
+export class Reticle extends THREE.Group {
+  private _style = DEFAULT_RETICLE_STYLE;
+  private blocked = false;
+  // Shown only while placement is allowed, or only while it is blocked
+  private allowedParts: THREE.Object3D[] = [];
+  private blockedParts: THREE.Object3D[] = [];
+
+  constructor(style: Partial<ReticleStyle> = {}) {
+    super();
+    this.visible = false;
+    this.setStyle(style);
+  }
+
+  get style(): ReticleStyle {
+    return this._style;
+  }
+
+  // Unset fields fall back to the defaults, not to the previous style
+  setStyle(style: Partial<ReticleStyle>) {
+    this._style = { ...DEFAULT_RETICLE_STYLE, ...style };
+    this.rebuild();
+  }
+
+  setBlocked(blocked: boolean) {
+    this.blocked = blocked;
+    this.allowedParts.forEach((part) => (part.visible = !blocked));
+    this.blockedParts.forEach((part) => (part.visible = blocked));
+    const color = blocked ? this._style.blockedColor : this._style.color;
+    this.traverse((child) => {
+      if (
+        (child instanceof THREE.Mesh || child instanceof THREE.Line) &&
+        (child.material instanceof THREE.MeshBasicMaterial ||
+          child.material instanceof THREE.LineBasicMaterial)
+      ) {
+        child.material.color.setHex(color);
+      }
+    });
+  }
+
+  private rebuild() {
+    for (const child of [...this.children]) {
+      this.remove(child);
+      if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    }
+
+    this.allowedParts = [];
+    this.blockedParts = [];
+    const {
+      innerRadius,
+      outerRadius,
+      dotRadius,
+      stemHeight,
+      showFacing,
+      opacity,
+    } = this._style;
+    const material = () =>
+      new THREE.MeshBasicMaterial({
+        transparent: true,
+        opacity,
+        side: THREE.DoubleSide,
+      });
+
+    this.add(
+      new THREE.Mesh(
+        new THREE.RingGeometry(innerRadius, outerRadius, 32).rotateX(
+          -Math.PI / 2
+        ),
+        material()
+      )
+    );
+    if (dotRadius > 0) {
+      const dot = new THREE.Mesh(
+        new THREE.CircleGeometry(dotRadius, 16).rotateX(-Math.PI / 2),
+        material()
+      );
+      this.allowedParts.push(dot);
+      this.add(dot);
+    }
+    if (showFacing) {
+      // Triangle just outside the ring, pointing along +Z
+      const size = (outerRadius - innerRadius) * 1.5;
+      const shape = new THREE.Shape()
+        .moveTo(-size / 2, 0)
+        .lineTo(size / 2, 0)
+        .lineTo(0, size);
+      const arrow = new THREE.Mesh(
+        new THREE.ShapeGeometry(shape)
+          .rotateX(Math.PI / 2)
+          .translate(0, 0, outerRadius),
+        material()
+      );
+      this.allowedParts.push(arrow);
+      this.add(arrow);
+    }
+
+    const slash = new THREE.Mesh(
+      new THREE.PlaneGeometry(innerRadius * 2, outerRadius - innerRadius)
+        .rotateX(-Math.PI / 2)
+        .rotateY(Math.PI / 4),
+      material()
+    );
+    this.blockedParts.push(slash);
+    this.add(slash);
+    if (stemHeight > 0) {
+      this.add(
+        new THREE.Line(
+          new THREE.BufferGeometry().setFromPoints([
+            new THREE.Vector3(0, 0, 0),
+            new THREE.Vector3(0, stemHeight, 0),
+          ]),
+          new THREE.LineBasicMaterial({ transparent: true, opacity })
+        )
+      );
+    }
+    this.setBlocked(this.blocked);
+  }
+}
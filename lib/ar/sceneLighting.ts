@@ -0,0 +1,166 @@
+import * as THREE from "three";
+import { eventLog } from "@/lib/debug/eventLog";
+
+// Lights for placed objects. Static hemisphere + directional lights are used
+// until the session delivers a WebXR light estimate; from then on a light
+// probe (spherical harmonics) and the primary light follow the estimate every
+// frame, and the runtime's reflection cube map becomes the scene environment
+// where supported.
+export class SceneLighting {
+  private readonly staticLights = new THREE.Group();
+  private readonly estimatedLights = new THREE.Group();
+  private readonly probe = new THREE.LightProbe();
+  private readonly primaryLight = new THREE.DirectionalLight();
+
+  private xrProbe: XRLightProbe | null = null;
+  private binding: XRWebGLBinding | null = null;
+  private renderer: THREE.WebGLRenderer | null = null;
+  private environment: THREE.WebGLCubeRenderTarget | null = null;
+  private _isEstimating = false;
+
+  constructor(private readonly scene: THREE.Scene) {
+    const hemisphereLight = new THREE.HemisphereLight(0xffffff, 0xbbbbff, 1);
+    hemisphereLight.position.set(0.5, 1, 0.25);
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.5);
+    directionalLight.position.set(0, 1, 0);
+    this.staticLights.add(hemisphereLight, directionalLight);
+
+    this.estimatedLights.add(this.probe, this.primaryLight);
+    this.estimatedLights.visible = false;
+
+    scene.add(this.staticLights, this.estimatedLights);
+  }
+
+  // True once the first estimate has replaced the static lights
+  get isEstimating(): boolean {
+    return this._isEstimating;
+  }
+
+  // Request a light probe for the session. Resolves false (and keeps the
+  // static lights) when the runtime has no light estimation. Reflections
+  // need direct access to the WebGL context, so they are only set up when a
+  // real WebGLRenderer is passed in.
+  async start(
+    session: XRSession,
+    renderer?: THREE.WebGLRenderer
+  ): Promise<boolean> {
+    if (!session.requestLightProbe) {
+      return false;
+    }
+
+    let probe: XRLightProbe;
+    try {
+      probe = await session.requestLightProbe({
+        reflectionFormat: session.preferredReflectionFormat,
+      });
+    } catch (err) {
+      eventLog.warn("render", "Light estimation unavailable", err);
+      return false;
+    }
+
+    this.xrProbe = probe;
+    if (renderer && typeof XRWebGLBinding !== "undefined") {
+      this.setupReflections(session, probe, renderer);
+    }
+    return true;
+  }
+
+  // Call once per XR frame
+  update(frame: XRFrame) {
+    if (!this.xrProbe || !frame.getLightEstimate) {
+      return;
+    }
+    const estimate = frame.getLightEstimate(this.xrProbe);
+    if (!estimate) {
+      return;
+    }
+
+    this.probe.sh.fromArray(estimate.sphericalHarmonicsCoefficients);
+
+    // Intensities can exceed 1: keep the color normalized and carry the
+    // overall strength in the light's intensity
+    const { x, y, z } = estimate.primaryLightIntensity;
+    const strength = Math.max(1, x, y, z);
+    this.primaryLight.color.setRGB(x / strength, y / strength, z / strength);
+    this.primaryLight.intensity = strength;
+
+    const direction = estimate.primaryLightDirection;
+    this.primaryLight.position.set(direction.x, direction.y, direction.z);
+
+    if (!this._isEstimating) {
+      this._isEstimating = true;
+      this.staticLights.visible = false;
+      this.estimatedLights.visible = true;
+    }
+  }
+
+  // Drop the session's probe and go back to the static lights
+  stop() {
+    this.xrProbe?.removeEventListener(
+      "reflectionchange",
+      this.updateReflection
+    );
+    this.xrProbe = null;
+    this.binding = null;
+    this.renderer = null;
+
+    if (this.environment) {
+      if (this.scene.environment === this.environment.texture) {
+        this.scene.environment = null;
+      }
+      this.environment.dispose();
+      this.environment = null;
+    }
+
+    this._isEstimating = false;
+    this.staticLights.visible = true;
+    this.estimatedLights.visible = false;
+  }
+
+  private setupReflections(
+    session: XRSession,
+    probe: XRLightProbe,
+    renderer: THREE.WebGLRenderer
+  ) {
+    try {
+      const gl = renderer.getContext();
+      // The cube map format may need an extension to be sampled
+      if (session.preferredReflectionFormat === "srgba8") {
+        gl.getExtension("EXT_sRGB");
+      } else if (session.preferredReflectionFormat === "rgba16f") {
+        gl.getExtension("OES_texture_half_float");
+      }
+      this.binding = new XRWebGLBinding(session, gl);
+      this.renderer = renderer;
+      this.environment = new THREE.WebGLCubeRenderTarget(16);
+      probe.addEventListener("reflectionchange", this.updateReflection);
+    } catch (err) {
+      eventLog.warn("render", "Reflection cube map unavailable", err);
+      this.binding = null;
+    }
+  }
+
+  // Point the environment texture at the runtime's cube map; three then
+  // prefilters it (PMREM) for physically based materials
+  private updateReflection = () => {
+    const { binding, renderer, environment, xrProbe } = this;
+    if (
+      !binding?.getReflectionCubeMap ||
+      !renderer ||
+      !environment ||
+      !xrProbe
+    ) {
+      return;
+    }
+    const cubeMap = binding.getReflectionCubeMap(xrProbe);
+    if (!cubeMap) {
+      return;
+    }
+    const properties = renderer.properties.get(environment.texture) as {
+      __webglTexture?: WebGLTexture;
+    };
+    properties.__webglTexture = cubeMap;
+    environment.texture.needsPMREMUpdate = true;
+    this.scene.environment = environment.texture;
+  };
+}
@@ -0,0 +1,75 @@
+import * as THREE from "three";
+
+const HIGHLIGHT_EMISSIVE = new THREE.Color(0x2255ff);
+const NO_EMISSIVE = new THREE.Color(0x000000);
+const GIZMO_COLOR = 0x3b82f6;
+
+export function setHighlighted(object: THREE.Object3D, highlighted: boolean) {
+  object.traverse((child) => {
+    if (
+      child instanceof THREE.Mesh &&
+      child.material instanceof THREE.MeshStandardMaterial
+    ) {
+      child.material.emissive.copy(
+        highlighted ? HIGHLIGHT_EMISSIVE : NO_EMISSIVE
+      );
+    }
+  });
+}
+
+// Ring drawn on the surface around the selected object, with a notch that
+// shows its facing so rotation is visible even on symmetric models
+export class SelectionGizmo {
+  readonly object = new THREE.Group();
+  private target: THREE.Object3D | null = null;
+  private readonly bounds = new THREE.Box3();
+  private readonly size = new THREE.Vector3();
+
+  constructor() {
+    const material = new THREE.MeshBasicMaterial({
+      color: GIZMO_COLOR,
+      transparent: true,
+      opacity: 0.9,
+      side: THREE.DoubleSide,
+      depthTest: false,
+    });
+
+    const ring = new THREE.Mesh(
+      new THREE.RingGeometry(0.9, 1, 48).rotateX(-Math.PI / 2),
+      material
+    );
+    const notch = new THREE.Mesh(
+      new THREE.CircleGeometry(0.12, 3)
+        .rotateZ(Math.PI / 2)
+        .rotateX(-Math.PI / 2)
+        .translate(0, 0, -1.15),
+      material
+    );
+    this.object.add(ring, notch);
+    this.object.renderOrder = 2;
+    this.object.visible = false;
+  }
+
+  attach(target: THREE.Object3D | null) {
+    this.target = target;
+    this.object.visible = target !== null;
+    this.update();
+  }
+
+  // Follow the target; call once per frame
+  update() {
+    const target = this.target;
+    if (!target) {
+      return;
+    }
+
+    // Size the ring from the object's footprint
+    target.updateMatrixWorld(true);
+    this.bounds.setFromObject(target).getSize(this.size);
+    const radius = Math.max(this.size.x, this.size.z, 0.05) * 0.75;
+
+    this.object.position.copy(target.position);
+    this.object.quaternion.copy(target.quaternion);
+    this.object.scale.setScalar(radius);
+  }
+}
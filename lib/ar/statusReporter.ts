@@ -0,0 +1,79 @@
+import { TypedEventEmitter } from "@/lib/ar/events";
+import { ThrottledStore } from "@/lib/ar/frameStore";
+import type { EventLog, LogCategory } from "@/lib/debug/eventLog";
+import type { Locale } from "@/lib/i18n/locales";
+import {
+  getTranslator,
+  type MessageKey,
+  type MessageParams,
+  type PluralKey,
+  type Translator,
+} from "@/lib/i18n/translator";
+
+export interface StatusEvents {
+  status: { message: string };
+  error: { message: string; cause?: unknown };
+}
+
+type StatusKey = MessageKey | PluralKey;
+
+// Status and error messages of the AR session. They are reported as message
+// keys (lib/i18n) and translated into the current locale; the latest status
+// is re-translated when the locale changes.
+export class StatusReporter extends TypedEventEmitter<StatusEvents> {
+  readonly text: ThrottledStore<string>;
+
+  private translator: Translator;
+  private last: { key: StatusKey; params?: MessageParams } = {
+    key: "session.idle",
+  };
+
+  constructor(
+    private readonly log: EventLog,
+    locale?: Locale
+  ) {
+    super();
+    this.translator = getTranslator(locale);
+    this.text = new ThrottledStore(this.translator.t(this.last.key));
+  }
+
+  get i18n(): Translator {
+    return this.translator;
+  }
+
+  // Returns false when the locale didn't change
+  setLocale(locale: Locale): boolean {
+    if (locale === this.translator.locale) {
+      return false;
+    }
+    this.translator = getTranslator(locale);
+    const message = this.translator.t(this.last.key, this.last.params);
+    this.text.set(message);
+    this.emit("status", { message });
+    return true;
+  }
+
+  status(category: LogCategory, key: StatusKey, params?: MessageParams) {
+    const message = this.translator.t(key, params);
+    this.log.info(category, message);
+    this.last = { key, params };
+    this.text.set(message);
+    this.emit("status", { message });
+  }
+
+  fail(
+    category: LogCategory,
+    key: StatusKey,
+    params?: MessageParams,
+    cause?: unknown
+  ) {
+    const message = this.translator.t(key, params);
+    this.log.error(category, message, cause);
+    this.emit("error", { message, cause });
+  }
+
+  dispose() {
+    this.text.dispose();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,249 @@
+import * as THREE from "three";
+import type { SurfacePose } from "@/lib/ar/ARSessionController";
+import type { PlaneTracker } from "@/lib/ar/planeTracker";
+import { GROUND_PLANE, isOnGround } from "@/lib/ar/virtualGround";
+import type { EventLog } from "@/lib/debug/eventLog";
+
+// Input profile of phone and tablet touch screens
+const TOUCH_PROFILE = "generic-touchscreen";
+
+// Finds the surface the user points at, for each way of pointing: the AR hit
+// test through the middle of the screen, AR touches, the VR controller's ray
+// and the inline pointer. Owns the AR session's hit test sources. Poses in
+// the XR modes are in the session's space; the ones it returns may be reused
+// on the next call.
+export class SurfaceFinder {
+  private _hitTestSource: XRHitTestSource | null = null;
+  // Hit tests along each touch, where the runtime supports them
+  private _tapHitTestSource: XRTransientInputHitTestSource | null = null;
+  private tapHits = new Map<XRInputSource, SurfacePose>();
+  private readonly raycaster = new THREE.Raycaster();
+  private readonly pose: SurfacePose = {
+    position: new THREE.Vector3(),
+    quaternion: new THREE.Quaternion(),
+  };
+
+  constructor(
+    private readonly planes: PlaneTracker,
+    private readonly log: EventLog
+  ) {}
+
+  // The sources a session recording replays hit tests from
+  get hitTestSource(): XRHitTestSource | null {
+    return this._hitTestSource;
+  }
+
+  get tapHitTestSource(): XRTransientInputHitTestSource | null {
+    return this._tapHitTestSource;
+  }
+
+  // AR: throws when the session can't hit test through the viewer. Touch
+  // hit testing is optional; without it taps are ray cast against the known
+  // surfaces.
+  async requestHitTests(session: XRSession, viewerSpace: XRReferenceSpace) {
+    if (!session.requestHitTestSource) {
+      throw new Error("Hit testing not supported");
+    }
+    const hitTestSource = await session.requestHitTestSource({
+      space: viewerSpace,
+    });
+    if (!hitTestSource) {
+      throw new Error("Hit testing not supported");
+    }
+    this._hitTestSource = hitTestSource;
+
+    try {
+      this._tapHitTestSource =
+        (await session.requestHitTestSourceForTransientInput?.({
+          profile: TOUCH_PROFILE,
+        })) ?? null;
+    } catch (err) {
+      this.log.warn("hit-test", "Could not set up tap hit testing", err);
+    }
+    if (!this._tapHitTestSource) {
+      this.log.info(
+        "hit-test",
+        "Tap hit testing unavailable - ray casting taps instead"
+      );
+    }
+  }
+
+  // When the session ends
+  cancel() {
+    this._hitTestSource?.cancel();
+    this._hitTestSource = null;
+    this._tapHitTestSource?.cancel();
+    this._tapHitTestSource = null;
+    this.tapHits.clear();
+  }
+
+  // AR: the surface under the middle of the screen
+  fromHitTest(frame: XRFrame, space: XRReferenceSpace): SurfacePose | null {
+    if (!this._hitTestSource) {
+      return null;
+    }
+
+    const hit = frame.getHitTestResults(this._hitTestSource)[0];
+    const pose = hit?.getPose(space);
+    this.log.count(pose ? "hit-test hits" : "hit-test misses");
+    if (!pose) {
+      return null;
+    }
+
+    const { position, orientation } = pose.transform;
+    this.pose.position.set(position.x, position.y, position.z);
+    this.pose.quaternion.set(
+      orientation.x,
+      orientation.y,
+      orientation.z,
+      orientation.w
+    );
+    return this.pose;
+  }
+
+  // AR, once per animation frame: keeps the touches' hits for select events
+  // that come in frames without any
+  updateTapHits(frame: XRFrame, space: XRReferenceSpace) {
+    if (this._tapHitTestSource) {
+      this.tapHits = this.readTapHits(frame, space, this._tapHitTestSource);
+    }
+  }
+
+  // AR: the surface a tap landed on. Browsers only report touch hit tests
+  // in animation frames, so the select event's own frame may have none; the
+  // last frame's results stand in then. Without touch hit testing, the tap's
+  // ray is cast against the detected planes and, when one is shown, the
+  // surface under the reticle.
+  fromTap(
+    frame: XRFrame,
+    space: XRReferenceSpace,
+    inputSource: XRInputSource,
+    ray: THREE.Ray | null,
+    reticle: THREE.Object3D | null
+  ): SurfacePose | null {
+    if (this._tapHitTestSource) {
+      try {
+        const pose = this.readTapHits(
+          frame,
+          space,
+          this._tapHitTestSource
+        ).get(inputSource);
+        if (pose) {
+          return pose;
+        }
+      } catch {
+        // Not an animation frame
+      }
+      const pose = this.tapHits.get(inputSource);
+      if (pose) {
+        return pose;
+      }
+    }
+    if (!ray) {
+      return null;
+    }
+    this.log.count("taps ray cast");
+    const planeHit = this.planes.raycast(ray);
+    if (planeHit) {
+      return planeHit;
+    }
+    if (!reticle) {
+      return null;
+    }
+    const normal = new THREE.Vector3(0, 1, 0).applyQuaternion(
+      reticle.quaternion
+    );
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      normal,
+      reticle.position
+    );
+    const point = ray.intersectPlane(plane, new THREE.Vector3());
+    return point
+      ? { position: point, quaternion: reticle.quaternion.clone() }
+      : null;
+  }
+
+  // VR: where the first pointing controller's ray meets the virtual ground
+  fromController(
+    frame: XRFrame,
+    space: XRReferenceSpace,
+    inputSources: Iterable<XRInputSource>
+  ): SurfacePose | null {
+    for (const inputSource of inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") {
+        continue;
+      }
+      const pose = frame.getPose(inputSource.targetRaySpace, space);
+      if (pose) {
+        return this.fromRay(rayFromTransform(pose.transform));
+      }
+    }
+    return null;
+  }
+
+  // Inline: under the pointer (in NDC), or below the orbit target while the
+  // pointer is off the canvas (e.g. over the Place button)
+  fromPointer(
+    pointer: THREE.Vector2 | null,
+    camera: THREE.Camera,
+    target: THREE.Vector3 | null
+  ): SurfacePose | null {
+    if (!pointer) {
+      if (!target) {
+        return null;
+      }
+      this.pose.position.copy(target).setY(0);
+      this.pose.quaternion.identity();
+      return this.pose;
+    }
+    this.raycaster.setFromCamera(pointer, camera);
+    return this.fromRay(this.raycaster.ray);
+  }
+
+  private fromRay(ray: THREE.Ray): SurfacePose | null {
+    const point = ray.intersectPlane(GROUND_PLANE, this.pose.position);
+    if (!point || !isOnGround(point)) {
+      return null;
+    }
+    this.pose.quaternion.identity();
+    return this.pose;
+  }
+
+  // Where each current touch's hit test meets a surface
+  private readTapHits(
+    frame: XRFrame,
+    space: XRReferenceSpace,
+    source: XRTransientInputHitTestSource
+  ): Map<XRInputSource, SurfacePose> {
+    const hits = new Map<XRInputSource, SurfacePose>();
+    for (const hit of frame.getHitTestResultsForTransientInput(source)) {
+      const pose = hit.results[0]?.getPose(space);
+      if (pose) {
+        hits.set(hit.inputSource, poseFromTransform(pose.transform));
+      }
+    }
+    return hits;
+  }
+}
+
+// The ray a target ray space's pose points along
+export function rayFromTransform(transform: XRRigidTransform): THREE.Ray {
+  const matrix = new THREE.Matrix4().fromArray(transform.matrix);
+  return new THREE.Ray(
+    new THREE.Vector3().setFromMatrixPosition(matrix),
+    new THREE.Vector3(0, 0, -1).transformDirection(matrix)
+  );
+}
+
+function poseFromTransform(transform: XRRigidTransform): SurfacePose {
+  const { position, orientation } = transform;
+  return {
+    position: new THREE.Vector3(position.x, position.y, position.z),
+    quaternion: new THREE.Quaternion(
+      orientation.x,
+      orientation.y,
+      orientation.z,
+      orientation.w
+    ),
+  };
+}
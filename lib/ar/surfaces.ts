@@ -0,0 +1,290 @@
+import * as THREE from "three";
+import type { MessageKey, Translator } from "@/lib/i18n/translator";
+
+export type SurfaceOrientation = "horizontal" | "vertical";
+
+export interface SurfaceInfo {
+  orientation: SurfaceOrientation;
+  // Semantic label ("floor", "wall", "table", ...) from the runtime when it
+  // provides one, otherwise inferred from the pose where possible
+  label: string | null;
+}
+
+// Restricts where content may be placed. Every given field must match.
+export interface PlacementConstraint {
+  orientation?: SurfaceOrientation;
+  labels?: string[];
+}
+
+export interface PlacementFilter {
+  id: string;
+  name: MessageKey;
+  constraint: PlacementConstraint | null;
+}
+
+export const PLACEMENT_FILTERS: PlacementFilter[] = [
+  { id: "any", name: "filter.any", constraint: null },
+  {
+    id: "horizontal",
+    name: "filter.horizontal",
+    constraint: { orientation: "horizontal" },
+  },
+  {
+    id: "vertical",
+    name: "filter.vertical",
+    constraint: { orientation: "vertical" },
+  },
+  { id: "floor", name: "filter.floor", constraint: { labels: ["floor"] } },
+  { id: "wall", name: "filter.wall", constraint: { labels: ["wall"] } },
+];
+
+export const DEFAULT_PLACEMENT_FILTER_ID = "any";
+
+// How a model sits on each kind of surface. Ceilings always hang the model
+// along the normal, upside down.
+export interface SurfaceAlignment {
+  // "upright" keeps the model's Y axis vertical; "normal" tilts it to the
+  // surface normal. Either way its front (+Z) turns to the viewer.
+  horizontal: "upright" | "normal";
+  // "flat" hangs the model upright with its back (-Z) against the wall;
+  // "normal" points its Y axis out of the wall
+  vertical: "flat" | "normal";
+}
+
+export const DEFAULT_SURFACE_ALIGNMENT: SurfaceAlignment = {
+  horizontal: "upright",
+  vertical: "flat",
+};
+
+// Placement snapping; null turns a step off
+export interface SnapSettings {
+  // Grid spacing (m) in the surface plane
+  grid: number | null;
+  // Rotation increment (degrees) around the surface normal
+  angle: number | null;
+}
+
+export const NO_SNAPPING: SnapSettings = { grid: null, angle: null };
+
+export const GRID_SNAP_OPTIONS = [null, 0.05, 0.1, 0.25, 0.5];
+export const ANGLE_SNAP_OPTIONS = [null, 15, 45, 90];
+
+// Where and how a model goes on a surface
+export interface SurfacePlacement {
+  position: THREE.Vector3;
+  // Orientation of the placed model
+  quaternion: THREE.Quaternion;
+  // Flat on the surface, +Z toward the model's front (up on walls); for
+  // markers like the reticle
+  surfaceQuaternion: THREE.Quaternion;
+  // The model's back goes against the surface, so it has to be moved out by
+  // its depth behind the pivot
+  mounted: boolean;
+}
+
+// Surfaces tilted less than this from level count as horizontal
+const HORIZONTAL_MIN_NORMAL_Y = Math.cos(THREE.MathUtils.degToRad(30));
+// Horizontal surfaces this close to the local-floor origin are the floor
+const FLOOR_MAX_HEIGHT = 0.2;
+
+const UP = new THREE.Vector3(0, 1, 0);
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+// Classify a surface from its pose (local Y is the normal, as for hit test
+// results and XRPlane spaces)
+export function classifySurface(
+  position: THREE.Vector3,
+  quaternion: THREE.Quaternion,
+  semanticLabel?: string
+): SurfaceInfo {
+  const normal = UP.clone().applyQuaternion(quaternion);
+  const orientation: SurfaceOrientation =
+    Math.abs(normal.y) >= HORIZONTAL_MIN_NORMAL_Y ? "horizontal" : "vertical";
+  return {
+    orientation,
+    label: semanticLabel ?? inferLabel(orientation, normal, position),
+  };
+}
+
+function inferLabel(
+  orientation: SurfaceOrientation,
+  normal: THREE.Vector3,
+  position: THREE.Vector3
+): string | null {
+  if (orientation === "vertical") {
+    return "wall";
+  }
+  if (normal.y < 0) {
+    return "ceiling";
+  }
+  return Math.abs(position.y) <= FLOOR_MAX_HEIGHT ? "floor" : null;
+}
+
+export function allowsSurface(
+  constraint: PlacementConstraint | null | undefined,
+  surface: SurfaceInfo | null
+): boolean {
+  if (!constraint) {
+    return true;
+  }
+  if (!surface) {
+    return false;
+  }
+  if (
+    constraint.orientation &&
+    constraint.orientation !== surface.orientation
+  ) {
+    return false;
+  }
+  if (
+    constraint.labels &&
+    (!surface.label || !constraint.labels.includes(surface.label))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// "the floor", "walls", "horizontal surfaces", ...
+export function describeConstraint(
+  constraint: PlacementConstraint,
+  i18n: Translator
+): string {
+  if (constraint.labels?.length) {
+    return i18n.or(
+      constraint.labels.map((label) => {
+        const key = `surfaces.${label}`;
+        // Runtimes may report labels the catalogs don't know
+        return i18n.has(key) ? i18n.t(key) : `${label}s`;
+      })
+    );
+  }
+  return i18n.t(`surfaces.${constraint.orientation ?? "any"}`);
+}
+
+// "Floor", "Vertical surface", ...
+export function describeSurface(
+  surface: SurfaceInfo,
+  i18n: Translator
+): string {
+  if (!surface.label) {
+    return i18n.t(`surface.${surface.orientation}`);
+  }
+  const key = `surface.${surface.label}`;
+  if (i18n.has(key)) {
+    return i18n.t(key);
+  }
+  return surface.label.charAt(0).toUpperCase() + surface.label.slice(1);
+}
+
+// Pose for a model placed at a hit (local Y is the surface normal): the hit
+// position snapped to the grid, and an orientation following the alignment
+// rules and facing the viewer, if known
+export function alignToSurface(
+  hit: { position: THREE.Vector3; quaternion: THREE.Quaternion },
+  surface: SurfaceInfo,
+  alignment: SurfaceAlignment,
+  viewer: THREE.Vector3 | null,
+  snap: SnapSettings
+): SurfacePlacement {
+  const normal = UP.clone().applyQuaternion(hit.quaternion);
+  const position = hit.position.clone();
+  if (snap.grid) {
+    snapToGrid(position, normal, snap.grid);
+  }
+
+  if (surface.orientation === "vertical") {
+    // Wall frame: Z out of the wall (kept level), X across, Y up
+    const out = normal.clone().setY(0).normalize();
+    const across = new THREE.Vector3().crossVectors(UP, out);
+    const up = UP.clone().projectOnPlane(normal).normalize();
+    const surfaceQuaternion = quaternionFromBasis(
+      new THREE.Vector3().crossVectors(normal, up),
+      normal,
+      up
+    );
+    const flat = alignment.vertical === "flat";
+    return {
+      position,
+      quaternion: flat
+        ? quaternionFromBasis(across, UP, out)
+        : surfaceQuaternion.clone(),
+      surfaceQuaternion,
+      mounted: flat,
+    };
+  }
+
+  let yaw = viewer
+    ? Math.atan2(viewer.x - position.x, viewer.z - position.z)
+    : yawOf(hit.quaternion);
+  if (snap.angle) {
+    yaw = snapAngle(yaw, snap.angle);
+  }
+  const turn = new THREE.Quaternion().setFromAxisAngle(UP, yaw);
+  const surfaceQuaternion = new THREE.Quaternion()
+    .setFromUnitVectors(UP, normal)
+    .multiply(turn);
+  const upright = alignment.horizontal === "upright" && normal.y > 0;
+  return {
+    position,
+    quaternion: upright ? turn : surfaceQuaternion.clone(),
+    surfaceQuaternion,
+    mounted: false,
+  };
+}
+
+// Move a point to the nearest grid line crossing in the plane with this
+// normal. Level surfaces use the X/Z grid, walls the one across and up.
+export function snapToGrid(
+  position: THREE.Vector3,
+  normal: THREE.Vector3,
+  grid: number
+): THREE.Vector3 {
+  const level = Math.abs(normal.y) >= HORIZONTAL_MIN_NORMAL_Y;
+  const axes = level
+    ? [X_AXIS, Z_AXIS]
+    : [new THREE.Vector3().crossVectors(UP, normal).normalize(), UP];
+  for (const axis of axes) {
+    const offset = position.dot(axis);
+    position.addScaledVector(axis, Math.round(offset / grid) * grid - offset);
+  }
+  return position;
+}
+
+// Round a model's rotation around the surface normal to the increment. The
+// model's Y axis must be the normal.
+export function snapRotation(
+  quaternion: THREE.Quaternion,
+  normal: THREE.Vector3,
+  degrees: number
+): THREE.Quaternion {
+  const tilt = new THREE.Quaternion().setFromUnitVectors(UP, normal);
+  const yaw = yawOf(tilt.clone().invert().multiply(quaternion));
+  return quaternion.copy(
+    tilt.multiply(
+      new THREE.Quaternion().setFromAxisAngle(UP, snapAngle(yaw, degrees))
+    )
+  );
+}
+
+function snapAngle(radians: number, degrees: number): number {
+  const step = THREE.MathUtils.degToRad(degrees);
+  return Math.round(radians / step) * step;
+}
+
+// Rotation around Y that turns +Z the way the quaternion does
+function yawOf(quaternion: THREE.Quaternion): number {
+  const front = Z_AXIS.clone().applyQuaternion(quaternion);
+  return Math.atan2(front.x, front.z);
+}
+
+function quaternionFromBasis(
+  x: THREE.Vector3,
+  y: THREE.Vector3,
+  z: THREE.Vector3
+): THREE.Quaternion {
+  return new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(x, y, z)
+  );
+}
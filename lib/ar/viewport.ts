@@ -0,0 +1,45 @@
+import * as THREE from "three";
+
+// The area the AR canvas fills. The controller sizes its renderer and
+// camera from it and maps pointer positions through it, so tests can hand
+// in a fixed size instead of the browser window.
+export interface Viewport {
+  readonly width: number;
+  readonly height: number;
+  readonly pixelRatio: number;
+  // Returns the unsubscribe function
+  subscribe(listener: () => void): () => void;
+}
+
+export const windowViewport: Viewport = {
+  get width() {
+    return window.innerWidth;
+  },
+  get height() {
+    return window.innerHeight;
+  },
+  get pixelRatio() {
+    return window.devicePixelRatio;
+  },
+  subscribe(listener) {
+    window.addEventListener("resize", listener);
+    return () => window.removeEventListener("resize", listener);
+  },
+};
+
+// A viewport that never changes size, e.g. for tests
+export function fixedViewport(
+  width: number,
+  height: number,
+  pixelRatio = 1
+): Viewport {
+  return { width, height, pixelRatio, subscribe: () => () => {} };
+}
+
+// Normalized device coordinates of a point in client pixels
+export function toNdc(viewport: Viewport, x: number, y: number) {
+  return new THREE.Vector2(
+    (x / viewport.width) * 2 - 1,
+    -(y / viewport.height) * 2 + 1
+  );
+}
@@ -0,0 +1,43 @@
+import * as THREE from "three";
+import type { SurfaceInfo } from "@/lib/ar/surfaces";
+
+// Side length of the ground used by the inline and VR viewers, in meters
+export const GROUND_SIZE = 10;
+export const VIRTUAL_BACKGROUND = new THREE.Color(0x2a2f3a);
+
+// The ground lies on y = 0 of the local-floor space
+export const GROUND_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+
+export const GROUND_SURFACE: SurfaceInfo = {
+  orientation: "horizontal",
+  label: "floor",
+};
+
+export function isOnGround(point: THREE.Vector3): boolean {
+  const half = GROUND_SIZE / 2;
+  return Math.abs(point.x) <= half && Math.abs(point.z) <= half;
+}
+
+// Floor with a grid, standing in for the real world when there is no camera
+// feed
+export function createVirtualGround(): THREE.Object3D {
+  const group = new THREE.Group();
+  group.name = "virtual-ground";
+
+  const floor = new THREE.Mesh(
+    new THREE.PlaneGeometry(GROUND_SIZE, GROUND_SIZE).rotateX(-Math.PI / 2),
+    new THREE.MeshStandardMaterial({ color: 0x3a4150, roughness: 1 })
+  );
+  floor.position.y = -0.001;
+  group.add(floor);
+
+  const grid = new THREE.GridHelper(
+    GROUND_SIZE,
+    GROUND_SIZE * 2,
+    0x9aa4b5,
+    0x566070
+  );
+  group.add(grid);
+
+  return group;
+}
@@ -0,0 +1,163 @@
+import { TypedEventEmitter } from "@/lib/ar/events";
+import { eventLog } from "@/lib/debug/eventLog";
+import {
+  COLLAB_PROTOCOL_VERSION,
+  DEFAULT_COLLAB_PORT,
+  parseServerMessage,
+  type ClientMessage,
+  type ServerMessage,
+} from "@/lib/collab/protocol";
+
+export type ConnectionState = "disconnected" | "connecting" | "connected";
+
+export interface CollabClientEvents {
+  "connection-changed": { state: ConnectionState };
+  message: ServerMessage;
+}
+
+// The subset of the browser WebSocket the client uses, so tests can hand in
+// a fake
+export interface CollabSocket {
+  readonly readyState: number;
+  onopen: (() => void) | null;
+  onclose: (() => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface CollabClientOptions {
+  url: string;
+  room: string;
+  name: string;
+  color: string;
+  createSocket?: (url: string) => CollabSocket;
+}
+
+const OPEN = 1;
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000];
+
+// Relay on the same host as the page, unless NEXT_PUBLIC_COLLAB_URL says
+// otherwise
+export function defaultRelayUrl(): string {
+  if (process.env.NEXT_PUBLIC_COLLAB_URL) {
+    return process.env.NEXT_PUBLIC_COLLAB_URL;
+  }
+  const secure = window.location.protocol === "https:";
+  return `${secure ? "wss" : "ws"}://${window.location.hostname}:${DEFAULT_COLLAB_PORT}`;
+}
+
+// Connection to the relay. Joins the room on every (re)connect and retries
+// with backoff until close() is called; the welcome message after each join
+// carries the full room state.
+export class CollabClient extends TypedEventEmitter<CollabClientEvents> {
+  private socket: CollabSocket | null = null;
+  private _state: ConnectionState = "disconnected";
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+
+  constructor(private readonly options: CollabClientOptions) {
+    super();
+  }
+
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  connect() {
+    this.closed = false;
+    this.open();
+  }
+
+  send(message: ClientMessage): boolean {
+    if (this._state !== "connected" || this.socket?.readyState !== OPEN) {
+      return false;
+    }
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  close() {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+    this.setState("disconnected");
+    this.removeAllListeners();
+  }
+
+  private open() {
+    const { url, room, name, color } = this.options;
+    const createSocket =
+      this.options.createSocket ??
+      ((target: string) => new WebSocket(target) as CollabSocket);
+
+    this.setState("connecting");
+    let socket: CollabSocket;
+    try {
+      socket = createSocket(url);
+    } catch (err) {
+      eventLog.warn("collab", "Could not open collaboration socket", err);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      socket.send(
+        JSON.stringify({
+          type: "join",
+          protocol: COLLAB_PROTOCOL_VERSION,
+          room,
+          name,
+          color,
+        } satisfies ClientMessage)
+      );
+    };
+    socket.onmessage = (event) => {
+      let message: ServerMessage;
+      try {
+        message = parseServerMessage(String(event.data));
+      } catch (err) {
+        eventLog.warn("collab", "Ignoring malformed relay message", err);
+        return;
+      }
+      if (message.type === "welcome") {
+        this.setState("connected");
+      }
+      this.emit("message", message);
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      this.setState("disconnected");
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) {
+      return;
+    }
+    const delay =
+      RECONNECT_DELAYS_MS[
+        Math.min(this.attempts, RECONNECT_DELAYS_MS.length - 1)
+      ];
+    this.attempts++;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private setState(state: ConnectionState) {
+    if (state !== this._state) {
+      this._state = state;
+      eventLog.info("collab", `Relay ${state}`);
+      this.emit("connection-changed", { state });
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CollabClient } from "@/lib/collab/CollabClient";
+import { CollabSession } from "@/lib/collab/CollabSession";
+import { ReplayXRSystem } from "@/lib/xr/replay/ReplayXRSystem";
+import { createRecording, createTestController, floorAt } from "@/test/fakes";
+import { createTestRelay } from "@/test/relay";
+
+type TestRelay = ReturnType<typeof createTestRelay>;
+
+const cleanups: (() => void)[] = [];
+
+afterEach(() => {
+  cleanups.splice(0).forEach((cleanup) => cleanup());
+});
+
+// A participant in AR, aligned on two floor points a meter apart, with the
+// reticle back on the floor ahead. The frames after alignment play in real
+// time: anchors for placed and restored objects are made on the next frame.
+async function join(relay: TestRelay, name: string) {
+  const xr = new ReplayXRSystem(
+    createRecording([
+      { hits: [floorAt(0, -1)] },
+      { hits: [floorAt(1, -1)] },
+      ...Array.from({ length: 600 }, () => ({ hits: [floorAt(0, -1)] })),
+    ])
+  );
+  const { controller } = createTestController(xr);
+  await controller.start("immersive-ar");
+  const client = new CollabClient({
+    url: "ws://relay.test",
+    room: "test",
+    name,
+    color: "#3b82f6",
+    createSocket: relay.createSocket,
+  });
+  const session = new CollabSession(controller, client);
+  session.start();
+  cleanups.push(() => {
+    session.dispose();
+    controller.dispose();
+  });
+
+  session.beginAlignment();
+  xr.step();
+  controller.markAlignmentPoint();
+  xr.step();
+  controller.markAlignmentPoint();
+  xr.step();
+  await vi.waitFor(() => expect(session.connection).toBe("connected"));
+  expect(session.alignment).toBe("aligned");
+  void xr.play();
+
+  const conflicts: string[] = [];
+  session.on("conflict", ({ message }) => conflicts.push(message));
+  return { controller, session, conflicts };
+}
+
+describe("CollabSession", () => {
+  it("shares an undone delete as a new object", async () => {
+    const relay = createTestRelay();
+    const alice = await join(relay, "Alice");
+    const bob = await join(relay, "Bob");
+
+    await alice.controller.placeObject();
+    await vi.waitFor(() => expect(bob.controller.registry.size).toBe(1));
+    const [placed] = alice.controller.registry.list();
+    alice.controller.deleteObject(placed.id);
+    await vi.waitFor(() => expect(bob.controller.registry.size).toBe(0));
+
+    // The relay keeps a tombstone for the deleted id; the object comes back
+    // under a new one
+    expect(await alice.controller.undo()).toBe(true);
+    const [restored] = alice.controller.registry.list();
+    expect(restored.id).not.toBe(placed.id);
+    await vi.waitFor(() =>
+      expect(bob.controller.registry.get(restored.id)).toBeDefined()
+    );
+    expect(alice.controller.registry.size).toBe(1);
+    expect(alice.conflicts).toEqual([]);
+
+    // Redo deletes the restored object, for everyone
+    expect(await alice.controller.redo()).toBe(true);
+    expect(alice.controller.registry.size).toBe(0);
+    await vi.waitFor(() => expect(bob.controller.registry.size).toBe(0));
+
+    // And undo still follows it
+    expect(await alice.controller.undo()).toBe(true);
+    await vi.waitFor(() => expect(bob.controller.registry.size).toBe(1));
+    expect(alice.conflicts).toEqual([]);
+  });
+
+  it("drops the history of objects someone else deleted", async () => {
+    const relay = createTestRelay();
+    const alice = await join(relay, "Alice");
+    const bob = await join(relay, "Bob");
+
+    await alice.controller.placeObject();
+    await vi.waitFor(() => expect(bob.controller.registry.size).toBe(1));
+    const [shared] = bob.controller.registry.list();
+    bob.controller.deleteObject(shared.id);
+    await vi.waitFor(() => expect(alice.controller.registry.size).toBe(0));
+
+    expect(alice.controller.history.getState().undoLabel).toBeNull();
+    expect(await alice.controller.undo()).toBe(false);
+    expect(alice.controller.registry.size).toBe(0);
+    // Bob can still bring it back
+    expect(await bob.controller.undo()).toBe(true);
+    await vi.waitFor(() => expect(alice.controller.registry.size).toBe(1));
+  });
+});
@@ -0,0 +1,449 @@
+import * as THREE from "three";
+import type { ARSessionController } from "@/lib/ar/ARSessionController";
+import { TypedEventEmitter } from "@/lib/ar/events";
+import { modelName } from "@/lib/ar/modelCatalog";
+import type { PlacedObject } from "@/lib/ar/objectRegistry";
+import type { CollabClient, ConnectionState } from "@/lib/collab/CollabClient";
+import { PresenceMarkers } from "@/lib/collab/presenceMarkers";
+import {
+  opObjectId,
+  type ObjectOp,
+  type PeerPresence,
+  type ServerMessage,
+  type SharedObject,
+  type SharedPose,
+  type VersionedObject,
+} from "@/lib/collab/protocol";
+import {
+  AlignmentError,
+  MIN_ALIGNMENT_DISTANCE,
+  originFromPoints,
+  toSharedPose,
+} from "@/lib/collab/sharedOrigin";
+import {
+  serializeObjects,
+  type SceneOrigin,
+} from "@/lib/scene/sceneSerializer";
+
+export type AlignmentState =
+  | "unaligned"
+  | "picking-origin"
+  | "picking-direction"
+  | "aligned";
+
+export interface CollabSessionEvents {
+  "connection-changed": { state: ConnectionState };
+  "peers-changed": { peers: PeerPresence[] };
+  "alignment-changed": { state: AlignmentState };
+  // A local edit lost against a concurrent one and was rolled back
+  conflict: { id: string; message: string };
+  error: { message: string };
+}
+
+export const PEER_COLORS = [
+  "#ef4444",
+  "#f59e0b",
+  "#10b981",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+export function pickPeerColor(): string {
+  return PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)];
+}
+
+const PRESENCE_INTERVAL_MS = 100;
+
+// Keeps the controller's placed objects in sync with a relay room.
+//
+// Local creates, moves and deletes go out as ops based on the version last
+// seen for the object; the relay refuses ops based on a stale version, and
+// the object then snaps back to the winning state. Only one op per object
+// is in flight: later edits wait and go out once it is confirmed.
+//
+// Transforms are exchanged relative to the shared origin, so nothing but
+// deletes is sent or applied before this device is aligned. On aligning
+// (or reconnecting while aligned) the room's state replaces local copies
+// and objects the room doesn't know are published.
+export class CollabSession extends TypedEventEmitter<CollabSessionEvents> {
+  readonly markers = new PresenceMarkers();
+
+  private selfId: string | null = null;
+  private readonly peerMap = new Map<string, PeerPresence>();
+  private _peers: PeerPresence[] = [];
+  private readonly room = new Map<string, VersionedObject>();
+  // Ids of registry objects this session accounts for, to tell local
+  // creates and deletes apart from the ones it applied itself
+  private readonly localIds = new Set<string>();
+  private readonly inFlight = new Set<string>();
+  private readonly queued = new Map<string, ObjectOp>();
+  private origin: SceneOrigin | null = null;
+  private firstPoint: THREE.Vector3 | null = null;
+  private _alignment: AlignmentState = "unaligned";
+  private applying: Promise<void> = Promise.resolve();
+  private lastPresence = "";
+  private presenceTimer: ReturnType<typeof setInterval> | undefined;
+  private readonly unsubscribers: (() => void)[] = [];
+
+  constructor(
+    private readonly controller: ARSessionController,
+    private readonly client: CollabClient
+  ) {
+    super();
+  }
+
+  get peers(): PeerPresence[] {
+    return this._peers;
+  }
+
+  get alignment(): AlignmentState {
+    return this._alignment;
+  }
+
+  get connection(): ConnectionState {
+    return this.client.state;
+  }
+
+  start() {
+    const { controller, client } = this;
+    for (const entry of controller.registry.list()) {
+      this.localIds.add(entry.id);
+    }
+    controller.scene.add(this.markers.object);
+    this.unsubscribers.push(
+      client.on("connection-changed", (payload) =>
+        this.emit("connection-changed", payload)
+      ),
+      client.on("message", this.handleMessage),
+      controller.registry.subscribe(this.handleRegistryChange),
+      controller.on("object-transformed", ({ object }) =>
+        this.publishObject(object)
+      ),
+      controller.on("alignment-point", ({ position }) =>
+        this.handleAlignmentPoint(position)
+      ),
+      // A new session has a new reference space; the old alignment is void
+      controller.on("session-ended", () => {
+        this.origin = null;
+        this.setAlignment("unaligned");
+        this.markers.clear();
+      })
+    );
+    this.presenceTimer = setInterval(this.sendPresence, PRESENCE_INTERVAL_MS);
+    client.connect();
+  }
+
+  // The next two taps with the align tool set the shared origin
+  beginAlignment() {
+    this.firstPoint = null;
+    this.setAlignment("picking-origin");
+    this.controller.setTool("align");
+  }
+
+  cancelAlignment() {
+    this.firstPoint = null;
+    this.setAlignment(this.origin ? "aligned" : "unaligned");
+    if (this.controller.tool === "align") {
+      this.controller.setTool("place");
+    }
+  }
+
+  dispose() {
+    clearInterval(this.presenceTimer);
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.client.close();
+    if (this.controller.tool === "align") {
+      this.controller.setTool("place");
+    }
+    this.markers.clear();
+    this.controller.scene.remove(this.markers.object);
+    this.removeAllListeners();
+  }
+
+  private handleAlignmentPoint(position: THREE.Vector3) {
+    if (this._alignment === "picking-origin") {
+      this.firstPoint = position;
+      this.setAlignment("picking-direction");
+      return;
+    }
+    if (this._alignment !== "picking-direction" || !this.firstPoint) {
+      return;
+    }
+    try {
+      this.origin = originFromPoints(this.firstPoint, position);
+    } catch (err) {
+      if (err instanceof AlignmentError) {
+        this.emit("error", {
+          message: this.controller.i18n.t("collab.pointsTooClose", {
+            distance: MIN_ALIGNMENT_DISTANCE * 100,
+          }),
+        });
+        return;
+      }
+      throw err;
+    }
+    this.firstPoint = null;
+    this.controller.setTool("place");
+    this.setAlignment("aligned");
+    this.markers.update(this._peers, this.origin);
+    this.reconcile();
+  }
+
+  private handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case "welcome":
+        this.selfId = message.self.id;
+        this.peerMap.clear();
+        for (const peer of message.peers) {
+          this.peerMap.set(peer.id, peer);
+        }
+        this.peersChanged();
+        this.room.clear();
+        for (const entry of message.objects) {
+          this.room.set(entry.id, entry);
+        }
+        this.inFlight.clear();
+        this.queued.clear();
+        this.lastPresence = "";
+        this.reconcile();
+        break;
+      case "peer-joined":
+        this.controller.log.info("collab", `${message.peer.name} joined`);
+        this.peerMap.set(message.peer.id, message.peer);
+        this.peersChanged();
+        break;
+      case "peer-left":
+        this.controller.log.info(
+          "collab",
+          `${this.peerMap.get(message.peerId)?.name ?? "A peer"} left`
+        );
+        this.peerMap.delete(message.peerId);
+        this.peersChanged();
+        break;
+      case "presence": {
+        const peer = this.peerMap.get(message.peerId);
+        if (peer) {
+          this.peerMap.set(peer.id, {
+            ...peer,
+            pose: message.pose,
+            editing: message.editing,
+          });
+          this.peersChanged();
+        }
+        break;
+      }
+      case "op": {
+        const id = opObjectId(message.op);
+        this.room.set(id, {
+          id,
+          version: message.version,
+          object: message.op.kind === "upsert" ? message.op.object : null,
+        });
+        if (message.peerId === this.selfId) {
+          this.inFlight.delete(id);
+          this.flushQueued(id);
+        } else {
+          this.applyRemote(id);
+        }
+        break;
+      }
+      case "reject": {
+        const { current } = message;
+        // Lost against an earlier edit of this device, e.g. an edit of an
+        // object deleted here: roll back without blaming anyone
+        const conflict =
+          message.peerId === this.selfId
+            ? null
+            : this.describeConflict(current, message.peerId);
+        this.room.set(current.id, current);
+        this.inFlight.delete(current.id);
+        this.queued.delete(current.id);
+        this.applyRemote(current.id);
+        this.controller.log.info(
+          "collab",
+          `Edit rejected: ${conflict ?? "stale edit"}`,
+          { id: current.id }
+        );
+        if (conflict) {
+          this.emit("conflict", { id: current.id, message: conflict });
+        }
+        break;
+      }
+      case "error":
+        this.controller.log.warn(
+          "collab",
+          `Relay error: ${message.message}`
+        );
+        this.emit("error", { message: message.message });
+        break;
+    }
+  };
+
+  // Local creates and deletes show up as registry changes
+  private handleRegistryChange = () => {
+    const current = new Set<string>();
+    for (const entry of this.controller.registry.list()) {
+      current.add(entry.id);
+      if (!this.localIds.has(entry.id)) {
+        this.localIds.add(entry.id);
+        this.publishObject(entry);
+      }
+    }
+    for (const id of Array.from(this.localIds)) {
+      if (!current.has(id)) {
+        this.localIds.delete(id);
+        // A create still in flight is deleted once confirmed
+        if (this.room.get(id)?.object || this.inFlight.has(id)) {
+          this.publish({ kind: "delete", id });
+        }
+      }
+    }
+  };
+
+  private publishObject(entry: PlacedObject) {
+    if (!this.origin) {
+      return;
+    }
+    const [serialized] = serializeObjects([entry], this.origin);
+    const object: SharedObject = { ...serialized };
+    delete (object as { anchor?: unknown }).anchor;
+    this.publish({ kind: "upsert", object });
+  }
+
+  private publish(op: ObjectOp) {
+    const id = opObjectId(op);
+    if (this.inFlight.has(id)) {
+      this.queued.set(id, op);
+      return;
+    }
+    const sent = this.client.send({
+      type: "op",
+      op,
+      base: this.room.get(id)?.version ?? 0,
+    });
+    if (sent) {
+      this.inFlight.add(id);
+    }
+  }
+
+  private flushQueued(id: string) {
+    const op = this.queued.get(id);
+    if (op) {
+      this.queued.delete(id);
+      this.publish(op);
+    }
+  }
+
+  // Bring the local copy of an object in line with the room. Applies run
+  // one after another so a create still loading its model isn't overtaken
+  // by a later op on the same object.
+  private applyRemote(id: string) {
+    this.applying = this.applying
+      .then(async () => {
+        const entry = this.room.get(id);
+        if (!entry) {
+          return;
+        }
+        if (!entry.object) {
+          this.localIds.delete(id);
+          this.controller.removeSharedObject(id);
+          return;
+        }
+        if (!this.origin) {
+          return;
+        }
+        this.localIds.add(id);
+        const shown = await this.controller.applySharedObject(
+          entry.object,
+          this.origin
+        );
+        if (!shown && !this.controller.registry.get(id)) {
+          this.localIds.delete(id);
+        }
+      })
+      .catch((err) =>
+        this.controller.log.warn(
+          "collab",
+          "Could not apply shared object",
+          err
+        )
+      );
+  }
+
+  // The room's state wins; objects it doesn't know yet are published
+  private reconcile() {
+    if (!this.origin || !this.selfId) {
+      return;
+    }
+    for (const id of this.room.keys()) {
+      this.applyRemote(id);
+    }
+    for (const entry of this.controller.registry.list()) {
+      if (!this.room.has(entry.id)) {
+        this.publishObject(entry);
+      }
+    }
+  }
+
+  private sendPresence = () => {
+    const viewer = this.controller.viewerPose;
+    const pose: SharedPose | null =
+      viewer && this.origin
+        ? roundPose(
+            toSharedPose(this.origin, viewer.position, viewer.quaternion)
+          )
+        : null;
+    const editing = this.controller.selectedId;
+    const key = JSON.stringify([pose, editing]);
+    if (key === this.lastPresence) {
+      return;
+    }
+    if (this.client.send({ type: "presence", pose, editing })) {
+      this.lastPresence = key;
+    }
+  };
+
+  private describeConflict(
+    current: VersionedObject,
+    peerId: string | null
+  ): string {
+    const i18n = this.controller.i18n;
+    const who =
+      (peerId && this.peerMap.get(peerId)?.name) || i18n.t("collab.someone");
+    const type =
+      current.object?.type ?? this.controller.registry.get(current.id)?.type;
+    const model = type && this.controller.getModel(type);
+    const what = model ? modelName(model, i18n) : i18n.t("collab.object");
+    return current.object
+      ? i18n.t("collab.changed", { who, what })
+      : i18n.t("collab.deleted", { who, what });
+  }
+
+  private peersChanged() {
+    this._peers = Array.from(this.peerMap.values());
+    this.markers.update(this._peers, this.origin);
+    this.emit("peers-changed", { peers: this._peers });
+  }
+
+  private setAlignment(state: AlignmentState) {
+    if (state !== this._alignment) {
+      this.controller.log.debug(
+        "collab",
+        `Alignment ${this._alignment} -> ${state}`
+      );
+      this._alignment = state;
+      this.emit("alignment-changed", { state });
+    }
+  }
+}
+
+// A tenth of a millimetre is plenty, and keeps presence messages small and
+// comparable
+function roundPose(pose: SharedPose): SharedPose {
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  return {
+    position: pose.position.map(round) as SharedPose["position"],
+    rotation: pose.rotation.map(round) as SharedPose["rotation"],
+  };
+}
@@ -0,0 +1,80 @@
+import * as THREE from "three";
+import type { PeerPresence } from "@/lib/collab/protocol";
+import { fromSharedPose } from "@/lib/collab/sharedOrigin";
+import type { SceneOrigin } from "@/lib/scene/sceneSerializer";
+
+// Size of the phone-shaped body (m) and length of the view cone in front
+const DEVICE_SIZE = new THREE.Vector3(0.07, 0.14, 0.01);
+const VIEW_CONE_LENGTH = 0.25;
+
+// One marker per other participant at their device's pose, in their color:
+// a phone outline with a translucent cone showing where it looks
+export class PresenceMarkers {
+  readonly object = new THREE.Group();
+  private readonly markers = new Map<string, THREE.Group>();
+
+  constructor() {
+    this.object.name = "presence-markers";
+  }
+
+  update(peers: PeerPresence[], origin: SceneOrigin | null) {
+    const seen = new Set<string>();
+    for (const peer of peers) {
+      if (!peer.pose || !origin) {
+        continue;
+      }
+      seen.add(peer.id);
+      let marker = this.markers.get(peer.id);
+      if (!marker) {
+        marker = createMarker(peer.color);
+        this.markers.set(peer.id, marker);
+        this.object.add(marker);
+      }
+      fromSharedPose(origin, peer.pose, marker);
+    }
+
+    for (const [id, marker] of this.markers) {
+      if (!seen.has(id)) {
+        this.object.remove(marker);
+        disposeMarker(marker);
+        this.markers.delete(id);
+      }
+    }
+  }
+
+  clear() {
+    this.update([], null);
+  }
+}
+
+function createMarker(color: string): THREE.Group {
+  const marker = new THREE.Group();
+  const body = new THREE.Mesh(
+    new THREE.BoxGeometry(DEVICE_SIZE.x, DEVICE_SIZE.y, DEVICE_SIZE.z),
+    new THREE.MeshBasicMaterial({ color })
+  );
+  // Cone apex at the device, opening along the view direction (-Z)
+  const cone = new THREE.Mesh(
+    new THREE.ConeGeometry(0.08, VIEW_CONE_LENGTH, 16, 1, true)
+      .rotateX(Math.PI / 2)
+      .translate(0, 0, -VIEW_CONE_LENGTH / 2),
+    new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: 0.25,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    })
+  );
+  marker.add(body, cone);
+  return marker;
+}
+
+function disposeMarker(marker: THREE.Group) {
+  marker.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      (child.material as THREE.Material).dispose();
+    }
+  });
+}
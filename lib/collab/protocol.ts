@@ -0,0 +1,121 @@
+import type {
+  QuatTuple,
+  SceneObject,
+  Vec3Tuple,
+} from "@/lib/scene/sceneDocument";
+
+// Messages exchanged with the relay in server/collab-relay.mjs, as JSON text
+// frames. Poses and object transforms are relative to the shared origin
+// every participant aligns to, never to a device's own reference space.
+export const COLLAB_PROTOCOL_VERSION = 1;
+
+export const DEFAULT_COLLAB_PORT = 8787;
+
+export interface PeerInfo {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface SharedPose {
+  position: Vec3Tuple;
+  rotation: QuatTuple;
+}
+
+export interface PeerPresence extends PeerInfo {
+  // Null until the peer has aligned to the shared origin
+  pose: SharedPose | null;
+  // Object the peer has selected, to warn before editing it at the same time
+  editing: string | null;
+}
+
+// Objects travel as scene document entries, without the device-specific
+// persistent anchor
+export type SharedObject = Omit<SceneObject, "anchor">;
+
+export type ObjectOp =
+  | { kind: "upsert"; object: SharedObject }
+  | { kind: "delete"; id: string };
+
+// The relay's copy of an object. `version` grows with every accepted op in
+// the room; deleted objects stay as tombstones with `object: null`.
+export interface VersionedObject {
+  id: string;
+  version: number;
+  object: SharedObject | null;
+}
+
+export type ClientMessage =
+  | {
+      type: "join";
+      protocol: number;
+      room: string;
+      name: string;
+      color: string;
+    }
+  // `base` is the version the sender last saw for the object (0 if none).
+  // The relay rejects the op if someone else changed the object since.
+  | { type: "op"; op: ObjectOp; base: number }
+  | { type: "presence"; pose: SharedPose | null; editing: string | null };
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      self: PeerInfo;
+      peers: PeerPresence[];
+      objects: VersionedObject[];
+    }
+  | { type: "peer-joined"; peer: PeerPresence }
+  | { type: "peer-left"; peerId: string }
+  | {
+      type: "presence";
+      peerId: string;
+      pose: SharedPose | null;
+      editing: string | null;
+    }
+  // Accepted op, sent to every peer including its author as confirmation
+  | { type: "op"; op: ObjectOp; version: number; peerId: string }
+  // Op refused because of a concurrent edit; carries the current state and
+  // who wrote it
+  | {
+      type: "reject";
+      current: VersionedObject;
+      peerId: string | null;
+    }
+  | { type: "error"; message: string };
+
+const SERVER_MESSAGE_TYPES = new Set<ServerMessage["type"]>([
+  "welcome",
+  "peer-joined",
+  "peer-left",
+  "presence",
+  "op",
+  "reject",
+  "error",
+]);
+
+export class CollabProtocolError extends Error {
+  constructor(message: string) {
+    super(`Invalid collaboration message: ${message}`);
+    this.name = "CollabProtocolError";
+  }
+}
+
+// The relay is trusted; this only guards against talking to something else
+export function parseServerMessage(data: string): ServerMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    throw new CollabProtocolError("not JSON");
+  }
+  const type = (message as { type?: unknown } | null)?.type;
+  if (!SERVER_MESSAGE_TYPES.has(type as ServerMessage["type"])) {
+    throw new CollabProtocolError(`unknown type ${JSON.stringify(type)}`);
+  }
+  return message as ServerMessage;
+}
+
+export function opObjectId(op: ObjectOp): string {
+  return op.kind === "delete" ? op.id : op.object.id;
+}
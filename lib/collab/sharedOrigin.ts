@@ -0,0 +1,73 @@
+import * as THREE from "three";
+import type { SharedPose } from "@/lib/collab/protocol";
+import {
+  originMatrix,
+  type SceneOrigin,
+} from "@/lib/scene/sceneSerializer";
+
+// Every participant taps the same two physical points: the first becomes the
+// shared origin, the second sets which way the shared -Z axis points. Two
+// points are needed because a tap on a horizontal surface says nothing
+// about heading.
+export const MIN_ALIGNMENT_DISTANCE = 0.2;
+
+export class AlignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlignmentError";
+  }
+}
+
+export function originFromPoints(
+  first: THREE.Vector3,
+  second: THREE.Vector3
+): SceneOrigin {
+  const dx = second.x - first.x;
+  const dz = second.z - first.z;
+  if (Math.hypot(dx, dz) < MIN_ALIGNMENT_DISTANCE) {
+    throw new AlignmentError(
+      `Pick points at least ${MIN_ALIGNMENT_DISTANCE * 100} cm apart`
+    );
+  }
+  // Same convention as yawFromQuaternion: yaw 0 faces -Z
+  return { position: first.clone(), yaw: Math.atan2(-dx, -dz) };
+}
+
+export function toSharedPose(
+  origin: SceneOrigin,
+  position: THREE.Vector3,
+  quaternion: THREE.Quaternion
+): SharedPose {
+  const matrix = originMatrix(origin)
+    .invert()
+    .multiply(
+      new THREE.Matrix4().compose(
+        position,
+        quaternion,
+        new THREE.Vector3(1, 1, 1)
+      )
+    );
+  const sharedPosition = new THREE.Vector3();
+  const sharedRotation = new THREE.Quaternion();
+  matrix.decompose(sharedPosition, sharedRotation, new THREE.Vector3());
+  return {
+    position: sharedPosition.toArray(),
+    rotation: sharedRotation.toArray(),
+  };
+}
+
+export function fromSharedPose(
+  origin: SceneOrigin,
+  pose: SharedPose,
+  target: THREE.Object3D
+) {
+  originMatrix(origin)
+    .multiply(
+      new THREE.Matrix4().compose(
+        new THREE.Vector3().fromArray(pose.position),
+        new THREE.Quaternion().fromArray(pose.rotation),
+        new THREE.Vector3(1, 1, 1)
+      )
+    )
+    .decompose(target.position, target.quaternion, new THREE.Vector3());
+}
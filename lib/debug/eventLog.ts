@@ -0,0 +1,261 @@
+import { ThrottledStore } from "@/lib/ar/frameStore";
+import { downloadJSON } from "@/lib/util/download";
+
+// Structured in-app log behind the debug panel. Entries carry a level, a
+// category and a timestamp and live in a bounded ring buffer, so a long
+// session keeps its recent history without growing. Warnings and errors are
+// mirrored to the console as well.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_CATEGORIES = [
+  "session",
+  "hit-test",
+  "placement",
+  "render",
+  "anchors",
+  "scene",
+  "collab",
+] as const;
+export type LogCategory = (typeof LOG_CATEGORIES)[number];
+
+export interface LogEntry {
+  // Increases across the whole log, also past entries dropped from the buffer
+  seq: number;
+  // Epoch milliseconds
+  time: number;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  // JSON-safe details; errors are reduced to their name and message
+  data?: unknown;
+}
+
+export const DEFAULT_LOG_CAPACITY = 500;
+
+// What the UI shows without reading the entries
+export interface LogSummary {
+  // Changes whenever entries are added or cleared
+  revision: number;
+  // Warnings and errors in the buffer
+  problems: number;
+}
+
+export const EVENT_LOG_FORMAT = "ar-event-log";
+export const EVENT_LOG_VERSION = 1;
+
+export interface EventLogExport {
+  format: typeof EVENT_LOG_FORMAT;
+  version: typeof EVENT_LOG_VERSION;
+  exportedAt: string;
+  userAgent: string;
+  // What the app was doing when the log was exported
+  state: Record<string, unknown>;
+  counters: Record<string, number>;
+  // Entries dropped from the buffer before the export
+  dropped: number;
+  entries: (Omit<LogEntry, "time"> & { time: string })[];
+}
+
+export function levelRank(level: LogLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+export class EventLog {
+  private readonly buffer: LogEntry[] = [];
+  // Index of the oldest entry once the buffer is full
+  private start = 0;
+  private seq = 0;
+  private droppedCount = 0;
+  private problemCount = 0;
+  private revision = 0;
+  // Rebuilt on the next list() after a change, not on every entry
+  private snapshot: LogEntry[] | null = [];
+  private readonly counterMap = new Map<string, number>();
+  private readonly listeners = new Set<() => void>();
+  // Published at most four times per second, however fast entries come in
+  readonly summary = new ThrottledStore<LogSummary>({
+    revision: 0,
+    problems: 0,
+  });
+
+  constructor(
+    readonly capacity = DEFAULT_LOG_CAPACITY,
+    // Lowest level echoed to the console, or null for none
+    private readonly consoleLevel: LogLevel | null = "warn"
+  ) {}
+
+  debug(category: LogCategory, message: string, data?: unknown) {
+    this.log("debug", category, message, data);
+  }
+
+  info(category: LogCategory, message: string, data?: unknown) {
+    this.log("info", category, message, data);
+  }
+
+  warn(category: LogCategory, message: string, data?: unknown) {
+    this.log("warn", category, message, data);
+  }
+
+  error(category: LogCategory, message: string, data?: unknown) {
+    this.log("error", category, message, data);
+  }
+
+  log(
+    level: LogLevel,
+    category: LogCategory,
+    message: string,
+    data?: unknown
+  ) {
+    const entry: LogEntry = {
+      seq: ++this.seq,
+      time: Date.now(),
+      level,
+      category,
+      message,
+    };
+    if (data !== undefined) {
+      entry.data = toLogData(data);
+    }
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(entry);
+    } else {
+      if (isProblem(this.buffer[this.start])) {
+        this.problemCount--;
+      }
+      this.buffer[this.start] = entry;
+      this.droppedCount++;
+      this.start = (this.start + 1) % this.capacity;
+    }
+    if (isProblem(entry)) {
+      this.problemCount++;
+    }
+    this.echo(entry, data);
+    this.emit();
+  }
+
+  // Counters are for things that happen too often to log one by one, like
+  // frames or hit test results. They don't notify subscribers; readers poll.
+  count(name: string, by = 1) {
+    this.counterMap.set(name, (this.counterMap.get(name) ?? 0) + by);
+  }
+
+  counters(): Record<string, number> {
+    return Object.fromEntries(this.counterMap);
+  }
+
+  // Oldest first. The same array until the log changes.
+  list(): LogEntry[] {
+    if (!this.snapshot) {
+      this.snapshot = this.buffer
+        .slice(this.start)
+        .concat(this.buffer.slice(0, this.start));
+    }
+    return this.snapshot;
+  }
+
+  // Entries pushed out of the buffer since it was last cleared
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  clear() {
+    this.buffer.length = 0;
+    this.start = 0;
+    this.droppedCount = 0;
+    this.problemCount = 0;
+    this.counterMap.clear();
+    this.emit();
+  }
+
+  // Called on every entry; UI should follow `summary` instead
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  export(state: Record<string, unknown> = {}): EventLogExport {
+    return {
+      format: EVENT_LOG_FORMAT,
+      version: EVENT_LOG_VERSION,
+      exportedAt: new Date().toISOString(),
+      userAgent: typeof navigator === "undefined" ? "" : navigator.userAgent,
+      state,
+      counters: this.counters(),
+      dropped: this.dropped,
+      entries: this.list().map((entry) => ({
+        ...entry,
+        time: new Date(entry.time).toISOString(),
+      })),
+    };
+  }
+
+  private echo(entry: LogEntry, data: unknown) {
+    if (
+      this.consoleLevel === null ||
+      levelRank(entry.level) < levelRank(this.consoleLevel)
+    ) {
+      return;
+    }
+    const text = `[${entry.category}] ${entry.message}`;
+    const write =
+      entry.level === "error"
+        ? console.error
+        : entry.level === "warn"
+          ? console.warn
+          : console.log;
+    if (data === undefined) {
+      write(text);
+    } else {
+      write(text, data);
+    }
+  }
+
+  private emit() {
+    this.snapshot = null;
+    this.revision++;
+    this.summary.set({ revision: this.revision, problems: this.problemCount });
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+function isProblem(entry: LogEntry): boolean {
+  return levelRank(entry.level) >= levelRank("warn");
+}
+
+// Errors don't survive JSON.stringify, and other values must not keep
+// scene objects alive in the buffer
+function toLogData(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+}
+
+// The app-wide log the controller, the collaboration session and the UI
+// write to
+export const eventLog = new EventLog();
+
+export function eventLogFileName(doc: EventLogExport): string {
+  return `ar-log-${doc.exportedAt.replace(/[:.]/g, "-")}.json`;
+}
+
+export function downloadEventLog(
+  log: EventLog,
+  state: Record<string, unknown> = {}
+) {
+  const doc = log.export(state);
+  downloadJSON(doc, eventLogFileName(doc));
+}
@@ -0,0 +1,6 @@
+import { DEFAULT_LOG_CAPACITY, EventLog } from "@/lib/debug/eventLog";
+
+// Event log of the server side: API routes and the shared scene stores.
+// There is no panel to read it on the server, so info and above also go to
+// the server's console, with the same [category] prefix as in the browser.
+export const serverLog = new EventLog(DEFAULT_LOG_CAPACITY, "info");
@@ -0,0 +1,72 @@
+// Languages the UI is translated into. The first match of the browser's
+// preferred languages wins; anything else falls back to DEFAULT_LOCALE.
+export const LOCALES = ["en", "pt-BR"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembers a language picked by hand, so the server renders it too
+export const LOCALE_COOKIE = "locale";
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// Each in its own language, for the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  "pt-BR": "Português (Brasil)",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Best supported locale for a list of language tags, most preferred first.
+// An exact match goes first, then any locale of the same language, so
+// "pt-PT" gets pt-BR and "en-GB" gets en.
+export function matchLocale(tags: readonly string[]): Locale | null {
+  for (const tag of tags) {
+    const exact = LOCALES.find(
+      (locale) => locale.toLowerCase() === tag.toLowerCase()
+    );
+    if (exact) {
+      return exact;
+    }
+    const language = tag.split("-")[0].toLowerCase();
+    const related = LOCALES.find(
+      (locale) => locale.split("-")[0].toLowerCase() === language
+    );
+    if (related) {
+      return related;
+    }
+  }
+  return null;
+}
+
+// Language tags of an Accept-Language header, most preferred first
+export function parseAcceptLanguage(header: string): string[] {
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      return { tag: tag.trim(), q: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+}
+
+// A language picked by hand wins over the browser's preferences
+export function resolveLocale(
+  saved: string | null | undefined,
+  acceptLanguage: string | null | undefined
+): Locale {
+  if (isLocale(saved)) {
+    return saved;
+  }
+  return (
+    (acceptLanguage && matchLocale(parseAcceptLanguage(acceptLanguage))) ||
+    DEFAULT_LOCALE
+  );
+}
@@ -0,0 +1,367 @@
+// English messages; the other catalogs must have the same keys. "{name}"
+// placeholders are filled in by Translator.t, numbers formatted for the
+// locale. For keys with .one/.other variants, t() is passed the key without
+// the suffix and picks the variant by {count}.
+export const en = {
+  "meta.title": "AR Sphere Demo",
+  "meta.description": "WebXR augmented reality demo with Three.js",
+  "meta.diagnostics": "WebXR diagnostics",
+
+  "locale.label": "Language",
+
+  "common.close": "Close",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.share": "Share…",
+  "common.delete": "Delete {name}",
+
+  // View modes, as used in the session messages
+  "mode.immersive-ar": "AR",
+  "mode.immersive-vr": "VR",
+  "mode.inline": "3D viewer",
+
+  "session.idle": "Ready to start AR",
+  "session.checking": "Checking WebXR support...",
+  "session.noWebXR": "WebXR is not available - open the 3D viewer instead",
+  "session.emulatedReady":
+    'Emulated AR device ready. Click "Start AR" to begin',
+  "session.arReady": 'AR is supported! Click "Start AR" to begin',
+  "session.vrOnly": "AR is not supported here - enter VR or open the 3D viewer",
+  "session.noAR": "AR is not supported here - open the 3D viewer instead",
+  "session.checkFailed": "Error checking XR support: {error}",
+  "session.unsupported": "{mode} is not supported on this device",
+  "session.requesting": "Requesting {mode} session...",
+  "session.started": "{mode} session started, setting up...",
+  "session.startFailed": "Failed to start {mode} session: {error}",
+  "session.busy": "A session is already starting or running",
+  "session.ended": "{mode} session ended",
+  "session.openingViewer": "Opening 3D viewer...",
+  "session.viewerFailed": "Failed to open 3D viewer: {error}",
+  "session.viewerClosed": "3D viewer closed",
+  "session.referenceSpaces": "Setting up reference spaces...",
+  "session.localFloor": "Using local-floor reference space",
+  "session.local": "Using local reference space",
+  "session.hitTestSetup": "Setting up hit testing...",
+  "session.hitTestReady": "Hit testing ready",
+  "session.depthReady":
+    "Depth sensing ready - real objects will hide virtual ones",
+  "session.depthUnavailable":
+    "Depth sensing unavailable - virtual objects draw on top",
+  "session.lightReady": "Light estimation ready",
+  "session.lightUnavailable":
+    "Light estimation unavailable - using default lighting",
+  "session.recording": "Recording session...",
+  "session.recorded.one": "Recorded {count} frame",
+  "session.recorded.other": "Recorded {count} frames",
+
+  // What to do next, per view mode
+  "hint.immersive-ar.found": "{surface} found - tap to place",
+  "hint.immersive-ar.lost": "Point camera at a flat surface",
+  "hint.immersive-vr.found": "Pull the trigger to place",
+  "hint.immersive-vr.lost": "Point your controller at the floor",
+  "hint.inline.found": "Click the ground to place, drag to orbit",
+  "hint.inline.lost": "Move the pointer over the ground",
+  "hint.measure":
+    "Measuring - tap to drop a point, tap the first point to close a shape",
+  "hint.align": "Aligning - tap the point agreed with the others",
+  "hint.blocked": "Can't place here - {reason}",
+  "hint.manipulate.mouse":
+    "Drag the object to move it, wheel to scale, Shift+wheel to rotate",
+  "hint.manipulate.touch":
+    "Drag the object to move it, twist two fingers to rotate, pinch to scale",
+  "hint.start.inline":
+    "Pick a model, then click the ground to place it. Drag to orbit, scroll to zoom",
+  "hint.start.ar":
+    "Pick a model, point your camera at a flat surface like a table or floor, then tap to place it",
+
+  "placement.noModel": "Cannot place object - no model selected",
+  "placement.notReady": "Cannot place {name} - session not ready",
+  "placement.noValidSurface": "Cannot place {name} - no valid surface detected",
+  "placement.noSurface": "Cannot place {name} - no surface",
+  "placement.blocked": "Cannot place {name} - {reason}",
+  "placement.limit": "Cannot place {name} - limit of {limit} reached",
+  "placement.placing": "Placing {name}...",
+  "placement.placed": "{name} placed",
+  "placement.anchored": "{name} placed with anchor for stable tracking",
+  "placement.failed": "Failed to place {name}: {error}",
+  "placement.onlyOn": "{name} can only be placed on {surfaces}",
+  "placement.limitedTo": "placement is limited to {surfaces}",
+  "placement.noTapSurface": "No surface found where you tapped",
+  "placement.modelFailed": "Could not load {name}",
+
+  "anchors.found": "{name} found again",
+  "anchors.lost": "{name} lost tracking - look around to find it again",
+
+  "measure.noSurface": "Cannot measure - no valid surface detected",
+  "align.noSurface": "Cannot align - no valid surface detected",
+
+  "physics.enabled": "Physics on - release or swipe objects to throw them",
+  "physics.disabled": "Physics off",
+
+  // Edit history labels, e.g. "Undo Move Crate"
+  "history.place": "Place {name}",
+  "history.delete": "Delete {name}",
+  "history.clear.one": "Clear {count} object",
+  "history.clear.other": "Clear {count} objects",
+  "history.material": "Change {name} material",
+  "history.move": "Move {name}",
+  "history.rotate": "Rotate {name}",
+  "history.scale": "Scale {name}",
+  "history.undone": "Undone: {label}",
+  "history.redone": "Redone: {label}",
+  "history.undoFailed": "Could not undo - {error}",
+  "history.redoFailed": "Could not redo - {error}",
+
+  "capture.photoTaken": "Photo taken",
+  "capture.clipRecorded": "Clip recorded ({seconds} s)",
+  "capture.recordingClip": "Recording clip...",
+  "capture.viewClosed": "View closed before the photo was taken",
+  "capture.noVideo": "Cannot record video here",
+  "capture.photoFailed": "Could not take the photo",
+  "capture.encodeFailed": "Could not encode the photo",
+  "capture.photo": "Photo",
+  "capture.clip": "Clip ({seconds} s)",
+  "capture.alt": "Captured AR view",
+  "capture.noCamera": "Camera image not available - virtual objects only",
+
+  "scene.restoreNotReady": "Cannot restore scene - session not ready",
+  "scene.restoreNeedsOrigin":
+    "Cannot restore scene - confirm an origin on a surface first",
+  "scene.restoring": 'Restoring "{name}"...',
+  "scene.restored.one": "Restored {count} object",
+  "scene.restored.other": "Restored {count} objects",
+  "scene.restoredSkipped.one": "Restored {count} object ({skipped} skipped)",
+  "scene.restoredSkipped.other":
+    "Restored {count} objects ({skipped} skipped)",
+  "scene.restoreFailed": "Failed to restore scene: {error}",
+  "scene.saved": 'Saved "{name}"',
+  "scene.saveFailed": "Could not save scene: {error}",
+  "scene.shareFailed": "Could not share scene: {error}",
+  "scene.deleted": 'Deleted "{name}"',
+  "scene.deleteFailed": "Could not delete scene: {error}",
+  "scene.loadFailed": "Could not load scene: {error}",
+  "scene.readFailed": "Could not read scene file: {error}",
+  "scene.unreadable": "Saved scene could not be read",
+  // Names given to scenes saved without asking
+  "scene.lastSession": "Last session",
+  "scene.download": "AR scene",
+  "scene.shared": "Shared scene",
+  "scene.untitled": "Untitled scene",
+
+  // Surfaces under the reticle
+  "surface.floor": "Floor",
+  "surface.wall": "Wall",
+  "surface.ceiling": "Ceiling",
+  "surface.table": "Table",
+  "surface.horizontal": "Horizontal surface",
+  "surface.vertical": "Vertical surface",
+  "orientation.horizontal": "horizontal",
+  "orientation.vertical": "vertical",
+  // Surfaces a constraint allows, joined with "or"
+  "surfaces.floor": "the floor",
+  "surfaces.wall": "walls",
+  "surfaces.ceiling": "ceilings",
+  "surfaces.table": "tables",
+  "surfaces.horizontal": "horizontal surfaces",
+  "surfaces.vertical": "vertical surfaces",
+  "surfaces.any": "any surfaces",
+  "filter.any": "Any surface",
+  "filter.horizontal": "Horizontal only",
+  "filter.vertical": "Vertical only",
+  "filter.floor": "Floor only",
+  "filter.wall": "Walls only",
+
+  // Catalog models, by id
+  "model.sphere": "Sphere",
+  "model.crate": "Crate",
+  "model.cone": "Cone",
+  "model.torus": "Ring",
+  "model.red-sphere": "Sphere",
+
+  "idle.title": "WebXR AR Demo",
+  "idle.tagline":
+    "A sphere-on-table AR experience following WebXR best practices",
+  "idle.sharedScene.one":
+    'Shared scene "{name}" ({count} object) will be offered once the session starts',
+  "idle.sharedScene.other":
+    'Shared scene "{name}" ({count} objects) will be offered once the session starts',
+  "idle.startAR": "Start AR Experience",
+  "idle.openViewer": "Open 3D viewer",
+  "idle.enterVR": "Enter VR",
+  "idle.arUnsupported": "AR Not Supported",
+  "idle.arUnsupportedDetail":
+    "This device/browser doesn't support WebXR AR. You can still view and arrange the scene in 3D.",
+  "idle.requirements": "Requirements for AR:",
+  "idle.requirement.android": "Chrome 81+ on Android with ARCore",
+  "idle.requirement.ios": "Safari on iOS 15+ with ARKit",
+  "idle.requirement.https": "HTTPS connection (or localhost)",
+  "idle.requirement.device": "Device with AR capabilities",
+  "idle.diagnostics": "Check what this device supports",
+
+  "overlay.emulator":
+    "Emulated AR · WASD to move, Q/E down/up, drag to look, click to tap",
+  "overlay.record": "Record",
+  "overlay.stopRecording": "● Stop recording",
+  "overlay.depthView": "Depth view",
+  "overlay.targeting": "Where taps place",
+  "overlay.targeting.tap": "Place where tapped",
+  "overlay.targeting.reticle": "Place at reticle",
+  "overlay.filter": "Placement surface",
+  "overlay.grid": "Grid snapping",
+  "overlay.gridSize": "Grid {size} cm",
+  "overlay.noGrid": "No grid",
+  "overlay.rotation": "Rotation snapping",
+  "overlay.turn": "Turn {angle}°",
+  "overlay.freeRotation": "Free rotation",
+
+  "controls.addPoint": "Add point",
+  "controls.markPoint": "Mark point",
+  "controls.place": "Place {name}",
+  "controls.object": "Object",
+  "controls.delete": "Delete",
+  "controls.share": "Share",
+  "controls.sharing": "Sharing…",
+  "controls.photo": "Photo",
+  "controls.clip": "Clip",
+  "controls.stopClip": "Stop clip",
+  "controls.measure": "Measure",
+  "controls.done": "Done",
+  "controls.undo": "Undo",
+  "controls.redo": "Redo",
+  "controls.undoLabel": "Undo {label}",
+  "controls.redoLabel": "Redo {label}",
+  "controls.closeViewer": "Close viewer",
+  "controls.exitVR": "Exit VR",
+  "controls.endAR": "End AR",
+
+  "restore.prompt.one": 'Restore "{name}" ({count} object)?',
+  "restore.prompt.other": 'Restore "{name}" ({count} objects)?',
+  "restore.inline": "It will be centered in the view.",
+  "restore.anchored":
+    "Anchored objects go back where you left them; point at a surface for the rest, then confirm.",
+  "restore.origin": "Point at a surface for the layout origin, then confirm.",
+  "restore.confirm": "Confirm origin",
+  "restore.dismiss": "Dismiss",
+
+  "objects.title": "Objects ({count}/{max})",
+  "objects.clear": "Clear all",
+  "objects.empty": "Nothing placed yet",
+  // Coordinates in metres
+  "objects.position": "({x}, {y}, {z}) m",
+  "objects.anchored": "anchored",
+  "objects.savedSpot": "saved spot",
+  "objects.trackingLost": "Tracking lost",
+
+  "scenes.open": "Scenes ({count})",
+  "scenes.title": "Scenes",
+  "scenes.close": "Close scenes panel",
+  "scenes.name": "Scene name",
+  "scenes.download": "Download",
+  "scenes.upload": "Upload",
+  "scenes.empty": "No saved scenes",
+  "scenes.objects.one": "{count} object",
+  "scenes.objects.other": "{count} objects",
+
+  "collab.title": "Collaborate",
+  "collab.open": "Collaborate ({count})",
+  "collab.close": "Close collaboration panel",
+  "collab.room": "Room",
+  "collab.name": "Your name",
+  "collab.guest": "Guest",
+  "collab.join": "Join room",
+  "collab.connection.disconnected": "Reconnecting…",
+  "collab.connection.connecting": "Connecting…",
+  "collab.connection.connected": "Connected",
+  "collab.alone": "Nobody else here yet",
+  "collab.alignment.unaligned":
+    "Agree on two points in the room with the others, e.g. two corners of a table, and align to them. Nothing is shared until then.",
+  "collab.alignment.picking-origin": "Tap the first agreed point.",
+  "collab.alignment.picking-direction": "Now tap the second agreed point.",
+  "collab.alignment.aligned":
+    "Aligned. Objects and edits are shared with the room.",
+  "collab.align": "Align",
+  "collab.realign": "Realign",
+  "collab.leave": "Leave",
+  "collab.notAligned": "not aligned",
+  "collab.editing": "editing {name}",
+  "collab.someone": "Someone",
+  "collab.object": "object",
+  "collab.changed":
+    "{who} changed this {what} at the same time; kept their version",
+  "collab.deleted": "{who} deleted this {what}",
+  "collab.pointsTooClose": "Pick points at least {distance} cm apart",
+
+  "measure.title": "Measurements",
+  "measure.help":
+    "Tap surfaces to drop points. Tap the first point again to close a shape and get its area.",
+  "measure.points.one": "{count} point",
+  "measure.points.other": "{count} points",
+  "measure.closeShape": "Close shape",
+  "measure.finish": "Finish",
+  "measure.clear": "Clear",
+  "measure.export": "Export {format}",
+
+  "physics.title": "Physics",
+  "physics.on": "On",
+  "physics.off": "Off",
+  "physics.mass": "Mass (kg)",
+  "physics.restitution": "Bounciness",
+  "physics.friction": "Friction",
+  "physics.help": "Select an object to tune it. Swipe an object to flick it.",
+
+  "share.title": "Share scene",
+  "share.qrCode": "QR code for the scene link",
+  "share.copy": "Copy link",
+  "share.copied": "Copied",
+
+  "stats.label": "Frame rate",
+  "stats.fps": "{fps} fps",
+  "stats.frameTime": "{time} ms (worst {worst} ms)",
+
+  "log.open": "Log",
+  "log.openProblems": "Log ({count} ⚠)",
+  "log.title": "Event log",
+  "log.close": "Close event log",
+  "log.level": "Lowest level shown",
+  "log.empty": "Nothing logged yet",
+  "log.export": "Export",
+  "log.clear": "Clear",
+
+  "sphere.title": "AR Sphere Demo",
+  "sphere.tagline": "Tap the button to start AR and place a sphere on a surface",
+  "sphere.surfaceFound": "Surface detected",
+  "sphere.searching": "Searching for surface",
+  "sphere.unsupported": "WebXR AR is not supported on this device",
+  "sphere.openViewer": "Open 3D Viewer",
+  "sphere.requirements": "Requirements for WebXR AR:",
+  "sphere.requirement.android": "Chrome 81+ on Android with AR support",
+  "sphere.requirement.ios": "Safari on iOS 15+ with AR support",
+  "sphere.requirement.device": "Device with ARCore (Android) or ARKit (iOS)",
+  "sphere.learnMore": "Learn more about WebXR",
+  "sphere.hint": "Click the ground to place a sphere, drag to orbit",
+  "sphere.showDepth": "Show Depth View",
+  "sphere.hideDepth": "Hide Depth View",
+  "sphere.place": "Place Sphere",
+  "sphere.closeViewer": "Close 3D Viewer",
+  "sphere.endAR": "End AR Session",
+
+  "diagnostics.checking": "Checking WebXR support…",
+  "diagnostics.title": "WebXR diagnostics",
+  "diagnostics.download": "Download report",
+  "diagnostics.secureContext": "Secure context",
+  "diagnostics.secure": "yes",
+  "diagnostics.insecure": "no (WebXR needs HTTPS)",
+  "diagnostics.userAgent": "User agent",
+  "diagnostics.supported": "supported",
+  "diagnostics.unsupported": "not supported",
+  "diagnostics.probing": "Probing…",
+  "diagnostics.probe": "Probe features",
+  "diagnostics.probeAgain": "Probe again",
+  "diagnostics.sessionFailed": "Session failed: {error}",
+  "diagnostics.notReported":
+    "browser doesn't report enabled features; some are inferred",
+  "diagnostics.help":
+    "Probing starts a short session per mode asking for every optional feature, then ends it. Browsers may show a permission prompt.",
+} as const;
+
+export type MessageKey = keyof typeof en;
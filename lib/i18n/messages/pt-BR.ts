@@ -0,0 +1,374 @@
+import type { MessageKey } from "@/lib/i18n/messages/en";
+
+export const ptBR: Record<MessageKey, string> = {
+  "meta.title": "Demo da esfera em RA",
+  "meta.description": "Demo de realidade aumentada com WebXR e Three.js",
+  "meta.diagnostics": "Diagnóstico WebXR",
+
+  "locale.label": "Idioma",
+
+  "common.close": "Fechar",
+  "common.cancel": "Cancelar",
+  "common.save": "Salvar",
+  "common.share": "Compartilhar…",
+  "common.delete": "Excluir {name}",
+
+  "mode.immersive-ar": "RA",
+  "mode.immersive-vr": "RV",
+  "mode.inline": "visualizador 3D",
+
+  "session.idle": "Pronto para iniciar a RA",
+  "session.checking": "Verificando o suporte a WebXR...",
+  "session.noWebXR": "WebXR não está disponível - abra o visualizador 3D",
+  "session.emulatedReady":
+    'Dispositivo de RA emulado pronto. Clique em "Iniciar RA" para começar',
+  "session.arReady": 'RA disponível! Clique em "Iniciar RA" para começar',
+  "session.vrOnly":
+    "RA não é suportada aqui - entre em RV ou abra o visualizador 3D",
+  "session.noAR": "RA não é suportada aqui - abra o visualizador 3D",
+  "session.checkFailed": "Erro ao verificar o suporte a XR: {error}",
+  "session.unsupported": "{mode} não é suportado neste dispositivo",
+  "session.requesting": "Solicitando sessão de {mode}...",
+  "session.started": "Sessão de {mode} iniciada, preparando...",
+  "session.startFailed": "Falha ao iniciar a sessão de {mode}: {error}",
+  "session.busy": "Uma sessão já está iniciando ou em andamento",
+  "session.ended": "Sessão de {mode} encerrada",
+  "session.openingViewer": "Abrindo o visualizador 3D...",
+  "session.viewerFailed": "Falha ao abrir o visualizador 3D: {error}",
+  "session.viewerClosed": "Visualizador 3D fechado",
+  "session.referenceSpaces": "Configurando os espaços de referência...",
+  "session.localFloor": "Usando o espaço de referência local-floor",
+  "session.local": "Usando o espaço de referência local",
+  "session.hitTestSetup": "Configurando o hit test...",
+  "session.hitTestReady": "Hit test pronto",
+  "session.depthReady":
+    "Sensor de profundidade pronto - objetos reais vão esconder os virtuais",
+  "session.depthUnavailable":
+    "Sensor de profundidade indisponível - objetos virtuais ficam por cima",
+  "session.lightReady": "Estimativa de iluminação pronta",
+  "session.lightUnavailable":
+    "Estimativa de iluminação indisponível - usando a iluminação padrão",
+  "session.recording": "Gravando a sessão...",
+  "session.recorded.one": "{count} quadro gravado",
+  "session.recorded.other": "{count} quadros gravados",
+
+  "hint.immersive-ar.found": "{surface} encontrado - toque para posicionar",
+  "hint.immersive-ar.lost": "Aponte a câmera para uma superfície plana",
+  "hint.immersive-vr.found": "Aperte o gatilho para posicionar",
+  "hint.immersive-vr.lost": "Aponte o controle para o chão",
+  "hint.inline.found": "Clique no chão para posicionar, arraste para girar",
+  "hint.inline.lost": "Passe o ponteiro sobre o chão",
+  "hint.measure":
+    "Medindo - toque para marcar um ponto, toque no primeiro ponto para fechar uma forma",
+  "hint.align": "Alinhando - toque no ponto combinado com os outros",
+  "hint.blocked": "Não dá para posicionar aqui - {reason}",
+  "hint.manipulate.mouse":
+    "Arraste o objeto para movê-lo, use a roda para mudar o tamanho e Shift+roda para girar",
+  "hint.manipulate.touch":
+    "Arraste o objeto para movê-lo, gire dois dedos para girar e faça pinça para mudar o tamanho",
+  "hint.start.inline":
+    "Escolha um modelo e clique no chão para posicioná-lo. Arraste para girar a câmera, role para aproximar",
+  "hint.start.ar":
+    "Escolha um modelo, aponte a câmera para uma superfície plana como uma mesa ou o chão e toque para posicioná-lo",
+
+  "placement.noModel":
+    "Não é possível posicionar o objeto - nenhum modelo selecionado",
+  "placement.notReady":
+    "Não é possível posicionar {name} - a sessão não está pronta",
+  "placement.noValidSurface":
+    "Não é possível posicionar {name} - nenhuma superfície válida detectada",
+  "placement.noSurface": "Não é possível posicionar {name} - sem superfície",
+  "placement.blocked": "Não é possível posicionar {name} - {reason}",
+  "placement.limit":
+    "Não é possível posicionar {name} - limite de {limit} atingido",
+  "placement.placing": "Posicionando {name}...",
+  "placement.placed": "{name} posicionado",
+  "placement.anchored":
+    "{name} posicionado com âncora para um rastreamento estável",
+  "placement.failed": "Falha ao posicionar {name}: {error}",
+  "placement.onlyOn": "{name} só pode ser posicionado em {surfaces}",
+  "placement.limitedTo": "o posicionamento está limitado a {surfaces}",
+  "placement.noTapSurface": "Nenhuma superfície encontrada onde você tocou",
+  "placement.modelFailed": "Não foi possível carregar {name}",
+
+  "anchors.found": "{name} encontrado de novo",
+  "anchors.lost":
+    "{name} perdeu o rastreamento - olhe em volta para encontrá-lo de novo",
+
+  "measure.noSurface":
+    "Não é possível medir - nenhuma superfície válida detectada",
+  "align.noSurface":
+    "Não é possível alinhar - nenhuma superfície válida detectada",
+
+  "physics.enabled":
+    "Física ligada - solte ou deslize objetos para arremessá-los",
+  "physics.disabled": "Física desligada",
+
+  "history.place": "Posicionar {name}",
+  "history.delete": "Excluir {name}",
+  "history.clear.one": "Remover {count} objeto",
+  "history.clear.other": "Remover {count} objetos",
+  "history.material": "Alterar material de {name}",
+  "history.move": "Mover {name}",
+  "history.rotate": "Girar {name}",
+  "history.scale": "Redimensionar {name}",
+  "history.undone": "Desfeito: {label}",
+  "history.redone": "Refeito: {label}",
+  "history.undoFailed": "Não foi possível desfazer - {error}",
+  "history.redoFailed": "Não foi possível refazer - {error}",
+
+  "capture.photoTaken": "Foto tirada",
+  "capture.clipRecorded": "Vídeo gravado ({seconds} s)",
+  "capture.recordingClip": "Gravando vídeo...",
+  "capture.viewClosed": "A visualização foi fechada antes de tirar a foto",
+  "capture.noVideo": "Não é possível gravar vídeo aqui",
+  "capture.photoFailed": "Não foi possível tirar a foto",
+  "capture.encodeFailed": "Não foi possível codificar a foto",
+  "capture.photo": "Foto",
+  "capture.clip": "Vídeo ({seconds} s)",
+  "capture.alt": "Captura da visualização em RA",
+  "capture.noCamera":
+    "Imagem da câmera indisponível - apenas objetos virtuais",
+
+  "scene.restoreNotReady":
+    "Não é possível restaurar a cena - a sessão não está pronta",
+  "scene.restoreNeedsOrigin":
+    "Não é possível restaurar a cena - confirme antes uma origem sobre uma superfície",
+  "scene.restoring": 'Restaurando "{name}"...',
+  "scene.restored.one": "{count} objeto restaurado",
+  "scene.restored.other": "{count} objetos restaurados",
+  "scene.restoredSkipped.one":
+    "{count} objeto restaurado ({skipped} ignorados)",
+  "scene.restoredSkipped.other":
+    "{count} objetos restaurados ({skipped} ignorados)",
+  "scene.restoreFailed": "Falha ao restaurar a cena: {error}",
+  "scene.saved": '"{name}" salva',
+  "scene.saveFailed": "Não foi possível salvar a cena: {error}",
+  "scene.shareFailed": "Não foi possível compartilhar a cena: {error}",
+  "scene.deleted": '"{name}" excluída',
+  "scene.deleteFailed": "Não foi possível excluir a cena: {error}",
+  "scene.loadFailed": "Não foi possível carregar a cena: {error}",
+  "scene.readFailed": "Não foi possível ler o arquivo da cena: {error}",
+  "scene.unreadable": "Não foi possível ler a cena salva",
+  "scene.lastSession": "Última sessão",
+  "scene.download": "Cena em RA",
+  "scene.shared": "Cena compartilhada",
+  "scene.untitled": "Cena sem nome",
+
+  "surface.floor": "Chão",
+  "surface.wall": "Parede",
+  "surface.ceiling": "Teto",
+  "surface.table": "Mesa",
+  "surface.horizontal": "Superfície horizontal",
+  "surface.vertical": "Superfície vertical",
+  "orientation.horizontal": "horizontal",
+  "orientation.vertical": "vertical",
+  "surfaces.floor": "o chão",
+  "surfaces.wall": "paredes",
+  "surfaces.ceiling": "tetos",
+  "surfaces.table": "mesas",
+  "surfaces.horizontal": "superfícies horizontais",
+  "surfaces.vertical": "superfícies verticais",
+  "surfaces.any": "qualquer superfície",
+  "filter.any": "Qualquer superfície",
+  "filter.horizontal": "Só horizontais",
+  "filter.vertical": "Só verticais",
+  "filter.floor": "Só o chão",
+  "filter.wall": "Só paredes",
+
+  "model.sphere": "Esfera",
+  "model.crate": "Caixa",
+  "model.cone": "Cone",
+  "model.torus": "Anel",
+  "model.red-sphere": "Esfera",
+
+  "idle.title": "Demo de RA com WebXR",
+  "idle.tagline":
+    "Uma experiência de RA com uma esfera sobre a mesa, seguindo as boas práticas do WebXR",
+  "idle.sharedScene.one":
+    'A cena compartilhada "{name}" ({count} objeto) será oferecida assim que a sessão começar',
+  "idle.sharedScene.other":
+    'A cena compartilhada "{name}" ({count} objetos) será oferecida assim que a sessão começar',
+  "idle.startAR": "Iniciar RA",
+  "idle.openViewer": "Abrir o visualizador 3D",
+  "idle.enterVR": "Entrar em RV",
+  "idle.arUnsupported": "RA não suportada",
+  "idle.arUnsupportedDetail":
+    "Este dispositivo/navegador não suporta RA com WebXR. Você ainda pode ver e organizar a cena em 3D.",
+  "idle.requirements": "Requisitos para RA:",
+  "idle.requirement.android": "Chrome 81+ no Android com ARCore",
+  "idle.requirement.ios": "Safari no iOS 15+ com ARKit",
+  "idle.requirement.https": "Conexão HTTPS (ou localhost)",
+  "idle.requirement.device": "Dispositivo com recursos de RA",
+  "idle.diagnostics": "Ver o que este dispositivo suporta",
+
+  "overlay.emulator":
+    "RA emulada · WASD para andar, Q/E para descer/subir, arraste para olhar, clique para tocar",
+  "overlay.record": "Gravar",
+  "overlay.stopRecording": "● Parar gravação",
+  "overlay.depthView": "Profundidade",
+  "overlay.targeting": "Onde o toque posiciona",
+  "overlay.targeting.tap": "Posicionar onde tocar",
+  "overlay.targeting.reticle": "Posicionar na mira",
+  "overlay.filter": "Superfície de posicionamento",
+  "overlay.grid": "Encaixe na grade",
+  "overlay.gridSize": "Grade de {size} cm",
+  "overlay.noGrid": "Sem grade",
+  "overlay.rotation": "Encaixe da rotação",
+  "overlay.turn": "Girar {angle}°",
+  "overlay.freeRotation": "Rotação livre",
+
+  "controls.addPoint": "Adicionar ponto",
+  "controls.markPoint": "Marcar ponto",
+  "controls.place": "Posicionar {name}",
+  "controls.object": "objeto",
+  "controls.delete": "Excluir",
+  "controls.share": "Compartilhar",
+  "controls.sharing": "Compartilhando…",
+  "controls.photo": "Foto",
+  "controls.clip": "Vídeo",
+  "controls.stopClip": "Parar vídeo",
+  "controls.measure": "Medir",
+  "controls.done": "Concluir",
+  "controls.undo": "Desfazer",
+  "controls.redo": "Refazer",
+  "controls.undoLabel": "Desfazer {label}",
+  "controls.redoLabel": "Refazer {label}",
+  "controls.closeViewer": "Fechar visualizador",
+  "controls.exitVR": "Sair da RV",
+  "controls.endAR": "Encerrar RA",
+
+  "restore.prompt.one": 'Restaurar "{name}" ({count} objeto)?',
+  "restore.prompt.other": 'Restaurar "{name}" ({count} objetos)?',
+  "restore.inline": "A cena será centralizada na visualização.",
+  "restore.anchored":
+    "Objetos ancorados voltam para onde você os deixou; aponte para uma superfície para os demais e confirme.",
+  "restore.origin":
+    "Aponte para uma superfície para a origem da cena e confirme.",
+  "restore.confirm": "Confirmar origem",
+  "restore.dismiss": "Dispensar",
+
+  "objects.title": "Objetos ({count}/{max})",
+  "objects.clear": "Remover todos",
+  "objects.empty": "Nada posicionado ainda",
+  // Decimal commas, so the coordinates are separated by semicolons
+  "objects.position": "({x}; {y}; {z}) m",
+  "objects.anchored": "ancorado",
+  "objects.savedSpot": "local salvo",
+  "objects.trackingLost": "Rastreamento perdido",
+
+  "scenes.open": "Cenas ({count})",
+  "scenes.title": "Cenas",
+  "scenes.close": "Fechar o painel de cenas",
+  "scenes.name": "Nome da cena",
+  "scenes.download": "Baixar",
+  "scenes.upload": "Enviar",
+  "scenes.empty": "Nenhuma cena salva",
+  "scenes.objects.one": "{count} objeto",
+  "scenes.objects.other": "{count} objetos",
+
+  "collab.title": "Colaborar",
+  "collab.open": "Colaborar ({count})",
+  "collab.close": "Fechar o painel de colaboração",
+  "collab.room": "Sala",
+  "collab.name": "Seu nome",
+  "collab.guest": "Convidado",
+  "collab.join": "Entrar na sala",
+  "collab.connection.disconnected": "Reconectando…",
+  "collab.connection.connecting": "Conectando…",
+  "collab.connection.connected": "Conectado",
+  "collab.alone": "Ninguém mais por aqui ainda",
+  "collab.alignment.unaligned":
+    "Combine dois pontos da sala com os outros, como dois cantos de uma mesa, e alinhe-se a eles. Nada é compartilhado até lá.",
+  "collab.alignment.picking-origin": "Toque no primeiro ponto combinado.",
+  "collab.alignment.picking-direction": "Agora toque no segundo ponto combinado.",
+  "collab.alignment.aligned":
+    "Alinhado. Objetos e edições são compartilhados com a sala.",
+  "collab.align": "Alinhar",
+  "collab.realign": "Realinhar",
+  "collab.leave": "Sair",
+  "collab.notAligned": "não alinhado",
+  "collab.editing": "editando {name}",
+  "collab.someone": "Alguém",
+  "collab.object": "objeto",
+  "collab.changed":
+    "{who} alterou este item ({what}) ao mesmo tempo; a versão de {who} foi mantida",
+  "collab.deleted": "{who} excluiu este item ({what})",
+  "collab.pointsTooClose":
+    "Escolha pontos a pelo menos {distance} cm de distância",
+
+  "measure.title": "Medições",
+  "measure.help":
+    "Toque nas superfícies para marcar pontos. Toque de novo no primeiro ponto para fechar uma forma e ver a área.",
+  "measure.points.one": "{count} ponto",
+  "measure.points.other": "{count} pontos",
+  "measure.closeShape": "Fechar forma",
+  "measure.finish": "Concluir",
+  "measure.clear": "Limpar",
+  "measure.export": "Exportar {format}",
+
+  "physics.title": "Física",
+  "physics.on": "Ligada",
+  "physics.off": "Desligada",
+  "physics.mass": "Massa (kg)",
+  "physics.restitution": "Elasticidade",
+  "physics.friction": "Atrito",
+  "physics.help":
+    "Selecione um objeto para ajustá-lo. Deslize um objeto para lançá-lo.",
+
+  "share.title": "Compartilhar cena",
+  "share.qrCode": "QR code do link da cena",
+  "share.copy": "Copiar link",
+  "share.copied": "Copiado",
+
+  "stats.label": "Taxa de quadros",
+  "stats.fps": "{fps} fps",
+  "stats.frameTime": "{time} ms (pior {worst} ms)",
+
+  "log.open": "Log",
+  "log.openProblems": "Log ({count} ⚠)",
+  "log.title": "Log de eventos",
+  "log.close": "Fechar o log de eventos",
+  "log.level": "Nível mínimo exibido",
+  "log.empty": "Nada registrado ainda",
+  "log.export": "Exportar",
+  "log.clear": "Limpar",
+
+  "sphere.title": "Demo da esfera em RA",
+  "sphere.tagline":
+    "Toque no botão para iniciar a RA e posicionar uma esfera sobre uma superfície",
+  "sphere.surfaceFound": "Superfície detectada",
+  "sphere.searching": "Procurando uma superfície",
+  "sphere.unsupported": "RA com WebXR não é suportada neste dispositivo",
+  "sphere.openViewer": "Abrir o visualizador 3D",
+  "sphere.requirements": "Requisitos para RA com WebXR:",
+  "sphere.requirement.android": "Chrome 81+ no Android com suporte a RA",
+  "sphere.requirement.ios": "Safari no iOS 15+ com suporte a RA",
+  "sphere.requirement.device":
+    "Dispositivo com ARCore (Android) ou ARKit (iOS)",
+  "sphere.learnMore": "Saiba mais sobre WebXR",
+  "sphere.hint": "Clique no chão para posicionar uma esfera, arraste para girar",
+  "sphere.showDepth": "Mostrar profundidade",
+  "sphere.hideDepth": "Ocultar profundidade",
+  "sphere.place": "Posicionar esfera",
+  "sphere.closeViewer": "Fechar o visualizador 3D",
+  "sphere.endAR": "Encerrar a sessão de RA",
+
+  "diagnostics.checking": "Verificando o suporte a WebXR…",
+  "diagnostics.title": "Diagnóstico WebXR",
+  "diagnostics.download": "Baixar relatório",
+  "diagnostics.secureContext": "Contexto seguro",
+  "diagnostics.secure": "sim",
+  "diagnostics.insecure": "não (WebXR exige HTTPS)",
+  "diagnostics.userAgent": "User agent",
+  "diagnostics.supported": "suportado",
+  "diagnostics.unsupported": "não suportado",
+  "diagnostics.probing": "Testando…",
+  "diagnostics.probe": "Testar recursos",
+  "diagnostics.probeAgain": "Testar de novo",
+  "diagnostics.sessionFailed": "A sessão falhou: {error}",
+  "diagnostics.notReported":
+    "o navegador não informa os recursos ativos; alguns foram deduzidos",
+  "diagnostics.help":
+    "O teste inicia uma sessão curta por modo pedindo todos os recursos opcionais e depois a encerra. O navegador pode pedir permissão.",
+};
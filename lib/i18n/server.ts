@@ -0,0 +1,12 @@
+import { cookies, headers } from "next/headers";
+import { LOCALE_COOKIE, resolveLocale, type Locale } from "@/lib/i18n/locales";
+
+// Locale of the current request: the one picked in the switcher, else the
+// browser's preferred language. Server components only.
+export async function requestLocale(): Promise<Locale> {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  return resolveLocale(
+    cookieStore.get(LOCALE_COOKIE)?.value,
+    headerList.get("accept-language")
+  );
+}
@@ -0,0 +1,106 @@
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/locales";
+import { en, type MessageKey } from "@/lib/i18n/messages/en";
+import { ptBR } from "@/lib/i18n/messages/pt-BR";
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+// Keys with .one/.other variants, without the suffix
+export type PluralKey = {
+  [K in MessageKey]: K extends `${infer Base}.other` ? Base : never;
+}[MessageKey];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  en,
+  "pt-BR": ptBR,
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// Messages and number formats of one locale. Get one with getTranslator.
+export class Translator {
+  private readonly messages: Record<MessageKey, string>;
+  private readonly pluralRules: Intl.PluralRules;
+  private readonly numberFormats = new Map<number, Intl.NumberFormat>();
+
+  constructor(readonly locale: Locale) {
+    this.messages = CATALOGS[locale];
+    this.pluralRules = new Intl.PluralRules(locale);
+  }
+
+  // The message with its placeholders filled in. Numbers are formatted for
+  // the locale; unknown placeholders are left as they are. Plural keys pick
+  // their .one or .other variant by params.count.
+  t(key: MessageKey | PluralKey, params?: MessageParams): string {
+    const template = this.template(key, params?.count);
+    if (!params) {
+      return template;
+    }
+    return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+        return placeholder;
+      }
+      return typeof value === "number" ? this.number(value) : value;
+    });
+  }
+
+  // For keys built at runtime, e.g. from a model id
+  has(key: string): key is MessageKey {
+    return key in this.messages;
+  }
+
+  // With exactly `digits` decimals when given, otherwise up to three
+  number(value: number, digits?: number): string {
+    const cacheKey = digits ?? -1;
+    let format = this.numberFormats.get(cacheKey);
+    if (!format) {
+      format = new Intl.NumberFormat(
+        this.locale,
+        digits === undefined
+          ? undefined
+          : { minimumFractionDigits: digits, maximumFractionDigits: digits }
+      );
+      this.numberFormats.set(cacheKey, format);
+    }
+    return format.format(value);
+  }
+
+  // "a or b or c", following the locale's conventions
+  or(items: string[]): string {
+    return new Intl.ListFormat(this.locale, { type: "disjunction" }).format(
+      items
+    );
+  }
+
+  // Date and time, e.g. of an ISO timestamp
+  date(value: string | number): string {
+    return new Date(value).toLocaleString(this.locale);
+  }
+
+  private template(
+    key: MessageKey | PluralKey,
+    count: string | number | undefined
+  ): string {
+    if (this.has(key)) {
+      return this.messages[key];
+    }
+    const variant =
+      typeof count === "number" && this.pluralRules.select(count) === "one"
+        ? "one"
+        : "other";
+    return this.messages[`${key}.${variant}`];
+  }
+}
+
+const translators = new Map<Locale, Translator>();
+
+// Shared per locale, so the number formats are only built once
+export function getTranslator(locale: Locale = DEFAULT_LOCALE): Translator {
+  let translator = translators.get(locale);
+  if (!translator) {
+    translator = new Translator(locale);
+    translators.set(locale, translator);
+  }
+  return translator;
+}
@@ -0,0 +1,86 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EventLog } from "@/lib/debug/eventLog";
+import { serverLog } from "@/lib/debug/serverLog";
+import {
+  parseSceneDocument,
+  type SceneDocument,
+} from "@/lib/scene/sceneDocument";
+import {
+  byMostRecent,
+  summarize,
+  type SceneStore,
+  type SceneSummary,
+} from "@/lib/scene/sceneStorage";
+
+const FILE_EXTENSION = ".json";
+
+// Server-side store keeping one JSON file per scene in a directory. Meant
+// for development and single-instance deployments. Ids must already be
+// validated (see isSharedSceneId) since they become file names.
+export class FileSceneStore implements SceneStore {
+  constructor(
+    private readonly directory: string,
+    private readonly log: EventLog = serverLog
+  ) {}
+
+  async list(): Promise<SceneSummary[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (err) {
+      if (isNotFound(err)) {
+        return [];
+      }
+      throw err;
+    }
+
+    const summaries: SceneSummary[] = [];
+    for (const name of names) {
+      if (!name.endsWith(FILE_EXTENSION)) {
+        continue;
+      }
+      const id = name.slice(0, -FILE_EXTENSION.length);
+      const doc = await this.load(id);
+      if (doc) {
+        summaries.push(summarize(id, doc));
+      }
+    }
+    return summaries.sort(byMostRecent);
+  }
+
+  async load(id: string): Promise<SceneDocument | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.file(id), "utf8");
+    } catch (err) {
+      if (isNotFound(err)) {
+        return null;
+      }
+      throw err;
+    }
+    try {
+      return parseSceneDocument(JSON.parse(raw));
+    } catch (err) {
+      this.log.warn("scene", `Ignoring unreadable shared scene "${id}"`, err);
+      return null;
+    }
+  }
+
+  async save(id: string, doc: SceneDocument): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.file(id), JSON.stringify(doc));
+  }
+
+  async remove(id: string): Promise<void> {
+    await rm(this.file(id), { force: true });
+  }
+
+  private file(id: string): string {
+    return path.join(this.directory, id + FILE_EXTENSION);
+  }
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === "ENOENT";
+}
@@ -0,0 +1,287 @@
+import { isRecord } from "@/lib/util/isRecord";
+
+export const SCENE_FORMAT = "realidade-aumentada.scene";
+export const SCENE_VERSION = 2;
+
+export type Vec3Tuple = [number, number, number];
+export type QuatTuple = [number, number, number, number];
+
+export interface SceneTransform {
+  position: Vec3Tuple;
+  rotation: QuatTuple;
+  scale: Vec3Tuple;
+}
+
+export interface SceneMaterial {
+  color?: string;
+  metalness?: number;
+  roughness?: number;
+  opacity?: number;
+}
+
+export type SceneMetadataValue = string | number | boolean;
+
+export interface SceneObject {
+  id: string;
+  // Catalog model id (see lib/ar/modelCatalog.ts)
+  type: string;
+  // Relative to the scene origin
+  transform: SceneTransform;
+  material?: SceneMaterial;
+  metadata?: Record<string, SceneMetadataValue>;
+  // Persistent anchor the object was attached to. On the same device it puts
+  // the object back in the same physical spot, ignoring the scene origin.
+  anchor?: SceneAnchor;
+}
+
+export interface SceneAnchor {
+  handle: string;
+}
+
+export interface SceneDocument {
+  format: typeof SCENE_FORMAT;
+  version: typeof SCENE_VERSION;
+  metadata: {
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+  };
+  objects: SceneObject[];
+}
+
+export class SceneValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid scene document: ${issues.join("; ")}`);
+    this.name = "SceneValidationError";
+  }
+}
+
+type UnknownDocument = Record<string, unknown> & { version: number };
+
+// Each entry upgrades a document from `version` to `version + 1`. Add one
+// whenever SCENE_VERSION is bumped; older files then keep loading.
+const MIGRATIONS: Record<number, (doc: UnknownDocument) => UnknownDocument> =
+  {
+    // v2 added the optional per-object anchor
+    1: (doc) => ({ ...doc, version: 2 }),
+  };
+
+export function createSceneDocument(
+  name: string,
+  objects: SceneObject[]
+): SceneDocument {
+  const now = new Date().toISOString();
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    metadata: { name, createdAt: now, updatedAt: now },
+    objects,
+  };
+}
+
+// Accepts any parsed JSON value, migrates it to the current version and
+// validates the result. Throws SceneValidationError on failure.
+export function parseSceneDocument(input: unknown): SceneDocument {
+  if (!isRecord(input)) {
+    throw new SceneValidationError(["document must be an object"]);
+  }
+  if (input.format !== SCENE_FORMAT) {
+    throw new SceneValidationError([`format must be "${SCENE_FORMAT}"`]);
+  }
+  if (typeof input.version !== "number" || !Number.isInteger(input.version)) {
+    throw new SceneValidationError(["version must be an integer"]);
+  }
+  if (input.version > SCENE_VERSION) {
+    throw new SceneValidationError([
+      `version ${input.version} is newer than supported version ${SCENE_VERSION}`,
+    ]);
+  }
+
+  let doc: UnknownDocument = { ...input, version: input.version };
+  while (doc.version < SCENE_VERSION) {
+    const migrate = MIGRATIONS[doc.version];
+    if (!migrate) {
+      throw new SceneValidationError([
+        `no migration from version ${doc.version}`,
+      ]);
+    }
+    doc = migrate(doc);
+  }
+
+  const issues: string[] = [];
+  const scene = readCurrent(doc, issues);
+  if (issues.length > 0) {
+    throw new SceneValidationError(issues);
+  }
+  return scene;
+}
+
+// The read* helpers build the typed value field by field and collect every
+// problem in `issues` instead of stopping at the first. Where a field is
+// invalid they fill in a placeholder, so their result is only meaningful
+// when no issue was added.
+function readCurrent(doc: UnknownDocument, issues: string[]): SceneDocument {
+  const metadata = { name: "", createdAt: "", updatedAt: "" };
+  if (!isRecord(doc.metadata)) {
+    issues.push("metadata must be an object");
+  } else {
+    for (const key of ["name", "createdAt", "updatedAt"] as const) {
+      const value = doc.metadata[key];
+      if (typeof value === "string") {
+        metadata[key] = value;
+      } else {
+        issues.push(`metadata.${key} must be a string`);
+      }
+    }
+  }
+
+  const objects: SceneObject[] = [];
+  if (!Array.isArray(doc.objects)) {
+    issues.push("objects must be an array");
+  } else {
+    doc.objects.forEach((object, index) => {
+      const read = readObject(object, `objects[${index}]`, issues);
+      if (read) objects.push(read);
+    });
+  }
+
+  return { format: SCENE_FORMAT, version: SCENE_VERSION, metadata, objects };
+}
+
+function readObject(
+  object: unknown,
+  path: string,
+  issues: string[]
+): SceneObject | null {
+  if (!isRecord(object)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const result: SceneObject = {
+    id: readName(object.id, `${path}.id`, issues),
+    type: readName(object.type, `${path}.type`, issues),
+    transform: readTransform(object.transform, `${path}.transform`, issues),
+  };
+
+  if (object.material !== undefined) {
+    result.material = readMaterial(object.material, `${path}.material`, issues);
+  }
+
+  if (object.anchor !== undefined) {
+    const handle = isRecord(object.anchor) ? object.anchor.handle : undefined;
+    result.anchor = {
+      handle: readName(handle, `${path}.anchor.handle`, issues),
+    };
+  }
+
+  if (object.metadata !== undefined) {
+    if (!isRecord(object.metadata)) {
+      issues.push(`${path}.metadata must be an object`);
+    } else {
+      const metadata: Record<string, SceneMetadataValue> = {};
+      for (const [key, value] of Object.entries(object.metadata)) {
+        if (
+          typeof value === "string" ||
+          typeof value === "number" ||
+          typeof value === "boolean"
+        ) {
+          metadata[key] = value;
+        } else {
+          issues.push(`${path}.metadata.${key} must be a primitive`);
+        }
+      }
+      result.metadata = metadata;
+    }
+  }
+
+  return result;
+}
+
+// A non-empty string: ids, model types and anchor handles
+function readName(value: unknown, path: string, issues: string[]): string {
+  if (typeof value !== "string" || value === "") {
+    issues.push(`${path} must be a non-empty string`);
+    return "";
+  }
+  return value;
+}
+
+function readTransform(
+  transform: unknown,
+  path: string,
+  issues: string[]
+): SceneTransform {
+  if (!isRecord(transform)) {
+    issues.push(`${path} must be an object`);
+    return { position: [0, 0, 0], rotation: [0, 0, 0, 1], scale: [1, 1, 1] };
+  }
+  const [px, py, pz] = readTuple(
+    transform.position,
+    3,
+    `${path}.position`,
+    issues
+  );
+  const [rx, ry, rz, rw] = readTuple(
+    transform.rotation,
+    4,
+    `${path}.rotation`,
+    issues
+  );
+  const [sx, sy, sz] = readTuple(transform.scale, 3, `${path}.scale`, issues);
+  return {
+    position: [px, py, pz],
+    rotation: [rx, ry, rz, rw],
+    scale: [sx, sy, sz],
+  };
+}
+
+function readMaterial(
+  material: unknown,
+  path: string,
+  issues: string[]
+): SceneMaterial {
+  const result: SceneMaterial = {};
+  if (!isRecord(material)) {
+    issues.push(`${path} must be an object`);
+    return result;
+  }
+  if (material.color !== undefined) {
+    if (
+      typeof material.color !== "string" ||
+      !/^#[0-9a-f]{6}$/i.test(material.color)
+    ) {
+      issues.push(`${path}.color must be a #rrggbb string`);
+    } else {
+      result.color = material.color;
+    }
+  }
+  for (const key of ["metalness", "roughness", "opacity"] as const) {
+    const value = material[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || value < 0 || value > 1) {
+      issues.push(`${path}.${key} must be a number between 0 and 1`);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// Always `length` numbers long; zeros stand in for an invalid value
+function readTuple(
+  value: unknown,
+  length: number,
+  path: string,
+  issues: string[]
+): number[] {
+  if (
+    !Array.isArray(value) ||
+    value.length !== length ||
+    !value.every((n) => typeof n === "number" && Number.isFinite(n))
+  ) {
+    issues.push(`${path} must be an array of ${length} finite numbers`);
+    return new Array<number>(length).fill(0);
+  }
+  return value;
+}
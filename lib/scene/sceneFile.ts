@@ -0,0 +1,31 @@
+import {
+  parseSceneDocument,
+  SceneValidationError,
+  type SceneDocument,
+} from "@/lib/scene/sceneDocument";
+import { downloadJSON } from "@/lib/util/download";
+
+export const SCENE_FILE_EXTENSION = ".arscene.json";
+
+export function sceneFileName(doc: SceneDocument): string {
+  const slug =
+    doc.metadata.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "scene";
+  return `${slug}${SCENE_FILE_EXTENSION}`;
+}
+
+export function downloadScene(doc: SceneDocument) {
+  downloadJSON(doc, sceneFileName(doc));
+}
+
+export async function readSceneFile(file: File): Promise<SceneDocument> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new SceneValidationError([`${file.name} is not valid JSON`]);
+  }
+  return parseSceneDocument(json);
+}
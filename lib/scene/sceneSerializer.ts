@@ -0,0 +1,157 @@
+import * as THREE from "three";
+import type { PlacedObject } from "@/lib/ar/objectRegistry";
+import type {
+  SceneMaterial,
+  SceneObject,
+  SceneTransform,
+} from "@/lib/scene/sceneDocument";
+
+// Scene transforms are stored relative to an origin on a real surface. Only
+// yaw is kept so restored layouts stay aligned with gravity.
+export interface SceneOrigin {
+  position: THREE.Vector3;
+  yaw: number;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+export function originMatrix(origin: SceneOrigin): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(
+    origin.position,
+    new THREE.Quaternion().setFromAxisAngle(UP, origin.yaw),
+    new THREE.Vector3(1, 1, 1)
+  );
+}
+
+// Heading of a pose around the vertical axis, ignoring pitch and roll
+export function yawFromQuaternion(quaternion: THREE.Quaternion): number {
+  const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(quaternion);
+  return Math.atan2(-forward.x, -forward.z);
+}
+
+// Default origin when saving: the centre of the layout at the height of its
+// lowest object, facing the same way as the viewer
+export function computeLayoutOrigin(
+  entries: PlacedObject[],
+  viewerYaw: number
+): SceneOrigin {
+  const position = new THREE.Vector3();
+  if (entries.length === 0) {
+    return { position, yaw: viewerYaw };
+  }
+
+  let minY = Infinity;
+  for (const entry of entries) {
+    position.add(entry.object.position);
+    minY = Math.min(minY, entry.object.position.y);
+  }
+  position.divideScalar(entries.length);
+  position.y = minY;
+  return { position, yaw: viewerYaw };
+}
+
+export function serializeObjects(
+  entries: PlacedObject[],
+  origin: SceneOrigin
+): SceneObject[] {
+  const inverseOrigin = originMatrix(origin).invert();
+
+  return entries.map((entry) => {
+    entry.object.updateMatrix();
+    const relative = inverseOrigin.clone().multiply(entry.object.matrix);
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    relative.decompose(position, rotation, scale);
+
+    const sceneObject: SceneObject = {
+      id: entry.id,
+      type: entry.type,
+      transform: {
+        position: roundAll(position.toArray()),
+        rotation: roundAll(rotation.toArray()),
+        scale: roundAll(scale.toArray()),
+      },
+      metadata: { createdAt: entry.createdAt },
+    };
+    const material = readMaterial(entry.object);
+    if (material) {
+      sceneObject.material = material;
+    }
+    if (entry.persistentHandle) {
+      sceneObject.anchor = { handle: entry.persistentHandle };
+    }
+    return sceneObject;
+  });
+}
+
+export function applySceneTransform(
+  object: THREE.Object3D,
+  transform: SceneTransform,
+  origin: SceneOrigin
+) {
+  const relative = new THREE.Matrix4().compose(
+    new THREE.Vector3().fromArray(transform.position),
+    new THREE.Quaternion().fromArray(transform.rotation),
+    new THREE.Vector3().fromArray(transform.scale)
+  );
+  originMatrix(origin)
+    .multiply(relative)
+    .decompose(object.position, object.quaternion, object.scale);
+}
+
+export function applySceneMaterial(
+  object: THREE.Object3D,
+  material: SceneMaterial
+) {
+  object.traverse((child) => {
+    if (
+      !(child instanceof THREE.Mesh) ||
+      !(child.material instanceof THREE.MeshStandardMaterial)
+    ) {
+      return;
+    }
+    const target = child.material;
+    if (material.color !== undefined) {
+      target.color.set(material.color);
+    }
+    if (material.metalness !== undefined) {
+      target.metalness = material.metalness;
+    }
+    if (material.roughness !== undefined) {
+      target.roughness = material.roughness;
+    }
+    if (material.opacity !== undefined) {
+      target.opacity = material.opacity;
+      target.transparent = material.opacity < 1;
+    }
+  });
+}
+
+// The first standard material stands in for the whole object
+function readMaterial(object: THREE.Object3D): SceneMaterial | null {
+  let found: THREE.MeshStandardMaterial | null = null;
+  object.traverse((child) => {
+    if (
+      !found &&
+      child instanceof THREE.Mesh &&
+      child.material instanceof THREE.MeshStandardMaterial
+    ) {
+      found = child.material;
+    }
+  });
+  if (!found) {
+    return null;
+  }
+  const material: THREE.MeshStandardMaterial = found;
+  return {
+    color: `#${material.color.getHexString()}`,
+    metalness: material.metalness,
+    roughness: material.roughness,
+    opacity: material.opacity,
+  };
+}
+
+function roundAll<T extends number[]>(values: T): T {
+  return values.map((value) => Math.round(value * 1e5) / 1e5) as T;
+}
@@ -0,0 +1,25 @@
+import type { SceneDocument } from "@/lib/scene/sceneDocument";
+
+// Client side of scene sharing, talking to app/api/scenes
+export const SHARED_SCENES_ENDPOINT = "/api/scenes";
+
+export function sharedScenePath(id: string): string {
+  return `/scene/${encodeURIComponent(id)}`;
+}
+
+// Upload the scene and resolve with a link that opens it
+export async function shareScene(doc: SceneDocument): Promise<string> {
+  const response = await fetch(SHARED_SCENES_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(doc),
+  });
+  const body = (await response.json().catch(() => null)) as {
+    id?: string;
+    error?: string;
+  } | null;
+  if (!response.ok || !body?.id) {
+    throw new Error(body?.error ?? `server responded ${response.status}`);
+  }
+  return new URL(sharedScenePath(body.id), window.location.origin).toString();
+}
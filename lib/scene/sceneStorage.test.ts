@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSceneDocument } from "@/lib/scene/sceneDocument";
+import {
+  IndexedDBSceneStore,
+  MemorySceneStore,
+} from "@/lib/scene/sceneStorage";
+
+// An indexedDB whose open always fails, as in some private modes
+function stubFailingIndexedDB() {
+  const open = vi.fn(() => {
+    const request = {
+      error: new DOMException("Denied", "InvalidStateError"),
+      onerror: null as (() => void) | null,
+    };
+    setTimeout(() => request.onerror?.(), 0);
+    return request;
+  });
+  vi.stubGlobal("indexedDB", { open });
+  return open;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("IndexedDBSceneStore", () => {
+  it("keeps to the fallback once the database fails to open", async () => {
+    const open = stubFailingIndexedDB();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fallback = new MemorySceneStore();
+    const store = new IndexedDBSceneStore(fallback);
+
+    await store.save("kitchen", createSceneDocument("Kitchen", []));
+
+    expect(await fallback.load("kitchen")).not.toBeNull();
+    expect((await store.list()).map((scene) => scene.id)).toEqual([
+      "kitchen",
+    ]);
+    await store.remove("kitchen");
+    expect(await fallback.list()).toEqual([]);
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("tries to open again without a fallback", async () => {
+    const open = stubFailingIndexedDB();
+    const store = new IndexedDBSceneStore();
+
+    await expect(store.list()).rejects.toThrow("Denied");
+    await expect(store.load("kitchen")).rejects.toThrow("Denied");
+    expect(open).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,226 @@
+import { eventLog } from "@/lib/debug/eventLog";
+import {
+  parseSceneDocument,
+  type SceneDocument,
+} from "@/lib/scene/sceneDocument";
+
+// Saved when a session ends so the next one can offer to restore it
+export const AUTOSAVE_ID = "autosave";
+
+export interface SceneSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  objectCount: number;
+}
+
+export interface SceneStore {
+  list(): Promise<SceneSummary[]>;
+  load(id: string): Promise<SceneDocument | null>;
+  save(id: string, doc: SceneDocument): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export function summarize(id: string, doc: SceneDocument): SceneSummary {
+  return {
+    id,
+    name: doc.metadata.name,
+    updatedAt: doc.metadata.updatedAt,
+    objectCount: doc.objects.length,
+  };
+}
+
+export function byMostRecent(a: SceneSummary, b: SceneSummary) {
+  return b.updatedAt.localeCompare(a.updatedAt);
+}
+
+export class LocalStorageSceneStore implements SceneStore {
+  constructor(private readonly prefix = "ar-scene:") {}
+
+  async list(): Promise<SceneSummary[]> {
+    const summaries: SceneSummary[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(this.prefix)) {
+        continue;
+      }
+      const id = key.slice(this.prefix.length);
+      const doc = await this.load(id);
+      if (doc) {
+        summaries.push(summarize(id, doc));
+      }
+    }
+    return summaries.sort(byMostRecent);
+  }
+
+  async load(id: string): Promise<SceneDocument | null> {
+    const raw = localStorage.getItem(this.prefix + id);
+    if (raw === null) {
+      return null;
+    }
+    try {
+      return parseSceneDocument(JSON.parse(raw));
+    } catch (err) {
+      eventLog.warn("scene", `Ignoring unreadable saved scene "${id}"`, err);
+      return null;
+    }
+  }
+
+  async save(id: string, doc: SceneDocument): Promise<void> {
+    localStorage.setItem(this.prefix + id, JSON.stringify(doc));
+  }
+
+  async remove(id: string): Promise<void> {
+    localStorage.removeItem(this.prefix + id);
+  }
+}
+
+// Keeps scenes for the lifetime of the process, e.g. on the server when
+// nothing needs to survive a restart
+export class MemorySceneStore implements SceneStore {
+  private readonly docs = new Map<string, SceneDocument>();
+
+  async list(): Promise<SceneSummary[]> {
+    return Array.from(this.docs, ([id, doc]) => summarize(id, doc)).sort(
+      byMostRecent
+    );
+  }
+
+  async load(id: string): Promise<SceneDocument | null> {
+    return this.docs.get(id) ?? null;
+  }
+
+  async save(id: string, doc: SceneDocument): Promise<void> {
+    this.docs.set(id, doc);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.docs.delete(id);
+  }
+}
+
+const DB_NAME = "realidade-aumentada";
+const STORE_NAME = "scenes";
+
+export class IndexedDBSceneStore implements SceneStore {
+  private db: Promise<IDBDatabase> | null = null;
+  // Set once the database failed to open with a fallback at hand. Sticks for
+  // the life of the page, so scenes aren't split between the two stores.
+  private usingFallback = false;
+
+  // `fallback` takes over when the database can't be opened, e.g. in
+  // private mode or without quota. Without one, each call tries again.
+  constructor(private readonly fallback: SceneStore | null = null) {}
+
+  async list(): Promise<SceneSummary[]> {
+    const fallback = await this.fallbackInUse();
+    if (fallback) {
+      return fallback.list();
+    }
+    const records = await this.request<{ id: string; doc: unknown }[]>(
+      "readonly",
+      (store) => store.getAll()
+    );
+    const summaries: SceneSummary[] = [];
+    for (const record of records) {
+      const doc = this.parse(record.id, record.doc);
+      if (doc) {
+        summaries.push(summarize(record.id, doc));
+      }
+    }
+    return summaries.sort(byMostRecent);
+  }
+
+  async load(id: string): Promise<SceneDocument | null> {
+    const fallback = await this.fallbackInUse();
+    if (fallback) {
+      return fallback.load(id);
+    }
+    const record = await this.request<{ id: string; doc: unknown } | undefined>(
+      "readonly",
+      (store) => store.get(id)
+    );
+    return record ? this.parse(id, record.doc) : null;
+  }
+
+  async save(id: string, doc: SceneDocument): Promise<void> {
+    const fallback = await this.fallbackInUse();
+    if (fallback) {
+      return fallback.save(id, doc);
+    }
+    await this.request("readwrite", (store) => store.put({ id, doc }));
+  }
+
+  async remove(id: string): Promise<void> {
+    const fallback = await this.fallbackInUse();
+    if (fallback) {
+      return fallback.remove(id);
+    }
+    await this.request("readwrite", (store) => store.delete(id));
+  }
+
+  private parse(id: string, raw: unknown): SceneDocument | null {
+    try {
+      return parseSceneDocument(raw);
+    } catch (err) {
+      eventLog.warn("scene", `Ignoring unreadable saved scene "${id}"`, err);
+      return null;
+    }
+  }
+
+  // The fallback once the database turned out not to open, else null
+  private async fallbackInUse(): Promise<SceneStore | null> {
+    if (this.fallback && !this.usingFallback) {
+      try {
+        await this.open();
+      } catch (err) {
+        eventLog.warn(
+          "scene",
+          "Could not open the scene database, using the fallback store",
+          err
+        );
+        this.usingFallback = true;
+      }
+    }
+    return this.usingFallback ? this.fallback : null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // Don't keep a failed open around: the next call tries again
+      this.db = null;
+      throw err;
+    });
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// IndexedDB when available (larger quota), localStorage otherwise or when
+// the database can't be opened
+export function createSceneStore(): SceneStore {
+  if (typeof indexedDB !== "undefined") {
+    return new IndexedDBSceneStore(new LocalStorageSceneStore());
+  }
+  return new LocalStorageSceneStore();
+}
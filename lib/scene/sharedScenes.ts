@@ -0,0 +1,53 @@
+import { randomBytes } from "node:crypto";
+import path from "node:path";
+import { FileSceneStore } from "@/lib/scene/fileSceneStore";
+import { MemorySceneStore, type SceneStore } from "@/lib/scene/sceneStorage";
+
+// Server side of scene sharing: where shared scenes are kept. The backend is
+// picked with the SCENE_STORE environment variable; register others (a
+// database, object storage) with registerSceneBackend.
+
+const DEFAULT_BACKEND = "file";
+const DEFAULT_DIRECTORY = path.join(process.cwd(), ".data", "scenes");
+
+// Generous for JSON layouts of a few dozen objects
+export const MAX_SHARED_SCENE_BYTES = 512 * 1024;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const backends = new Map<string, () => SceneStore>([
+  [
+    "file",
+    () => new FileSceneStore(process.env.SCENE_STORE_DIR ?? DEFAULT_DIRECTORY),
+  ],
+  ["memory", () => new MemorySceneStore()],
+]);
+
+let store: SceneStore | null = null;
+
+export function registerSceneBackend(name: string, create: () => SceneStore) {
+  backends.set(name, create);
+}
+
+export function getSharedSceneStore(): SceneStore {
+  if (!store) {
+    const name = process.env.SCENE_STORE ?? DEFAULT_BACKEND;
+    const create = backends.get(name);
+    if (!create) {
+      const known = Array.from(backends.keys()).join(", ");
+      throw new Error(`Unknown scene store "${name}", expected: ${known}`);
+    }
+    store = create();
+  }
+  return store;
+}
+
+// Unguessable enough that links are the only way in
+export function createSharedSceneId(): string {
+  return randomBytes(9).toString("base64url");
+}
+
+// Ids end up in file names and keys; reject anything unexpected
+export function isSharedSceneId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
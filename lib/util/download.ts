@@ -0,0 +1,25 @@
+// Saving generated files (scenes, recordings, logs, captures) from the
+// browser
+
+// Safari and Firefox read the blob after click() returns; revoking the URL
+// right away can cancel the download (ms)
+const REVOKE_DELAY_MS = 40 * 1000;
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+// Indented for reading unless `compact`, e.g. for large recordings
+export function downloadJSON(
+  value: unknown,
+  fileName: string,
+  compact = false
+) {
+  const json = compact ? JSON.stringify(value) : JSON.stringify(value, null, 2);
+  downloadBlob(new Blob([json], { type: "application/json" }), fileName);
+}
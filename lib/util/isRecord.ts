@@ -0,0 +1,4 @@
+// A plain JSON object, for validating parsed input field by field
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,215 @@
+import { downloadJSON } from "@/lib/util/download";
+import { isEmulationRequested } from "@/lib/xr/xrSystem";
+
+// Device capability probe behind the /diagnostics page. Mode support is
+// checked up front; features need a real session, so each mode is probed
+// separately, from a click (immersive sessions need a user gesture).
+
+export const CAPABILITY_REPORT_FORMAT = "xr-capability-report";
+export const CAPABILITY_REPORT_VERSION = 1;
+
+export const PROBED_MODES: readonly XRSessionMode[] = [
+  "immersive-ar",
+  "immersive-vr",
+  "inline",
+];
+
+export const PROBED_FEATURES = [
+  "hit-test",
+  "anchors",
+  "dom-overlay",
+  "light-estimation",
+  "depth-sensing",
+  "plane-detection",
+  "camera-access",
+  "hand-tracking",
+] as const;
+
+export type ProbedFeature = (typeof PROBED_FEATURES)[number];
+
+// "unknown": the browser doesn't list enabled features and the feature has
+// no API to try it with
+export type FeatureStatus = "granted" | "denied" | "unknown";
+
+export interface SessionProbe {
+  // Set when the session could not be started at all
+  error?: string;
+  features: Partial<Record<ProbedFeature, FeatureStatus>>;
+  // Whether the browser reported session.enabledFeatures
+  enabledFeaturesReported: boolean;
+  environmentBlendMode?: XREnvironmentBlendMode;
+  interactionMode?: XRInteractionMode;
+  depthUsage?: XRDepthUsage;
+  depthDataFormat?: XRDepthDataFormat;
+  domOverlayType?: XRDOMOverlayType;
+  preferredReflectionFormat?: XRReflectionFormat;
+  inputProfiles: string[];
+}
+
+export interface ModeCapabilities {
+  mode: XRSessionMode;
+  supported: boolean;
+  // Null until the mode was probed with a session
+  session: SessionProbe | null;
+}
+
+export interface CapabilityReport {
+  format: typeof CAPABILITY_REPORT_FORMAT;
+  version: typeof CAPABILITY_REPORT_VERSION;
+  generatedAt: string;
+  userAgent: string;
+  secureContext: boolean;
+  webxr: "native" | "emulated" | "unavailable";
+  // Global constructors some modules are reached through
+  apis: Record<string, boolean>;
+  modes: ModeCapabilities[];
+}
+
+const GLOBAL_APIS = [
+  "XRWebGLBinding",
+  "XRWebGLLayer",
+  "XRRigidTransform",
+  "XRRay",
+  "XRMediaBinding",
+];
+
+export async function probeModes(
+  xr: XRSystem | null
+): Promise<CapabilityReport> {
+  const modes = await Promise.all(
+    PROBED_MODES.map(async (mode) => ({
+      mode,
+      supported: xr
+        ? await xr.isSessionSupported(mode).catch(() => false)
+        : false,
+      session: null,
+    }))
+  );
+  const globals = globalThis as Record<string, unknown>;
+  return {
+    format: CAPABILITY_REPORT_FORMAT,
+    version: CAPABILITY_REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    secureContext: window.isSecureContext,
+    webxr: !xr ? "unavailable" : isEmulationRequested() ? "emulated" : "native",
+    apis: Object.fromEntries(
+      GLOBAL_APIS.map((name) => [name, typeof globals[name] === "function"])
+    ),
+    modes,
+  };
+}
+
+// Start a session asking for every probed feature, see what was granted and
+// end it right away. Must run from a user gesture for immersive modes.
+export async function probeSession(
+  xr: XRSystem,
+  mode: XRSessionMode,
+  overlayRoot?: Element
+): Promise<SessionProbe> {
+  let session: XRSession;
+  try {
+    session = await xr.requestSession(mode, {
+      optionalFeatures: [...PROBED_FEATURES],
+      depthSensing: {
+        usagePreference: ["cpu-optimized", "gpu-optimized"],
+        dataFormatPreference: ["luminance-alpha", "float32"],
+      },
+      domOverlay: overlayRoot ? { root: overlayRoot } : undefined,
+    });
+  } catch (err) {
+    return {
+      error: err instanceof Error ? err.message : String(err),
+      features: {},
+      enabledFeaturesReported: false,
+      inputProfiles: [],
+    };
+  }
+
+  try {
+    const enabled = session.enabledFeatures;
+    const features: SessionProbe["features"] = {};
+    for (const feature of PROBED_FEATURES) {
+      features[feature] = enabled
+        ? enabled.includes(feature)
+          ? "granted"
+          : "denied"
+        : await tryFeature(session, feature);
+    }
+    return {
+      features,
+      enabledFeaturesReported: enabled !== undefined,
+      environmentBlendMode: session.environmentBlendMode,
+      interactionMode: session.interactionMode,
+      depthUsage: session.depthUsage,
+      depthDataFormat: session.depthDataFormat,
+      domOverlayType: session.domOverlayState?.type,
+      preferredReflectionFormat: session.preferredReflectionFormat,
+      inputProfiles: Array.from(session.inputSources).flatMap(
+        (source) => source.profiles
+      ),
+    };
+  } finally {
+    await session.end().catch(() => {
+      // Already ended by the browser
+    });
+  }
+}
+
+// Fallback for browsers without session.enabledFeatures
+async function tryFeature(
+  session: XRSession,
+  feature: ProbedFeature
+): Promise<FeatureStatus> {
+  switch (feature) {
+    case "hit-test": {
+      if (!session.requestHitTestSource) {
+        return "denied";
+      }
+      try {
+        const space = await session.requestReferenceSpace("viewer");
+        const source = await session.requestHitTestSource({ space });
+        source?.cancel();
+        return source ? "granted" : "denied";
+      } catch {
+        return "denied";
+      }
+    }
+    case "light-estimation":
+      if (!session.requestLightProbe) {
+        return "denied";
+      }
+      return session
+        .requestLightProbe()
+        .then((): FeatureStatus => "granted")
+        .catch((): FeatureStatus => "denied");
+    case "depth-sensing":
+      return session.depthUsage ? "granted" : "denied";
+    case "dom-overlay":
+      return session.domOverlayState ? "granted" : "denied";
+    default:
+      return "unknown";
+  }
+}
+
+export function withSessionProbe(
+  report: CapabilityReport,
+  mode: XRSessionMode,
+  probe: SessionProbe
+): CapabilityReport {
+  return {
+    ...report,
+    generatedAt: new Date().toISOString(),
+    modes: report.modes.map((entry) =>
+      entry.mode === mode ? { ...entry, session: probe } : entry
+    ),
+  };
+}
+
+export function capabilityReportFileName(report: CapabilityReport): string {
+  return `xr-capabilities-${report.generatedAt.slice(0, 10)}.json`;
+}
+
+export function downloadCapabilityReport(report: CapabilityReport) {
+  downloadJSON(report, capabilityReportFileName(report));
+}
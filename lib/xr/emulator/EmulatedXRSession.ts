@@ -0,0 +1,801 @@
+import * as THREE from "three";
+import type { EmulatedAnchorStore } from "@/lib/xr/emulator/anchors";
+import {
+  raycastRoom,
+  type EmulatedRoom,
+  type RoomPlane,
+} from "@/lib/xr/emulator/room";
+import { ViewerControls } from "@/lib/xr/emulator/viewerControls";
+
+export const EMULATED_FOV = 70;
+const NEAR = 0.01;
+const FAR = 20;
+
+const SUPPORTED_REFERENCE_SPACES = ["viewer", "local", "local-floor"];
+export const EMULATED_FEATURES = [
+  ...SUPPORTED_REFERENCE_SPACES,
+  "hit-test",
+  "dom-overlay",
+  "plane-detection",
+  "anchors",
+  "depth-sensing",
+];
+
+// Emulated depth buffer resolution, close to what phones deliver. Depth is
+// packed as millimetres in 16 bits, like ARCore's luminance-alpha format.
+const DEPTH_WIDTH = 80;
+const DEPTH_HEIGHT = 60;
+const DEPTH_RAW_VALUE_TO_METERS = 0.001;
+
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+// The emulator classes implement the @types/webxr interfaces (plus
+// types/webxr.d.ts), with real behavior only for the parts the app uses.
+// Methods that take spaces or hit-test sources accept only the emulator's
+// own and throw InvalidStateError for anything else.
+
+export class EmulatedRigidTransform implements XRRigidTransform {
+  readonly matrix: Float32Array;
+  readonly position: DOMPointReadOnly;
+  readonly orientation: DOMPointReadOnly;
+
+  constructor(private readonly source: THREE.Matrix4) {
+    const position = new THREE.Vector3();
+    const orientation = new THREE.Quaternion();
+    source.decompose(position, orientation, new THREE.Vector3());
+    this.matrix = new Float32Array(source.elements);
+    this.position = new DOMPointReadOnly(position.x, position.y, position.z, 1);
+    this.orientation = new DOMPointReadOnly(
+      orientation.x,
+      orientation.y,
+      orientation.z,
+      orientation.w
+    );
+  }
+
+  get inverse(): EmulatedRigidTransform {
+    return new EmulatedRigidTransform(this.source.clone().invert());
+  }
+}
+
+// Stand-in for the XRRigidTransform constructor on browsers without WebXR
+export class EmulatedRigidTransformPolyfill extends EmulatedRigidTransform {
+  constructor(position: DOMPointInit = {}, orientation: DOMPointInit = {}) {
+    super(
+      new THREE.Matrix4().compose(
+        new THREE.Vector3(position.x ?? 0, position.y ?? 0, position.z ?? 0),
+        new THREE.Quaternion(
+          orientation.x ?? 0,
+          orientation.y ?? 0,
+          orientation.z ?? 0,
+          orientation.w ?? 1
+        ).normalize(),
+        new THREE.Vector3(1, 1, 1)
+      )
+    );
+  }
+}
+
+function toMatrix(transform: XRRigidTransform): THREE.Matrix4 {
+  return new THREE.Matrix4().fromArray(transform.matrix);
+}
+
+export class EmulatedReferenceSpace
+  extends EventTarget
+  implements XRReferenceSpace
+{
+  // Event handler attributes exist for the interface only; the emulated
+  // spaces never reset
+  declare onreset: XRReferenceSpaceEventHandler;
+
+  constructor(
+    readonly type: string,
+    // Space origin expressed in emulated room (floor-origin) coordinates
+    private readonly resolveOrigin: () => THREE.Matrix4
+  ) {
+    super();
+  }
+
+  get originMatrix(): THREE.Matrix4 {
+    return this.resolveOrigin();
+  }
+
+  getOffsetReferenceSpace(originOffset: XRRigidTransform) {
+    const offset = toMatrix(originOffset);
+    return new EmulatedReferenceSpace(this.type, () =>
+      this.resolveOrigin().clone().multiply(offset)
+    );
+  }
+}
+
+// The emulator's own space; other spaces can't be located in the room
+export function emulatedSpace(space: XRSpace): EmulatedReferenceSpace {
+  if (!(space instanceof EmulatedReferenceSpace)) {
+    throw new DOMException(
+      "The space does not belong to an emulated session",
+      "InvalidStateError"
+    );
+  }
+  return space;
+}
+
+export class EmulatedHitTestSource implements XRHitTestSource {
+  cancelled = false;
+
+  constructor(
+    readonly space: EmulatedReferenceSpace,
+    readonly offsetRay: { origin: THREE.Vector3; direction: THREE.Vector3 }
+  ) {}
+
+  cancel() {
+    this.cancelled = true;
+  }
+}
+
+// Hit tests along the target rays of current transient inputs (taps) with a
+// matching profile
+export class EmulatedTransientInputHitTestSource
+  implements XRTransientInputHitTestSource
+{
+  cancelled = false;
+
+  constructor(readonly profile: string) {}
+
+  cancel() {
+    this.cancelled = true;
+  }
+}
+
+export class EmulatedHitTestResult implements XRHitTestResult {
+  constructor(private readonly world: THREE.Matrix4) {}
+
+  getPose(baseSpace: XRSpace): XRPose {
+    return {
+      transform: poseIn(this.world, baseSpace),
+      emulatedPosition: false,
+    };
+  }
+}
+
+export class EmulatedTransientInputHitTestResult
+  implements XRTransientInputHitTestResult
+{
+  // @types/webxr lists the constructor's `prototype` as an instance member;
+  // declared to satisfy it, never read
+  declare readonly prototype: XRTransientInputHitTestResult;
+
+  constructor(
+    readonly inputSource: XRInputSource,
+    readonly results: readonly XRHitTestResult[]
+  ) {}
+}
+
+// Transform of a room-space matrix relative to an emulated space
+export function poseIn(world: THREE.Matrix4, baseSpace: XRSpace) {
+  const base = emulatedSpace(baseSpace).originMatrix;
+  return new EmulatedRigidTransform(base.clone().invert().multiply(world));
+}
+
+// Both sessions render with the app's regular camera, so views have no
+// viewport to scale
+export class EmulatedView implements XRView {
+  readonly eye = "none";
+
+  constructor(
+    readonly transform: EmulatedRigidTransform,
+    readonly projectionMatrix: Float32Array
+  ) {}
+
+  requestViewportScale() {}
+}
+
+// A room surface reported through the plane-detection feature. Room planes
+// never change, so lastChangedTime stays at 0.
+export class EmulatedPlane implements XRPlane {
+  readonly orientation: "horizontal" | "vertical";
+  readonly planeSpace: EmulatedReferenceSpace;
+  readonly polygon: DOMPointReadOnly[];
+  readonly lastChangedTime = 0;
+  readonly semanticLabel: string;
+
+  constructor(plane: RoomPlane) {
+    const normal = new THREE.Vector3(0, 1, 0).applyQuaternion(
+      plane.quaternion
+    );
+    this.orientation = Math.abs(normal.y) > 0.5 ? "horizontal" : "vertical";
+    const world = new THREE.Matrix4().compose(
+      plane.position,
+      plane.quaternion,
+      new THREE.Vector3(1, 1, 1)
+    );
+    this.planeSpace = new EmulatedReferenceSpace("plane", () => world);
+    const x = plane.width / 2;
+    const z = plane.depth / 2;
+    this.polygon = [
+      new DOMPointReadOnly(-x, 0, -z),
+      new DOMPointReadOnly(x, 0, -z),
+      new DOMPointReadOnly(x, 0, z),
+      new DOMPointReadOnly(-x, 0, z),
+    ];
+    this.semanticLabel = plane.label;
+  }
+}
+
+// Anchors never lose tracking in the emulated room
+export class EmulatedAnchor implements XRAnchor {
+  readonly anchorSpace: EmulatedReferenceSpace;
+  private handle: string | null;
+
+  constructor(
+    private readonly session: EmulatedXRSession,
+    private readonly world: THREE.Matrix4,
+    handle: string | null = null
+  ) {
+    this.anchorSpace = new EmulatedReferenceSpace("anchor", () => world);
+    this.handle = handle;
+  }
+
+  async requestPersistentHandle(): Promise<string> {
+    this.handle ??= crypto.randomUUID();
+    this.session.anchorStore.save(this.handle, this.world);
+    return this.handle;
+  }
+
+  delete() {
+    this.session.trackedAnchors?.delete(this);
+  }
+}
+
+// CPU depth information for the viewer, computed by ray casting the room.
+// Depth is the distance along the view direction, 0 where nothing was hit.
+// Buffer rows run top to bottom, matching normalized view coordinates.
+export class EmulatedDepthInformation implements XRCPUDepthInformation {
+  readonly width = DEPTH_WIDTH;
+  readonly height = DEPTH_HEIGHT;
+  readonly rawValueToMeters = DEPTH_RAW_VALUE_TO_METERS;
+  readonly normDepthBufferFromNormView = new EmulatedRigidTransform(
+    new THREE.Matrix4()
+  );
+  readonly data: ArrayBuffer;
+  private readonly values: Uint16Array;
+
+  constructor(
+    room: EmulatedRoom,
+    viewerWorld: THREE.Matrix4,
+    projectionMatrix: THREE.Matrix4
+  ) {
+    this.data = new ArrayBuffer(DEPTH_WIDTH * DEPTH_HEIGHT * 2);
+    this.values = new Uint16Array(this.data);
+
+    const inverseProjection = projectionMatrix.clone().invert();
+    const origin = new THREE.Vector3().setFromMatrixPosition(viewerWorld);
+    const forward = FORWARD.clone().transformDirection(viewerWorld);
+    const direction = new THREE.Vector3();
+
+    for (let row = 0; row < DEPTH_HEIGHT; row++) {
+      for (let col = 0; col < DEPTH_WIDTH; col++) {
+        direction
+          .set(
+            ((col + 0.5) / DEPTH_WIDTH) * 2 - 1,
+            1 - ((row + 0.5) / DEPTH_HEIGHT) * 2,
+            0.5
+          )
+          .applyMatrix4(inverseProjection)
+          .transformDirection(viewerWorld);
+        const hit = raycastRoom(room, origin, direction)[0];
+        const depth = hit ? hit.distance * direction.dot(forward) : 0;
+        this.values[row * DEPTH_WIDTH + col] = Math.min(
+          0xffff,
+          Math.round(depth / DEPTH_RAW_VALUE_TO_METERS)
+        );
+      }
+    }
+  }
+
+  getDepthInMeters(x: number, y: number): number {
+    const col = THREE.MathUtils.clamp(
+      Math.floor(x * DEPTH_WIDTH),
+      0,
+      DEPTH_WIDTH - 1
+    );
+    const row = THREE.MathUtils.clamp(
+      Math.floor(y * DEPTH_HEIGHT),
+      0,
+      DEPTH_HEIGHT - 1
+    );
+    return this.values[row * DEPTH_WIDTH + col] * DEPTH_RAW_VALUE_TO_METERS;
+  }
+}
+
+export class EmulatedFrame implements XRFrame {
+  private depthInformation: EmulatedDepthInformation | null = null;
+
+  constructor(
+    readonly session: EmulatedXRSession,
+    readonly predictedDisplayTime: number,
+    private readonly viewerWorld: THREE.Matrix4,
+    private readonly projectionMatrix: THREE.Matrix4
+  ) {}
+
+  get detectedPlanes(): Set<EmulatedPlane> | undefined {
+    return this.session.detectedPlanes;
+  }
+
+  get trackedAnchors(): Set<EmulatedAnchor> | undefined {
+    return this.session.trackedAnchors;
+  }
+
+  // Computed on first use, as ray casting the room isn't free
+  getDepthInformation(): EmulatedDepthInformation {
+    if (!this.session.depthUsage) {
+      throw new DOMException(
+        "depth-sensing feature not enabled",
+        "NotSupportedError"
+      );
+    }
+    this.depthInformation ??= new EmulatedDepthInformation(
+      this.session.room,
+      this.viewerWorld,
+      this.projectionMatrix
+    );
+    return this.depthInformation;
+  }
+
+  async createAnchor(
+    pose: XRRigidTransform,
+    space: XRSpace
+  ): Promise<EmulatedAnchor> {
+    const origin = emulatedSpace(space).originMatrix;
+    return this.session.trackAnchor(origin.clone().multiply(toMatrix(pose)));
+  }
+
+  getViewerPose(referenceSpace: XRReferenceSpace): XRViewerPose {
+    const transform = poseIn(this.viewerWorld, referenceSpace);
+    return {
+      transform,
+      emulatedPosition: false,
+      views: [
+        new EmulatedView(
+          transform,
+          new Float32Array(this.projectionMatrix.elements)
+        ),
+      ],
+    };
+  }
+
+  getPose(space: XRSpace, baseSpace: XRSpace): XRPose {
+    const world = emulatedSpace(space).originMatrix;
+    return { transform: poseIn(world, baseSpace), emulatedPosition: false };
+  }
+
+  getHitTestResults(source: XRHitTestSource): EmulatedHitTestResult[] {
+    if (!(source instanceof EmulatedHitTestSource)) {
+      throw new DOMException(
+        "The hit-test source does not belong to an emulated session",
+        "InvalidStateError"
+      );
+    }
+    if (source.cancelled) {
+      return [];
+    }
+
+    return this.raycast(source.space.originMatrix, source.offsetRay);
+  }
+
+  getHitTestResultsForTransientInput(
+    source: XRTransientInputHitTestSource
+  ): EmulatedTransientInputHitTestResult[] {
+    if (!(source instanceof EmulatedTransientInputHitTestSource)) {
+      throw new DOMException(
+        "The hit-test source does not belong to an emulated session",
+        "InvalidStateError"
+      );
+    }
+    if (source.cancelled) {
+      return [];
+    }
+    return this.session.inputSources
+      .filter((inputSource) => inputSource.profiles.includes(source.profile))
+      .map(
+        (inputSource) =>
+          new EmulatedTransientInputHitTestResult(
+            inputSource,
+            this.raycast(inputSource.targetRaySpace.originMatrix, {
+              origin: new THREE.Vector3(),
+              direction: FORWARD,
+            })
+          )
+      );
+  }
+
+  private raycast(
+    rayWorld: THREE.Matrix4,
+    offsetRay: { origin: THREE.Vector3; direction: THREE.Vector3 }
+  ): EmulatedHitTestResult[] {
+    const origin = offsetRay.origin.clone().applyMatrix4(rayWorld);
+    const direction = offsetRay.direction.clone().transformDirection(rayWorld);
+
+    return raycastRoom(this.session.room, origin, direction).map((hit) => {
+      const world = new THREE.Matrix4().compose(
+        hit.position,
+        hit.plane.quaternion,
+        new THREE.Vector3(1, 1, 1)
+      );
+      return new EmulatedHitTestResult(world);
+    });
+  }
+}
+
+export class EmulatedInputSourceEvent
+  extends Event
+  implements XRInputSourceEvent
+{
+  declare readonly type: XRInputSourceEventType;
+
+  constructor(
+    type: XRInputSourceEventType,
+    readonly frame: XRFrame,
+    readonly inputSource: EmulatedInputSource
+  ) {
+    super(type);
+  }
+}
+
+export interface EmulatedInputSource extends XRInputSource {
+  readonly handedness: "none";
+  readonly targetRayMode: "screen";
+  readonly targetRaySpace: EmulatedReferenceSpace;
+}
+
+// A tap: a transient "screen" input along the given room-space target ray
+export function createScreenInputSource(
+  targetRay: () => THREE.Matrix4
+): EmulatedInputSource {
+  return {
+    handedness: "none",
+    targetRayMode: "screen",
+    targetRaySpace: new EmulatedReferenceSpace("target-ray", targetRay),
+    profiles: ["generic-touchscreen"],
+  };
+}
+
+// Dispatches the events of a tap, from selectstart to selectend
+export function dispatchSelect(
+  session: EventTarget,
+  frame: XRFrame,
+  inputSource: EmulatedInputSource
+) {
+  for (const type of ["selectstart", "select", "selectend"] as const) {
+    session.dispatchEvent(
+      new EmulatedInputSourceEvent(type, frame, inputSource)
+    );
+  }
+}
+
+export interface EmulatedSessionInit {
+  requiredFeatures?: string[];
+  optionalFeatures?: string[];
+  depthSensing?: {
+    usagePreference: string[];
+    dataFormatPreference: string[];
+  };
+}
+
+// What the emulated and the replayed session have in common: an always
+// visible AR session that the app renders itself with a regular camera
+export abstract class EmulatedSessionBase
+  extends EventTarget
+  implements XRSession
+{
+  readonly environmentBlendMode = "alpha-blend";
+  readonly visibilityState = "visible";
+  readonly isSystemKeyboardSupported = false;
+  readonly inputSources: EmulatedInputSource[] = [];
+  readonly renderState: XRRenderState = { depthNear: NEAR, depthFar: FAR };
+
+  // Event handler attributes exist for the interface only; the app listens
+  // with addEventListener
+  declare onend: XRSessionEventHandler;
+  declare oninputsourceschange: XRInputSourcesChangeEventHandler;
+  declare onselect: XRInputSourceEventHandler;
+  declare onselectstart: XRInputSourceEventHandler;
+  declare onselectend: XRInputSourceEventHandler;
+  declare onsqueeze: XRInputSourceEventHandler;
+  declare onsqueezestart: XRInputSourceEventHandler;
+  declare onsqueezeend: XRInputSourceEventHandler;
+  declare onvisibilitychange: XRSessionEventHandler;
+  declare onframeratechange: XRSessionEventHandler;
+
+  abstract end(): Promise<void>;
+  abstract requestReferenceSpace(type: string): Promise<XRReferenceSpace>;
+  abstract requestAnimationFrame(callback: XRFrameRequestCallback): number;
+  abstract cancelAnimationFrame(id: number): void;
+
+  async updateRenderState() {
+    // Rendering is done by the app with a regular camera; nothing to configure
+  }
+
+  async updateTargetFrameRate() {
+    // Frames follow the page's (or the recording's) pace
+  }
+}
+
+export class EmulatedXRSession extends EmulatedSessionBase {
+  readonly enabledFeatures: string[];
+  readonly detectedPlanes: Set<EmulatedPlane> | undefined;
+  readonly trackedAnchors: Set<EmulatedAnchor> | undefined;
+  // Only CPU depth in luminance-alpha format is emulated
+  readonly depthUsage: "cpu-optimized" | undefined;
+  readonly depthDataFormat: "luminance-alpha" | undefined;
+
+  private readonly controls: ViewerControls;
+  private readonly camera: THREE.PerspectiveCamera;
+  private readonly viewerWorld = new THREE.Matrix4();
+  private callbacks = new Map<number, XRFrameRequestCallback>();
+  private nextCallbackId = 1;
+  private rafHandle: number | null = null;
+  private lastTime: number | null = null;
+  private ended = false;
+
+  constructor(
+    readonly mode: XRSessionMode,
+    readonly room: EmulatedRoom,
+    readonly anchorStore: EmulatedAnchorStore,
+    init: EmulatedSessionInit,
+    private readonly onEnd: () => void
+  ) {
+    super();
+    const requested = [
+      ...(init.requiredFeatures ?? []),
+      ...(init.optionalFeatures ?? []),
+    ];
+    this.enabledFeatures = requested.filter(
+      (feature) =>
+        EMULATED_FEATURES.includes(feature) &&
+        (feature !== "depth-sensing" || acceptsEmulatedDepth(init))
+    );
+    if (this.enabledFeatures.includes("plane-detection")) {
+      this.detectedPlanes = new Set(
+        room.planes.map((plane) => new EmulatedPlane(plane))
+      );
+    }
+    if (this.enabledFeatures.includes("anchors")) {
+      this.trackedAnchors = new Set();
+    }
+    if (this.enabledFeatures.includes("depth-sensing")) {
+      this.depthUsage = "cpu-optimized";
+      this.depthDataFormat = "luminance-alpha";
+    }
+
+    this.camera = new THREE.PerspectiveCamera(
+      EMULATED_FOV,
+      window.innerWidth / window.innerHeight,
+      NEAR,
+      FAR
+    );
+    this.controls = new ViewerControls(room.viewerStart);
+    this.controls.attach(this.handleTap);
+    this.updateViewer(0);
+  }
+
+  async end(): Promise<void> {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.controls.detach();
+    if (this.rafHandle !== null) {
+      cancelAnimationFrame(this.rafHandle);
+      this.rafHandle = null;
+    }
+    this.callbacks.clear();
+    this.onEnd();
+    this.dispatchEvent(new Event("end"));
+  }
+
+  async requestReferenceSpace(type: string): Promise<EmulatedReferenceSpace> {
+    if (!SUPPORTED_REFERENCE_SPACES.includes(type)) {
+      throw new DOMException(
+        `Reference space "${type}" is not supported by the emulator`,
+        "NotSupportedError"
+      );
+    }
+
+    let resolveOrigin: () => THREE.Matrix4;
+    if (type === "viewer") {
+      resolveOrigin = () => this.viewerWorld;
+    } else if (type === "local") {
+      // Local starts at the initial eye position
+      const origin = new THREE.Matrix4().makeTranslation(
+        this.room.viewerStart.x,
+        this.room.viewerStart.y,
+        this.room.viewerStart.z
+      );
+      resolveOrigin = () => origin;
+    } else {
+      const origin = new THREE.Matrix4();
+      resolveOrigin = () => origin;
+    }
+
+    return new EmulatedReferenceSpace(type, resolveOrigin);
+  }
+
+  async requestHitTestSource(options: {
+    space: XRSpace;
+    offsetRay?: XRRay;
+  }): Promise<EmulatedHitTestSource> {
+    if (!this.enabledFeatures.includes("hit-test")) {
+      throw new DOMException(
+        "hit-test feature not enabled",
+        "NotSupportedError"
+      );
+    }
+
+    const offsetRay = options.offsetRay
+      ? {
+          origin: new THREE.Vector3(
+            options.offsetRay.origin.x,
+            options.offsetRay.origin.y,
+            options.offsetRay.origin.z
+          ),
+          direction: new THREE.Vector3(
+            options.offsetRay.direction.x,
+            options.offsetRay.direction.y,
+            options.offsetRay.direction.z
+          ).normalize(),
+        }
+      : { origin: new THREE.Vector3(), direction: FORWARD.clone() };
+
+    return new EmulatedHitTestSource(emulatedSpace(options.space), offsetRay);
+  }
+
+  async requestHitTestSourceForTransientInput(options: {
+    profile: string;
+  }): Promise<EmulatedTransientInputHitTestSource> {
+    if (!this.enabledFeatures.includes("hit-test")) {
+      throw new DOMException(
+        "hit-test feature not enabled",
+        "NotSupportedError"
+      );
+    }
+    return new EmulatedTransientInputHitTestSource(options.profile);
+  }
+
+  get persistentAnchors(): string[] {
+    return this.trackedAnchors ? this.anchorStore.handles : [];
+  }
+
+  async restorePersistentAnchor(uuid: string): Promise<EmulatedAnchor> {
+    const world = this.anchorStore.get(uuid);
+    if (!world) {
+      throw new DOMException(
+        `Unknown persistent anchor "${uuid}"`,
+        "InvalidStateError"
+      );
+    }
+    return this.trackAnchor(world, uuid);
+  }
+
+  async deletePersistentAnchor(uuid: string): Promise<void> {
+    if (!this.anchorStore.remove(uuid)) {
+      throw new DOMException(
+        `Unknown persistent anchor "${uuid}"`,
+        "InvalidStateError"
+      );
+    }
+  }
+
+  trackAnchor(world: THREE.Matrix4, handle?: string): EmulatedAnchor {
+    if (!this.trackedAnchors) {
+      throw new DOMException(
+        "anchors feature not enabled",
+        "NotSupportedError"
+      );
+    }
+    const anchor = new EmulatedAnchor(this, world, handle);
+    this.trackedAnchors.add(anchor);
+    return anchor;
+  }
+
+  requestAnimationFrame(callback: XRFrameRequestCallback): number {
+    const id = this.nextCallbackId++;
+    if (this.ended) {
+      return id;
+    }
+    this.callbacks.set(id, callback);
+    if (this.rafHandle === null) {
+      this.rafHandle = window.requestAnimationFrame(this.tick);
+    }
+    return id;
+  }
+
+  cancelAnimationFrame(id: number) {
+    this.callbacks.delete(id);
+  }
+
+  private tick = (time: number) => {
+    this.rafHandle = null;
+    const deltaSeconds =
+      this.lastTime === null ? 0 : Math.min((time - this.lastTime) / 1000, 0.1);
+    this.lastTime = time;
+    this.updateViewer(deltaSeconds);
+
+    const frame = this.createFrame(time);
+
+    // Callbacks queued during this frame run on the next one
+    const callbacks = this.callbacks;
+    this.callbacks = new Map();
+    for (const callback of callbacks.values()) {
+      callback(time, frame);
+    }
+  };
+
+  private createFrame(time: number): EmulatedFrame {
+    return new EmulatedFrame(
+      this,
+      time,
+      this.viewerWorld.clone(),
+      this.camera.projectionMatrix.clone()
+    );
+  }
+
+  private updateViewer(deltaSeconds: number) {
+    this.controls.update(deltaSeconds);
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
+    this.viewerWorld.compose(
+      this.controls.position,
+      this.controls.getQuaternion(new THREE.Quaternion()),
+      new THREE.Vector3(1, 1, 1)
+    );
+  }
+
+  // A tap behaves like a transient "screen" input: overlay elements get a
+  // chance to cancel it through beforexrselect, as with the dom-overlay feature
+  private handleTap = (event: PointerEvent) => {
+    const beforeSelect = new Event("beforexrselect", {
+      bubbles: true,
+      cancelable: true,
+    });
+    event.target?.dispatchEvent(beforeSelect);
+    if (beforeSelect.defaultPrevented) {
+      return;
+    }
+
+    // The input source exists for the duration of the tap, so the
+    // listeners can hit test along it
+    const inputSource = this.createScreenInput(event.clientX, event.clientY);
+    this.inputSources.push(inputSource);
+    dispatchSelect(this, this.createFrame(performance.now()), inputSource);
+    this.inputSources.splice(this.inputSources.indexOf(inputSource), 1);
+  };
+
+  private createScreenInput(x: number, y: number): EmulatedInputSource {
+    const ndcX = (x / window.innerWidth) * 2 - 1;
+    const ndcY = -(y / window.innerHeight) * 2 + 1;
+    const tanHalfFov = Math.tan(THREE.MathUtils.degToRad(EMULATED_FOV / 2));
+    const direction = new THREE.Vector3(
+      ndcX * tanHalfFov * this.camera.aspect,
+      ndcY * tanHalfFov,
+      -1
+    ).normalize();
+    const rotation = new THREE.Matrix4().makeRotationFromQuaternion(
+      new THREE.Quaternion().setFromUnitVectors(FORWARD, direction)
+    );
+    const viewerAtTap = this.viewerWorld.clone();
+
+    return createScreenInputSource(() =>
+      viewerAtTap.clone().multiply(rotation)
+    );
+  }
+}
+
+// An empty preference list leaves the choice to the runtime
+function acceptsEmulatedDepth(init: EmulatedSessionInit): boolean {
+  const usage = init.depthSensing?.usagePreference ?? [];
+  const format = init.depthSensing?.dataFormatPreference ?? [];
+  return (
+    (usage.length === 0 || usage.includes("cpu-optimized")) &&
+    (format.length === 0 || format.includes("luminance-alpha"))
+  );
+}
@@ -0,0 +1,72 @@
+import { EmulatedAnchorStore } from "@/lib/xr/emulator/anchors";
+import {
+  EMULATED_FEATURES,
+  EmulatedXRSession,
+  type EmulatedSessionInit,
+} from "@/lib/xr/emulator/EmulatedXRSession";
+import { createDefaultRoom, type EmulatedRoom } from "@/lib/xr/emulator/room";
+
+const SUPPORTED_MODES = ["immersive-ar", "inline"];
+
+// Stand-in for navigator.xr that simulates an AR device in a virtual room
+export class EmulatedXRSystem extends EventTarget implements XRSystem {
+  // The emulated device is always there and never grants sessions itself
+  ondevicechange: XRSystemDeviceChangeEventHandler | null = null;
+  onsessiongranted: XRSystemSessionGrantedEventHandler | null = null;
+
+  private activeSession: EmulatedXRSession | null = null;
+  private readonly anchorStore = new EmulatedAnchorStore();
+
+  constructor(readonly room: EmulatedRoom = createDefaultRoom()) {
+    super();
+  }
+
+  async isSessionSupported(mode: string): Promise<boolean> {
+    return SUPPORTED_MODES.includes(mode);
+  }
+
+  async requestSession(
+    mode: XRSessionMode,
+    options: EmulatedSessionInit = {}
+  ): Promise<EmulatedXRSession> {
+    if (!SUPPORTED_MODES.includes(mode)) {
+      throw new DOMException(
+        `Session mode "${mode}" is not supported by the emulator`,
+        "NotSupportedError"
+      );
+    }
+
+    const unsupported = (options.requiredFeatures ?? []).filter(
+      (feature) => !EMULATED_FEATURES.includes(feature)
+    );
+    if (unsupported.length > 0) {
+      throw new DOMException(
+        `Required features not supported by the emulator: ${unsupported.join(", ")}`,
+        "NotSupportedError"
+      );
+    }
+
+    if (mode !== "inline" && this.activeSession) {
+      throw new DOMException(
+        "An immersive session is already active",
+        "InvalidStateError"
+      );
+    }
+
+    const session = new EmulatedXRSession(
+      mode,
+      this.room,
+      this.anchorStore,
+      options,
+      () => {
+        if (this.activeSession === session) {
+          this.activeSession = null;
+        }
+      }
+    );
+    if (mode !== "inline") {
+      this.activeSession = session;
+    }
+    return session;
+  }
+}
@@ -0,0 +1,57 @@
+import * as THREE from "three";
+import { eventLog } from "@/lib/debug/eventLog";
+
+const STORAGE_KEY = "xr-emulator:anchors";
+
+// Poses of persistent anchors, in emulated room coordinates. Kept in
+// localStorage so they survive reloads like on a real device.
+export class EmulatedAnchorStore {
+  private readonly poses = new Map<string, number[]>();
+
+  constructor() {
+    if (typeof localStorage === "undefined") {
+      return;
+    }
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+      for (const [uuid, elements] of Object.entries(saved)) {
+        if (Array.isArray(elements) && elements.length === 16) {
+          this.poses.set(uuid, elements);
+        }
+      }
+    } catch (err) {
+      eventLog.warn("anchors", "Ignoring unreadable emulated anchors", err);
+    }
+  }
+
+  get handles(): string[] {
+    return Array.from(this.poses.keys());
+  }
+
+  get(uuid: string): THREE.Matrix4 | null {
+    const elements = this.poses.get(uuid);
+    return elements ? new THREE.Matrix4().fromArray(elements) : null;
+  }
+
+  save(uuid: string, world: THREE.Matrix4) {
+    this.poses.set(uuid, world.toArray());
+    this.persist();
+  }
+
+  remove(uuid: string): boolean {
+    const removed = this.poses.delete(uuid);
+    if (removed) {
+      this.persist();
+    }
+    return removed;
+  }
+
+  private persist() {
+    if (typeof localStorage !== "undefined") {
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify(Object.fromEntries(this.poses))
+      );
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import * as THREE from "three";
+
+export type RoomPlaneLabel = "floor" | "table" | "wall";
+
+// A rectangular surface in the emulated room. Like XRPlane, the plane's
+// local Y axis is the surface normal and its extent lies in local X/Z.
+export interface RoomPlane {
+  id: string;
+  label: RoomPlaneLabel;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  width: number;
+  depth: number;
+}
+
+export interface RoomHit {
+  plane: RoomPlane;
+  distance: number;
+  position: THREE.Vector3;
+}
+
+export interface EmulatedRoom {
+  planes: RoomPlane[];
+  // Initial viewer position, in floor-origin coordinates
+  viewerStart: THREE.Vector3;
+}
+
+export function createDefaultRoom(): EmulatedRoom {
+  return {
+    planes: [
+      {
+        id: "floor",
+        label: "floor",
+        position: new THREE.Vector3(0, 0, 0),
+        quaternion: new THREE.Quaternion(),
+        width: 6,
+        depth: 6,
+      },
+      {
+        id: "table",
+        label: "table",
+        position: new THREE.Vector3(0, 0.75, -1.2),
+        quaternion: new THREE.Quaternion(),
+        width: 1.2,
+        depth: 0.8,
+      },
+      {
+        id: "back-wall",
+        label: "wall",
+        position: new THREE.Vector3(0, 1.5, -3),
+        // Rotate +Y (the normal) to face +Z, into the room
+        quaternion: new THREE.Quaternion().setFromAxisAngle(
+          new THREE.Vector3(1, 0, 0),
+          Math.PI / 2
+        ),
+        width: 6,
+        depth: 3,
+      },
+    ],
+    viewerStart: new THREE.Vector3(0, 1.6, 0),
+  };
+}
+
+const localOrigin = new THREE.Vector3();
+const localDirection = new THREE.Vector3();
+const inverseRotation = new THREE.Quaternion();
+
+// Deterministic ray cast against the room planes. Only front faces count,
+// so the camera never "sees" a surface from underneath. Results are sorted
+// nearest first, mirroring XRFrame.getHitTestResults.
+export function raycastRoom(
+  room: EmulatedRoom,
+  origin: THREE.Vector3,
+  direction: THREE.Vector3
+): RoomHit[] {
+  const hits: RoomHit[] = [];
+
+  for (const plane of room.planes) {
+    inverseRotation.copy(plane.quaternion).invert();
+    localOrigin
+      .copy(origin)
+      .sub(plane.position)
+      .applyQuaternion(inverseRotation);
+    localDirection.copy(direction).applyQuaternion(inverseRotation);
+
+    if (localOrigin.y <= 0 || localDirection.y >= 0) {
+      continue;
+    }
+
+    const distance = -localOrigin.y / localDirection.y;
+    const x = localOrigin.x + localDirection.x * distance;
+    const z = localOrigin.z + localDirection.z * distance;
+    if (Math.abs(x) > plane.width / 2 || Math.abs(z) > plane.depth / 2) {
+      continue;
+    }
+
+    hits.push({
+      plane,
+      distance,
+      position: origin.clone().addScaledVector(direction, distance),
+    });
+  }
+
+  return hits.sort((a, b) => a.distance - b.distance);
+}
+
+// Visible stand-in for the camera feed so the room can be seen on desktop
+export function createRoomPreview(room: EmulatedRoom): THREE.Object3D {
+  const group = new THREE.Group();
+  group.name = "emulated-room";
+
+  const colors: Record<RoomPlaneLabel, number> = {
+    floor: 0x3a3f4b,
+    table: 0x8b5a2b,
+    wall: 0x5a6270,
+  };
+
+  for (const plane of room.planes) {
+    const geometry = new THREE.PlaneGeometry(plane.width, plane.depth).rotateX(
+      -Math.PI / 2
+    );
+    const material = new THREE.MeshStandardMaterial({
+      color: colors[plane.label],
+      roughness: 0.9,
+      // Push the surface back slightly so reticles drawn on it don't z-fight
+      polygonOffset: true,
+      polygonOffsetFactor: 1,
+      polygonOffsetUnits: 1,
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.position.copy(plane.position);
+    mesh.quaternion.copy(plane.quaternion);
+    group.add(mesh);
+  }
+
+  const floor = room.planes.find((plane) => plane.label === "floor");
+  if (floor) {
+    const grid = new THREE.GridHelper(
+      Math.max(floor.width, floor.depth),
+      Math.max(floor.width, floor.depth) * 2,
+      0x888888,
+      0x555555
+    );
+    grid.position.copy(floor.position).add(new THREE.Vector3(0, 0.001, 0));
+    group.add(grid);
+  }
+
+  return group;
+}
@@ -0,0 +1,129 @@
+import * as THREE from "three";
+
+const MOVE_SPEED = 1.5; // metres per second
+const LOOK_SPEED = 0.005; // radians per pixel
+const CLICK_TOLERANCE = 5; // pixels a pointer may travel and still count as a tap
+const MAX_PITCH = Math.PI / 2 - 0.01;
+
+// Keyboard/mouse driven viewer pose for the emulated XR device.
+// WASD or arrow keys move, Q/E lower and raise, dragging looks around.
+export class ViewerControls {
+  readonly position = new THREE.Vector3();
+  yaw = 0;
+  pitch = 0;
+
+  private readonly keys = new Set<string>();
+  private pointerStart: { x: number; y: number } | null = null;
+  private lastPointer = { x: 0, y: 0 };
+  private dragging = false;
+  private onTap: ((event: PointerEvent) => void) | null = null;
+
+  constructor(start: THREE.Vector3) {
+    this.position.copy(start);
+    // Start looking slightly down so a surface is in view right away
+    this.pitch = -0.5;
+  }
+
+  attach(onTap: (event: PointerEvent) => void) {
+    this.onTap = onTap;
+    window.addEventListener("keydown", this.handleKeyDown);
+    window.addEventListener("keyup", this.handleKeyUp);
+    window.addEventListener("blur", this.handleBlur);
+    window.addEventListener("pointerdown", this.handlePointerDown);
+    window.addEventListener("pointermove", this.handlePointerMove);
+    window.addEventListener("pointerup", this.handlePointerUp);
+  }
+
+  detach() {
+    this.onTap = null;
+    this.keys.clear();
+    window.removeEventListener("keydown", this.handleKeyDown);
+    window.removeEventListener("keyup", this.handleKeyUp);
+    window.removeEventListener("blur", this.handleBlur);
+    window.removeEventListener("pointerdown", this.handlePointerDown);
+    window.removeEventListener("pointermove", this.handlePointerMove);
+    window.removeEventListener("pointerup", this.handlePointerUp);
+  }
+
+  update(deltaSeconds: number) {
+    const forward = this.axis(["w", "arrowup"], ["s", "arrowdown"]);
+    const strafe = this.axis(["d", "arrowright"], ["a", "arrowleft"]);
+    const lift = this.axis(["e"], ["q"]);
+    if (!forward && !strafe && !lift) {
+      return;
+    }
+
+    const step = MOVE_SPEED * deltaSeconds;
+    const sin = Math.sin(this.yaw);
+    const cos = Math.cos(this.yaw);
+    this.position.x += (-sin * forward + cos * strafe) * step;
+    this.position.z += (-cos * forward - sin * strafe) * step;
+    this.position.y = Math.max(0.1, this.position.y + lift * step);
+  }
+
+  getQuaternion(target: THREE.Quaternion): THREE.Quaternion {
+    return target.setFromEuler(new THREE.Euler(this.pitch, this.yaw, 0, "YXZ"));
+  }
+
+  private axis(positive: string[], negative: string[]) {
+    const isDown = (keys: string[]) => keys.some((key) => this.keys.has(key));
+    return Number(isDown(positive)) - Number(isDown(negative));
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) {
+      return;
+    }
+    this.keys.add(event.key.toLowerCase());
+  };
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    this.keys.delete(event.key.toLowerCase());
+  };
+
+  private handleBlur = () => {
+    this.keys.clear();
+  };
+
+  private handlePointerDown = (event: PointerEvent) => {
+    // Already claimed by the page (e.g. dragging a placed object)
+    if (event.defaultPrevented) {
+      return;
+    }
+    this.pointerStart = { x: event.clientX, y: event.clientY };
+    this.lastPointer = { x: event.clientX, y: event.clientY };
+    this.dragging = false;
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.pointerStart) {
+      return;
+    }
+    const travelled = Math.hypot(
+      event.clientX - this.pointerStart.x,
+      event.clientY - this.pointerStart.y
+    );
+    if (travelled > CLICK_TOLERANCE) {
+      this.dragging = true;
+    }
+    if (this.dragging) {
+      this.yaw -= (event.clientX - this.lastPointer.x) * LOOK_SPEED;
+      this.pitch = THREE.MathUtils.clamp(
+        this.pitch - (event.clientY - this.lastPointer.y) * LOOK_SPEED,
+        -MAX_PITCH,
+        MAX_PITCH
+      );
+    }
+    this.lastPointer = { x: event.clientX, y: event.clientY };
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    const wasTap = this.pointerStart !== null && !this.dragging;
+    this.pointerStart = null;
+    this.dragging = false;
+    if (wasTap) {
+      this.onTap?.(event);
+    }
+  };
+}
@@ -0,0 +1,261 @@
+import * as THREE from "three";
+import {
+  createScreenInputSource,
+  dispatchSelect,
+  EmulatedHitTestResult,
+  EmulatedReferenceSpace,
+  EmulatedSessionBase,
+  EmulatedTransientInputHitTestResult,
+  EmulatedView,
+  type EmulatedInputSource,
+  emulatedSpace,
+  poseIn,
+} from "@/lib/xr/emulator/EmulatedXRSession";
+import {
+  decodePose,
+  type RecordedFrame,
+  type RecordedPose,
+  type SessionRecording,
+} from "@/lib/xr/replay/recording";
+
+const REPLAY_REFERENCE_SPACES = ["viewer", "local-floor"];
+// Features a replay can reproduce; planes, anchors, depth and light
+// estimation are not recorded
+export const REPLAY_FEATURES = [
+  ...REPLAY_REFERENCE_SPACES,
+  "hit-test",
+  "dom-overlay",
+];
+
+// Like the emulator, the replay implements the WebXR interfaces with real
+// behavior only where the app needs it, reusing the emulator's spaces and
+// results. Recorded poses are in local-floor space, so that space's origin
+// is the identity.
+
+// Views carry no projection: the recording doesn't hold one, and the app
+// renders replays with its regular camera
+const IDENTITY = new Float32Array(new THREE.Matrix4().elements);
+
+class ReplayHitTestSource implements XRHitTestSource {
+  cancelled = false;
+
+  cancel() {
+    this.cancelled = true;
+  }
+}
+
+// Hits along the touches of the frame's selects, as recorded
+class ReplayTransientInputHitTestSource
+  implements XRTransientInputHitTestSource
+{
+  cancelled = false;
+
+  constructor(readonly profile: string) {}
+
+  cancel() {
+    this.cancelled = true;
+  }
+}
+
+export class ReplayFrame implements XRFrame {
+  private readonly viewerWorld: THREE.Matrix4 | null;
+
+  constructor(
+    readonly session: ReplayXRSession,
+    private readonly recorded: RecordedFrame,
+    // Touches of the frame's selects, with the hits recorded along them
+    private readonly taps: ReadonlyMap<EmulatedInputSource, RecordedPose[]>
+  ) {
+    this.viewerWorld = recorded.viewer ? decodePose(recorded.viewer) : null;
+  }
+
+  get predictedDisplayTime(): number {
+    return this.recorded.t;
+  }
+
+  getViewerPose(referenceSpace: XRReferenceSpace): XRViewerPose | undefined {
+    if (!this.viewerWorld) {
+      return undefined;
+    }
+    const transform = poseIn(this.viewerWorld, referenceSpace);
+    return {
+      transform,
+      emulatedPosition: false,
+      views: [new EmulatedView(transform, IDENTITY)],
+    };
+  }
+
+  getPose(space: XRSpace, baseSpace: XRSpace): XRPose {
+    const world = emulatedSpace(space).originMatrix;
+    return { transform: poseIn(world, baseSpace), emulatedPosition: false };
+  }
+
+  getHitTestResults(source: XRHitTestSource): EmulatedHitTestResult[] {
+    if (!(source instanceof ReplayHitTestSource)) {
+      throw new DOMException(
+        "The hit-test source does not belong to the replay",
+        "InvalidStateError"
+      );
+    }
+    if (source.cancelled) {
+      return [];
+    }
+    return this.recorded.hits.map(
+      (hit) => new EmulatedHitTestResult(decodePose(hit))
+    );
+  }
+
+  getHitTestResultsForTransientInput(
+    source: XRTransientInputHitTestSource
+  ): EmulatedTransientInputHitTestResult[] {
+    if (!(source instanceof ReplayTransientInputHitTestSource)) {
+      throw new DOMException(
+        "The hit-test source does not belong to the replay",
+        "InvalidStateError"
+      );
+    }
+    if (source.cancelled) {
+      return [];
+    }
+    return [...this.taps]
+      .filter(([inputSource]) => inputSource.profiles.includes(source.profile))
+      .map(
+        ([inputSource, hits]) =>
+          new EmulatedTransientInputHitTestResult(
+            inputSource,
+            hits.map((hit) => new EmulatedHitTestResult(decodePose(hit)))
+          )
+      );
+  }
+
+  // Depth is not recorded
+  getDepthInformation(): undefined {
+    return undefined;
+  }
+}
+
+// Plays a recording back frame by frame. Nothing happens on its own: the
+// owner calls step() (or ReplayXRSystem.play() for real-time playback), so
+// tests can assert between frames.
+export class ReplayXRSession extends EmulatedSessionBase {
+  readonly mode = "immersive-ar";
+  readonly enabledFeatures: string[];
+
+  private callbacks = new Map<number, XRFrameRequestCallback>();
+  private nextCallbackId = 1;
+  private nextFrame = 0;
+  private viewerWorld = new THREE.Matrix4();
+  private ended = false;
+
+  constructor(
+    private readonly recording: SessionRecording,
+    requestedFeatures: string[],
+    private readonly onEnd: () => void
+  ) {
+    super();
+    this.enabledFeatures = requestedFeatures.filter(
+      (feature) =>
+        REPLAY_FEATURES.includes(feature) &&
+        recording.enabledFeatures.includes(feature)
+    );
+  }
+
+  // Frames played so far
+  get position(): number {
+    return this.nextFrame;
+  }
+
+  get finished(): boolean {
+    return this.ended || this.nextFrame >= this.recording.frames.length;
+  }
+
+  // Play the next recorded frame: dispatch the selects that arrived before
+  // it, then run the frame callbacks. Touch hit tests of the frame report
+  // the hits recorded for its selects. Returns false once the recording is
+  // exhausted.
+  step(): boolean {
+    if (this.finished) {
+      return false;
+    }
+    const recorded = this.recording.frames[this.nextFrame++];
+    const taps = new Map<EmulatedInputSource, RecordedPose[]>();
+    (recorded.selects ?? []).forEach((select, i) => {
+      const ray = decodePose(select);
+      const hits = recorded.selectHits?.[i] ?? [];
+      taps.set(createScreenInputSource(() => ray), hits);
+    });
+    const frame = new ReplayFrame(this, recorded, taps);
+    if (recorded.viewer) {
+      this.viewerWorld = decodePose(recorded.viewer);
+    }
+
+    for (const inputSource of taps.keys()) {
+      dispatchSelect(this, frame, inputSource);
+    }
+
+    // Callbacks queued during this frame run on the next one
+    const callbacks = this.callbacks;
+    this.callbacks = new Map();
+    for (const callback of callbacks.values()) {
+      callback(recorded.t, frame);
+    }
+    return true;
+  }
+
+  async end(): Promise<void> {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.callbacks.clear();
+    this.onEnd();
+    this.dispatchEvent(new Event("end"));
+  }
+
+  async requestReferenceSpace(type: string): Promise<EmulatedReferenceSpace> {
+    if (!REPLAY_REFERENCE_SPACES.includes(type)) {
+      throw new DOMException(
+        `Reference space "${type}" is not in the recording`,
+        "NotSupportedError"
+      );
+    }
+    const floor = new THREE.Matrix4();
+    return new EmulatedReferenceSpace(type, () =>
+      type === "viewer" ? this.viewerWorld : floor
+    );
+  }
+
+  async requestHitTestSource(): Promise<ReplayHitTestSource> {
+    if (!this.enabledFeatures.includes("hit-test")) {
+      throw new DOMException(
+        "hit-test feature not enabled",
+        "NotSupportedError"
+      );
+    }
+    return new ReplayHitTestSource();
+  }
+
+  async requestHitTestSourceForTransientInput(options: {
+    profile: string;
+  }): Promise<ReplayTransientInputHitTestSource> {
+    if (!this.enabledFeatures.includes("hit-test")) {
+      throw new DOMException(
+        "hit-test feature not enabled",
+        "NotSupportedError"
+      );
+    }
+    return new ReplayTransientInputHitTestSource(options.profile);
+  }
+
+  requestAnimationFrame(callback: XRFrameRequestCallback): number {
+    const id = this.nextCallbackId++;
+    if (!this.ended) {
+      this.callbacks.set(id, callback);
+    }
+    return id;
+  }
+
+  cancelAnimationFrame(id: number) {
+    this.callbacks.delete(id);
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { SessionRecording } from "@/lib/xr/replay/recording";
+import {
+  parseRecording,
+  RecordingFormatError,
+} from "@/lib/xr/replay/recording";
+import { ReplayXRSystem } from "@/lib/xr/replay/ReplayXRSystem";
+import {
+  createRecording,
+  createTestController,
+  floorAt,
+  tapAbove,
+} from "@/test/fakes";
+
+// The reticle rests on the floor a meter ahead; a tap lands elsewhere
+function tapRecording(selectHits?: number[][][]): SessionRecording {
+  return createRecording([
+    { hits: [floorAt(0, -1)] },
+    {
+      hits: [floorAt(0, -1)],
+      selects: [tapAbove(0.3, -1.2)],
+      ...(selectHits && { selectHits }),
+    },
+    { hits: [floorAt(0, -1)] },
+    { hits: [floorAt(0, -1)] },
+  ]);
+}
+
+async function replay(recording: SessionRecording) {
+  const xr = new ReplayXRSystem(recording);
+  const { controller } = createTestController(xr);
+  await controller.checkSupport();
+  await controller.start("immersive-ar");
+  return { xr, controller };
+}
+
+describe("ReplayXRSystem", () => {
+  it("places where the recorded touch hit test landed", async () => {
+    const { xr, controller } = await replay(
+      tapRecording([[floorAt(0.5, -2)]])
+    );
+
+    await xr.runToEnd();
+
+    const [placed] = controller.registry.list();
+    expect(controller.registry.size).toBe(1);
+    expect(placed.object.position.x).toBeCloseTo(0.5);
+    expect(placed.object.position.z).toBeCloseTo(-2);
+  });
+
+  it("ray casts taps of recordings without touch hits", async () => {
+    const { xr, controller } = await replay(tapRecording());
+
+    await xr.runToEnd();
+
+    // The tap's ray meets the reticle's floor right below it
+    const [placed] = controller.registry.list();
+    expect(controller.registry.size).toBe(1);
+    expect(placed.object.position.x).toBeCloseTo(0.3);
+    expect(placed.object.position.z).toBeCloseTo(-1.2);
+  });
+
+  it("records touch hits as the replayed session reports them", async () => {
+    const original = tapRecording([[floorAt(0.5, -2), floorAt(0.5, -3)]]);
+    const { xr, controller } = await replay(original);
+    const recordings: SessionRecording[] = [];
+    controller.on("recording-finished", ({ recording }) =>
+      recordings.push(recording)
+    );
+
+    controller.startRecording();
+    await xr.runToEnd();
+    controller.stopRecording();
+
+    const [recording] = recordings;
+    expect(recording.frames).toHaveLength(original.frames.length);
+    expect(recording.frames[1].selects).toEqual(original.frames[1].selects);
+    expect(recording.frames[1].selectHits).toEqual(
+      original.frames[1].selectHits
+    );
+    expect(parseRecording(recording)).toEqual(recording);
+  });
+
+  it("rejects touch hits that don't line up with the selects", () => {
+    const recording = tapRecording([[floorAt(0.5, -2)], []]);
+    expect(() => parseRecording(recording)).toThrow(RecordingFormatError);
+  });
+});
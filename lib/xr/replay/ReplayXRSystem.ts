@@ -0,0 +1,105 @@
+import { ReplayXRSession } from "@/lib/xr/replay/ReplayXRSession";
+import type { SessionRecording } from "@/lib/xr/replay/recording";
+
+interface ReplaySessionInit {
+  requiredFeatures?: string[];
+  optionalFeatures?: string[];
+}
+
+// Stand-in for navigator.xr that plays a SessionRecording back through the
+// app's frame handling. Hand it to ARSessionController as `xr`, start an AR
+// session, then drive the frames:
+//
+//   const replay = new ReplayXRSystem(recording);
+//   const controller = new ARSessionController({ xr: replay, ... });
+//   await controller.checkSupport();
+//   await controller.start();
+//   replay.runToEnd();
+//   // assert on controller.registry
+export class ReplayXRSystem extends EventTarget implements XRSystem {
+  // A recording has no device to change and grants nothing
+  ondevicechange: XRSystemDeviceChangeEventHandler | null = null;
+  onsessiongranted: XRSystemSessionGrantedEventHandler | null = null;
+
+  private activeSession: ReplayXRSession | null = null;
+
+  constructor(readonly recording: SessionRecording) {
+    super();
+  }
+
+  get session(): ReplayXRSession | null {
+    return this.activeSession;
+  }
+
+  async isSessionSupported(mode: string): Promise<boolean> {
+    return mode === this.recording.mode;
+  }
+
+  async requestSession(
+    mode: string,
+    options: ReplaySessionInit = {}
+  ): Promise<ReplayXRSession> {
+    if (mode !== this.recording.mode) {
+      throw new DOMException(
+        `The recording holds a ${this.recording.mode} session, not ${mode}`,
+        "NotSupportedError"
+      );
+    }
+    if (this.activeSession) {
+      throw new DOMException(
+        "An immersive session is already active",
+        "InvalidStateError"
+      );
+    }
+
+    const missing = (options.requiredFeatures ?? []).filter(
+      (feature) => !this.recording.enabledFeatures.includes(feature)
+    );
+    if (missing.length > 0) {
+      throw new DOMException(
+        `Required features missing from the recording: ${missing.join(", ")}`,
+        "NotSupportedError"
+      );
+    }
+
+    const session = new ReplayXRSession(
+      this.recording,
+      [...(options.requiredFeatures ?? []), ...(options.optionalFeatures ?? [])],
+      () => {
+        if (this.activeSession === session) {
+          this.activeSession = null;
+        }
+      }
+    );
+    this.activeSession = session;
+    return session;
+  }
+
+  // Play one frame; false when there is no session or nothing left
+  step(): boolean {
+    return this.activeSession?.step() ?? false;
+  }
+
+  // Play every remaining frame and return how many ran. Async work started
+  // by a frame (model loading, anchors) settles between frames, as it would
+  // on a device.
+  async runToEnd(): Promise<number> {
+    let frames = 0;
+    while (this.step()) {
+      frames++;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return frames;
+  }
+
+  // Real-time playback, paced by the recorded timestamps
+  async play(): Promise<void> {
+    const frames = this.recording.frames;
+    while (this.activeSession && !this.activeSession.finished) {
+      const index = this.activeSession.position;
+      const delay = index > 0 ? frames[index].t - frames[index - 1].t : 0;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      this.step();
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  encodePose,
+  RECORDING_FORMAT,
+  RECORDING_VERSION,
+  type RecordedFrame,
+  type RecordedPose,
+  type SessionRecording,
+} from "@/lib/xr/replay/recording";
+
+// Captures what an AR frame loop consumes from the device: the viewer pose,
+// hit-test results and select events with the hits along their touches,
+// with their timestamps. Feed the result to ReplayXRSystem to run the same
+// frames again without a device.
+export class SessionRecorder {
+  private readonly frames: RecordedFrame[] = [];
+  private pendingSelects: RecordedPose[] = [];
+  private pendingSelectHits: RecordedPose[][] = [];
+  // Touch hit testing the app reads, and what it found on the last frame
+  private tapHitTestSource: XRTransientInputHitTestSource | null = null;
+  private tapHits = new Map<XRInputSource, RecordedPose[]>();
+  private startTime: number | null = null;
+  private readonly recordedAt = new Date().toISOString();
+  private stopped = false;
+
+  constructor(
+    private readonly session: XRSession,
+    // Must be the session's local-floor space
+    private readonly space: XRReferenceSpace
+  ) {
+    session.addEventListener("select", this.handleSelect);
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  // Call at the start of every XR frame, with the hit-test sources whose
+  // results the app reads
+  captureFrame(
+    time: number,
+    frame: XRFrame,
+    hitTestSource: XRHitTestSource | null,
+    tapHitTestSource: XRTransientInputHitTestSource | null = null
+  ) {
+    if (this.stopped) {
+      return;
+    }
+    this.startTime ??= time;
+    this.tapHitTestSource = tapHitTestSource;
+    this.tapHits = this.readTapHits(frame);
+
+    const viewer = frame.getViewerPose(this.space);
+    const hits = hitTestSource ? frame.getHitTestResults(hitTestSource) : [];
+    const recorded: RecordedFrame = {
+      t: Math.round((time - this.startTime) * 100) / 100,
+      viewer: viewer ? encodePose(viewer.transform) : null,
+      hits: this.encodeHits(hits),
+    };
+    if (this.pendingSelects.length > 0) {
+      recorded.selects = this.pendingSelects;
+      if (this.tapHitTestSource) {
+        recorded.selectHits = this.pendingSelectHits;
+      }
+      this.pendingSelects = [];
+      this.pendingSelectHits = [];
+    }
+    this.frames.push(recorded);
+  }
+
+  stop(): SessionRecording {
+    this.stopped = true;
+    this.session.removeEventListener("select", this.handleSelect);
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      mode: "immersive-ar",
+      space: "local-floor",
+      // Runtimes that don't report features still granted the ones the app
+      // requires
+      enabledFeatures: this.session.enabledFeatures
+        ? [...this.session.enabledFeatures]
+        : ["local-floor", "hit-test"],
+      recordedAt: this.recordedAt,
+      frames: this.frames,
+    };
+  }
+
+  private handleSelect = (event: Event) => {
+    const { frame, inputSource } = event as XRInputSourceEvent;
+    const pose = frame?.getPose(inputSource.targetRaySpace, this.space);
+    if (!pose) {
+      return;
+    }
+    this.pendingSelects.push(encodePose(pose.transform));
+    // Like the app, fall back to the last frame's hits when the select's own
+    // frame has none
+    let hits: RecordedPose[] | undefined;
+    try {
+      hits = this.readTapHits(frame).get(inputSource);
+    } catch {
+      // Not an animation frame
+    }
+    this.pendingSelectHits.push(hits ?? this.tapHits.get(inputSource) ?? []);
+  };
+
+  private readTapHits(frame: XRFrame): Map<XRInputSource, RecordedPose[]> {
+    const hits = new Map<XRInputSource, RecordedPose[]>();
+    if (!this.tapHitTestSource) {
+      return hits;
+    }
+    for (const hit of frame.getHitTestResultsForTransientInput(
+      this.tapHitTestSource
+    )) {
+      hits.set(hit.inputSource, this.encodeHits(hit.results));
+    }
+    return hits;
+  }
+
+  private encodeHits(hits: readonly XRHitTestResult[]): RecordedPose[] {
+    return hits
+      .map((hit) => hit.getPose(this.space))
+      .filter((pose): pose is XRPose => pose !== undefined && pose !== null)
+      .map((pose) => encodePose(pose.transform));
+  }
+}
@@ -0,0 +1,197 @@
+import * as THREE from "three";
+import { downloadJSON } from "@/lib/util/download";
+import { isRecord } from "@/lib/util/isRecord";
+
+export const RECORDING_FORMAT = "xr-session-recording";
+export const RECORDING_VERSION = 1;
+export const RECORDING_FILE_EXTENSION = ".xrrec.json";
+
+// Position and orientation in the recording's reference space, flattened:
+// [px, py, pz, qx, qy, qz, qw]
+export type RecordedPose = number[];
+
+export interface RecordedFrame {
+  // Milliseconds since the first recorded frame
+  t: number;
+  // Null while the device had lost tracking
+  viewer: RecordedPose | null;
+  // Hit-test results of the app's hit-test source, nearest first
+  hits: RecordedPose[];
+  // Target rays of select events that arrived since the previous frame
+  selects?: RecordedPose[];
+  // Hit-test results along each select's touch, nearest first, in the order
+  // of `selects`. Missing when the runtime had no hit testing for touches.
+  selectHits?: RecordedPose[][];
+}
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  mode: "immersive-ar";
+  // Reference space every pose is expressed in
+  space: "local-floor";
+  enabledFeatures: string[];
+  recordedAt: string;
+  frames: RecordedFrame[];
+}
+
+export class RecordingFormatError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid session recording: ${issues.join("; ")}`);
+    this.name = "RecordingFormatError";
+  }
+}
+
+// Five decimals keep poses to a hundredth of a millimeter while keeping the
+// file small
+const PRECISION = 1e5;
+
+export function encodePose(transform: XRRigidTransform): RecordedPose {
+  const { position: p, orientation: q } = transform;
+  return [p.x, p.y, p.z, q.x, q.y, q.z, q.w].map(
+    (value) => Math.round(value * PRECISION) / PRECISION
+  );
+}
+
+export function decodePose(pose: RecordedPose): THREE.Matrix4 {
+  const [px, py, pz, qx, qy, qz, qw] = pose;
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(px, py, pz),
+    new THREE.Quaternion(qx, qy, qz, qw).normalize(),
+    new THREE.Vector3(1, 1, 1)
+  );
+}
+
+export function parseRecording(input: unknown): SessionRecording {
+  if (!isRecord(input) || input.format !== RECORDING_FORMAT) {
+    throw new RecordingFormatError([`format must be "${RECORDING_FORMAT}"`]);
+  }
+  if (input.version !== RECORDING_VERSION) {
+    throw new RecordingFormatError([
+      `unsupported version ${String(input.version)}`,
+    ]);
+  }
+
+  const issues: string[] = [];
+  if (input.mode !== "immersive-ar") {
+    issues.push('mode must be "immersive-ar"');
+  }
+  if (input.space !== "local-floor") {
+    issues.push('space must be "local-floor"');
+  }
+
+  const enabledFeatures: string[] = [];
+  if (!Array.isArray(input.enabledFeatures)) {
+    issues.push("enabledFeatures must be a list of strings");
+  } else {
+    for (const feature of input.enabledFeatures) {
+      if (typeof feature === "string") {
+        enabledFeatures.push(feature);
+      } else {
+        issues.push("enabledFeatures must be a list of strings");
+        break;
+      }
+    }
+  }
+
+  let recordedAt = "";
+  if (typeof input.recordedAt === "string") {
+    recordedAt = input.recordedAt;
+  } else {
+    issues.push("recordedAt must be a string");
+  }
+
+  const frames: RecordedFrame[] = [];
+  if (!Array.isArray(input.frames)) {
+    issues.push("frames must be a list");
+  } else {
+    input.frames.forEach((frame, i) => {
+      const read = readFrame(frame, `frames[${i}]`, issues);
+      if (read) frames.push(read);
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new RecordingFormatError(issues);
+  }
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    mode: "immersive-ar",
+    space: "local-floor",
+    enabledFeatures,
+    recordedAt,
+    frames,
+  };
+}
+
+export function recordingFileName(recording: SessionRecording): string {
+  const stamp = recording.recordedAt.replace(/[:.]/g, "-");
+  return `session-${stamp}${RECORDING_FILE_EXTENSION}`;
+}
+
+export function downloadRecording(recording: SessionRecording) {
+  // Compact on purpose: recordings hold thousands of frames
+  downloadJSON(recording, recordingFileName(recording), true);
+}
+
+// Collects problems in `issues`; the frame it returns is only meaningful when
+// none were added
+function readFrame(
+  frame: unknown,
+  path: string,
+  issues: string[]
+): RecordedFrame | null {
+  if (!isRecord(frame)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const result: RecordedFrame = { t: 0, viewer: null, hits: [] };
+  if (typeof frame.t === "number") {
+    result.t = frame.t;
+  } else {
+    issues.push(`${path}.t must be a number`);
+  }
+  if (frame.viewer === null || isPose(frame.viewer)) {
+    result.viewer = frame.viewer;
+  } else {
+    issues.push(`${path}.viewer must be a pose or null`);
+  }
+  if (Array.isArray(frame.hits) && frame.hits.every(isPose)) {
+    result.hits = frame.hits;
+  } else {
+    issues.push(`${path}.hits must be a list of poses`);
+  }
+  if (frame.selects !== undefined) {
+    if (Array.isArray(frame.selects) && frame.selects.every(isPose)) {
+      result.selects = frame.selects;
+    } else {
+      issues.push(`${path}.selects must be a list of poses`);
+    }
+  }
+  if (frame.selectHits !== undefined) {
+    if (
+      Array.isArray(frame.selectHits) &&
+      frame.selectHits.every(
+        (hits) => Array.isArray(hits) && hits.every(isPose)
+      ) &&
+      frame.selectHits.length === (result.selects?.length ?? 0)
+    ) {
+      result.selectHits = frame.selectHits;
+    } else {
+      issues.push(
+        `${path}.selectHits must be a list of poses for each select`
+      );
+    }
+  }
+  return result;
+}
+
+function isPose(value: unknown): value is RecordedPose {
+  return (
+    Array.isArray(value) &&
+    value.length === 7 &&
+    value.every((n) => typeof n === "number" && Number.isFinite(n))
+  );
+}
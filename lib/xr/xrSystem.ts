@@ -0,0 +1,35 @@
+import { EmulatedRigidTransformPolyfill } from "@/lib/xr/emulator/EmulatedXRSession";
+import { EmulatedXRSystem } from "@/lib/xr/emulator/EmulatedXRSystem";
+
+// Opt into the desktop emulator with ?xr=emulate
+export const EMULATE_QUERY_PARAM = "xr";
+export const EMULATE_QUERY_VALUE = "emulate";
+
+let emulator: EmulatedXRSystem | null = null;
+
+export function isEmulationRequested(): boolean {
+  if (typeof window === "undefined") {
+    return false;
+  }
+  const params = new URLSearchParams(window.location.search);
+  return params.get(EMULATE_QUERY_PARAM) === EMULATE_QUERY_VALUE;
+}
+
+// Returns the XR system the app should talk to: the emulator when requested,
+// otherwise the browser's navigator.xr (or null when WebXR is unavailable)
+export function getXRSystem(): XRSystem | null {
+  if (isEmulationRequested()) {
+    emulator ??= new EmulatedXRSystem();
+    // Anchor creation needs the XRRigidTransform constructor
+    if (typeof XRRigidTransform === "undefined") {
+      Object.assign(globalThis, {
+        XRRigidTransform: EmulatedRigidTransformPolyfill,
+      });
+    }
+    return emulator;
+  }
+  if (typeof navigator === "undefined" || !("xr" in navigator)) {
+    return null;
+  }
+  return navigator.xr ?? null;
+}
@@ -0,0 +1,26 @@
+// WebSocket relay for shared AR sessions; the rooms are in relay.mjs.
+//
+// Run with `npm run relay`. PORT (default 8787) sets the port.
+
+import { WebSocketServer } from "ws";
+import { createRelay } from "./relay.mjs";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const relay = createRelay();
+
+const server = new WebSocketServer({
+  port: PORT,
+  maxPayload: MAX_MESSAGE_BYTES,
+});
+
+server.on("connection", (socket) => {
+  const connection = relay.connect(socket);
+  socket.on("message", connection.receive);
+  socket.on("close", connection.close);
+});
+
+server.on("listening", () => {
+  console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
+});
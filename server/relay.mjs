@@ -0,0 +1,193 @@
+// Room logic of the collaboration relay (see collab-relay.mjs), apart from
+// the WebSocket server so tests can run rooms in-process. Peers join a room;
+// the relay keeps the room's objects and their versions, accepts an edit
+// only if it was based on the latest version of the object (so concurrent
+// edits can't silently overwrite each other) and forwards edits and
+// presence to the rest of the room. See lib/collab/protocol.ts for the
+// messages.
+
+import { randomBytes } from "node:crypto";
+
+const PROTOCOL_VERSION = 1;
+const ROOM_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_NAME_LENGTH = 32;
+
+// Sockets need readyState, OPEN, send(text) and close(), as ws sockets
+// have. Returns connect(socket), which gives the handlers of the socket's
+// incoming messages and of its closing.
+export function createRelay({ log = console.log } = {}) {
+  // name -> { peers: Map<id, peer>, objects: Map<id, { version, object,
+  // peerId }>, version }. Rooms are dropped once the last peer leaves.
+  const rooms = new Map();
+
+  function connect(socket) {
+    let peer = null;
+    let room = null;
+
+    function receive(data) {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        send(socket, { type: "error", message: "Messages must be JSON" });
+        return;
+      }
+
+      if (!peer) {
+        if (message?.type !== "join") {
+          send(socket, { type: "error", message: "Join a room first" });
+          return;
+        }
+        const joined = join(rooms, socket, message, log);
+        if (joined) {
+          ({ peer, room } = joined);
+        }
+        return;
+      }
+
+      switch (message?.type) {
+        case "op":
+          applyOp(room, peer, message);
+          break;
+        case "presence":
+          peer.pose = message.pose ?? null;
+          peer.editing = message.editing ?? null;
+          broadcast(room, peer, {
+            type: "presence",
+            peerId: peer.id,
+            pose: peer.pose,
+            editing: peer.editing,
+          });
+          break;
+        default:
+          send(socket, { type: "error", message: "Unknown message type" });
+      }
+    }
+
+    function close() {
+      if (!peer) {
+        return;
+      }
+      room.peers.delete(peer.id);
+      if (room.peers.size === 0) {
+        rooms.delete(room.name);
+      } else {
+        broadcast(room, peer, { type: "peer-left", peerId: peer.id });
+      }
+    }
+
+    return { receive, close };
+  }
+
+  return { connect };
+}
+
+function join(rooms, socket, message, log) {
+  if (message.protocol !== PROTOCOL_VERSION) {
+    send(socket, {
+      type: "error",
+      message: `Unsupported protocol ${message.protocol}, relay speaks ${PROTOCOL_VERSION}`,
+    });
+    socket.close();
+    return null;
+  }
+  if (typeof message.room !== "string" || !ROOM_PATTERN.test(message.room)) {
+    send(socket, { type: "error", message: "Invalid room name" });
+    socket.close();
+    return null;
+  }
+
+  let room = rooms.get(message.room);
+  if (!room) {
+    room = {
+      name: message.room,
+      peers: new Map(),
+      objects: new Map(),
+      version: 0,
+    };
+    rooms.set(room.name, room);
+  }
+
+  const peer = {
+    id: randomBytes(6).toString("base64url"),
+    name: String(message.name ?? "").slice(0, MAX_NAME_LENGTH) || "Guest",
+    color: /^#[0-9a-f]{6}$/i.test(message.color) ? message.color : "#888888",
+    pose: null,
+    editing: null,
+    socket,
+  };
+  room.peers.set(peer.id, peer);
+
+  send(socket, {
+    type: "welcome",
+    self: describe(peer),
+    peers: Array.from(room.peers.values())
+      .filter((other) => other !== peer)
+      .map(presenceOf),
+    objects: Array.from(room.objects, ([id, entry]) => ({
+      id,
+      version: entry.version,
+      object: entry.object,
+    })),
+  });
+  broadcast(room, peer, { type: "peer-joined", peer: presenceOf(peer) });
+  log(`${peer.name} joined ${room.name} (${room.peers.size} peers)`);
+  return { peer, room };
+}
+
+// Compare-and-set on the object's version. Deleted objects keep a tombstone
+// so a late edit can't bring them back.
+function applyOp(room, peer, message) {
+  const op = message.op;
+  const id = op?.kind === "delete" ? op.id : op?.object?.id;
+  if (
+    typeof id !== "string" ||
+    (op.kind !== "delete" && op.kind !== "upsert")
+  ) {
+    send(peer.socket, { type: "error", message: "Invalid op" });
+    return;
+  }
+
+  const current = room.objects.get(id);
+  const currentVersion = current?.version ?? 0;
+  if (message.base !== currentVersion || (current && !current.object)) {
+    send(peer.socket, {
+      type: "reject",
+      current: { id, version: currentVersion, object: current?.object ?? null },
+      peerId: current?.peerId ?? null,
+    });
+    return;
+  }
+
+  const version = ++room.version;
+  room.objects.set(id, {
+    version,
+    object: op.kind === "delete" ? null : op.object,
+    peerId: peer.id,
+  });
+  const accepted = { type: "op", op, version, peerId: peer.id };
+  send(peer.socket, accepted);
+  broadcast(room, peer, accepted);
+}
+
+function broadcast(room, from, message) {
+  for (const other of room.peers.values()) {
+    if (other !== from) {
+      send(other.socket, message);
+    }
+  }
+}
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function describe(peer) {
+  return { id: peer.id, name: peer.name, color: peer.color };
+}
+
+function presenceOf(peer) {
+  return { ...describe(peer), pose: peer.pose, editing: peer.editing };
+}
@@ -0,0 +1,119 @@
+import * as THREE from "three";
+import {
+  ARSessionController,
+  type ARRenderer,
+  type ARSessionControllerOptions,
+} from "@/lib/ar/ARSessionController";
+import { fixedViewport } from "@/lib/ar/viewport";
+import { DEFAULT_LOG_CAPACITY, EventLog } from "@/lib/debug/eventLog";
+import {
+  RECORDING_FORMAT,
+  RECORDING_VERSION,
+  type RecordedFrame,
+  type RecordedPose,
+  type SessionRecording,
+} from "@/lib/xr/replay/recording";
+
+// Renderer that draws nothing and counts frames
+export class FakeRenderer implements ARRenderer {
+  // Only the inline viewer listens to the canvas
+  readonly domElement = new EventTarget() as unknown as HTMLCanvasElement;
+  readonly xr = {
+    enabled: false,
+    setSession: async () => {},
+    getCamera: () => new THREE.PerspectiveCamera(),
+  };
+  frames = 0;
+  disposed = false;
+
+  setPixelRatio() {}
+
+  setSize() {}
+
+  render() {
+    this.frames++;
+  }
+
+  setAnimationLoop() {}
+
+  dispose() {
+    this.disposed = true;
+  }
+}
+
+// A controller that needs no browser: it renders to a fake, sizes itself
+// to a fixed viewport and logs quietly to a log of its own
+export function createTestController(
+  xr: XRSystem | null,
+  options: Partial<ARSessionControllerOptions> = {}
+) {
+  const renderer = new FakeRenderer();
+  const log = new EventLog(DEFAULT_LOG_CAPACITY, null);
+  const controller = new ARSessionController({
+    xr,
+    createRenderer: () => renderer,
+    viewport: fixedViewport(400, 800),
+    log,
+    ...options,
+  });
+  return { controller, renderer, log };
+}
+
+// Recorded poses are [px, py, pz, qx, qy, qz, qw]
+export const STANDING_VIEWER: RecordedPose = [0, 1.6, 0, 0, 0, 0, 1];
+
+// A hit on the floor, facing up
+export function floorAt(x: number, z: number): RecordedPose {
+  return [x, 0, z, 0, 0, 0, 1];
+}
+
+// Target ray of a tap that points straight down from eye height at a point
+// on the floor: turned -90° around X, at the recording's precision
+export function tapAbove(x: number, z: number): RecordedPose {
+  return [x, 1.6, z, -0.70711, 0, 0, 0.70711];
+}
+
+export function createRecording(
+  frames: Partial<RecordedFrame>[]
+): SessionRecording {
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    mode: "immersive-ar",
+    space: "local-floor",
+    enabledFeatures: ["viewer", "local-floor", "hit-test"],
+    recordedAt: "2026-01-01T00:00:00.000Z",
+    frames: frames.map((frame, index) => ({
+      t: index * 16,
+      viewer: STANDING_VIEWER,
+      hits: [],
+      ...frame,
+    })),
+  };
+}
+
+// An XR system whose answers the test decides
+export class FakeXRSystem extends EventTarget implements XRSystem {
+  ondevicechange: XRSystemDeviceChangeEventHandler | null = null;
+  onsessiongranted: XRSystemSessionGrantedEventHandler | null = null;
+
+  constructor(
+    private readonly answers: {
+      isSessionSupported?: (mode: XRSessionMode) => Promise<boolean>;
+      requestSession?: (mode: XRSessionMode) => Promise<XRSession>;
+    }
+  ) {
+    super();
+  }
+
+  isSessionSupported(mode: XRSessionMode): Promise<boolean> {
+    return this.answers.isSessionSupported?.(mode) ?? Promise.resolve(false);
+  }
+
+  requestSession(mode: XRSessionMode): Promise<XRSession> {
+    return (
+      this.answers.requestSession?.(mode) ??
+      Promise.reject(new DOMException("Not supported", "NotSupportedError"))
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import type { CollabSocket } from "@/lib/collab/CollabClient";
+import { createRelay } from "@/server/relay.mjs";
+
+const OPEN = 1;
+
+// The relay's rooms, run in-process. Sockets from createSocket() are handed
+// to CollabClient; messages arrive on a later microtask, as over a network,
+// never inside send().
+export function createTestRelay() {
+  const relay = createRelay({ log: () => {} });
+
+  function createSocket(): CollabSocket {
+    const socket: CollabSocket = {
+      readyState: OPEN,
+      onopen: null,
+      onclose: null,
+      onmessage: null,
+      send: (data) => queueMicrotask(() => connection.receive(data)),
+      close: () => queueMicrotask(() => connection.close()),
+    };
+    const connection = relay.connect({
+      readyState: OPEN,
+      OPEN,
+      send: (text: string) =>
+        queueMicrotask(() => socket.onmessage?.({ data: text })),
+      close: () => socket.onclose?.(),
+    });
+    queueMicrotask(() => socket.onopen?.());
+    return socket;
+  }
+
+  return { createSocket };
+}
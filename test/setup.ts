@@ -0,0 +1,21 @@
+// Browser globals the XR stand-ins rely on that Node lacks
+class DOMPointReadOnlyPolyfill {
+  constructor(
+    readonly x = 0,
+    readonly y = 0,
+    readonly z = 0,
+    readonly w = 1
+  ) {}
+
+  static fromPoint(point: DOMPointInit = {}) {
+    return new DOMPointReadOnlyPolyfill(point.x, point.y, point.z, point.w);
+  }
+
+  toJSON() {
+    return { x: this.x, y: this.y, z: this.z, w: this.w };
+  }
+}
+
+if (typeof globalThis.DOMPointReadOnly === "undefined") {
+  Object.assign(globalThis, { DOMPointReadOnly: DOMPointReadOnlyPolyfill });
+}
@@ -1,49 +1,49 @@
-interface XRSystem {
-  isSessionSupported(mode: string): Promise<boolean>
-  requestSession(mode: string, options?: any): Promise<XRSession>
+// WebXR modules missing from @types/webxr. The core API (sessions, spaces,
+// input, hit testing, anchors, planes, depth sensing, DOM overlay, hands)
+// comes from @types/webxr; these interfaces merge into its declarations.
+// Members are optional because browsers ship these modules separately, so
+// callers have to feature-detect them.
+
+// WebXR Lighting Estimation (optional "light-estimation" feature)
+type XRReflectionFormat = "srgba8" | "rgba16f"
+
+interface XRLightProbeInit {
+  reflectionFormat?: XRReflectionFormat
 }
 
-interface Navigator {
-  xr: XRSystem
+interface XRLightProbe extends EventTarget {
+  readonly probeSpace: XRSpace
 }
 
-interface XRSession extends EventTarget {
-  end(): Promise<void>
-  requestReferenceSpace(type: string): Promise<XRReferenceSpace>
-  requestHitTestSource?(options: any): Promise<XRHitTestSource>
-  requestAnimationFrame(callback: XRFrameRequestCallback): number
-  addEventListener(type: string, listener: EventListener): void
-  removeEventListener(type: string, listener: EventListener): void
+interface XRLightEstimate {
+  readonly sphericalHarmonicsCoefficients: Float32Array
+  readonly primaryLightDirection: DOMPointReadOnly
+  readonly primaryLightIntensity: DOMPointReadOnly
 }
 
-interface XRReferenceSpace extends EventTarget {
-  getOffsetReferenceSpace(originOffset: XRRigidTransform): XRReferenceSpace
+interface XRSession {
+  readonly preferredReflectionFormat?: XRReflectionFormat
+  requestLightProbe?(options?: XRLightProbeInit): Promise<XRLightProbe>
 }
 
 interface XRFrame {
-  getViewerPose(referenceSpace: XRReferenceSpace): XRViewerPose | null
-  getHitTestResults(hitTestSource: XRHitTestSource): XRHitTestResult[]
-  getReferenceSpace(): XRReferenceSpace
+  getLightEstimate?(lightProbe: XRLightProbe): XRLightEstimate | null
 }
 
-interface XRViewerPose {
-  transform: XRRigidTransform
+interface XRWebGLBinding {
+  getReflectionCubeMap?(lightProbe: XRLightProbe): WebGLTexture | null
 }
 
-interface XRRigidTransform {
-  matrix: Float32Array
-  position: DOMPointReadOnly
-  orientation: DOMPointReadOnly
+// Raw camera access (optional "camera-access" feature)
+interface XRCamera {
+  readonly width: number
+  readonly height: number
 }
 
-interface XRHitTestSource {}
-
-interface XRHitTestResult {
-  getPose(referenceSpace: XRReferenceSpace): XRPose | null
+interface XRView {
+  readonly camera?: XRCamera | null
 }
 
-interface XRPose {
-  transform: XRRigidTransform
+interface XRWebGLBinding {
+  getCameraImage?(camera: XRCamera): WebGLTexture | null
 }
-
-type XRFrameRequestCallback = (time: number, frame: XRFrame) => void 
\ No newline at end of file